@@ -11,6 +11,7 @@ import { Button } from "./ui/button";
 import { format } from "date-fns";
 import { CalendarIcon } from "lucide-react";
 import { cn } from "../lib/utils";
+import TagPicker from "./TagPicker";
 
 interface AddTaskModalProps {
   isOpen: boolean;
@@ -20,6 +21,7 @@ interface AddTaskModalProps {
   onTaskAdded: () => void;
   workspaceMembers?: User[];
   isFetchingMembers?: boolean;
+  workspaceName?: string | null;
 }
 
 const AddTaskModal: React.FC<AddTaskModalProps> = ({
@@ -30,6 +32,7 @@ const AddTaskModal: React.FC<AddTaskModalProps> = ({
   onTaskAdded,
   workspaceMembers = [],
   isFetchingMembers = false,
+  workspaceName,
 }) => {
   const [title, setTitle] = useState("");
   const [description, setDescription] = useState("");
@@ -37,6 +40,7 @@ const AddTaskModal: React.FC<AddTaskModalProps> = ({
   const [taskType, setTaskType] = useState<TaskType>(TaskType.TASK);
   const [dueDate, setDueDate] = useState<Date | undefined>(undefined);
   const [assigneeId, setAssigneeId] = useState("");
+  const [tagIds, setTagIds] = useState<string[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState("");
   const { getToken } = useAuth();
@@ -50,6 +54,7 @@ const AddTaskModal: React.FC<AddTaskModalProps> = ({
       setTaskType(TaskType.TASK);
       setDueDate(undefined);
       setAssigneeId("");
+      setTagIds([]);
       setError("");
     }
   }, [isOpen]);
@@ -82,6 +87,7 @@ const AddTaskModal: React.FC<AddTaskModalProps> = ({
         projectId,
         dueDate: dueDate ? format(dueDate, "yyyy-MM-dd") : undefined,
         assigneeId: actualUserId || undefined,
+        tagIds,
       };
 
       const apiUrl = getApiEndpoint("/api/tasks/create");
@@ -172,6 +178,19 @@ const AddTaskModal: React.FC<AddTaskModalProps> = ({
                 />
               </div>
 
+              <div>
+                <label className="block mb-1 text-sm font-medium">Tags</label>
+                <TagPicker
+                  workspaceName={workspaceName}
+                  selectedTagIds={tagIds}
+                  onAdd={(tag) => setTagIds((prev) => [...prev, tag.id])}
+                  onRemove={(tag) =>
+                    setTagIds((prev) => prev.filter((id) => id !== tag.id))
+                  }
+                  darkMode={darkMode}
+                />
+              </div>
+
               <div className="grid grid-cols-2 gap-4">
                 <div>
                   <label
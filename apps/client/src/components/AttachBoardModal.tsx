@@ -0,0 +1,200 @@
+import React, { useEffect, useState } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import axios from "axios";
+import { FiX } from "react-icons/fi";
+import {
+  useAttachWhiteboardExport,
+  useWorkspaceMilestones,
+  useWorkspaceTasks,
+} from "../utils/apiHooks";
+import { BoardExportFormat } from "../utils/taskTypes";
+
+interface AttachBoardModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  roomCode: string;
+  boardId: string | null;
+  onAttached: (fileName: string) => void;
+}
+
+type TargetKind = "task" | "milestone";
+
+const inputClass =
+  "w-full rounded border border-[#3C3C3C] bg-[#121212] px-3 py-2 text-sm focus:border-emerald-500 focus:outline-none";
+
+/** Render the board on the server and attach it to a task or milestone */
+const AttachBoardModal: React.FC<AttachBoardModalProps> = ({
+  isOpen,
+  onClose,
+  roomCode,
+  boardId,
+  onAttached,
+}) => {
+  const [targetKind, setTargetKind] = useState<TargetKind>("task");
+  const [targetId, setTargetId] = useState("");
+  const [search, setSearch] = useState("");
+  const [format, setFormat] = useState<BoardExportFormat>("PDF");
+  const [error, setError] = useState<string | null>(null);
+  const { data: taskPages } = useWorkspaceTasks(
+    isOpen && targetKind === "task" ? roomCode : null,
+    { q: search.trim() || undefined, sort: "updatedAt", limit: 20 },
+  );
+  const { data: milestones = [] } = useWorkspaceMilestones(
+    isOpen && targetKind === "milestone" ? roomCode : null,
+  );
+  const attach = useAttachWhiteboardExport(roomCode);
+
+  const tasks = taskPages?.pages.flatMap((page) => page.tasks) ?? [];
+
+  useEffect(() => {
+    if (!isOpen) {
+      setError(null);
+      setTargetId("");
+      setSearch("");
+    }
+  }, [isOpen]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!targetId) return;
+    setError(null);
+
+    try {
+      const boardExport = await attach.mutateAsync(
+        targetKind === "task"
+          ? { taskId: targetId, format, boardId }
+          : { milestoneId: targetId, format, boardId },
+      );
+      onAttached(boardExport.fileName);
+      onClose();
+    } catch (err) {
+      setError(
+        axios.isAxiosError(err) && err.response?.data?.error
+          ? err.response.data.error
+          : "Failed to attach whiteboard",
+      );
+    }
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 z-[60] flex items-center justify-center"
+        >
+          <div
+            className="absolute inset-0 bg-black/50 backdrop-blur-sm"
+            onClick={onClose}
+          />
+          <motion.form
+            initial={{ y: -10, opacity: 0 }}
+            animate={{ y: 0, opacity: 1 }}
+            exit={{ y: -10, opacity: 0 }}
+            onSubmit={handleSubmit}
+            className="relative z-10 w-full max-w-md rounded-lg border border-[#2C2C2C] bg-[#1C1C1C] p-5 text-gray-200 shadow-xl"
+          >
+            <div className="mb-4 flex items-center justify-between">
+              <h2 className="text-lg font-semibold">Attach whiteboard</h2>
+              <button
+                type="button"
+                onClick={onClose}
+                className="text-gray-400 hover:text-white"
+              >
+                <FiX />
+              </button>
+            </div>
+
+            <div className="mb-3 flex gap-2">
+              {(["task", "milestone"] as const).map((kind) => (
+                <button
+                  key={kind}
+                  type="button"
+                  onClick={() => {
+                    setTargetKind(kind);
+                    setTargetId("");
+                  }}
+                  className={`flex-1 rounded-md px-3 py-1.5 text-sm capitalize ${targetKind === kind ? "bg-emerald-500/20 text-emerald-400" : "bg-[#2C2C2C] text-gray-300 hover:bg-[#3C3C3C]"}`}
+                >
+                  {kind}
+                </button>
+              ))}
+            </div>
+
+            {targetKind === "task" ? (
+              <>
+                <input
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                  placeholder="Search tasks..."
+                  className={`${inputClass} mb-3`}
+                />
+                <select
+                  value={targetId}
+                  onChange={(e) => setTargetId(e.target.value)}
+                  className={`${inputClass} mb-3`}
+                  required
+                >
+                  <option value="">Select a task</option>
+                  {tasks.map((task) => (
+                    <option key={task.id} value={task.id}>
+                      {task.key ? `${task.key} ` : ""}
+                      {task.title}
+                    </option>
+                  ))}
+                </select>
+              </>
+            ) : (
+              <select
+                value={targetId}
+                onChange={(e) => setTargetId(e.target.value)}
+                className={`${inputClass} mb-3`}
+                required
+              >
+                <option value="">Select a milestone</option>
+                {milestones.map((milestone) => (
+                  <option key={milestone.id} value={milestone.id}>
+                    {milestone.title}
+                  </option>
+                ))}
+              </select>
+            )}
+
+            <label className="mb-1 block text-sm text-gray-400">Format</label>
+            <select
+              value={format}
+              onChange={(e) => setFormat(e.target.value as BoardExportFormat)}
+              className={`${inputClass} mb-4`}
+            >
+              <option value="PDF">PDF</option>
+              <option value="SVG">SVG</option>
+            </select>
+
+            {error && <p className="mb-3 text-sm text-red-400">{error}</p>}
+
+            <div className="flex justify-end gap-2">
+              <button
+                type="button"
+                onClick={onClose}
+                className="rounded-md bg-[#2C2C2C] px-4 py-2 text-sm hover:bg-[#3C3C3C]"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={!targetId || attach.isPending}
+                className="rounded-md bg-emerald-600 px-4 py-2 text-sm text-white hover:bg-emerald-700 disabled:opacity-50"
+              >
+                {attach.isPending ? "Attaching..." : "Attach"}
+              </button>
+            </div>
+          </motion.form>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
+
+export default AttachBoardModal;
@@ -0,0 +1,218 @@
+import React, { useEffect, useState } from "react";
+import axios from "axios";
+import { useAuth, useUser } from "@clerk/clerk-react";
+import { FiDownload, FiFile, FiTrash2, FiX } from "react-icons/fi";
+import api from "../utils/api";
+import { useAttachmentFile, useDeleteAttachment } from "../utils/apiHooks";
+import { formatFileSize } from "../utils/attachments";
+import { downloadBlob } from "../utils/whiteboardExport";
+import { Attachment } from "../utils/taskTypes";
+
+// An object URL for a blob, released when the blob changes or on unmount
+const useObjectUrl = (blob: Blob | undefined) => {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!blob) return;
+    const objectUrl = URL.createObjectURL(blob);
+    setUrl(objectUrl);
+    return () => {
+      URL.revokeObjectURL(objectUrl);
+      setUrl(null);
+    };
+  }, [blob]);
+
+  return url;
+};
+
+/** The full-size image over the page; click anywhere or Escape to close */
+const ImageViewer: React.FC<{
+  attachment: Attachment;
+  onClose: () => void;
+}> = ({ attachment, onClose }) => {
+  const { data } = useAttachmentFile(attachment);
+  const url = useObjectUrl(data);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [onClose]);
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 p-6"
+      onClick={onClose}
+    >
+      <button
+        className="absolute right-4 top-4 text-gray-300 hover:text-white"
+        aria-label="Close preview"
+      >
+        <FiX size={20} />
+      </button>
+      {url ? (
+        <img
+          src={url}
+          alt={attachment.fileName}
+          className="max-h-full max-w-full rounded object-contain"
+        />
+      ) : (
+        <span className="text-sm text-gray-300">Loading…</span>
+      )}
+    </div>
+  );
+};
+
+/** A clickable preview, from the thumbnail when there is one */
+const ImagePreview: React.FC<{
+  attachment: Attachment;
+  darkMode: boolean;
+  onOpen: () => void;
+}> = ({ attachment, darkMode, onOpen }) => {
+  const { data, isError } = useAttachmentFile(attachment, {
+    thumbnail: attachment.hasThumbnail,
+  });
+  const url = useObjectUrl(data);
+
+  return (
+    <button
+      onClick={onOpen}
+      className={`flex h-20 w-28 shrink-0 items-center justify-center overflow-hidden rounded border ${
+        darkMode ? "border-[#3C3C3C] bg-[#1C1C1C]" : "border-gray-200 bg-white"
+      }`}
+      title={attachment.fileName}
+      aria-label={`Preview ${attachment.fileName}`}
+    >
+      {url ? (
+        <img
+          src={url}
+          alt={attachment.fileName}
+          className="h-full w-full object-cover"
+        />
+      ) : (
+        <FiFile className={isError ? "text-red-400" : "text-gray-500"} />
+      )}
+    </button>
+  );
+};
+
+interface AttachmentListProps {
+  attachments: Attachment[];
+  darkMode?: boolean;
+  // Chat files go away with their message, so only task lists offer this
+  allowDelete?: boolean;
+}
+
+/**
+ * Files attached to a task or chat message. Images show as previews that
+ * open full size; every file can be downloaded, and the uploader can
+ * remove it where allowed.
+ */
+const AttachmentList: React.FC<AttachmentListProps> = ({
+  attachments,
+  darkMode = false,
+  allowDelete = true,
+}) => {
+  const [viewing, setViewing] = useState<Attachment | null>(null);
+  const [error, setError] = useState("");
+  const { getToken } = useAuth();
+  const { user } = useUser();
+  const currentEmail = user?.emailAddresses?.[0]?.emailAddress;
+  const deleteAttachment = useDeleteAttachment();
+
+  if (attachments.length === 0) return null;
+
+  const handleDownload = async (attachment: Attachment) => {
+    try {
+      setError("");
+      const token = await getToken();
+      const response = await axios.get<Blob>(
+        api.getApiEndpoint(`api/attachments/${attachment.id}`),
+        {
+          headers: { Authorization: `Bearer ${token}` },
+          responseType: "blob",
+        },
+      );
+      downloadBlob(response.data, attachment.fileName);
+    } catch (error) {
+      console.error("Failed to download file:", error);
+      setError("Failed to download file");
+    }
+  };
+
+  const handleDelete = async (attachment: Attachment) => {
+    if (!window.confirm(`Remove ${attachment.fileName}?`)) return;
+    try {
+      setError("");
+      await deleteAttachment.mutateAsync(attachment);
+    } catch (error) {
+      console.error("Failed to delete file:", error);
+      setError(
+        axios.isAxiosError(error)
+          ? error.response?.data?.error || "Failed to delete file"
+          : "Failed to delete file",
+      );
+    }
+  };
+
+  const mutedText = darkMode ? "text-gray-500" : "text-gray-400";
+  const images = attachments.filter((attachment) => attachment.isImage);
+  const files = attachments.filter((attachment) => !attachment.isImage);
+
+  return (
+    <div className="mt-1 space-y-1">
+      {images.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {images.map((attachment) => (
+            <ImagePreview
+              key={attachment.id}
+              attachment={attachment}
+              darkMode={darkMode}
+              onOpen={() => setViewing(attachment)}
+            />
+          ))}
+        </div>
+      )}
+      <ul className="space-y-1">
+        {[...files, ...images].map((attachment) => (
+          <li
+            key={attachment.id}
+            className={`flex items-center gap-2 text-xs ${darkMode ? "text-gray-200" : "text-gray-700"}`}
+          >
+            <FiFile className={`shrink-0 ${mutedText}`} />
+            <span className="flex-1 truncate" title={attachment.fileName}>
+              {attachment.fileName}
+            </span>
+            <span className={mutedText}>{formatFileSize(attachment.size)}</span>
+            <button
+              onClick={() => handleDownload(attachment)}
+              className={`${mutedText} hover:text-emerald-500`}
+              aria-label={`Download ${attachment.fileName}`}
+            >
+              <FiDownload />
+            </button>
+            {allowDelete &&
+              !!currentEmail &&
+              attachment.uploader?.email === currentEmail && (
+                <button
+                  onClick={() => handleDelete(attachment)}
+                  className={`${mutedText} hover:text-red-500`}
+                  aria-label={`Remove ${attachment.fileName}`}
+                >
+                  <FiTrash2 />
+                </button>
+              )}
+          </li>
+        ))}
+      </ul>
+      {error && <p className="text-xs text-red-500">{error}</p>}
+      {viewing && (
+        <ImageViewer attachment={viewing} onClose={() => setViewing(null)} />
+      )}
+    </div>
+  );
+};
+
+export default AttachmentList;
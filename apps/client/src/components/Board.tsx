@@ -1,5 +1,11 @@
 import React, { useState } from "react";
-import { FiPlus, FiTrash } from "react-icons/fi";
+import {
+  FiChevronDown,
+  FiChevronRight,
+  FiLock,
+  FiPlus,
+  FiTrash,
+} from "react-icons/fi";
 import { motion, AnimatePresence } from "framer-motion"; // Import AnimatePresence
 import { FaFire } from "react-icons/fa";
 import { Task, TaskStatus } from "../utils/taskTypes";
@@ -13,6 +19,9 @@ interface BoardProps {
   onTaskClick: (taskId: string) => void;
   onAddTaskClick: () => void;
   darkMode: boolean;
+  hiddenTaskIds?: Set<string>;
+  collapsedTaskIds?: Set<string>;
+  onToggleCollapse?: (taskId: string) => void;
 }
 
 /** Board Component */
@@ -24,6 +33,9 @@ const Board: React.FC<BoardProps> = ({
   onTaskClick,
   onAddTaskClick,
   darkMode,
+  hiddenTaskIds,
+  collapsedTaskIds,
+  onToggleCollapse,
 }) => {
   return (
     <div
@@ -42,6 +54,9 @@ const Board: React.FC<BoardProps> = ({
         onAddTaskClick={onAddTaskClick}
         showAddButton={true}
         darkMode={darkMode}
+        hiddenTaskIds={hiddenTaskIds}
+        collapsedTaskIds={collapsedTaskIds}
+        onToggleCollapse={onToggleCollapse}
       />
       <Column
         title="IN PROGRESS"
@@ -52,6 +67,9 @@ const Board: React.FC<BoardProps> = ({
         onTaskMoved={onTaskMoved}
         onTaskClick={onTaskClick}
         darkMode={darkMode}
+        hiddenTaskIds={hiddenTaskIds}
+        collapsedTaskIds={collapsedTaskIds}
+        onToggleCollapse={onToggleCollapse}
       />
       <Column
         title="DONE"
@@ -62,6 +80,9 @@ const Board: React.FC<BoardProps> = ({
         onTaskMoved={onTaskMoved}
         onTaskClick={onTaskClick}
         darkMode={darkMode}
+        hiddenTaskIds={hiddenTaskIds}
+        collapsedTaskIds={collapsedTaskIds}
+        onToggleCollapse={onToggleCollapse}
       />
       <Column
         title="ARCHIVED"
@@ -72,6 +93,9 @@ const Board: React.FC<BoardProps> = ({
         onTaskMoved={onTaskMoved}
         onTaskClick={onTaskClick}
         darkMode={darkMode}
+        hiddenTaskIds={hiddenTaskIds}
+        collapsedTaskIds={collapsedTaskIds}
+        onToggleCollapse={onToggleCollapse}
       />
       <div className="ml-auto">
         <BurnBarrel
@@ -96,6 +120,9 @@ interface ColumnProps {
   onAddTaskClick?: () => void;
   showAddButton?: boolean;
   darkMode: boolean;
+  hiddenTaskIds?: Set<string>;
+  collapsedTaskIds?: Set<string>;
+  onToggleCollapse?: (taskId: string) => void;
 }
 
 /** Column Component */
@@ -110,6 +137,9 @@ const Column: React.FC<ColumnProps> = ({
   onAddTaskClick,
   showAddButton = false,
   darkMode,
+  hiddenTaskIds,
+  collapsedTaskIds,
+  onToggleCollapse,
 }) => {
   const [active, setActive] = useState(false);
 
@@ -205,7 +235,10 @@ const Column: React.FC<ColumnProps> = ({
     ) as HTMLElement[];
   };
 
-  const filteredTasks = tasks ? tasks.filter((t) => t.status === column) : [];
+  // Subtasks of collapsed parents stay in state but are not rendered
+  const filteredTasks = tasks
+    ? tasks.filter((t) => t.status === column && !hiddenTaskIds?.has(t.id))
+    : [];
 
   return (
     <div className="w-72 shrink-0">
@@ -239,6 +272,8 @@ const Column: React.FC<ColumnProps> = ({
               handleDragStart={handleDragStart}
               onClick={() => onTaskClick(t.id)}
               darkMode={darkMode}
+              isCollapsed={collapsedTaskIds?.has(t.id) ?? false}
+              onToggleCollapse={onToggleCollapse}
             />
           ))}
         </AnimatePresence>
@@ -267,6 +302,8 @@ interface CardProps {
   handleDragStart: (e: React.DragEvent, task: Task) => void;
   onClick: () => void;
   darkMode: boolean;
+  isCollapsed?: boolean;
+  onToggleCollapse?: (taskId: string) => void;
 }
 
 /** Card Component */
@@ -275,7 +312,13 @@ const Card: React.FC<CardProps> = ({
   handleDragStart,
   onClick,
   darkMode,
+  isCollapsed = false,
+  onToggleCollapse,
 }) => {
+  const childCount = task.rollup?.childCount ?? 0;
+  const blockerCount = task.blockedBy?.length ?? 0;
+  const isBlocked = blockerCount > 0 && task.status !== TaskStatus.DONE;
+
   return (
     <>
       <DropIndicator beforeId={task.id} column={task.status} />
@@ -300,7 +343,88 @@ const Card: React.FC<CardProps> = ({
               : "border-gray-300 bg-white text-gray-900 hover:bg-gray-50"
           }`}
         >
-          <p className="text-sm">{task.title}</p>
+          <div className="flex items-start gap-1">
+            {childCount > 0 && onToggleCollapse && (
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onToggleCollapse(task.id);
+                }}
+                className={`mt-0.5 shrink-0 ${
+                  darkMode
+                    ? "text-neutral-400 hover:text-neutral-100"
+                    : "text-gray-500 hover:text-gray-900"
+                }`}
+                aria-label={isCollapsed ? "Expand subtasks" : "Collapse subtasks"}
+              >
+                {isCollapsed ? <FiChevronRight /> : <FiChevronDown />}
+              </button>
+            )}
+            <div>
+              {task.key && (
+                <span
+                  className={`block font-mono text-[10px] ${
+                    darkMode ? "text-neutral-400" : "text-gray-500"
+                  }`}
+                >
+                  {task.key}
+                </span>
+              )}
+              <p className="text-sm">{task.title}</p>
+            </div>
+          </div>
+          {isBlocked && (
+            <span
+              className={`mt-2 inline-flex items-center gap-1 rounded px-1.5 text-[10px] ${
+                darkMode
+                  ? "bg-red-900/40 text-red-300"
+                  : "bg-red-50 text-red-600"
+              }`}
+              title="Blocked by tasks that are not done yet"
+            >
+              <FiLock className="h-3 w-3" /> Blocked
+              {blockerCount > 1 && ` by ${blockerCount}`}
+            </span>
+          )}
+          {task.tags && task.tags.length > 0 && (
+            <div className="mt-2 flex flex-wrap gap-1">
+              {task.tags.map(({ tag }) => (
+                <span
+                  key={tag.id}
+                  className="rounded-full px-1.5 text-[10px] text-white"
+                  style={{ backgroundColor: tag.color || "#10b981" }}
+                >
+                  {tag.name}
+                </span>
+              ))}
+            </div>
+          )}
+          {childCount > 0 && task.rollup && (
+            <div className="mt-2">
+              <div
+                className={`flex justify-between text-[10px] ${
+                  darkMode ? "text-neutral-400" : "text-gray-500"
+                }`}
+              >
+                <span>
+                  {task.type} · {childCount} subtask{childCount !== 1 ? "s" : ""}
+                </span>
+                <span>
+                  {task.rollup.progress}% · {task.rollup.storyPoints} pts
+                </span>
+              </div>
+              <div
+                className={`mt-1 h-1 w-full rounded ${
+                  darkMode ? "bg-neutral-700" : "bg-gray-200"
+                }`}
+              >
+                <div
+                  className="h-1 rounded bg-emerald-500"
+                  style={{ width: `${task.rollup.progress}%` }}
+                />
+              </div>
+            </div>
+          )}
         </div>
       </motion.div>
     </>
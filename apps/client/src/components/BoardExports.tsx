@@ -0,0 +1,76 @@
+import React from "react";
+import axios from "axios";
+import { useAuth } from "@clerk/clerk-react";
+import { FiDownload } from "react-icons/fi";
+import api from "../utils/api";
+import { BoardExportTarget, useWhiteboardExports } from "../utils/apiHooks";
+import { downloadBlob } from "../utils/whiteboardExport";
+import { WhiteboardExport } from "../utils/taskTypes";
+
+interface BoardExportsProps {
+  target: BoardExportTarget;
+  darkMode?: boolean;
+}
+
+/** Whiteboards attached to a task or milestone, each downloadable */
+const BoardExports: React.FC<BoardExportsProps> = ({
+  target,
+  darkMode = false,
+}) => {
+  const { data: exports = [] } = useWhiteboardExports(target);
+  const { getToken } = useAuth();
+
+  const handleDownload = async (boardExport: WhiteboardExport) => {
+    try {
+      const token = await getToken();
+      const response = await axios.get<Blob>(
+        api.getApiEndpoint(`api/whiteboards/exports/${boardExport.id}`),
+        {
+          headers: { Authorization: `Bearer ${token}` },
+          responseType: "blob",
+        },
+      );
+      downloadBlob(response.data, boardExport.fileName);
+    } catch (error) {
+      console.error("Failed to download whiteboard:", error);
+    }
+  };
+
+  if (exports.length === 0) return null;
+
+  const mutedText = darkMode ? "text-gray-500" : "text-gray-400";
+
+  return (
+    <div className="mb-3">
+      <label
+        className={`block mb-1 text-xs font-medium ${darkMode ? "text-gray-400" : "text-gray-500"}`}
+      >
+        Whiteboards
+      </label>
+      <ul className="space-y-1">
+        {exports.map((boardExport) => (
+          <li
+            key={boardExport.id}
+            className={`flex items-center gap-2 text-xs ${darkMode ? "text-gray-200" : "text-gray-700"}`}
+          >
+            <span className="font-mono">{boardExport.format}</span>
+            <span className="flex-1 truncate">{boardExport.fileName}</span>
+            <span className={mutedText}>
+              {boardExport.createdBy.name || boardExport.createdBy.email},{" "}
+              {new Date(boardExport.createdAt).toLocaleDateString()}
+            </span>
+            <button
+              onClick={() => handleDownload(boardExport)}
+              className={`${mutedText} hover:text-emerald-500`}
+              aria-label="Download whiteboard"
+            >
+              <FiDownload />
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default BoardExports;
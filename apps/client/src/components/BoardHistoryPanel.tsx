@@ -0,0 +1,339 @@
+import React, { useState } from "react";
+import axios from "axios";
+import { FiCheck, FiEdit2, FiTrash2, FiX } from "react-icons/fi";
+import {
+  useWhiteboardMutations,
+  useWhiteboards,
+  useWhiteboardSnapshotDiff,
+  useWhiteboardSnapshotMutations,
+  useWhiteboardSnapshots,
+} from "../utils/apiHooks";
+import { BoardDiff } from "../utils/taskTypes";
+
+interface BoardHistoryPanelProps {
+  roomCode: string;
+  boardId: string | null;
+  onSelectBoard: (boardId: string | null) => void;
+  onClose: () => void;
+  onNotice: (message: string) => void;
+}
+
+const inputClass =
+  "w-full rounded border border-[#3C3C3C] bg-[#121212] px-2 py-1 text-sm text-gray-200 focus:border-emerald-500 focus:outline-none";
+
+const errorMessage = (err: unknown, fallback: string) =>
+  axios.isAxiosError(err) && err.response?.data?.error
+    ? err.response.data.error
+    : fallback;
+
+const DiffSummary: React.FC<{ diff: BoardDiff }> = ({ diff }) => {
+  const { added, removed, changed } = diff.objects;
+  const rows = [
+    ...added.map((object) => ({ ...object, change: "Added" })),
+    ...changed.map((object) => ({ ...object, change: "Edited" })),
+    ...removed.map((object) => ({ ...object, change: "Removed" })),
+  ];
+  const changeColor: Record<string, string> = {
+    Added: "text-emerald-400",
+    Edited: "text-amber-400",
+    Removed: "text-red-400",
+  };
+
+  if (rows.length === 0 && !diff.strokes.added && !diff.strokes.removed) {
+    return (
+      <p className="text-xs text-gray-500">No changes since this snapshot</p>
+    );
+  }
+
+  return (
+    <ul className="space-y-0.5 text-xs">
+      {rows.map((row) => (
+        <li key={`${row.change}-${row.id}`} className="truncate">
+          <span className={changeColor[row.change]}>{row.change}</span>{" "}
+          <span className="text-gray-300">{row.label}</span>
+        </li>
+      ))}
+      {diff.strokes.added > 0 && (
+        <li className="text-emerald-400">
+          {diff.strokes.added} stroke{diff.strokes.added === 1 ? "" : "s"} drawn
+        </li>
+      )}
+      {diff.strokes.removed > 0 && (
+        <li className="text-red-400">
+          {diff.strokes.removed} stroke
+          {diff.strokes.removed === 1 ? "" : "s"} gone
+        </li>
+      )}
+    </ul>
+  );
+};
+
+/** Switch between a room's boards and save, compare or restore snapshots */
+const BoardHistoryPanel: React.FC<BoardHistoryPanelProps> = ({
+  roomCode,
+  boardId,
+  onSelectBoard,
+  onClose,
+  onNotice,
+}) => {
+  const [newBoardName, setNewBoardName] = useState("");
+  const [renaming, setRenaming] = useState<{ id: string; name: string } | null>(
+    null,
+  );
+  const [snapshotName, setSnapshotName] = useState("");
+  const [comparingId, setComparingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const { data: boards = [] } = useWhiteboards(roomCode);
+  const { data: snapshots = [], isLoading: snapshotsLoading } =
+    useWhiteboardSnapshots(roomCode, boardId);
+  const { data: diff, isFetching: diffLoading } = useWhiteboardSnapshotDiff(
+    roomCode,
+    comparingId,
+  );
+  const { createBoard, renameBoard, deleteBoard } =
+    useWhiteboardMutations(roomCode);
+  const { createSnapshot, restoreSnapshot } =
+    useWhiteboardSnapshotMutations(roomCode);
+
+  const run = async (action: () => Promise<void>, fallback: string) => {
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(errorMessage(err, fallback));
+    }
+  };
+
+  const handleCreateBoard = (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = newBoardName.trim();
+    if (!name) return;
+    run(async () => {
+      const board = await createBoard.mutateAsync(name);
+      setNewBoardName("");
+      onSelectBoard(board.id);
+    }, "Failed to create board");
+  };
+
+  const handleRename = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!renaming?.name.trim()) return;
+    run(async () => {
+      await renameBoard.mutateAsync({
+        boardId: renaming.id,
+        name: renaming.name.trim(),
+      });
+      setRenaming(null);
+    }, "Failed to rename board");
+  };
+
+  const handleDelete = (id: string, name: string) => {
+    if (!window.confirm(`Delete "${name}" and all of its snapshots?`)) return;
+    run(async () => {
+      await deleteBoard.mutateAsync(id);
+      if (id === boardId) onSelectBoard(null);
+    }, "Failed to delete board");
+  };
+
+  const handleSnapshot = (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = snapshotName.trim();
+    if (!name) return;
+    run(async () => {
+      await createSnapshot.mutateAsync({ name, boardId });
+      setSnapshotName("");
+    }, "Failed to save snapshot");
+  };
+
+  const handleRestore = (id: string, name: string) => {
+    if (
+      !window.confirm(
+        `Restore "${name}"? The board will change for everyone viewing it.`,
+      )
+    ) {
+      return;
+    }
+    run(async () => {
+      await restoreSnapshot.mutateAsync(id);
+      setComparingId(null);
+      onNotice(`Restored "${name}"`);
+    }, "Failed to restore snapshot");
+  };
+
+  const boardButtonClass = (active: boolean) =>
+    `flex-1 truncate rounded px-2 py-1 text-left ${active ? "bg-emerald-500/20 text-emerald-400" : "text-gray-300 hover:bg-[#2C2C2C]"}`;
+
+  return (
+    <div className="absolute top-3 right-3 bottom-3 z-10 flex w-72 flex-col overflow-y-auto rounded-md border border-[#2C2C2C] bg-[#1C1C1C]/95 p-3 text-sm text-gray-200 shadow-xl">
+      <div className="mb-2 flex items-center justify-between">
+        <h3 className="font-semibold">Boards</h3>
+        <button
+          onClick={onClose}
+          className="text-gray-400 hover:text-white"
+          title="Close"
+        >
+          <FiX />
+        </button>
+      </div>
+
+      {error && (
+        <div className="mb-2 rounded bg-red-500/20 p-2 text-xs text-red-400">
+          {error}
+        </div>
+      )}
+
+      <ul className="mb-2 space-y-1">
+        <li className="flex">
+          <button
+            onClick={() => onSelectBoard(null)}
+            className={boardButtonClass(boardId === null)}
+          >
+            Main board
+          </button>
+        </li>
+        {boards.map((board) =>
+          renaming?.id === board.id ? (
+            <li key={board.id}>
+              <form onSubmit={handleRename} className="flex gap-1">
+                <input
+                  autoFocus
+                  value={renaming.name}
+                  onChange={(e) =>
+                    setRenaming({ ...renaming, name: e.target.value })
+                  }
+                  maxLength={80}
+                  className={inputClass}
+                />
+                <button
+                  type="submit"
+                  className="p-1 text-emerald-400"
+                  title="Save name"
+                >
+                  <FiCheck />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setRenaming(null)}
+                  className="p-1 text-gray-400"
+                  title="Cancel"
+                >
+                  <FiX />
+                </button>
+              </form>
+            </li>
+          ) : (
+            <li key={board.id} className="group flex items-center gap-1">
+              <button
+                onClick={() => onSelectBoard(board.id)}
+                className={boardButtonClass(boardId === board.id)}
+              >
+                {board.name}
+              </button>
+              <button
+                onClick={() => setRenaming({ id: board.id, name: board.name })}
+                className="p-1 text-gray-500 opacity-0 group-hover:opacity-100 hover:text-white"
+                title="Rename"
+              >
+                <FiEdit2 size={12} />
+              </button>
+              <button
+                onClick={() => handleDelete(board.id, board.name)}
+                className="p-1 text-gray-500 opacity-0 group-hover:opacity-100 hover:text-red-400"
+                title="Delete"
+              >
+                <FiTrash2 size={12} />
+              </button>
+            </li>
+          ),
+        )}
+      </ul>
+
+      <form onSubmit={handleCreateBoard} className="mb-4 flex gap-1">
+        <input
+          value={newBoardName}
+          onChange={(e) => setNewBoardName(e.target.value)}
+          placeholder="New board name"
+          maxLength={80}
+          className={inputClass}
+        />
+        <button
+          type="submit"
+          disabled={!newBoardName.trim() || createBoard.isPending}
+          className="rounded bg-emerald-500/20 px-2 text-emerald-400 hover:bg-emerald-500/30 disabled:opacity-40"
+        >
+          Add
+        </button>
+      </form>
+
+      <h3 className="mb-2 font-semibold">Snapshots</h3>
+      <form onSubmit={handleSnapshot} className="mb-2 flex gap-1">
+        <input
+          value={snapshotName}
+          onChange={(e) => setSnapshotName(e.target.value)}
+          placeholder="Snapshot name"
+          maxLength={80}
+          className={inputClass}
+        />
+        <button
+          type="submit"
+          disabled={!snapshotName.trim() || createSnapshot.isPending}
+          className="rounded bg-emerald-500/20 px-2 text-emerald-400 hover:bg-emerald-500/30 disabled:opacity-40"
+        >
+          Save
+        </button>
+      </form>
+
+      {snapshotsLoading ? (
+        <p className="text-xs text-gray-500">Loading snapshots...</p>
+      ) : snapshots.length === 0 ? (
+        <p className="text-xs text-gray-500">No snapshots of this board yet</p>
+      ) : (
+        <ul className="space-y-2">
+          {snapshots.map((snapshot) => (
+            <li
+              key={snapshot.id}
+              className="rounded border border-[#2C2C2C] p-2"
+            >
+              <div className="truncate font-medium">{snapshot.name}</div>
+              <div className="text-xs text-gray-500">
+                {new Date(snapshot.createdAt).toLocaleString()} by{" "}
+                {snapshot.createdBy.name || snapshot.createdBy.email}
+              </div>
+              <div className="mt-1 flex gap-2 text-xs">
+                <button
+                  onClick={() =>
+                    setComparingId(
+                      comparingId === snapshot.id ? null : snapshot.id,
+                    )
+                  }
+                  className="text-gray-300 hover:text-white"
+                >
+                  {comparingId === snapshot.id ? "Hide changes" : "Compare"}
+                </button>
+                <button
+                  onClick={() => handleRestore(snapshot.id, snapshot.name)}
+                  disabled={restoreSnapshot.isPending}
+                  className="text-emerald-400 hover:text-emerald-300 disabled:opacity-40"
+                >
+                  Restore
+                </button>
+              </div>
+              {comparingId === snapshot.id && (
+                <div className="mt-2 border-t border-[#2C2C2C] pt-2">
+                  {diffLoading || !diff ? (
+                    <p className="text-xs text-gray-500">Comparing...</p>
+                  ) : (
+                    <DiffSummary diff={diff} />
+                  )}
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default BoardHistoryPanel;
@@ -0,0 +1,83 @@
+import React from "react";
+import { worldToScreen, View } from "../utils/whiteboardView";
+
+// Someone in the room, as announced by the server
+export interface RoomUser {
+  userId: string;
+  name: string;
+  color: string;
+}
+
+// Another viewer's pointer, in world coordinates
+export interface RemoteCursor extends RoomUser {
+  x: number;
+  y: number;
+}
+
+const initials = (name: string) =>
+  name
+    .split(/[\s@.]+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map((part) => part[0].toUpperCase())
+    .join("");
+
+/** Avatars of everyone currently viewing the board */
+export const PresenceStrip: React.FC<{
+  users: RoomUser[];
+  currentUserId: string;
+}> = ({ users, currentUserId }) => {
+  if (users.length === 0) return null;
+
+  return (
+    <div className="absolute top-3 left-3 flex items-center gap-1 rounded-full bg-[#1F1F1F]/90 px-2 py-1">
+      {users.map((user) => (
+        <div
+          key={user.userId}
+          title={
+            user.userId === currentUserId ? `${user.name} (you)` : user.name
+          }
+          style={{ backgroundColor: user.color }}
+          className={`flex h-7 w-7 items-center justify-center rounded-full text-xs font-semibold text-gray-900 ${user.userId === currentUserId ? "ring-2 ring-white/70" : ""}`}
+        >
+          {initials(user.name)}
+        </div>
+      ))}
+      <span className="ml-1 text-xs text-gray-400">{users.length} viewing</span>
+    </div>
+  );
+};
+
+/** Pointers of the other viewers, each labeled with their name */
+export const RemoteCursors: React.FC<{
+  cursors: RemoteCursor[];
+  view: View;
+}> = ({ cursors, view }) => (
+  <>
+    {cursors.map((cursor) => {
+      const { x, y } = worldToScreen(view, cursor.x, cursor.y);
+      return (
+        <div
+          key={cursor.userId}
+          style={{ transform: `translate(${x}px, ${y}px)` }}
+          className="pointer-events-none absolute top-0 left-0 transition-transform duration-75 ease-linear"
+        >
+          <svg width="16" height="16" viewBox="0 0 16 16">
+            <path
+              d="M1 1 L1 13 L4.5 9.5 L7 15 L9 14 L6.5 8.5 L11.5 8.5 Z"
+              fill={cursor.color}
+              stroke="#121212"
+              strokeWidth="1"
+            />
+          </svg>
+          <span
+            style={{ backgroundColor: cursor.color }}
+            className="ml-3 whitespace-nowrap rounded px-1.5 py-0.5 text-xs font-medium text-gray-900"
+          >
+            {cursor.name}
+          </span>
+        </div>
+      );
+    })}
+  </>
+);
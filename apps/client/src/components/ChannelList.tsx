@@ -0,0 +1,147 @@
+import { useState } from "react";
+import { Hash, Lock, Plus, User } from "lucide-react";
+import { useChatChannels } from "../utils/apiHooks";
+import { PresenceMap } from "../utils/presence";
+import ChatChannelModal, { ChatChannelModalMode } from "./ChatChannelModal";
+import { PresenceDot } from "./PresenceDot";
+
+interface ChannelListProps {
+  workspaceName: string;
+  userEmail: string;
+  // Null is the workspace-wide chat
+  selectedChannelId: string | null;
+  isActive: boolean;
+  darkMode?: boolean;
+  presence?: PresenceMap;
+  onSelect: (channelId: string | null) => void;
+}
+
+/** The workspace chat, private channels and direct messages, with unread counts */
+export function ChannelList({
+  workspaceName,
+  userEmail,
+  selectedChannelId,
+  isActive,
+  darkMode = true,
+  presence = {},
+  onSelect,
+}: ChannelListProps) {
+  const [modalMode, setModalMode] = useState<ChatChannelModalMode | null>(null);
+  const { data } = useChatChannels(workspaceName);
+  const channels = data?.channels ?? [];
+
+  const privateChannels = channels.filter((c) => c.kind === "PRIVATE");
+  const directChannels = channels.filter((c) => c.kind === "DIRECT");
+
+  const itemClass = (active: boolean) =>
+    `flex w-full items-center gap-2 rounded-md px-3 py-1.5 text-left text-sm transition-colors ${
+      active
+        ? "bg-emerald-500/20 text-emerald-500"
+        : darkMode
+          ? "text-gray-300 hover:bg-[#2C2C2C]"
+          : "text-gray-700 hover:bg-gray-100"
+    }`;
+
+  const headingClass = `flex items-center justify-between px-3 pt-2 text-xs font-semibold uppercase tracking-wide ${
+    darkMode ? "text-gray-500" : "text-gray-400"
+  }`;
+
+  const addButtonClass = darkMode
+    ? "text-gray-500 hover:text-white"
+    : "text-gray-400 hover:text-gray-900";
+
+  const unreadBadge = (count: number) =>
+    count > 0 && (
+      <span className="ml-auto rounded-full bg-emerald-500 px-1.5 text-xs font-semibold text-white">
+        {count > 99 ? "99+" : count}
+      </span>
+    );
+
+  return (
+    <div className="ml-3 space-y-0.5">
+      <button
+        onClick={() => onSelect(null)}
+        className={itemClass(isActive && selectedChannelId === null)}
+      >
+        <Hash className="h-3.5 w-3.5 shrink-0" />
+        <span
+          className={`truncate ${data?.general.unreadCount ? "font-semibold" : ""}`}
+        >
+          general
+        </span>
+        {unreadBadge(data?.general.unreadCount ?? 0)}
+      </button>
+
+      <div className={headingClass}>
+        <span>Channels</span>
+        <button
+          onClick={() => setModalMode("channel")}
+          className={addButtonClass}
+          title="New private channel"
+        >
+          <Plus className="h-3.5 w-3.5" />
+        </button>
+      </div>
+      {privateChannels.map((channel) => (
+        <button
+          key={channel.id}
+          onClick={() => onSelect(channel.id)}
+          className={itemClass(isActive && selectedChannelId === channel.id)}
+        >
+          <Lock className="h-3.5 w-3.5 shrink-0" />
+          <span
+            className={`truncate ${channel.unreadCount > 0 ? "font-semibold" : ""}`}
+          >
+            {channel.name}
+          </span>
+          {unreadBadge(channel.unreadCount)}
+        </button>
+      ))}
+
+      <div className={headingClass}>
+        <span>Direct messages</span>
+        <button
+          onClick={() => setModalMode("direct")}
+          className={addButtonClass}
+          title="New direct message"
+        >
+          <Plus className="h-3.5 w-3.5" />
+        </button>
+      </div>
+      {directChannels.map((channel) => {
+        const other = channel.members.find(
+          (member) => member.email !== userEmail,
+        );
+        return (
+          <button
+            key={channel.id}
+            onClick={() => onSelect(channel.id)}
+            className={itemClass(isActive && selectedChannelId === channel.id)}
+          >
+            <span className="relative shrink-0">
+              <User className="h-3.5 w-3.5" />
+              <PresenceDot
+                status={other?.email ? presence[other.email] : undefined}
+                className="absolute -bottom-0.5 -right-0.5 h-1.5 w-1.5"
+              />
+            </span>
+            <span
+              className={`truncate ${channel.unreadCount > 0 ? "font-semibold" : ""}`}
+            >
+              {channel.name}
+            </span>
+            {unreadBadge(channel.unreadCount)}
+          </button>
+        );
+      })}
+
+      <ChatChannelModal
+        mode={modalMode}
+        onClose={() => setModalMode(null)}
+        workspaceName={workspaceName}
+        currentEmail={userEmail}
+        onDone={(channel) => onSelect(channel.id)}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,214 @@
+import React, { useEffect, useState } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import axios from "axios";
+import { FiX } from "react-icons/fi";
+import {
+  useChatChannelMutations,
+  useWorkspaceMembers,
+} from "../utils/apiHooks";
+import { ChatChannel } from "../utils/taskTypes";
+
+export type ChatChannelModalMode = "channel" | "direct" | "invite";
+
+interface ChatChannelModalProps {
+  mode: ChatChannelModalMode | null;
+  onClose: () => void;
+  workspaceName: string;
+  currentEmail: string;
+  // The channel people are invited to, in "invite" mode
+  channel?: ChatChannel | null;
+  onDone: (channel: ChatChannel) => void;
+}
+
+const inputClass =
+  "w-full rounded border border-[#3C3C3C] bg-[#121212] px-3 py-2 text-sm focus:border-emerald-500 focus:outline-none";
+
+const titles: Record<ChatChannelModalMode, string> = {
+  channel: "New private channel",
+  direct: "New direct message",
+  invite: "Invite to channel",
+};
+
+/** Create an invite-only channel, start a direct message or invite people */
+const ChatChannelModal: React.FC<ChatChannelModalProps> = ({
+  mode,
+  onClose,
+  workspaceName,
+  currentEmail,
+  channel,
+  onDone,
+}) => {
+  const [name, setName] = useState("");
+  const [selected, setSelected] = useState<string[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const { data: members = [] } = useWorkspaceMembers(
+    mode ? workspaceName : null,
+  );
+  const { createChannel, openDirect, inviteMembers } =
+    useChatChannelMutations(workspaceName);
+
+  // Everyone but the current user, and for invites, anyone not yet in
+  const inChannel = new Set(channel?.members.map((member) => member.id));
+  const choices = members.filter(
+    (member) =>
+      member.email !== currentEmail &&
+      !(mode === "invite" && inChannel.has(member.userId)),
+  );
+
+  useEffect(() => {
+    if (!mode) {
+      setName("");
+      setSelected([]);
+      setError(null);
+    }
+  }, [mode]);
+
+  const toggle = (userId: string) =>
+    setSelected((current) =>
+      mode === "direct"
+        ? [userId]
+        : current.includes(userId)
+          ? current.filter((id) => id !== userId)
+          : [...current, userId],
+    );
+
+  const isPending =
+    createChannel.isPending || openDirect.isPending || inviteMembers.isPending;
+  const canSubmit =
+    !isPending && (mode === "channel" ? !!name.trim() : selected.length > 0);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSubmit) return;
+    setError(null);
+
+    try {
+      const result =
+        mode === "channel"
+          ? await createChannel.mutateAsync({
+              name: name.trim(),
+              memberIds: selected,
+            })
+          : mode === "direct"
+            ? await openDirect.mutateAsync(selected[0])
+            : await inviteMembers.mutateAsync({
+                channelId: channel!.id,
+                userIds: selected,
+              });
+      onDone(result);
+      onClose();
+    } catch (err) {
+      setError(
+        axios.isAxiosError(err) && err.response?.data?.error
+          ? err.response.data.error
+          : "Something went wrong, please try again",
+      );
+    }
+  };
+
+  return (
+    <AnimatePresence>
+      {mode && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 z-[60] flex items-center justify-center"
+        >
+          <div
+            className="absolute inset-0 bg-black/50 backdrop-blur-sm"
+            onClick={onClose}
+          />
+          <motion.form
+            initial={{ y: -10, opacity: 0 }}
+            animate={{ y: 0, opacity: 1 }}
+            exit={{ y: -10, opacity: 0 }}
+            onSubmit={handleSubmit}
+            className="relative z-10 w-full max-w-md rounded-lg border border-[#2C2C2C] bg-[#1C1C1C] p-5 text-gray-200 shadow-xl"
+          >
+            <div className="mb-4 flex items-center justify-between">
+              <h2 className="text-lg font-semibold">
+                {titles[mode]}
+                {mode === "invite" && channel ? ` #${channel.name}` : ""}
+              </h2>
+              <button
+                type="button"
+                onClick={onClose}
+                className="text-gray-400 hover:text-white"
+              >
+                <FiX />
+              </button>
+            </div>
+
+            {mode === "channel" && (
+              <input
+                autoFocus
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Channel name, e.g. design-review"
+                maxLength={80}
+                className={`${inputClass} mb-3`}
+              />
+            )}
+
+            <p className="mb-2 text-xs text-gray-400">
+              {mode === "direct"
+                ? "Who do you want to message?"
+                : "Only the people you add can see this channel."}
+            </p>
+            <ul className="mb-4 max-h-60 space-y-1 overflow-y-auto">
+              {choices.length === 0 && (
+                <li className="text-xs text-gray-500">No one else to add</li>
+              )}
+              {choices.map((member) => (
+                <li key={member.userId}>
+                  <label className="flex cursor-pointer items-center gap-2 rounded px-2 py-1 text-sm hover:bg-[#2C2C2C]">
+                    <input
+                      type={mode === "direct" ? "radio" : "checkbox"}
+                      checked={selected.includes(member.userId)}
+                      onChange={() => toggle(member.userId)}
+                      className="accent-emerald-500"
+                    />
+                    <span className="truncate">
+                      {member.name || member.email}
+                    </span>
+                    {member.name && (
+                      <span className="truncate text-xs text-gray-500">
+                        {member.email}
+                      </span>
+                    )}
+                  </label>
+                </li>
+              ))}
+            </ul>
+
+            {error && <p className="mb-3 text-sm text-red-400">{error}</p>}
+
+            <div className="flex justify-end gap-2">
+              <button
+                type="button"
+                onClick={onClose}
+                className="rounded-md bg-[#2C2C2C] px-4 py-2 text-sm hover:bg-[#3C3C3C]"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={!canSubmit}
+                className="rounded-md bg-emerald-600 px-4 py-2 text-sm text-white hover:bg-emerald-700 disabled:opacity-50"
+              >
+                {mode === "direct"
+                  ? "Message"
+                  : mode === "invite"
+                    ? "Invite"
+                    : "Create"}
+              </button>
+            </div>
+          </motion.form>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
+
+export default ChatChannelModal;
@@ -0,0 +1,73 @@
+import React from "react";
+import { Flag, Timer } from "lucide-react";
+import { ChatReference } from "../utils/taskTypes";
+import { ChatTaskCard } from "./ChatTaskCard";
+
+const formatDate = (date: string | null) =>
+  date ? new Date(date).toLocaleDateString() : null;
+
+/** A task, sprint or milestone mentioned in a chat message */
+export const ChatReferenceCard: React.FC<{
+  reference: ChatReference;
+  darkMode?: boolean;
+}> = ({ reference, darkMode = true }) => {
+  if (reference.type === "task") {
+    return <ChatTaskCard task={reference} darkMode={darkMode} />;
+  }
+
+  const Icon = reference.type === "sprint" ? Timer : Flag;
+  const start = formatDate(reference.startDate);
+  const end = formatDate(reference.endDate);
+  const secondaryText = darkMode ? "text-gray-400" : "text-gray-500";
+
+  return (
+    <div
+      className={`mt-1 rounded-md border p-2 text-xs ${
+        darkMode
+          ? "border-[#3C3C3C] bg-[#171717] text-gray-200"
+          : "border-gray-200 bg-white text-gray-800"
+      }`}
+    >
+      <div className="flex items-center gap-1.5">
+        <Icon className="h-3.5 w-3.5 shrink-0 text-emerald-500" />
+        <span className="truncate font-medium">{reference.title}</span>
+        <span
+          className={`ml-auto shrink-0 rounded px-1.5 py-0.5 ${
+            darkMode
+              ? "bg-[#2C2C2C] text-gray-300"
+              : "bg-gray-100 text-gray-700"
+          }`}
+        >
+          {reference.status.replace(/_/g, " ").toLowerCase()}
+        </span>
+      </div>
+      <div
+        className={`mt-1.5 h-1 overflow-hidden rounded-full ${
+          darkMode ? "bg-[#2C2C2C]" : "bg-gray-200"
+        }`}
+      >
+        <div
+          className="h-full bg-emerald-500"
+          style={{
+            width: `${Math.min(Math.max(reference.progress, 0), 100)}%`,
+          }}
+        />
+      </div>
+      <div className={`mt-1 flex flex-wrap gap-x-2 ${secondaryText}`}>
+        <span>{reference.progress}% done</span>
+        {(start || end) && (
+          <span>
+            {start ?? "?"} – {end ?? "?"}
+          </span>
+        )}
+        <span>
+          {reference.owner
+            ? `Owned by ${reference.owner.name || reference.owner.email}`
+            : "No owner"}
+        </span>
+      </div>
+    </div>
+  );
+};
+
+export default ChatReferenceCard;
@@ -1,67 +1,529 @@
-import React, { useEffect, useState, useRef } from "react";
+import React, { useEffect, useLayoutEffect, useState, useRef } from "react";
 import io, { Socket } from "socket.io-client";
-import { X, Send } from "lucide-react";
+import {
+  X,
+  Send,
+  ArrowLeft,
+  LogOut,
+  MessageSquare,
+  Paperclip,
+  Pencil,
+  SmilePlus,
+  Trash2,
+  UserPlus,
+} from "lucide-react";
 import { motion, AnimatePresence } from "framer-motion";
+import { useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@clerk/clerk-react";
 import { getApiUrl } from "../utils/api"; // Import the API utility function
+import {
+  useChatChannelMutations,
+  useChatChannels,
+  useUploadAttachment,
+  useUserWorkspaces,
+} from "../utils/apiHooks";
+import {
+  ATTACHMENT_ACCEPT,
+  MAX_ATTACHMENTS_PER_MESSAGE,
+  checkAttachment,
+} from "../utils/attachments";
+import { PresenceMap } from "../utils/presence";
+import { socketAuth } from "../utils/socketAuth";
+import {
+  Attachment,
+  ChatReference,
+  ChatTaskCard as ChatTaskCardData,
+  ChatTaskSummary,
+} from "../utils/taskTypes";
+import AttachmentList from "./AttachmentList";
+import ChatChannelModal from "./ChatChannelModal";
+import { ChatReferenceCard } from "./ChatReferenceCard";
+import { ChatTaskCard } from "./ChatTaskCard";
+import { PresenceDot } from "./PresenceDot";
+
+interface ChatReaction {
+  emoji: string;
+  users: { name: string | null; email: string }[];
+}
+
+interface ChatMessage {
+  id: string;
+  sender: string;
+  senderEmail: string | null;
+  text: string;
+  timestamp: Date;
+  // Set on thread replies; replies are one level deep
+  parentId: string | null;
+  replyCount: number;
+  editedAt: string | null;
+  deleted: boolean;
+  reactions: ChatReaction[];
+  // Posted by a slash command such as /task
+  card: ChatTaskCardData | null;
+  // Tasks, sprints and milestones mentioned by key or link
+  references: ChatReference[];
+  attachments: Attachment[];
+}
+
+const referenceKey = (reference: { type: string; id: string }) =>
+  `${reference.type}:${reference.id}`;
+
+// One page of history, oldest message first; nextCursor is null once the
+// start of the conversation is reached
+interface ChatPage {
+  messages: ChatMessage[];
+  nextCursor: string | null;
+}
+
+// Load the next older page when scrolled this close to the top
+const LOAD_OLDER_THRESHOLD = 40; // px
+
+const REACTION_CHOICES = ["👍", "❤️", "😂", "🎉", "😮", "😢"];
+
+// Someone's last read message, shared across their devices
+interface ReadPosition {
+  email: string;
+  name: string | null;
+  messageId: string;
+  readAt: string;
+}
+
+// Repeat "typing" this often while typing; drop a hint not repeated in time
+const TYPING_REPEAT_MS = 3000;
+const TYPING_TIMEOUT_MS = 6000;
+
+type TypingUsers = Record<string, { name: string; at: number }>;
+
+// A file picked for the next message: uploading, uploaded or failed
+interface PendingFile {
+  key: string;
+  name: string;
+  attachment?: Attachment;
+  error?: string;
+}
+
+const withoutTyping = (users: TypingUsers, email: string) => {
+  if (!(email in users)) return users;
+  const next = { ...users };
+  delete next[email];
+  return next;
+};
 
 interface ChatRoomProps {
   roomCode: string;
+  // A private channel or direct conversation; without one this is the
+  // workspace-wide chat
+  channelId?: string | null;
   userId: string;
   onClose: () => void;
+  onLeaveChannel?: () => void;
+  // Online and away status by email, when the workspace tracks it
+  presence?: PresenceMap;
   darkMode?: boolean;
 }
 
 const ChatRoom: React.FC<ChatRoomProps> = ({
   roomCode,
+  channelId = null,
   userId,
   onClose,
+  onLeaveChannel,
+  presence,
   darkMode,
 }) => {
-  const [messages, setMessages] = useState<
-    { sender: string; text: string; timestamp: Date }[]
-  >([]);
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [input, setInput] = useState("");
   const [socket, setSocket] = useState<Socket | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoadingOlder, setIsLoadingOlder] = useState(false);
+  // Scroll height before older messages were prepended, to keep the
+  // messages on screen where they were
+  const prependHeightRef = useRef<number | null>(null);
+  const lastMessageIdRef = useRef<string | null>(null);
+  // The open thread: its first message and the replies under it
+  const [thread, setThread] = useState<{
+    parent: ChatMessage;
+    replies: ChatMessage[];
+  } | null>(null);
+  const [editing, setEditing] = useState<{ id: string; text: string } | null>(
+    null,
+  );
+  const [pickerFor, setPickerFor] = useState<string | null>(null);
+  const [chatError, setChatError] = useState<string | null>(null);
+  // The latest cards pushed by the server, by referenceKey
+  const [liveReferences, setLiveReferences] = useState<
+    Record<string, ChatReference>
+  >({});
+  // Cards whose task, sprint or milestone has since been deleted
+  const [removedReferences, setRemovedReferences] = useState<Set<string>>(
+    new Set(),
+  );
+  // Command help and errors, shown only to this user until dismissed
+  const [notice, setNotice] = useState<string | null>(null);
+  const [readPositions, setReadPositions] = useState<
+    Record<string, ReadPosition>
+  >({});
+  // Who else is typing, by email, with when we last heard from them
+  const [typingUsers, setTypingUsers] = useState<TypingUsers>({});
+  const lastTypingSentRef = useRef(0);
+  const queryClient = useQueryClient();
+  const { getToken } = useAuth();
+  const [pendingFiles, setPendingFiles] = useState<PendingFile[]>([]);
+  const [isDragging, setIsDragging] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const pendingCountRef = useRef(0);
+  const uploadAttachment = useUploadAttachment({ workspaceName: roomCode });
+
+  // Workspace admins may remove anyone's messages
+  const { data: workspaces = [] } = useUserWorkspaces();
+  const isAdmin = workspaces.some(
+    (workspace) => workspace.name === roomCode && workspace.role === "ADMIN",
+  );
+
+  const { data: channelList } = useChatChannels(channelId ? roomCode : null);
+  const channel = channelList?.channels.find((c) => c.id === channelId) ?? null;
+  const { leaveChannel } = useChatChannelMutations(roomCode);
+  const [isInviteOpen, setIsInviteOpen] = useState(false);
+
+  // Every chat event says which chat it is for; the server knows the sender
+  // from the socket's sign-in
+  const chatTarget = { roomCode, channelId };
 
   useEffect(() => {
     // Use the API utility to get the correct server URL based on environment
     const serverUrl = getApiUrl();
-    const newSocket = io(serverUrl, { transports: ["polling"] });
+    const newSocket = io(serverUrl, {
+      transports: ["polling"],
+      auth: socketAuth(getToken),
+    });
     setSocket(newSocket);
 
     newSocket.on("connect", () => {
       console.log("ChatRoom connected:", newSocket.id);
-      newSocket.emit("join-room", roomCode, "chat-only");
+      if (channelId) {
+        newSocket.emit("join-channel", { roomCode, channelId });
+      } else {
+        newSocket.emit("join-room", roomCode, "chat-only");
+      }
+    });
+
+    newSocket.on("previous-messages", (page: ChatPage) => {
+      console.log("Previous messages received:", page.messages.length);
+      setMessages(page.messages);
+      setNextCursor(page.nextCursor);
+      setIsLoadingOlder(false);
     });
 
-    newSocket.on("previous-messages", (prevMsgs) => {
-      console.log("Previous messages received:", prevMsgs);
-      setMessages(prevMsgs);
+    newSocket.on("older-messages", (page: ChatPage) => {
+      prependHeightRef.current = scrollRef.current?.scrollHeight ?? null;
+      setMessages((prev) => [...page.messages, ...prev]);
+      setNextCursor(page.nextCursor);
+      setIsLoadingOlder(false);
     });
 
-    newSocket.on("receive-message", (message) => {
+    newSocket.on("receive-message", (message: ChatMessage) => {
       console.log("New message received:", message);
-      setMessages((prev) => [...prev, message]);
+      const sender = message.senderEmail;
+      if (sender) setTypingUsers((prev) => withoutTyping(prev, sender));
+      if (!message.parentId) {
+        setMessages((prev) => [...prev, message]);
+        return;
+      }
+      setMessages((prev) =>
+        prev.map((msg) =>
+          msg.id === message.parentId
+            ? { ...msg, replyCount: msg.replyCount + 1 }
+            : msg,
+        ),
+      );
+      setThread((current) =>
+        current?.parent.id === message.parentId
+          ? {
+              parent: {
+                ...current.parent,
+                replyCount: current.parent.replyCount + 1,
+              },
+              replies: [...current.replies, message],
+            }
+          : current,
+      );
+    });
+
+    newSocket.on(
+      "thread-messages",
+      ({ parentId, messages }: { parentId: string; messages: ChatMessage[] }) =>
+        setThread((current) =>
+          current?.parent.id === parentId
+            ? { ...current, replies: messages }
+            : current,
+        ),
+    );
+
+    newSocket.on("message-updated", (message: ChatMessage) => {
+      const replace = (msg: ChatMessage) =>
+        msg.id === message.id ? message : msg;
+      setMessages((prev) => prev.map(replace));
+      setThread(
+        (current) =>
+          current && {
+            parent: replace(current.parent),
+            replies: current.replies.map(replace),
+          },
+      );
+    });
+
+    newSocket.on("read-positions", (positions: ReadPosition[]) => {
+      setReadPositions(Object.fromEntries(positions.map((p) => [p.email, p])));
+    });
+
+    newSocket.on("read-receipt", (position: ReadPosition) => {
+      setReadPositions((prev) => ({ ...prev, [position.email]: position }));
+      // Read on this or another device: unread counts have changed
+      if (position.email === userId) {
+        queryClient.invalidateQueries({ queryKey: ["chatChannels", roomCode] });
+      }
+    });
+
+    newSocket.on(
+      "typing",
+      (hint: { email: string; name: string; isTyping: boolean }) => {
+        if (hint.email === userId) return;
+        setTypingUsers((prev) =>
+          hint.isTyping
+            ? { ...prev, [hint.email]: { name: hint.name, at: Date.now() } }
+            : withoutTyping(prev, hint.email),
+        );
+      },
+    );
+
+    // A mentioned task, sprint or milestone changed; its cards update in place
+    newSocket.on("reference-updated", (reference: ChatReference) => {
+      setLiveReferences((prev) => ({
+        ...prev,
+        [referenceKey(reference)]: reference,
+      }));
+    });
+
+    newSocket.on(
+      "reference-removed",
+      (reference: { type: string; id: string }) => {
+        setRemovedReferences((prev) =>
+          new Set(prev).add(referenceKey(reference)),
+        );
+      },
+    );
+
+    newSocket.on("chat-notice", ({ text }: { text: string }) => {
+      setNotice(text);
+    });
+
+    newSocket.on("chat-error", ({ error }: { error: string }) => {
+      setChatError(error);
+      setTimeout(() => setChatError(null), 4000);
+    });
+
+    newSocket.on("room-error", ({ error }: { error: string }) => {
+      setChatError(error);
     });
 
     return () => {
       newSocket.disconnect();
     };
-  }, [roomCode]);
+  }, [roomCode, channelId, userId, queryClient, getToken]);
+
+  // Everything on screen counts as read, on every device
+  const lastMessageId = messages[messages.length - 1]?.id;
+  useEffect(() => {
+    if (!socket || !lastMessageId) return;
+    socket.emit("mark-read", { roomCode, channelId, messageId: lastMessageId });
+  }, [socket, lastMessageId, roomCode, channelId]);
 
+  // Forget typing hints that have not been repeated
   useEffect(() => {
-    messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
+    const timer = setInterval(() => {
+      const cutoff = Date.now() - TYPING_TIMEOUT_MS;
+      setTypingUsers((prev) =>
+        Object.values(prev).some((user) => user.at < cutoff)
+          ? Object.fromEntries(
+              Object.entries(prev).filter(([, user]) => user.at >= cutoff),
+            )
+          : prev,
+      );
+    }, 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  // Keep the view still when older messages are added above it, and follow
+  // the conversation when a new message arrives at the bottom
+  useLayoutEffect(() => {
+    const container = scrollRef.current;
+    if (container && prependHeightRef.current !== null) {
+      container.scrollTop += container.scrollHeight - prependHeightRef.current;
+      prependHeightRef.current = null;
+      return;
+    }
+
+    const lastId = messages[messages.length - 1]?.id ?? null;
+    if (lastId !== lastMessageIdRef.current) {
+      lastMessageIdRef.current = lastId;
+      messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
+    }
   }, [messages]);
 
+  const handleScroll = () => {
+    const container = scrollRef.current;
+    if (
+      !container ||
+      !socket ||
+      !nextCursor ||
+      isLoadingOlder ||
+      container.scrollTop > LOAD_OLDER_THRESHOLD
+    ) {
+      return;
+    }
+    setIsLoadingOlder(true);
+    socket.emit("load-older-messages", { ...chatTarget, before: nextCursor });
+  };
+
+  const uploadedIds = pendingFiles.flatMap((pending) =>
+    pending.attachment ? [pending.attachment.id] : [],
+  );
+  const isUploading = pendingFiles.some(
+    (pending) => !pending.attachment && !pending.error,
+  );
+  const canSend = (!!input.trim() || uploadedIds.length > 0) && !isUploading;
+
   const sendMessage = () => {
-    if (input.trim() && socket) {
+    if (canSend && socket) {
       const message = {
-        sender: userId,
         text: input,
+        parentId: thread?.parent.id ?? null,
+        attachmentIds: uploadedIds,
       };
-      socket.emit("send-message", { roomCode, message, email: userId });
+      socket.emit("send-message", { ...chatTarget, message });
+      socket.emit("typing", { ...chatTarget, isTyping: false });
+      lastTypingSentRef.current = 0;
+      setNotice(null);
       setInput("");
+      setPendingFiles([]);
+    }
+  };
+
+  // Files are uploaded as soon as they are picked and sent with the next
+  // message
+  const attachFiles = (files: File[]) => {
+    const room = MAX_ATTACHMENTS_PER_MESSAGE - pendingFiles.length;
+    if (files.length > room) {
+      setChatError(
+        `You can attach up to ${MAX_ATTACHMENTS_PER_MESSAGE} files to a message`,
+      );
+      setTimeout(() => setChatError(null), 4000);
+    }
+
+    files.slice(0, Math.max(room, 0)).forEach((file) => {
+      pendingCountRef.current += 1;
+      const key = `pending-${pendingCountRef.current}`;
+      const update = (changes: Partial<PendingFile>) =>
+        setPendingFiles((prev) =>
+          prev.map((pending) =>
+            pending.key === key ? { ...pending, ...changes } : pending,
+          ),
+        );
+
+      const problem = checkAttachment(file);
+      setPendingFiles((prev) => [
+        ...prev,
+        { key, name: file.name, error: problem ?? undefined },
+      ]);
+      if (problem) return;
+
+      uploadAttachment
+        .mutateAsync(file)
+        .then((attachment) => update({ attachment }))
+        .catch((error) => {
+          console.error("Failed to upload file:", error);
+          update({
+            error: error.response?.data?.error || "Upload failed",
+          });
+        });
+    });
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    attachFiles(Array.from(e.dataTransfer.files));
+  };
+
+  const handleInputChange = (value: string) => {
+    setInput(value);
+    const now = Date.now();
+    if (
+      socket &&
+      value.trim() &&
+      now - lastTypingSentRef.current > TYPING_REPEAT_MS
+    ) {
+      socket.emit("typing", { ...chatTarget, isTyping: true });
+      lastTypingSentRef.current = now;
+    }
+  };
+
+  const typingNames = Object.values(typingUsers).map((user) => user.name);
+  const typingText =
+    typingNames.length === 0
+      ? null
+      : typingNames.length === 1
+        ? `${typingNames[0]} is typing…`
+        : typingNames.length === 2
+          ? `${typingNames[0]} and ${typingNames[1]} are typing…`
+          : "Several people are typing…";
+
+  // Other people's last read message, grouped by message
+  const seenBy = new Map<string, ReadPosition[]>();
+  Object.values(readPositions).forEach((position) => {
+    if (position.email === userId) return;
+    seenBy.set(position.messageId, [
+      ...(seenBy.get(position.messageId) ?? []),
+      position,
+    ]);
+  });
+
+  const openThread = (message: ChatMessage) => {
+    setThread({ parent: message, replies: [] });
+    setEditing(null);
+    socket?.emit("load-thread", { ...chatTarget, messageId: message.id });
+  };
+
+  const toggleReaction = (messageId: string, emoji: string) => {
+    socket?.emit("toggle-reaction", { ...chatTarget, messageId, emoji });
+    setPickerFor(null);
+  };
+
+  const saveEdit = () => {
+    if (!editing || !editing.text.trim() || !socket) return;
+    socket.emit("edit-message", {
+      ...chatTarget,
+      messageId: editing.id,
+      text: editing.text,
+    });
+    setEditing(null);
+  };
+
+  const deleteMessage = (messageId: string) => {
+    if (!window.confirm("Delete this message?")) return;
+    socket?.emit("delete-message", { ...chatTarget, messageId });
+  };
+
+  const handleLeaveChannel = async () => {
+    if (!channel || !window.confirm(`Leave #${channel.name}?`)) return;
+    try {
+      await leaveChannel.mutateAsync(channel.id);
+      onLeaveChannel?.();
+    } catch (error) {
+      console.error("Error leaving channel:", error);
+      setChatError("Failed to leave channel");
     }
   };
 
@@ -69,6 +531,28 @@ const ChatRoom: React.FC<ChatRoomProps> = ({
     return classes.filter(Boolean).join(" ");
   };
 
+  // Highlight issue keys such as PIX-42 so tickets stand out in chat
+  const formatTaskKeys = (text: string, keyPrefix: number) => {
+    const keyRegex = /\b([A-Z][A-Z0-9]{0,9}-\d+)\b/g;
+    return text.split(keyRegex).map((part, i) =>
+      i % 2 === 1 ? (
+        <span
+          key={`key-${keyPrefix}-${i}`}
+          className={classNames(
+            "font-mono text-xs px-1 rounded",
+            darkMode
+              ? "bg-[#2C2C2C] text-emerald-400"
+              : "bg-emerald-50 text-emerald-700",
+          )}
+        >
+          {part}
+        </span>
+      ) : (
+        part
+      ),
+    );
+  };
+
   // Fixed function to convert URLs in text to clickable links
   const formatMessageWithLinks = (text: string) => {
     // URL regex pattern
@@ -83,7 +567,9 @@ const ChatRoom: React.FC<ChatRoomProps> = ({
     while ((match = urlRegex.exec(text)) !== null) {
       // Add text before the link
       if (match.index > lastIndex) {
-        segments.push(text.substring(lastIndex, match.index));
+        segments.push(
+          ...formatTaskKeys(text.substring(lastIndex, match.index), lastIndex),
+        );
       }
 
       // Process the link
@@ -114,12 +600,257 @@ const ChatRoom: React.FC<ChatRoomProps> = ({
 
     // Add any remaining text after the last link
     if (lastIndex < text.length) {
-      segments.push(text.substring(lastIndex));
+      segments.push(...formatTaskKeys(text.substring(lastIndex), lastIndex));
     }
 
     return segments;
   };
 
+  const actionButtonClass = classNames(
+    "p-1 rounded",
+    darkMode
+      ? "text-gray-400 hover:text-white hover:bg-[#2C2C2C]"
+      : "text-gray-500 hover:text-gray-900 hover:bg-gray-200",
+  );
+
+  const liveTask = (task: ChatTaskSummary): ChatTaskSummary => {
+    const live = liveReferences[referenceKey({ type: "task", id: task.id })];
+    return live?.type === "task" ? live : task;
+  };
+
+  const renderMessage = (msg: ChatMessage, inThread: boolean) => {
+    const isOwn = msg.senderEmail === userId;
+    const seenByNames = (seenBy.get(msg.id) ?? [])
+      .filter((position) => position.email !== msg.senderEmail)
+      .map((position) => position.name || position.email);
+    const canDelete = !msg.deleted && (isOwn || isAdmin);
+
+    return (
+      <div
+        key={msg.id}
+        className={classNames(
+          "group w-full flex flex-col",
+          isOwn ? "items-end" : "items-start",
+        )}
+      >
+        <motion.div
+          className={classNames(
+            "mb-1 p-1 rounded-md max-w-[80%]",
+            isOwn
+              ? darkMode
+                ? "bg-emerald-600"
+                : "bg-emerald-100"
+              : darkMode
+                ? "" // Removed "bg-[#2C2C2C]" to eliminate the background
+                : "bg-gray-100",
+          )}
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          transition={{ duration: 0.1 }}
+        >
+          <div
+            className={classNames(
+              "flex items-center gap-1 text-xs mb-0.5 font-medium",
+              darkMode ? "text-emerald-500" : "text-emerald-600",
+            )}
+          >
+            {presence && msg.senderEmail && (
+              <PresenceDot status={presence[msg.senderEmail]} />
+            )}
+            {msg.sender}
+          </div>
+          {editing?.id === msg.id ? (
+            <input
+              autoFocus
+              value={editing.text}
+              onChange={(e) => setEditing({ ...editing, text: e.target.value })}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") saveEdit();
+                if (e.key === "Escape") setEditing(null);
+              }}
+              className={classNames(
+                "w-full p-1 rounded border text-sm focus:outline-none focus:border-emerald-500",
+                darkMode
+                  ? "bg-[#2C2C2C] text-white border-[#3C3C3C]"
+                  : "bg-white text-black border-gray-300",
+              )}
+            />
+          ) : msg.deleted ? (
+            <div
+              className={classNames(
+                "text-sm italic",
+                darkMode ? "text-gray-400" : "text-gray-500",
+              )}
+            >
+              This message was deleted
+            </div>
+          ) : (
+            <div
+              className={classNames(
+                "text-sm",
+                darkMode ? "text-white" : "text-gray-900",
+              )}
+            >
+              {formatMessageWithLinks(msg.text)}
+              {msg.editedAt && (
+                <span
+                  className={classNames(
+                    "ml-1 text-xs",
+                    darkMode ? "text-gray-400" : "text-gray-500",
+                  )}
+                >
+                  (edited)
+                </span>
+              )}
+              {msg.card && (
+                <ChatTaskCard
+                  task={liveTask(msg.card.task)}
+                  darkMode={darkMode}
+                />
+              )}
+              {msg.references
+                // A command's own card already shows its task, and deleted
+                // tasks, sprints and milestones lose theirs
+                .filter(
+                  (reference) =>
+                    !(
+                      reference.type === "task" &&
+                      reference.id === msg.card?.task.id
+                    ) && !removedReferences.has(referenceKey(reference)),
+                )
+                .map((reference) => (
+                  <ChatReferenceCard
+                    key={referenceKey(reference)}
+                    reference={
+                      liveReferences[referenceKey(reference)] ?? reference
+                    }
+                    darkMode={darkMode}
+                  />
+                ))}
+              <AttachmentList
+                attachments={msg.attachments}
+                darkMode={darkMode}
+                allowDelete={false}
+              />
+            </div>
+          )}
+        </motion.div>
+
+        {msg.reactions.length > 0 && (
+          <div className="flex flex-wrap gap-1 mb-1">
+            {msg.reactions.map((reaction) => {
+              const reacted = reaction.users.some(
+                (user) => user.email === userId,
+              );
+              return (
+                <button
+                  key={reaction.emoji}
+                  onClick={() => toggleReaction(msg.id, reaction.emoji)}
+                  title={reaction.users
+                    .map((user) => user.name || user.email)
+                    .join(", ")}
+                  className={classNames(
+                    "px-1.5 rounded-full border text-xs",
+                    reacted
+                      ? "border-emerald-500 bg-emerald-500/20"
+                      : darkMode
+                        ? "border-[#3C3C3C] text-gray-300"
+                        : "border-gray-300 text-gray-700",
+                  )}
+                >
+                  {reaction.emoji} {reaction.users.length}
+                </button>
+              );
+            })}
+          </div>
+        )}
+
+        {!inThread && msg.replyCount > 0 && (
+          <button
+            onClick={() => openThread(msg)}
+            className={classNames(
+              "mb-1 text-xs hover:underline",
+              darkMode ? "text-emerald-400" : "text-emerald-600",
+            )}
+          >
+            {msg.replyCount} {msg.replyCount === 1 ? "reply" : "replies"}
+          </button>
+        )}
+
+        {!inThread && seenByNames.length > 0 && (
+          <div
+            className={classNames(
+              "mb-1 text-xs",
+              darkMode ? "text-gray-500" : "text-gray-400",
+            )}
+          >
+            Seen by {seenByNames.join(", ")}
+          </div>
+        )}
+
+        {!msg.deleted && editing?.id !== msg.id && (
+          <div className="relative flex gap-0.5 mb-1 opacity-0 group-hover:opacity-100 transition-opacity">
+            {!inThread && (
+              <button
+                onClick={() => openThread(msg)}
+                className={actionButtonClass}
+                title="Reply in thread"
+              >
+                <MessageSquare size={14} />
+              </button>
+            )}
+            <button
+              onClick={() => setPickerFor(pickerFor === msg.id ? null : msg.id)}
+              className={actionButtonClass}
+              title="Add reaction"
+            >
+              <SmilePlus size={14} />
+            </button>
+            {isOwn && (
+              <button
+                onClick={() => setEditing({ id: msg.id, text: msg.text })}
+                className={actionButtonClass}
+                title="Edit"
+              >
+                <Pencil size={14} />
+              </button>
+            )}
+            {canDelete && (
+              <button
+                onClick={() => deleteMessage(msg.id)}
+                className={actionButtonClass}
+                title="Delete"
+              >
+                <Trash2 size={14} />
+              </button>
+            )}
+            {pickerFor === msg.id && (
+              <div
+                className={classNames(
+                  "absolute bottom-full z-10 flex gap-1 p-1 rounded-md border shadow",
+                  isOwn ? "right-0" : "left-0",
+                  darkMode
+                    ? "bg-[#1C1C1C] border-[#3C3C3C]"
+                    : "bg-white border-gray-300",
+                )}
+              >
+                {REACTION_CHOICES.map((emoji) => (
+                  <button
+                    key={emoji}
+                    onClick={() => toggleReaction(msg.id, emoji)}
+                    className="px-1 hover:scale-125 transition-transform"
+                  >
+                    {emoji}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    );
+  };
+
   return (
     <motion.div
       className={classNames(
@@ -135,6 +866,16 @@ const ChatRoom: React.FC<ChatRoomProps> = ({
       animate={{ opacity: 1, y: 0 }}
       exit={{ opacity: 0, y: 20 }}
       transition={{ duration: 0.3 }}
+      onDragOver={(e) => {
+        e.preventDefault();
+        setIsDragging(true);
+      }}
+      onDragLeave={(e) => {
+        if (!e.currentTarget.contains(e.relatedTarget as Node)) {
+          setIsDragging(false);
+        }
+      }}
+      onDrop={handleDrop}
     >
       <div
         className={classNames(
@@ -152,98 +893,239 @@ const ChatRoom: React.FC<ChatRoomProps> = ({
           transition={{ delay: 0.2 }}
         >
           <span className={darkMode ? "text-emerald-500" : "text-emerald-600"}>
-            Chat
+            {channel
+              ? channel.kind === "PRIVATE"
+                ? `# ${channel.name}`
+                : channel.name
+              : "Chat"}
           </span>
           {/* <span className={classNames("text-sm", darkMode ? "text-gray-400" : "text-gray-600")}>{roomCode}</span> */}
         </motion.h2>
-        <motion.button
-          onClick={onClose}
-          className={classNames(
-            "p-1 rounded-md transition-colors",
-            darkMode ? "hover:bg-[#2C2C2C]" : "hover:bg-gray-200",
+        <div className="flex items-center gap-1">
+          {channel?.kind === "PRIVATE" && (
+            <>
+              <button
+                onClick={() => setIsInviteOpen(true)}
+                className={actionButtonClass}
+                title="Invite people"
+              >
+                <UserPlus size={16} />
+              </button>
+              <button
+                onClick={handleLeaveChannel}
+                className={actionButtonClass}
+                title="Leave channel"
+              >
+                <LogOut size={16} />
+              </button>
+            </>
           )}
-          whileHover={{ scale: 1.1 }}
-          whileTap={{ scale: 0.95 }}
-        >
-          <X
-            size={18}
+          <motion.button
+            onClick={onClose}
             className={classNames(
-              darkMode
-                ? "text-gray-400 hover:text-white"
-                : "text-gray-500 hover:text-gray-700",
+              "p-1 rounded-md transition-colors",
+              darkMode ? "hover:bg-[#2C2C2C]" : "hover:bg-gray-200",
             )}
-          />
-        </motion.button>
+            whileHover={{ scale: 1.1 }}
+            whileTap={{ scale: 0.95 }}
+          >
+            <X
+              size={18}
+              className={classNames(
+                darkMode
+                  ? "text-gray-400 hover:text-white"
+                  : "text-gray-500 hover:text-gray-700",
+              )}
+            />
+          </motion.button>
+        </div>
       </div>
 
+      <ChatChannelModal
+        mode={isInviteOpen ? "invite" : null}
+        onClose={() => setIsInviteOpen(false)}
+        workspaceName={roomCode}
+        currentEmail={userId}
+        channel={channel}
+        onDone={() => setIsInviteOpen(false)}
+      />
+
       <div
+        ref={scrollRef}
+        onScroll={handleScroll}
         className={classNames(
           "flex-1 p-4 overflow-y-auto scrollbar-thin",
+          thread ? "hidden" : "",
           darkMode
             ? "scrollbar-thumb-[#2C2C2C] scrollbar-track-transparent"
             : "scrollbar-thumb-gray-400 scrollbar-track-gray-100",
         )}
       >
+        {isLoadingOlder && (
+          <div
+            className={classNames(
+              "text-center text-xs mb-2",
+              darkMode ? "text-gray-500" : "text-gray-400",
+            )}
+          >
+            Loading earlier messages...
+          </div>
+        )}
         <AnimatePresence>
-          {messages.map((msg, index) => (
-            <div
-              key={index}
-              className={classNames(
-                "w-full",
-                msg.sender === userId
-                  ? "flex justify-end"
-                  : "flex justify-start",
-              )}
-            >
-              <motion.div
-                className={classNames(
-                  "mb-1 p-1 rounded-md max-w-[80%]",
-                  msg.sender === userId
-                    ? darkMode
-                      ? "bg-emerald-600"
-                      : "bg-emerald-100"
-                    : darkMode
-                      ? "" // Removed "bg-[#2C2C2C]" to eliminate the background
-                      : "bg-gray-100",
-                )}
-                initial={{ opacity: 0 }}
-                animate={{ opacity: 1 }}
-                transition={{ duration: 0.1 }}
-              >
-                <div
-                  className={classNames(
-                    "text-xs mb-0.5 font-medium",
-                    darkMode ? "text-emerald-500" : "text-emerald-600",
-                  )}
-                >
-                  {msg.sender}
-                </div>
-                <div
-                  className={classNames(
-                    "text-sm",
-                    darkMode ? "text-white" : "text-gray-900",
-                  )}
-                >
-                  {formatMessageWithLinks(msg.text)}
-                </div>
-              </motion.div>
-            </div>
-          ))}
+          {messages.map((msg) => renderMessage(msg, false))}
         </AnimatePresence>
         <div ref={messagesEndRef} />
       </div>
 
+      {thread && (
+        <div
+          className={classNames(
+            "flex-1 p-4 overflow-y-auto scrollbar-thin",
+            darkMode
+              ? "scrollbar-thumb-[#2C2C2C] scrollbar-track-transparent"
+              : "scrollbar-thumb-gray-400 scrollbar-track-gray-100",
+          )}
+        >
+          <button
+            onClick={() => setThread(null)}
+            className={classNames(
+              "flex items-center gap-1 mb-3 text-xs",
+              darkMode
+                ? "text-gray-400 hover:text-white"
+                : "text-gray-500 hover:text-gray-900",
+            )}
+          >
+            <ArrowLeft size={14} /> Back to chat
+          </button>
+          {renderMessage(thread.parent, true)}
+          <div
+            className={classNames(
+              "my-2 border-t text-xs pt-2",
+              darkMode
+                ? "border-[#2C2C2C] text-gray-500"
+                : "border-gray-200 text-gray-400",
+            )}
+          >
+            {thread.parent.replyCount}{" "}
+            {thread.parent.replyCount === 1 ? "reply" : "replies"}
+          </div>
+          {thread.replies.map((msg) => renderMessage(msg, true))}
+        </div>
+      )}
+
+      {typingText && (
+        <div
+          className={classNames(
+            "mx-4 mb-1 text-xs italic",
+            darkMode ? "text-gray-400" : "text-gray-500",
+          )}
+        >
+          {typingText}
+        </div>
+      )}
+
+      {notice && (
+        <div
+          className={classNames(
+            "mx-4 mb-2 flex items-start gap-2 rounded-md border p-2 text-xs",
+            darkMode
+              ? "border-[#3C3C3C] bg-[#171717] text-gray-300"
+              : "border-gray-200 bg-gray-50 text-gray-700",
+          )}
+        >
+          <div className="flex-1">
+            <div className="mb-1 text-gray-500">Only visible to you</div>
+            <div className="whitespace-pre-line">{notice}</div>
+          </div>
+          <button
+            onClick={() => setNotice(null)}
+            className="text-gray-500 hover:text-gray-300"
+            title="Dismiss"
+          >
+            <X size={14} />
+          </button>
+        </div>
+      )}
+
+      {chatError && (
+        <div className="mx-4 mb-2 rounded-md bg-red-500/20 p-2 text-xs text-red-400">
+          {chatError}
+        </div>
+      )}
+
       <div
         className={classNames(
           "p-4 border-t",
           darkMode ? "border-[#2C2C2C]" : "border-gray-300",
         )}
       >
+        {isDragging && (
+          <div className="mb-2 rounded-md border border-dashed border-emerald-500 p-3 text-center text-xs text-emerald-500">
+            Drop files to attach them
+          </div>
+        )}
+        {pendingFiles.length > 0 && (
+          <div className="mb-2 flex flex-wrap gap-1">
+            {pendingFiles.map((pending) => (
+              <span
+                key={pending.key}
+                title={pending.error}
+                className={classNames(
+                  "flex max-w-[12rem] items-center gap-1 rounded-full border px-2 py-0.5 text-xs",
+                  pending.error
+                    ? "border-red-500/50 text-red-400"
+                    : darkMode
+                      ? "border-[#3C3C3C] text-gray-300"
+                      : "border-gray-300 text-gray-700",
+                )}
+              >
+                <span className="truncate">{pending.name}</span>
+                {!pending.attachment && !pending.error && (
+                  <span className="text-gray-500">…</span>
+                )}
+                <button
+                  onClick={() =>
+                    setPendingFiles((prev) =>
+                      prev.filter((item) => item.key !== pending.key),
+                    )
+                  }
+                  className="text-gray-500 hover:text-red-400"
+                  aria-label={`Remove ${pending.name}`}
+                >
+                  <X size={12} />
+                </button>
+              </span>
+            ))}
+          </div>
+        )}
         <div className="flex gap-2">
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className={classNames(
+              "p-2 rounded-md",
+              darkMode
+                ? "text-gray-400 hover:text-white hover:bg-[#2C2C2C]"
+                : "text-gray-500 hover:text-gray-900 hover:bg-gray-200",
+            )}
+            title="Attach files"
+          >
+            <Paperclip size={18} />
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            multiple
+            accept={ATTACHMENT_ACCEPT}
+            onChange={(e) => {
+              attachFiles(Array.from(e.target.files ?? []));
+              e.target.value = "";
+            }}
+            className="hidden"
+          />
           <input
             type="text"
             value={input}
-            onChange={(e) => setInput(e.target.value)}
+            onChange={(e) => handleInputChange(e.target.value)}
             onKeyDown={(e) => e.key === "Enter" && sendMessage()}
             className={classNames(
               "flex-1 p-2 rounded-md border focus:outline-none focus:border-emerald-500 text-sm",
@@ -251,21 +1133,23 @@ const ChatRoom: React.FC<ChatRoomProps> = ({
                 ? "bg-[#2C2C2C] text-white border-[#3C3C3C]"
                 : "bg-white text-black border-gray-300",
             )}
-            placeholder="Type a message..."
+            placeholder={
+              thread ? "Reply in thread..." : "Type a message or /help..."
+            }
           />
           <motion.button
             onClick={sendMessage}
             className={classNames(
               "p-2 rounded-md flex items-center justify-center",
-              input.trim()
+              canSend
                 ? "bg-emerald-500 hover:bg-emerald-600 text-white"
                 : darkMode
                   ? "bg-[#2C2C2C] text-gray-500 cursor-not-allowed"
                   : "bg-gray-200 text-gray-400 cursor-not-allowed",
             )}
-            disabled={!input.trim()}
-            whileHover={input.trim() ? { scale: 1.05 } : {}}
-            whileTap={input.trim() ? { scale: 0.95 } : {}}
+            disabled={!canSend}
+            whileHover={canSend ? { scale: 1.05 } : {}}
+            whileTap={canSend ? { scale: 0.95 } : {}}
           >
             <Send size={18} />
           </motion.button>
@@ -0,0 +1,75 @@
+import React from "react";
+import { CheckSquare } from "lucide-react";
+import { ChatTaskSummary } from "../utils/taskTypes";
+
+const statusLabel: Record<string, string> = {
+  TODO: "To do",
+  IN_PROGRESS: "In progress",
+  DONE: "Done",
+  ARCHIVED: "Archived",
+};
+
+const priorityClass: Record<string, string> = {
+  HIGH: "bg-red-500 text-white",
+  MEDIUM: "bg-yellow-500 text-white",
+  LOW: "bg-blue-500 text-white",
+};
+
+/** Key, title, status, priority and assignee of a task shown in chat */
+export const ChatTaskCard: React.FC<{
+  task: ChatTaskSummary;
+  darkMode?: boolean;
+}> = ({ task, darkMode = true }) => {
+  const statusClass = (status: string) =>
+    ({
+      TODO: darkMode
+        ? "bg-gray-600 text-gray-100"
+        : "bg-gray-200 text-gray-800",
+      IN_PROGRESS: darkMode
+        ? "bg-blue-600 text-blue-100"
+        : "bg-blue-200 text-blue-800",
+      DONE: darkMode
+        ? "bg-emerald-600 text-emerald-100"
+        : "bg-emerald-200 text-emerald-800",
+    })[status] ??
+    (darkMode ? "bg-gray-700 text-gray-300" : "bg-gray-200 text-gray-800");
+
+  return (
+    <div
+      className={`mt-1 rounded-md border p-2 text-xs ${
+        darkMode
+          ? "border-[#3C3C3C] bg-[#171717] text-gray-200"
+          : "border-gray-200 bg-white text-gray-800"
+      }`}
+    >
+      <div className="flex items-center gap-1.5">
+        <CheckSquare className="h-3.5 w-3.5 shrink-0 text-emerald-500" />
+        {task.key && (
+          <span className="font-mono font-semibold text-emerald-500">
+            {task.key}
+          </span>
+        )}
+        <span className="truncate font-medium">{task.title}</span>
+      </div>
+      <div className="mt-1.5 flex flex-wrap items-center gap-1.5">
+        <span className={`rounded px-1.5 py-0.5 ${statusClass(task.status)}`}>
+          {statusLabel[task.status] ?? task.status}
+        </span>
+        <span
+          className={`rounded px-1.5 py-0.5 ${
+            priorityClass[task.priority] ?? "bg-gray-500 text-white"
+          }`}
+        >
+          {task.priority}
+        </span>
+        <span className={darkMode ? "text-gray-400" : "text-gray-500"}>
+          {task.assignee
+            ? `Assigned to ${task.assignee.name || task.assignee.email}`
+            : "Unassigned"}
+        </span>
+      </div>
+    </div>
+  );
+};
+
+export default ChatTaskCard;
@@ -0,0 +1,383 @@
+import React, { useState, useEffect, useCallback, useMemo } from "react";
+import axios from "axios";
+import { useAuth, useUser } from "@clerk/clerk-react";
+import { formatDistanceToNow } from "date-fns";
+import api from "../utils/api";
+import Markdown from "./Markdown";
+import {
+  TaskComment,
+  TaskCommentRevision,
+  User,
+} from "../utils/taskTypes";
+
+interface CommentThreadProps {
+  taskId: string;
+  darkMode?: boolean;
+  workspaceMembers?: User[];
+}
+
+// The handle the server resolves for a member: name without spaces, else email
+const mentionHandle = (member: User) =>
+  member.name?.replace(/\s+/g, "") || member.email?.split("@")[0] || "";
+
+interface CommentEditorProps {
+  initialValue?: string;
+  placeholder: string;
+  submitLabel: string;
+  darkMode: boolean;
+  workspaceMembers: User[];
+  onSubmit: (body: string) => Promise<void>;
+  onCancel?: () => void;
+}
+
+/** Textarea with @mention suggestions */
+const CommentEditor: React.FC<CommentEditorProps> = ({
+  initialValue = "",
+  placeholder,
+  submitLabel,
+  darkMode,
+  workspaceMembers,
+  onSubmit,
+  onCancel,
+}) => {
+  const [value, setValue] = useState(initialValue);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // Suggest members while the text ends with an unfinished "@handle"
+  const partial = value.match(/(?:^|\s)@([\w.+-]*)$/)?.[1];
+  const suggestions = useMemo(() => {
+    if (partial === undefined) return [];
+    const query = partial.toLowerCase();
+    return workspaceMembers
+      .filter((member) => {
+        const handle = mentionHandle(member).toLowerCase();
+        return handle && handle.startsWith(query);
+      })
+      .slice(0, 5);
+  }, [partial, workspaceMembers]);
+
+  const insertMention = (member: User) => {
+    setValue((prev) =>
+      prev.replace(/@([\w.+-]*)$/, `@${mentionHandle(member)} `),
+    );
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!value.trim() || isSubmitting) return;
+    try {
+      setIsSubmitting(true);
+      await onSubmit(value.trim());
+      setValue("");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="relative">
+      <textarea
+        value={value}
+        onChange={(e) => setValue(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === "Enter" && (e.metaKey || e.ctrlKey)) {
+            handleSubmit(e);
+          }
+        }}
+        placeholder={placeholder}
+        rows={2}
+        className={`w-full p-2 rounded border text-sm ${
+          darkMode
+            ? "bg-[#1C1C1C] border-[#2C2C2C] text-gray-200 placeholder-gray-500 focus:border-emerald-600"
+            : "bg-white border-gray-300 text-gray-700 placeholder-gray-400 focus:border-emerald-500"
+        } focus:outline-none focus:ring-1 focus:ring-emerald-500`}
+      />
+      {suggestions.length > 0 && (
+        <ul
+          className={`absolute z-20 left-0 top-full mt-1 w-56 rounded border shadow-lg text-xs ${
+            darkMode
+              ? "bg-[#1C1C1C] border-[#2C2C2C] text-gray-200"
+              : "bg-white border-gray-200 text-gray-700"
+          }`}
+        >
+          {suggestions.map((member) => (
+            <li key={member.id}>
+              <button
+                type="button"
+                onClick={() => insertMention(member)}
+                className={`w-full text-left px-2 py-1 ${darkMode ? "hover:bg-[#2C2C2C]" : "hover:bg-gray-100"}`}
+              >
+                {member.name || member.email}{" "}
+                <span className="opacity-60">@{mentionHandle(member)}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <div className="mt-1 flex justify-end gap-2">
+        {onCancel && (
+          <button
+            type="button"
+            onClick={onCancel}
+            className={`px-2 py-1 rounded text-xs ${darkMode ? "text-gray-400 hover:text-gray-200" : "text-gray-500 hover:text-gray-800"}`}
+          >
+            Cancel
+          </button>
+        )}
+        <button
+          type="submit"
+          disabled={isSubmitting || !value.trim()}
+          className="px-2 py-1 rounded bg-emerald-600 hover:bg-emerald-700 text-white text-xs disabled:opacity-60"
+        >
+          {isSubmitting ? "Saving..." : submitLabel}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+/** Threaded markdown comments shown below a task's description */
+const CommentThread: React.FC<CommentThreadProps> = ({
+  taskId,
+  darkMode = false,
+  workspaceMembers = [],
+}) => {
+  const [comments, setComments] = useState<TaskComment[]>([]);
+  const [replyTo, setReplyTo] = useState<string | null>(null);
+  const [editing, setEditing] = useState<string | null>(null);
+  const [history, setHistory] = useState<{
+    commentId: string;
+    revisions: TaskCommentRevision[];
+  } | null>(null);
+  const [error, setError] = useState("");
+  const { getToken } = useAuth();
+  const { user } = useUser();
+  const currentEmail = user?.emailAddresses?.[0]?.emailAddress;
+
+  const endpoint = (path = "") =>
+    api.getApiEndpoint(`api/tasks/${taskId}/comments${path}`);
+
+  const fetchComments = useCallback(async () => {
+    try {
+      const token = await getToken();
+      const response = await axios.get<TaskComment[]>(
+        api.getApiEndpoint(`api/tasks/${taskId}/comments`),
+        { headers: { Authorization: `Bearer ${token}` } },
+      );
+      setComments(response.data);
+    } catch (error) {
+      console.error("Failed to fetch comments:", error);
+    }
+  }, [taskId, getToken]);
+
+  useEffect(() => {
+    fetchComments();
+  }, [fetchComments]);
+
+  const request = async (
+    method: "post" | "put" | "delete",
+    path: string,
+    data?: object,
+  ) => {
+    try {
+      setError("");
+      const token = await getToken();
+      await axios({
+        method,
+        url: endpoint(path),
+        data,
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      await fetchComments();
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        setError(error.response?.data?.error || "Failed to save comment");
+      } else {
+        setError("An unexpected error occurred");
+      }
+      throw error;
+    }
+  };
+
+  const showHistory = async (commentId: string) => {
+    if (history?.commentId === commentId) {
+      setHistory(null);
+      return;
+    }
+    try {
+      const token = await getToken();
+      const response = await axios.get<TaskCommentRevision[]>(
+        endpoint(`/${commentId}/history`),
+        { headers: { Authorization: `Bearer ${token}` } },
+      );
+      setHistory({ commentId, revisions: response.data });
+    } catch (error) {
+      console.error("Failed to fetch comment history:", error);
+    }
+  };
+
+  const repliesByParent = useMemo(() => {
+    const map = new Map<string | null, TaskComment[]>();
+    comments.forEach((comment) => {
+      const siblings = map.get(comment.parentId) || [];
+      siblings.push(comment);
+      map.set(comment.parentId, siblings);
+    });
+    return map;
+  }, [comments]);
+
+  const mutedText = darkMode ? "text-gray-500" : "text-gray-400";
+
+  const renderComment = (comment: TaskComment, depth: number) => {
+    const isAuthor = !!currentEmail && comment.author.email === currentEmail;
+    const replies = repliesByParent.get(comment.id) || [];
+
+    return (
+      <li key={comment.id} className={depth > 0 ? "ml-4 pl-3 border-l border-emerald-600/30" : ""}>
+        <div className="py-2">
+          <div className="flex items-center gap-2 text-xs">
+            <span className="font-medium">
+              {comment.author.name || comment.author.email || "Unknown"}
+            </span>
+            <span className={mutedText}>
+              {formatDistanceToNow(new Date(comment.createdAt), {
+                addSuffix: true,
+              })}
+            </span>
+            {comment.editedAt && !comment.deletedAt && (
+              <button
+                onClick={() => showHistory(comment.id)}
+                className={`${mutedText} hover:underline`}
+              >
+                (edited)
+              </button>
+            )}
+          </div>
+
+          {comment.deletedAt ? (
+            <p className={`text-xs italic ${mutedText}`}>Comment deleted</p>
+          ) : editing === comment.id ? (
+            <CommentEditor
+              initialValue={comment.body}
+              placeholder="Edit comment"
+              submitLabel="Save"
+              darkMode={darkMode}
+              workspaceMembers={workspaceMembers}
+              onSubmit={async (body) => {
+                await request("put", `/${comment.id}`, { body });
+                setEditing(null);
+              }}
+              onCancel={() => setEditing(null)}
+            />
+          ) : (
+            <div className={`text-sm ${darkMode ? "text-gray-200" : "text-gray-700"}`}>
+              <Markdown text={comment.body} darkMode={darkMode} />
+            </div>
+          )}
+
+          {!comment.deletedAt && editing !== comment.id && (
+            <div className={`mt-1 flex gap-3 text-xs ${mutedText}`}>
+              <button
+                onClick={() =>
+                  setReplyTo(replyTo === comment.id ? null : comment.id)
+                }
+                className="hover:text-emerald-500"
+              >
+                Reply
+              </button>
+              {isAuthor && (
+                <button
+                  onClick={() => setEditing(comment.id)}
+                  className="hover:text-emerald-500"
+                >
+                  Edit
+                </button>
+              )}
+              <button
+                onClick={() => request("delete", `/${comment.id}`)}
+                className="hover:text-red-500"
+              >
+                Delete
+              </button>
+            </div>
+          )}
+
+          {history?.commentId === comment.id && (
+            <ul
+              className={`mt-2 space-y-1 rounded p-2 text-xs ${darkMode ? "bg-[#1C1C1C]" : "bg-white"}`}
+            >
+              {history.revisions.map((revision) => (
+                <li key={revision.id}>
+                  <span className={mutedText}>
+                    {revision.editor.name || "Someone"}{" "}
+                    {revision.action === "DELETED" ? "deleted" : "edited"}{" "}
+                    {formatDistanceToNow(new Date(revision.createdAt), {
+                      addSuffix: true,
+                    })}
+                    :
+                  </span>{" "}
+                  <span className="line-through opacity-70">
+                    {revision.body}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {replyTo === comment.id && (
+            <div className="mt-2">
+              <CommentEditor
+                placeholder="Write a reply..."
+                submitLabel="Reply"
+                darkMode={darkMode}
+                workspaceMembers={workspaceMembers}
+                onSubmit={async (body) => {
+                  await request("post", "", { body, parentId: comment.id });
+                  setReplyTo(null);
+                }}
+                onCancel={() => setReplyTo(null)}
+              />
+            </div>
+          )}
+        </div>
+
+        {replies.length > 0 && (
+          <ul>{replies.map((reply) => renderComment(reply, depth + 1))}</ul>
+        )}
+      </li>
+    );
+  };
+
+  const topLevel = repliesByParent.get(null) || [];
+
+  return (
+    <div className="mb-3">
+      <label
+        className={`text-xs font-medium ${darkMode ? "text-gray-400" : "text-gray-500"}`}
+      >
+        Comments {comments.length > 0 && `(${comments.length})`}
+      </label>
+
+      {topLevel.length > 0 ? (
+        <ul className={`divide-y ${darkMode ? "divide-[#2C2C2C]" : "divide-gray-200"}`}>
+          {topLevel.map((comment) => renderComment(comment, 0))}
+        </ul>
+      ) : (
+        <p className={`text-xs ${mutedText}`}>No comments yet</p>
+      )}
+
+      <div className="mt-2">
+        <CommentEditor
+          placeholder="Add a comment... Markdown and @mentions supported"
+          submitLabel="Comment"
+          darkMode={darkMode}
+          workspaceMembers={workspaceMembers}
+          onSubmit={(body) => request("post", "", { body })}
+        />
+      </div>
+      {error && <p className="mt-1 text-xs text-red-500">{error}</p>}
+    </div>
+  );
+};
+
+export default CommentThread;
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useMemo } from "react";
 import axios from "axios";
 import { useAuth } from "@clerk/clerk-react";
 import AddTaskModal from "./AddTaskModal";
@@ -8,17 +8,26 @@ import Projectinfo from "./ProjectInfo";
 import { Task, User, TaskStatus } from "../utils/taskTypes";
 import { motion, AnimatePresence } from "framer-motion";
 import { getApiEndpoint } from "../utils/api"; // Import the API utility function
+import { useProjectTasks } from "../utils/apiHooks";
+import { FiSearch } from "react-icons/fi";
+
+// Tasks fetched per page; the board offers "Load more" beyond that
+const BOARD_PAGE_SIZE = 100;
 
 interface KanbanBoardProps {
   projectId: string | null;
   workspaceName?: string | null;
   darkMode?: boolean; // Add darkMode as a prop
+  focusTaskId?: string | null; // Task to open once it has loaded
+  onTaskFocused?: () => void;
 }
 
 const KanbanBoard: React.FC<KanbanBoardProps> = ({
   projectId,
   workspaceName: propWorkspaceName,
   darkMode = true, // Default to dark mode if not provided
+  focusTaskId,
+  onTaskFocused,
 }) => {
   const [tasks, setTasks] = useState<Task[]>([]);
   const [isAddModalOpen, setIsAddModalOpen] = useState(false);
@@ -29,7 +38,11 @@ const KanbanBoard: React.FC<KanbanBoardProps> = ({
     propWorkspaceName || null,
   );
   const [isFetchingMembers, setIsFetchingMembers] = useState(false);
-  const [isLoading, setIsLoading] = useState(true);
+  const [search, setSearch] = useState("");
+  const [debouncedSearch, setDebouncedSearch] = useState("");
+  const [collapsedTaskIds, setCollapsedTaskIds] = useState<Set<string>>(
+    new Set(),
+  );
   const { getToken } = useAuth();
 
   // Use projectId directly without fallback to URL
@@ -81,40 +94,59 @@ const KanbanBoard: React.FC<KanbanBoardProps> = ({
     }
   };
 
-  const fetchTasks = async () => {
-    if (!effectiveProjectId) return;
-    setIsLoading(true); // Set loading to true when fetching starts
-    try {
-      const token = await getToken();
-      const response = await axios.get(
-        getApiEndpoint(`api/tasks/task/${effectiveProjectId}`),
-        {
-          headers: { Authorization: `Bearer ${token}` },
-        },
-      );
-      console.log("API response for tasks:", response.data); // Debug log
-      if (response.data && Array.isArray(response.data)) {
-        setTasks(response.data);
-      } else {
-        console.warn(
-          "API returned invalid tasks data, defaulting to empty array",
-        );
-        setTasks([]);
-      }
-    } catch (error) {
-      console.error("Failed to fetch tasks:", error);
-      setTasks([]);
-    } finally {
-      setIsLoading(false); // Set loading to false when done
-    }
+  // Wait for a pause in typing before searching on the server
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedSearch(search.trim()), 300);
+    return () => clearTimeout(timer);
+  }, [search]);
+
+  const {
+    data: taskPages,
+    isLoading,
+    refetch,
+    hasNextPage,
+    fetchNextPage,
+    isFetchingNextPage,
+  } = useProjectTasks(effectiveProjectId, {
+    q: debouncedSearch,
+    limit: BOARD_PAGE_SIZE,
+  });
+
+  // Board moves cards optimistically, so it works on a local copy
+  useEffect(() => {
+    setTasks(taskPages?.pages.flatMap((page) => page.tasks) ?? []);
+  }, [taskPages]);
+
+  const fetchTasks = () => {
+    refetch();
   };
 
+  // Open the task picked in search, paging further until it shows up
   useEffect(() => {
-    if (effectiveProjectId) {
-      fetchTasks();
-      if (!workspaceName) {
-        fetchProjectDetails();
-      }
+    if (!focusTaskId || isLoading) return;
+    const task = tasks.find((t) => t.id === focusTaskId);
+    if (task) {
+      setSelectedTask(task);
+      setIsTaskInfoModalOpen(true);
+      onTaskFocused?.();
+    } else if (hasNextPage && !isFetchingNextPage) {
+      fetchNextPage();
+    } else if (!hasNextPage) {
+      onTaskFocused?.();
+    }
+  }, [
+    focusTaskId,
+    tasks,
+    isLoading,
+    hasNextPage,
+    isFetchingNextPage,
+    fetchNextPage,
+    onTaskFocused,
+  ]);
+
+  useEffect(() => {
+    if (effectiveProjectId && !workspaceName) {
+      fetchProjectDetails();
     }
   }, [effectiveProjectId, workspaceName]);
 
@@ -124,16 +156,32 @@ const KanbanBoard: React.FC<KanbanBoardProps> = ({
     }
   }, [workspaceName]);
 
-  const handleTaskMoved = async (taskId: string, newStatus: TaskStatus) => {
+  const handleTaskMoved = async (
+    taskId: string,
+    newStatus: TaskStatus,
+    overrideBlockers = false,
+  ): Promise<void> => {
     try {
       const token = await getToken();
       await axios.put(
         getApiEndpoint(`api/tasks/update/${taskId}`),
-        { status: newStatus },
+        { status: newStatus, overrideBlockers },
         { headers: { Authorization: `Bearer ${token}` } },
       );
     } catch (error) {
-      console.error("Failed to update task status:", error);
+      // Completing a blocked task needs an explicit confirmation
+      if (axios.isAxiosError(error) && error.response?.status === 409) {
+        const blockers: { key?: string | null; title: string }[] =
+          error.response.data?.blockers || [];
+        const names = blockers
+          .map((blocker) => blocker.key || blocker.title)
+          .join(", ");
+        if (confirm(`This task is still blocked by ${names}. Mark it done anyway?`)) {
+          return handleTaskMoved(taskId, newStatus, true);
+        }
+      } else {
+        console.error("Failed to update task status:", error);
+      }
       fetchTasks(); // Re-fetch tasks to revert on error
     }
   };
@@ -168,6 +216,41 @@ const KanbanBoard: React.FC<KanbanBoardProps> = ({
     fetchTasks();
   };
 
+  const handleToggleCollapse = (taskId: string) => {
+    setCollapsedTaskIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(taskId)) {
+        next.delete(taskId);
+      } else {
+        next.add(taskId);
+      }
+      return next;
+    });
+  };
+
+  // Every descendant of a collapsed task is hidden from the board
+  const hiddenTaskIds = useMemo(() => {
+    const childrenByParent = new Map<string, string[]>();
+    tasks.forEach((task) => {
+      if (!task.parentId) return;
+      const siblings = childrenByParent.get(task.parentId) || [];
+      siblings.push(task.id);
+      childrenByParent.set(task.parentId, siblings);
+    });
+
+    const hidden = new Set<string>();
+    const stack = [...collapsedTaskIds].flatMap(
+      (id) => childrenByParent.get(id) || [],
+    );
+    while (stack.length > 0) {
+      const id = stack.pop()!;
+      if (hidden.has(id)) continue;
+      hidden.add(id);
+      stack.push(...(childrenByParent.get(id) || []));
+    }
+    return hidden;
+  }, [tasks, collapsedTaskIds]);
+
   const handleDescriptionUpdated = (taskId: string, newDescription: string) => {
     // Update the task in the local state
     setTasks((prevTasks) =>
@@ -177,8 +260,6 @@ const KanbanBoard: React.FC<KanbanBoardProps> = ({
     );
   };
 
-  console.log("Tasks before rendering Board:", tasks); // Debug log
-
   return (
     <div
       className={`min-h-screen ${
@@ -189,6 +270,32 @@ const KanbanBoard: React.FC<KanbanBoardProps> = ({
         <div className="py-6">
           <Projectinfo darkMode={darkMode} projectId={effectiveProjectId} />
         </div>
+        <div className="mb-3 flex items-center gap-3">
+          <div
+            className={`flex items-center gap-2 rounded border px-2 py-1 text-sm ${
+              darkMode
+                ? "bg-[#171717] border-[#2C2C2C] text-gray-300"
+                : "bg-white border-gray-300 text-gray-700"
+            }`}
+          >
+            <FiSearch className="opacity-60" />
+            <input
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search tasks..."
+              className="bg-transparent focus:outline-none"
+            />
+          </div>
+          {hasNextPage && (
+            <button
+              onClick={() => fetchNextPage()}
+              disabled={isFetchingNextPage}
+              className="text-sm text-emerald-500 hover:underline disabled:opacity-60"
+            >
+              {isFetchingNextPage ? "Loading..." : "Load more tasks"}
+            </button>
+          )}
+        </div>
         <div
           className={`mb-6 rounded-lg shadow-md h-[calc(100vh-240px)] ${
             darkMode ? "bg-[#171717] border border-[#2C2C2C]" : "bg-gray-100"
@@ -225,6 +332,9 @@ const KanbanBoard: React.FC<KanbanBoardProps> = ({
                   onTaskClick={handleTaskClick}
                   onAddTaskClick={() => setIsAddModalOpen(true)}
                   darkMode={darkMode}
+                  hiddenTaskIds={hiddenTaskIds}
+                  collapsedTaskIds={collapsedTaskIds}
+                  onToggleCollapse={handleToggleCollapse}
                 />
               </motion.div>
             )}
@@ -240,6 +350,7 @@ const KanbanBoard: React.FC<KanbanBoardProps> = ({
         onTaskAdded={refreshTasks}
         workspaceMembers={workspaceMembers}
         isFetchingMembers={isFetchingMembers}
+        workspaceName={workspaceName}
       />
 
       <AnimatePresence>
@@ -269,12 +380,20 @@ const KanbanBoard: React.FC<KanbanBoardProps> = ({
             >
               <TaskInfo
                 taskId={selectedTask.id}
+                taskKey={selectedTask.key}
                 title={selectedTask.title}
                 description={selectedTask.description}
                 priority={selectedTask.priority}
                 dueDate={selectedTask.dueDate}
                 assigneeId={selectedTask.assignee?.name ?? "—"}
+                taskType={selectedTask.type}
+                workspaceMembers={workspaceMembers}
+                workspaceName={workspaceName}
+                tags={selectedTask.tags}
+                onTagsChanged={refreshTasks}
                 darkMode={darkMode}
+                onSubtasksChanged={refreshTasks}
+                onLinksChanged={refreshTasks}
                 onClose={() => setIsTaskInfoModalOpen(false)}
                 onTaskDeleted={() => {
                   setIsTaskInfoModalOpen(false);
@@ -0,0 +1,98 @@
+import React from "react";
+
+interface MarkdownProps {
+  text: string;
+  darkMode?: boolean;
+}
+
+// Inline tokens: `code`, **bold**, *italic*, [label](url) and @mentions
+const INLINE_PATTERN =
+  /(`[^`]+`|\*\*[^*]+\*\*|\*[^*]+\*|\[[^\]]+\]\([^)\s]+\)|(?<![\w.@])@[\w.+-]+)/g;
+
+const isSafeUrl = (url: string) => /^(https?:|mailto:|\/)/i.test(url);
+
+/** Minimal markdown renderer for comments; never injects raw HTML */
+const Markdown: React.FC<MarkdownProps> = ({ text, darkMode = false }) => {
+  const renderInline = (line: string, keyPrefix: string) =>
+    line.split(INLINE_PATTERN).map((part, i) => {
+      const key = `${keyPrefix}-${i}`;
+      if (!part) return null;
+
+      if (part.startsWith("`") && part.endsWith("`")) {
+        return (
+          <code
+            key={key}
+            className={`rounded px-1 ${darkMode ? "bg-[#2C2C2C]" : "bg-gray-200"}`}
+          >
+            {part.slice(1, -1)}
+          </code>
+        );
+      }
+      if (part.startsWith("**") && part.endsWith("**")) {
+        return <strong key={key}>{part.slice(2, -2)}</strong>;
+      }
+      if (part.startsWith("*") && part.endsWith("*") && part.length > 2) {
+        return <em key={key}>{part.slice(1, -1)}</em>;
+      }
+      const link = part.match(/^\[([^\]]+)\]\(([^)\s]+)\)$/);
+      if (link) {
+        return isSafeUrl(link[2]) ? (
+          <a
+            key={key}
+            href={link[2]}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-emerald-500 underline"
+          >
+            {link[1]}
+          </a>
+        ) : (
+          link[1]
+        );
+      }
+      if (part.startsWith("@")) {
+        return (
+          <span key={key} className="font-medium text-emerald-500">
+            {part}
+          </span>
+        );
+      }
+      return <React.Fragment key={key}>{part}</React.Fragment>;
+    });
+
+  // Fenced code blocks are kept verbatim; everything else is split by line
+  const blocks = text.split(/```/);
+
+  return (
+    <div className="space-y-1 break-words">
+      {blocks.map((block, blockIndex) =>
+        blockIndex % 2 === 1 ? (
+          <pre
+            key={blockIndex}
+            className={`overflow-x-auto rounded p-2 text-xs ${darkMode ? "bg-[#2C2C2C]" : "bg-gray-200"}`}
+          >
+            {block.replace(/^\w*\n/, "")}
+          </pre>
+        ) : (
+          block
+            .split("\n")
+            .filter((line, i, lines) => line || (i > 0 && i < lines.length - 1))
+            .map((line, lineIndex) => {
+              const key = `${blockIndex}-${lineIndex}`;
+              const bullet = line.match(/^\s*[-*]\s+(.*)$/);
+              if (bullet) {
+                return (
+                  <div key={key} className="pl-3">
+                    • {renderInline(bullet[1], key)}
+                  </div>
+                );
+              }
+              return <p key={key}>{line ? renderInline(line, key) : " "}</p>;
+            })
+        ),
+      )}
+    </div>
+  );
+};
+
+export default Markdown;
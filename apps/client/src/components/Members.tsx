@@ -5,10 +5,13 @@ import axios from "axios";
 import { useAuth } from "@clerk/clerk-react";
 import { LoadingSpinner } from "./LoadingSpinner";
 import { getApiEndpoint } from "../utils/api"; // Import the API utility function
+import { PresenceMap } from "../utils/presence";
+import { PresenceDot } from "./PresenceDot";
 
 interface MembersProps {
   workspaceName: string;
   darkMode?: boolean;
+  presence?: PresenceMap;
 }
 
 interface WorkspaceMember {
@@ -30,7 +33,11 @@ interface WorkspaceDetails {
   projectCount: number;
 }
 
-export function Members({ workspaceName, darkMode = true }: MembersProps) {
+export function Members({
+  workspaceName,
+  darkMode = true,
+  presence = {},
+}: MembersProps) {
   const [workspaceDetails, setWorkspaceDetails] =
     useState<WorkspaceDetails | null>(null);
   const [isLoading, setIsLoading] = useState(false);
@@ -241,9 +248,15 @@ export function Members({ workspaceName, darkMode = true }: MembersProps) {
                 >
                   <div className="flex items-center">
                     <div
-                      className={`flex h-8 w-8 items-center justify-center rounded-full ${avatarBgClass} ${avatarTextClass}`}
+                      className={`relative flex h-8 w-8 items-center justify-center rounded-full ${avatarBgClass} ${avatarTextClass}`}
                     >
                       {member.name ? member.name[0].toUpperCase() : "?"}
+                      <PresenceDot
+                        status={
+                          member.email ? presence[member.email] : undefined
+                        }
+                        className={`absolute -bottom-0.5 -right-0.5 h-2.5 w-2.5 ring-2 ${darkMode ? "ring-[#1F1F1F]" : "ring-gray-100"}`}
+                      />
                     </div>
                     <div className="ml-3">
                       <p className={`font-medium ${nameTextClass}`}>
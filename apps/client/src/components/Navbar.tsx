@@ -1,14 +1,38 @@
+import { useEffect, useState } from "react";
 import { motion } from "framer-motion";
-import { Moon, Sun } from "lucide-react";
+import { Moon, Search, Sun } from "lucide-react";
 import SignIn from "./SignIn";
+import SearchPalette from "./SearchPalette";
+import { SearchResult } from "../utils/taskTypes";
 
 interface NavbarProps {
   workspaceCode?: string;
   darkMode: boolean;
   toggleDarkMode: () => void;
+  onSearchSelect?: (result: SearchResult) => void;
 }
 
-function Navbar({ workspaceCode, darkMode, toggleDarkMode }: NavbarProps) {
+function Navbar({
+  workspaceCode,
+  darkMode,
+  toggleDarkMode,
+  onSearchSelect,
+}: NavbarProps) {
+  const [isSearchOpen, setIsSearchOpen] = useState(false);
+
+  // Ctrl+K / Cmd+K opens the search palette from anywhere on the page
+  useEffect(() => {
+    if (!onSearchSelect) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === "k") {
+        e.preventDefault();
+        setIsSearchOpen((open) => !open);
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [onSearchSelect]);
+
   return (
     <motion.header
       className={`${darkMode ? "bg-[#171717] text-white" : "bg-white text-gray-800"} border-b ${darkMode ? "border-[#2C2C2C]" : "border-gray-200"} h-16 flex items-center justify-between px-6`}
@@ -28,6 +52,23 @@ function Navbar({ workspaceCode, darkMode, toggleDarkMode }: NavbarProps) {
       )}
 
       <div className="flex items-center space-x-4">
+        {onSearchSelect && (
+          <button
+            onClick={() => setIsSearchOpen(true)}
+            className={`flex items-center gap-2 rounded-md border px-3 py-1.5 text-sm ${
+              darkMode
+                ? "border-[#2C2C2C] text-gray-400 hover:bg-[#2C2C2C]"
+                : "border-gray-200 text-gray-500 hover:bg-gray-100"
+            }`}
+          >
+            <Search size={16} />
+            Search
+            <kbd className="rounded border border-current px-1 font-mono text-[10px] opacity-70">
+              Ctrl K
+            </kbd>
+          </button>
+        )}
+
         <motion.button
           onClick={toggleDarkMode}
           className={`p-2 rounded-md ${darkMode ? "hover:bg-[#2C2C2C]" : "hover:bg-gray-100"}`}
@@ -39,6 +80,16 @@ function Navbar({ workspaceCode, darkMode, toggleDarkMode }: NavbarProps) {
 
         <SignIn darkMode={darkMode} />
       </div>
+
+      {onSearchSelect && (
+        <SearchPalette
+          isOpen={isSearchOpen}
+          onClose={() => setIsSearchOpen(false)}
+          onSelect={onSearchSelect}
+          workspaceName={workspaceCode}
+          darkMode={darkMode}
+        />
+      )}
     </motion.header>
   );
 }
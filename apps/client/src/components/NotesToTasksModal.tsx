@@ -0,0 +1,172 @@
+import React, { useEffect, useState } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import axios from "axios";
+import { FiX } from "react-icons/fi";
+import {
+  useCreateTasksFromNotes,
+  useWorkspaceProjects,
+  useWorkspaceSprints,
+} from "../utils/apiHooks";
+import { NoteTask } from "../utils/taskTypes";
+
+interface NotesToTasksModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  roomCode: string;
+  notes: { objectId: string; text: string }[];
+  onCreated: (tasks: NoteTask[]) => void;
+}
+
+/** Pick a project and sprint, then turn the selected notes into tasks */
+const NotesToTasksModal: React.FC<NotesToTasksModalProps> = ({
+  isOpen,
+  onClose,
+  roomCode,
+  notes,
+  onCreated,
+}) => {
+  const [projectId, setProjectId] = useState("");
+  const [sprintId, setSprintId] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const { data: projects = [] } = useWorkspaceProjects(
+    isOpen ? roomCode : null,
+  );
+  const { data: sprints = [] } = useWorkspaceSprints(isOpen ? roomCode : null);
+  const createTasks = useCreateTasksFromNotes(roomCode);
+
+  useEffect(() => {
+    if (!projectId && projects.length > 0) setProjectId(projects[0].id);
+  }, [projectId, projects]);
+
+  useEffect(() => {
+    if (!isOpen) setError(null);
+  }, [isOpen]);
+
+  const projectSprints = sprints.filter(
+    (sprint) => sprint.projectId === projectId && sprint.status !== "COMPLETED",
+  );
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!projectId) return;
+    setError(null);
+
+    try {
+      const tasks = await createTasks.mutateAsync({
+        projectId,
+        sprintId: sprintId || undefined,
+        notes,
+      });
+      onCreated(tasks);
+      onClose();
+    } catch (err) {
+      setError(
+        axios.isAxiosError(err) && err.response?.data?.error
+          ? err.response.data.error
+          : "Failed to create tasks",
+      );
+    }
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 z-[60] flex items-center justify-center"
+        >
+          <div
+            className="absolute inset-0 bg-black/50 backdrop-blur-sm"
+            onClick={onClose}
+          />
+          <motion.form
+            initial={{ y: -10, opacity: 0 }}
+            animate={{ y: 0, opacity: 1 }}
+            exit={{ y: -10, opacity: 0 }}
+            onSubmit={handleSubmit}
+            className="relative z-10 w-full max-w-md rounded-lg border border-[#2C2C2C] bg-[#1C1C1C] p-5 text-gray-200 shadow-xl"
+          >
+            <div className="mb-4 flex items-center justify-between">
+              <h2 className="text-lg font-semibold">
+                Create {notes.length} task{notes.length === 1 ? "" : "s"}
+              </h2>
+              <button
+                type="button"
+                onClick={onClose}
+                className="text-gray-400 hover:text-white"
+              >
+                <FiX />
+              </button>
+            </div>
+
+            <ul className="mb-4 max-h-40 space-y-1 overflow-y-auto text-sm">
+              {notes.map((note) => (
+                <li
+                  key={note.objectId}
+                  className="truncate rounded bg-[#2C2C2C] px-2 py-1"
+                >
+                  {note.text.trim().split("\n")[0]}
+                </li>
+              ))}
+            </ul>
+
+            <label className="mb-1 block text-sm text-gray-400">Project</label>
+            <select
+              value={projectId}
+              onChange={(e) => {
+                setProjectId(e.target.value);
+                setSprintId("");
+              }}
+              className="mb-3 w-full rounded border border-[#3C3C3C] bg-[#121212] px-3 py-2 text-sm focus:border-emerald-500 focus:outline-none"
+              required
+            >
+              {projects.length === 0 && <option value="">No projects</option>}
+              {projects.map((project) => (
+                <option key={project.id} value={project.id}>
+                  {project.name}
+                </option>
+              ))}
+            </select>
+
+            <label className="mb-1 block text-sm text-gray-400">Sprint</label>
+            <select
+              value={sprintId}
+              onChange={(e) => setSprintId(e.target.value)}
+              className="mb-4 w-full rounded border border-[#3C3C3C] bg-[#121212] px-3 py-2 text-sm focus:border-emerald-500 focus:outline-none"
+            >
+              <option value="">Backlog (no sprint)</option>
+              {projectSprints.map((sprint) => (
+                <option key={sprint.id} value={sprint.id}>
+                  {sprint.name}
+                </option>
+              ))}
+            </select>
+
+            {error && <p className="mb-3 text-sm text-red-400">{error}</p>}
+
+            <div className="flex justify-end gap-2">
+              <button
+                type="button"
+                onClick={onClose}
+                className="rounded-md bg-[#2C2C2C] px-4 py-2 text-sm hover:bg-[#3C3C3C]"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={!projectId || createTasks.isPending}
+                className="rounded-md bg-emerald-600 px-4 py-2 text-sm text-white hover:bg-emerald-700 disabled:opacity-50"
+              >
+                {createTasks.isPending ? "Creating..." : "Create tasks"}
+              </button>
+            </div>
+          </motion.form>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
+
+export default NotesToTasksModal;
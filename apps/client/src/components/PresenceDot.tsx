@@ -0,0 +1,33 @@
+import React from "react";
+import { PresenceStatus } from "../utils/presence";
+
+const statusClass: Record<PresenceStatus | "offline", string> = {
+  online: "bg-emerald-500",
+  away: "bg-amber-400",
+  offline: "bg-gray-500",
+};
+
+const statusLabel: Record<PresenceStatus | "offline", string> = {
+  online: "Online",
+  away: "Away",
+  offline: "Offline",
+};
+
+/**
+ * Online, away or offline marker, e.g. on an avatar or next to a name.
+ * className sets the size and position; a small inline dot by default.
+ */
+export const PresenceDot: React.FC<{
+  status?: PresenceStatus;
+  className?: string;
+}> = ({ status, className = "h-2 w-2" }) => {
+  const key = status ?? "offline";
+  return (
+    <span
+      title={statusLabel[key]}
+      className={`inline-block shrink-0 rounded-full ${statusClass[key]} ${className}`}
+    />
+  );
+};
+
+export default PresenceDot;
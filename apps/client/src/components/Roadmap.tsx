@@ -14,6 +14,7 @@ import {
 import axios from "axios";
 import { useAuth } from "@clerk/clerk-react";
 import RoadMapForm from "./RoadMapForm";
+import BoardExports from "./BoardExports";
 import api from "../utils/api";
 
 interface Task {
@@ -23,7 +24,7 @@ interface Task {
   status?: string;
   priority?: string;
   assignee?: { id: string; name: string };
-  tags?: { id: string; name: string }[];
+  tags?: { id: string; tag: { id: string; name: string } }[];
 }
 
 interface Milestone {
@@ -538,7 +539,7 @@ const Roadmap: React.FC<RoadmapProps> = ({ workspaceName, darkMode }) => {
                                 )}
                                 {task.tags && task.tags.length > 0 && (
                                   <div className="flex gap-1 mt-1">
-                                    {task.tags.map((tag) => (
+                                    {task.tags.map(({ tag }) => (
                                       <span
                                         key={tag.id}
                                         className={`text-xs px-1.5 py-0.5 rounded ${darkMode ? "bg-[#2C2C2C] text-gray-300" : "bg-gray-200 text-gray-700"}`}
@@ -577,6 +578,14 @@ const Roadmap: React.FC<RoadmapProps> = ({ workspaceName, darkMode }) => {
                                 </ul>
                               </div>
                             )}
+                          {isExpanded && (
+                            <div className="mt-2">
+                              <BoardExports
+                                target={{ milestoneId: milestone.id }}
+                                darkMode={darkMode}
+                              />
+                            </div>
+                          )}
                         </div>
                       )}
                     </div>
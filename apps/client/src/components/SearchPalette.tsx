@@ -0,0 +1,178 @@
+import React, { useState, useEffect } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import {
+  FiCheckSquare,
+  FiFlag,
+  FiFolder,
+  FiMessageSquare,
+  FiSearch,
+  FiZap,
+} from "react-icons/fi";
+import { useGlobalSearch } from "../utils/apiHooks";
+import { SearchResult, SearchResultType } from "../utils/taskTypes";
+
+interface SearchPaletteProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSelect: (result: SearchResult) => void;
+  workspaceName?: string;
+  darkMode: boolean;
+}
+
+const TYPE_ICONS: Record<SearchResultType, React.ReactNode> = {
+  task: <FiCheckSquare />,
+  project: <FiFolder />,
+  sprint: <FiZap />,
+  milestone: <FiFlag />,
+  message: <FiMessageSquare />,
+};
+
+/** Ctrl+K palette that searches the workspace and jumps to the result */
+const SearchPalette: React.FC<SearchPaletteProps> = ({
+  isOpen,
+  onClose,
+  onSelect,
+  workspaceName,
+  darkMode,
+}) => {
+  const [query, setQuery] = useState("");
+  const [debouncedQuery, setDebouncedQuery] = useState("");
+  const [activeIndex, setActiveIndex] = useState(0);
+  const { data: results = [], isFetching } = useGlobalSearch(
+    workspaceName,
+    debouncedQuery,
+  );
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedQuery(query.trim()), 200);
+    return () => clearTimeout(timer);
+  }, [query]);
+
+  useEffect(() => {
+    setActiveIndex(0);
+  }, [results]);
+
+  useEffect(() => {
+    if (!isOpen) setQuery("");
+  }, [isOpen]);
+
+  const choose = (result: SearchResult | undefined) => {
+    if (!result) return;
+    onSelect(result);
+    onClose();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === "ArrowDown") {
+      e.preventDefault();
+      setActiveIndex((index) => Math.min(index + 1, results.length - 1));
+    } else if (e.key === "ArrowUp") {
+      e.preventDefault();
+      setActiveIndex((index) => Math.max(index - 1, 0));
+    } else if (e.key === "Enter") {
+      e.preventDefault();
+      choose(results[activeIndex]);
+    } else if (e.key === "Escape") {
+      onClose();
+    }
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          transition={{ duration: 0.15 }}
+          className="fixed inset-0 z-[60] flex items-start justify-center pt-24"
+        >
+          <div
+            className="absolute inset-0 bg-black/50 backdrop-blur-sm"
+            onClick={onClose}
+          />
+          <motion.div
+            initial={{ y: -10, opacity: 0 }}
+            animate={{ y: 0, opacity: 1 }}
+            exit={{ y: -10, opacity: 0 }}
+            transition={{ duration: 0.15 }}
+            className={`relative z-10 w-full max-w-xl rounded-lg border shadow-xl ${
+              darkMode
+                ? "bg-[#1C1C1C] border-[#2C2C2C] text-gray-200"
+                : "bg-white border-gray-200 text-gray-800"
+            }`}
+          >
+            <div
+              className={`flex items-center gap-2 border-b px-4 py-3 ${
+                darkMode ? "border-[#2C2C2C]" : "border-gray-200"
+              }`}
+            >
+              <FiSearch className="opacity-60" />
+              <input
+                autoFocus
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                onKeyDown={handleKeyDown}
+                placeholder="Search tasks, projects, sprints, milestones and chat..."
+                className="flex-1 bg-transparent text-sm focus:outline-none"
+              />
+              {isFetching && (
+                <span className="text-xs opacity-60">Searching...</span>
+              )}
+            </div>
+
+            <ul className="max-h-96 overflow-y-auto py-2">
+              {results.map((result, index) => (
+                <li key={`${result.type}-${result.id}`}>
+                  <button
+                    onClick={() => choose(result)}
+                    onMouseEnter={() => setActiveIndex(index)}
+                    className={`flex w-full items-start gap-3 px-4 py-2 text-left text-sm ${
+                      index === activeIndex
+                        ? darkMode
+                          ? "bg-[#2C2C2C]"
+                          : "bg-gray-100"
+                        : ""
+                    }`}
+                  >
+                    <span className="mt-0.5 text-emerald-500">
+                      {TYPE_ICONS[result.type]}
+                    </span>
+                    <span className="min-w-0 flex-1">
+                      <span className="block truncate">
+                        {result.key && (
+                          <span className="mr-2 font-mono text-xs opacity-70">
+                            {result.key}
+                          </span>
+                        )}
+                        {result.title || "Untitled"}
+                      </span>
+                      {result.snippet && (
+                        <span className="block truncate text-xs opacity-60">
+                          {result.snippet}
+                        </span>
+                      )}
+                    </span>
+                    <span className="text-[10px] uppercase opacity-50">
+                      {result.type}
+                    </span>
+                  </button>
+                </li>
+              ))}
+              {debouncedQuery && !isFetching && results.length === 0 && (
+                <li className="px-4 py-2 text-sm opacity-60">No matches</li>
+              )}
+              {!debouncedQuery && (
+                <li className="px-4 py-2 text-sm opacity-60">
+                  Type to search this workspace
+                </li>
+              )}
+            </ul>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
+
+export default SearchPalette;
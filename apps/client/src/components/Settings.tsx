@@ -84,30 +84,19 @@ export function Settings({
 
   useEffect(() => {
     const fetchUserData = async () => {
-      if (!user?.emailAddresses?.[0]?.emailAddress) return;
+      if (!user) return;
 
       try {
         const token = await getToken();
-        const email = user.emailAddresses[0].emailAddress;
-
-        const response = await axios.get(
-          api.getApiEndpoint(
-            `/api/users/check?email=${encodeURIComponent(email)}`,
-          ),
-          { headers: { Authorization: `Bearer ${token}` } },
-        );
-
-        console.log("User check response:", response.data);
-
-        if (response.data.exists) {
-          setProfileName(response.data.name || "");
-          if (response.data.id) {
-            console.log("User ID set to:", response.data.id);
-          } else {
-            console.warn("User exists but ID not found in response");
-          }
-        }
+        const response = await axios.get(api.getApiEndpoint("/api/users/me"), {
+          headers: { Authorization: `Bearer ${token}` },
+        });
+        setProfileName(response.data.name || "");
       } catch (error) {
+        // No account yet; saving the profile creates it
+        if (axios.isAxiosError(error) && error.response?.status === 404) {
+          return;
+        }
         console.error("Error fetching user data:", error);
       }
     };
@@ -231,26 +220,13 @@ export function Settings({
     setIsSaving(true);
     try {
       const token = await getToken();
-      const email = user?.emailAddresses?.[0]?.emailAddress;
-
-      if (!email) {
-        throw new Error("User email not found");
-      }
-
-      console.log("Updating user by email:", email);
-
       const response = await axios.put(
-        api.getApiEndpoint(`/api/users/email/${encodeURIComponent(email)}`),
+        api.getApiEndpoint("/api/users/me"),
         { name: profileName },
         { headers: { Authorization: `Bearer ${token}` } },
       );
 
-      console.log("Update response:", response.data);
-
-      if (response.data.user && response.data.user.id) {
-        console.log("User ID set to:", response.data.user.id);
-      }
-
+      setProfileName(response.data.user?.name ?? profileName);
       setMessage({ type: "success", text: "Profile updated successfully" });
       setTimeout(() => setMessage({ type: "", text: "" }), 3000);
     } catch (error) {
@@ -18,6 +18,8 @@ import {
 import { FormModal } from "./FormModal";
 import { SprintFormModal } from "./SprintFormModal";
 import { LoadingSpinner } from "./LoadingSpinner";
+import { ChannelList } from "./ChannelList";
+import { PresenceMap } from "../utils/presence";
 import axios from "axios";
 import { useAuth } from "@clerk/clerk-react";
 import api from "../utils/api"; // Import the API utility
@@ -32,6 +34,11 @@ interface SidebarProps {
   onItemSelect: (item: string) => void;
   onSidebarToggle?: (minimized: boolean) => void;
   isInitialized?: boolean; // Add this prop
+  userEmail?: string;
+  // The open chat channel; null is the workspace-wide chat
+  selectedChannelId?: string | null;
+  onChannelSelect?: (channelId: string | null) => void;
+  presence?: PresenceMap;
 }
 interface Project {
   id: string;
@@ -56,6 +63,10 @@ export function Sidebar({
   onItemSelect,
   onSidebarToggle,
   isInitialized = false, // Default to false
+  userEmail = "",
+  selectedChannelId = null,
+  onChannelSelect,
+  presence,
 }: SidebarProps) {
   const [projectsExpanded, setProjectsExpanded] = useState(true);
   const [sprintsExpanded, setSprintsExpanded] = useState(false);
@@ -591,6 +602,19 @@ export function Sidebar({
                 </motion.button>
               ),
             )}
+
+            {/* Chat channels and direct messages */}
+            {!isMinimized && workspaceCode && onChannelSelect && (
+              <ChannelList
+                workspaceName={workspaceCode}
+                userEmail={userEmail}
+                selectedChannelId={selectedChannelId}
+                isActive={selectedItem === "messages"}
+                darkMode={darkMode}
+                presence={presence}
+                onSelect={onChannelSelect}
+              />
+            )}
           </nav>
         </div>
 
@@ -0,0 +1,155 @@
+import React, { useState } from "react";
+import { FiPlus, FiX } from "react-icons/fi";
+import { useCreateTag, useWorkspaceTags } from "../utils/apiHooks";
+import { Tag } from "../utils/taskTypes";
+
+interface TagPickerProps {
+  workspaceName: string | null | undefined;
+  selectedTagIds: string[];
+  onAdd: (tag: Tag) => void;
+  onRemove: (tag: Tag) => void;
+  darkMode?: boolean;
+}
+
+const DEFAULT_TAG_COLOR = "#10b981";
+
+/** Tag chips plus a dropdown to pick from, or add to, the workspace catalog */
+const TagPicker: React.FC<TagPickerProps> = ({
+  workspaceName,
+  selectedTagIds,
+  onAdd,
+  onRemove,
+  darkMode = false,
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [query, setQuery] = useState("");
+  const { data: tags = [] } = useWorkspaceTags(workspaceName);
+  const createTag = useCreateTag(workspaceName);
+
+  const selectedTags = tags.filter((tag) => selectedTagIds.includes(tag.id));
+  const available = tags.filter(
+    (tag) =>
+      !selectedTagIds.includes(tag.id) &&
+      tag.name.toLowerCase().includes(query.trim().toLowerCase()),
+  );
+  const canCreate =
+    query.trim() !== "" &&
+    !tags.some((tag) => tag.name.toLowerCase() === query.trim().toLowerCase());
+
+  const handleCreate = async () => {
+    const tag = await createTag.mutateAsync({
+      name: query.trim(),
+      color: DEFAULT_TAG_COLOR,
+    });
+    onAdd(tag);
+    setQuery("");
+  };
+
+  return (
+    <div className="relative">
+      <div className="flex flex-wrap items-center gap-1">
+        {selectedTags.map((tag) => (
+          <span
+            key={tag.id}
+            className="inline-flex items-center gap-1 rounded-full px-2 py-0.5 text-xs text-white"
+            style={{ backgroundColor: tag.color || DEFAULT_TAG_COLOR }}
+          >
+            {tag.name}
+            <button
+              type="button"
+              onClick={() => onRemove(tag)}
+              aria-label={`Remove ${tag.name}`}
+            >
+              <FiX className="h-3 w-3" />
+            </button>
+          </span>
+        ))}
+        <button
+          type="button"
+          onClick={() => setIsOpen((open) => !open)}
+          disabled={!workspaceName}
+          className={`inline-flex items-center gap-1 rounded-full border px-2 py-0.5 text-xs ${
+            darkMode
+              ? "border-[#2C2C2C] text-gray-400 hover:text-gray-200"
+              : "border-gray-300 text-gray-500 hover:text-gray-800"
+          }`}
+        >
+          <FiPlus className="h-3 w-3" /> Tag
+        </button>
+      </div>
+
+      {isOpen && (
+        <div
+          className={`absolute z-30 mt-1 w-56 rounded border p-2 shadow-lg ${
+            darkMode
+              ? "bg-[#1C1C1C] border-[#2C2C2C] text-gray-200"
+              : "bg-white border-gray-200 text-gray-700"
+          }`}
+        >
+          <input
+            autoFocus
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") {
+                e.preventDefault();
+                if (available[0]) {
+                  onAdd(available[0]);
+                  setQuery("");
+                } else if (canCreate) {
+                  handleCreate();
+                }
+              }
+              if (e.key === "Escape") setIsOpen(false);
+            }}
+            placeholder="Search or create..."
+            className={`mb-1 w-full rounded border px-2 py-1 text-xs focus:outline-none ${
+              darkMode
+                ? "bg-[#2C2C2C] border-gray-700 text-white"
+                : "bg-white border-gray-300 text-gray-900"
+            }`}
+          />
+          <ul className="max-h-40 overflow-y-auto text-xs">
+            {available.map((tag) => (
+              <li key={tag.id}>
+                <button
+                  type="button"
+                  onClick={() => {
+                    onAdd(tag);
+                    setQuery("");
+                  }}
+                  className={`flex w-full items-center gap-2 rounded px-2 py-1 text-left ${
+                    darkMode ? "hover:bg-[#2C2C2C]" : "hover:bg-gray-100"
+                  }`}
+                >
+                  <span
+                    className="h-2 w-2 rounded-full"
+                    style={{ backgroundColor: tag.color || DEFAULT_TAG_COLOR }}
+                  />
+                  {tag.name}
+                </button>
+              </li>
+            ))}
+            {canCreate && (
+              <li>
+                <button
+                  type="button"
+                  onClick={handleCreate}
+                  disabled={createTag.isPending}
+                  className="w-full rounded px-2 py-1 text-left text-emerald-500 hover:underline"
+                >
+                  Create "{query.trim()}"
+                </button>
+              </li>
+            )}
+            {available.length === 0 && !canCreate && (
+              <li className="px-2 py-1 opacity-60">No more tags</li>
+            )}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TagPicker;
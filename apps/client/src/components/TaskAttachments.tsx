@@ -0,0 +1,110 @@
+import React, { useRef, useState } from "react";
+import axios from "axios";
+import { FiPaperclip } from "react-icons/fi";
+import { useTaskAttachments, useUploadAttachment } from "../utils/apiHooks";
+import { ATTACHMENT_ACCEPT, checkAttachment } from "../utils/attachments";
+import AttachmentList from "./AttachmentList";
+
+interface TaskAttachmentsProps {
+  taskId: string;
+  darkMode?: boolean;
+}
+
+/** A task's files, with a drop zone and file picker for adding more */
+const TaskAttachments: React.FC<TaskAttachmentsProps> = ({
+  taskId,
+  darkMode = false,
+}) => {
+  const { data: attachments = [] } = useTaskAttachments(taskId);
+  const uploadAttachment = useUploadAttachment({ taskId });
+  const [isDragging, setIsDragging] = useState(false);
+  const [uploadingCount, setUploadingCount] = useState(0);
+  const [errors, setErrors] = useState<string[]>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const uploadFiles = async (files: File[]) => {
+    const problems = files.map(checkAttachment).filter(Boolean) as string[];
+    const accepted = files.filter((file) => !checkAttachment(file));
+    setErrors(problems);
+    setUploadingCount((count) => count + accepted.length);
+
+    await Promise.all(
+      accepted.map(async (file) => {
+        try {
+          await uploadAttachment.mutateAsync(file);
+        } catch (error) {
+          console.error("Failed to upload file:", error);
+          const message = axios.isAxiosError(error)
+            ? error.response?.data?.error
+            : null;
+          setErrors((current) => [
+            ...current,
+            `${file.name}: ${message || "upload failed"}`,
+          ]);
+        } finally {
+          setUploadingCount((count) => count - 1);
+        }
+      }),
+    );
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    uploadFiles(Array.from(e.dataTransfer.files));
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    uploadFiles(Array.from(e.target.files ?? []));
+    e.target.value = "";
+  };
+
+  const mutedText = darkMode ? "text-gray-500" : "text-gray-400";
+
+  return (
+    <div className="mb-3">
+      <label
+        className={`block mb-1 text-xs font-medium ${darkMode ? "text-gray-400" : "text-gray-500"}`}
+      >
+        Attachments
+      </label>
+      <AttachmentList attachments={attachments} darkMode={darkMode} />
+      <div
+        onDragOver={(e) => {
+          e.preventDefault();
+          setIsDragging(true);
+        }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+        onClick={() => fileInputRef.current?.click()}
+        className={`mt-1 flex cursor-pointer items-center justify-center gap-2 rounded-md border border-dashed px-3 py-2 text-xs transition-colors ${
+          isDragging
+            ? "border-emerald-500 text-emerald-500"
+            : darkMode
+              ? `border-[#3C3C3C] hover:border-emerald-500 ${mutedText}`
+              : `border-gray-300 hover:border-emerald-500 ${mutedText}`
+        }`}
+      >
+        <FiPaperclip />
+        {uploadingCount > 0
+          ? `Uploading ${uploadingCount} file${uploadingCount === 1 ? "" : "s"}…`
+          : "Drop files here or click to attach"}
+      </div>
+      <input
+        ref={fileInputRef}
+        type="file"
+        multiple
+        accept={ATTACHMENT_ACCEPT}
+        onChange={handleFileChange}
+        className="hidden"
+      />
+      {errors.map((error) => (
+        <p key={error} className="mt-1 text-xs text-red-500">
+          {error}
+        </p>
+      ))}
+    </div>
+  );
+};
+
+export default TaskAttachments;
@@ -3,9 +3,17 @@ import axios from "axios";
 import { useAuth } from "@clerk/clerk-react";
 import { motion } from "framer-motion";
 import api from "../utils/api";
+import TaskTree from "./TaskTree";
+import CommentThread from "./CommentThread";
+import TagPicker from "./TagPicker";
+import TaskLinks from "./TaskLinks";
+import BoardExports from "./BoardExports";
+import TaskAttachments from "./TaskAttachments";
+import { Tag, TaskTagLink, User } from "../utils/taskTypes";
 
 interface TaskInfoProps {
   taskId: string;
+  taskKey?: string | null;
   title?: string;
   description?: string;
   onTaskDeleted?: () => void;
@@ -15,18 +23,33 @@ interface TaskInfoProps {
   priority?: string;
   dueDate?: string | Date;
   assigneeId?: string | null;
+  taskType?: string;
+  onSubtasksChanged?: () => void;
+  workspaceMembers?: User[];
+  workspaceName?: string | null;
+  tags?: TaskTagLink[];
+  onTagsChanged?: () => void;
+  onLinksChanged?: () => void;
 }
 
 function TaskInfo({
   taskId,
+  taskKey,
   title,
   description,
   priority,
   dueDate,
   assigneeId,
+  taskType,
   onTaskDeleted,
   onClose,
   onDescriptionUpdated,
+  onSubtasksChanged,
+  workspaceMembers = [],
+  workspaceName,
+  tags = [],
+  onTagsChanged,
+  onLinksChanged,
   darkMode = false,
 }: TaskInfoProps) {
   const [isDeleting, setIsDeleting] = useState(false);
@@ -34,12 +57,46 @@ function TaskInfo({
   const [saveStatus, setSaveStatus] = useState<
     "idle" | "saving" | "saved" | "error"
   >("idle");
+  const [tagIds, setTagIds] = useState<string[]>(
+    tags.map((link) => link.tagId),
+  );
   const { getToken } = useAuth();
 
   useEffect(() => {
     setEditedDescription(description || "");
   }, [description]);
 
+  const handleAddTag = async (tag: Tag) => {
+    setTagIds((prev) => [...prev, tag.id]);
+    try {
+      const token = await getToken();
+      await axios.post(
+        api.getApiEndpoint(`api/tasks/${taskId}/tags`),
+        { tagId: tag.id },
+        { headers: { Authorization: `Bearer ${token}` } },
+      );
+      onTagsChanged?.();
+    } catch (error) {
+      console.error("Failed to add tag:", error);
+      setTagIds((prev) => prev.filter((id) => id !== tag.id));
+    }
+  };
+
+  const handleRemoveTag = async (tag: Tag) => {
+    setTagIds((prev) => prev.filter((id) => id !== tag.id));
+    try {
+      const token = await getToken();
+      await axios.delete(
+        api.getApiEndpoint(`api/tasks/${taskId}/tags/${tag.id}`),
+        { headers: { Authorization: `Bearer ${token}` } },
+      );
+      onTagsChanged?.();
+    } catch (error) {
+      console.error("Failed to remove tag:", error);
+      setTagIds((prev) => [...prev, tag.id]);
+    }
+  };
+
   const saveDescription = useCallback(
     async (text: string) => {
       if (!taskId || text === description) return;
@@ -186,6 +243,13 @@ function TaskInfo({
           transition={{ duration: 0.3 }}
           className={`text-base font-bold ${darkMode ? "text-white" : "text-[#212121]"}`}
         >
+          {taskKey && (
+            <span
+              className={`mr-2 font-mono text-xs font-medium ${darkMode ? "text-emerald-400" : "text-emerald-600"}`}
+            >
+              {taskKey}
+            </span>
+          )}
           {title || "Task Details"}
         </motion.h2>
       </div>
@@ -245,12 +309,59 @@ function TaskInfo({
         />
       </motion.div>
 
+      <motion.div
+        initial={{ opacity: 0, y: 5 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.3, delay: 0.15 }}
+      >
+        <div className="mb-3">
+          <label
+            className={`block mb-1 text-xs font-medium ${darkMode ? "text-gray-400" : "text-gray-500"}`}
+          >
+            Tags
+          </label>
+          <TagPicker
+            workspaceName={workspaceName}
+            selectedTagIds={tagIds}
+            onAdd={handleAddTag}
+            onRemove={handleRemoveTag}
+            darkMode={darkMode}
+          />
+        </div>
+
+        <CommentThread
+          taskId={taskId}
+          darkMode={darkMode}
+          workspaceMembers={workspaceMembers}
+        />
+      </motion.div>
+
+      <motion.div
+        initial={{ opacity: 0, y: 5 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.3, delay: 0.15 }}
+      >
+        <TaskTree
+          taskId={taskId}
+          taskType={taskType}
+          darkMode={darkMode}
+          onSubtasksChanged={onSubtasksChanged}
+        />
+        <TaskLinks
+          taskId={taskId}
+          darkMode={darkMode}
+          onLinksChanged={onLinksChanged}
+        />
+        <BoardExports target={{ taskId }} darkMode={darkMode} />
+        <TaskAttachments taskId={taskId} darkMode={darkMode} />
+      </motion.div>
+
       {/* Task Details - Pill-shaped Chips Layout */}
       <motion.div
         initial={{ opacity: 0, y: 5 }}
         animate={{ opacity: 1, y: 0 }}
         transition={{ duration: 0.3, delay: 0.2 }}
-        className="flex flex-wrap gap-2 mb-6"
+        className="flex flex-wrap gap-2 mb-12"
       >
         {/* Priority - Pill Shape */}
         <motion.div
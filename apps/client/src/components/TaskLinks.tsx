@@ -0,0 +1,183 @@
+import React, { useState, useEffect, useCallback } from "react";
+import axios from "axios";
+import { useAuth } from "@clerk/clerk-react";
+import { FiPlus, FiX } from "react-icons/fi";
+import api from "../utils/api";
+import { TaskLink, TaskLinkType, TaskStatus } from "../utils/taskTypes";
+
+interface TaskLinksProps {
+  taskId: string;
+  darkMode?: boolean;
+  onLinksChanged?: () => void;
+}
+
+const LINK_LABELS: Record<TaskLinkType, string> = {
+  BLOCKS: "blocks",
+  BLOCKED_BY: "is blocked by",
+  DUPLICATES: "duplicates",
+  DUPLICATED_BY: "is duplicated by",
+  RELATES_TO: "relates to",
+};
+
+// Link types a user can create; the inverse ones appear on the other task
+const CREATABLE_TYPES: TaskLinkType[] = [
+  "BLOCKS",
+  "BLOCKED_BY",
+  "DUPLICATES",
+  "RELATES_TO",
+];
+
+/** Typed links to other tasks, grouped by relation */
+const TaskLinks: React.FC<TaskLinksProps> = ({
+  taskId,
+  darkMode = false,
+  onLinksChanged,
+}) => {
+  const [links, setLinks] = useState<TaskLink[]>([]);
+  const [linkType, setLinkType] = useState<TaskLinkType>("BLOCKED_BY");
+  const [targetKey, setTargetKey] = useState("");
+  const [error, setError] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const { getToken } = useAuth();
+
+  const fetchLinks = useCallback(async () => {
+    try {
+      const token = await getToken();
+      const response = await axios.get<TaskLink[]>(
+        api.getApiEndpoint(`api/tasks/${taskId}/links`),
+        { headers: { Authorization: `Bearer ${token}` } },
+      );
+      setLinks(response.data);
+    } catch (error) {
+      console.error("Failed to fetch task links:", error);
+    }
+  }, [taskId, getToken]);
+
+  useEffect(() => {
+    fetchLinks();
+  }, [fetchLinks]);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!targetKey.trim() || isSaving) return;
+
+    try {
+      setIsSaving(true);
+      setError("");
+      const token = await getToken();
+      await axios.post(
+        api.getApiEndpoint(`api/tasks/${taskId}/links`),
+        { type: linkType, targetKey: targetKey.trim() },
+        { headers: { Authorization: `Bearer ${token}` } },
+      );
+      setTargetKey("");
+      await fetchLinks();
+      onLinksChanged?.();
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        setError(error.response?.data?.error || "Failed to link task");
+      } else {
+        setError("An unexpected error occurred");
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (linkId: string) => {
+    try {
+      const token = await getToken();
+      await axios.delete(
+        api.getApiEndpoint(`api/tasks/${taskId}/links/${linkId}`),
+        { headers: { Authorization: `Bearer ${token}` } },
+      );
+      setLinks((prev) => prev.filter((link) => link.id !== linkId));
+      onLinksChanged?.();
+    } catch (error) {
+      console.error("Failed to delete task link:", error);
+    }
+  };
+
+  const mutedText = darkMode ? "text-gray-500" : "text-gray-400";
+
+  return (
+    <div className="mb-3">
+      <label
+        className={`block mb-1 text-xs font-medium ${darkMode ? "text-gray-400" : "text-gray-500"}`}
+      >
+        Linked tasks
+      </label>
+
+      {links.length > 0 ? (
+        <ul className="space-y-1">
+          {links.map((link) => (
+            <li
+              key={link.id}
+              className={`flex items-center gap-2 text-xs ${darkMode ? "text-gray-200" : "text-gray-700"}`}
+            >
+              <span className={`w-24 shrink-0 ${mutedText}`}>
+                {LINK_LABELS[link.type]}
+              </span>
+              {link.task.key && (
+                <span className="font-mono">{link.task.key}</span>
+              )}
+              <span
+                className={`flex-1 truncate ${link.task.status === TaskStatus.DONE ? "line-through opacity-60" : ""}`}
+              >
+                {link.task.title}
+              </span>
+              <button
+                onClick={() => handleDelete(link.id)}
+                className={`${mutedText} hover:text-red-500`}
+                aria-label="Remove link"
+              >
+                <FiX />
+              </button>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className={`text-xs ${mutedText}`}>No linked tasks</p>
+      )}
+
+      <form onSubmit={handleCreate} className="mt-2 flex gap-2">
+        <select
+          value={linkType}
+          onChange={(e) => setLinkType(e.target.value as TaskLinkType)}
+          className={`p-1.5 rounded border text-xs ${
+            darkMode
+              ? "bg-[#1C1C1C] border-[#2C2C2C] text-gray-200"
+              : "bg-white border-gray-300 text-gray-700"
+          }`}
+        >
+          {CREATABLE_TYPES.map((type) => (
+            <option key={type} value={type}>
+              {LINK_LABELS[type]}
+            </option>
+          ))}
+        </select>
+        <input
+          value={targetKey}
+          onChange={(e) => setTargetKey(e.target.value)}
+          placeholder="Task key, e.g. PIX-42"
+          className={`flex-1 p-1.5 rounded border text-xs ${
+            darkMode
+              ? "bg-[#1C1C1C] border-[#2C2C2C] text-gray-200 placeholder-gray-500"
+              : "bg-white border-gray-300 text-gray-700 placeholder-gray-400"
+          } focus:outline-none focus:ring-1 focus:ring-emerald-500`}
+        />
+        <button
+          type="submit"
+          disabled={isSaving || !targetKey.trim()}
+          className="px-2 rounded bg-emerald-600 hover:bg-emerald-700 text-white text-xs disabled:opacity-60"
+          aria-label="Add link"
+        >
+          <FiPlus />
+        </button>
+      </form>
+      {error && <p className="mt-1 text-xs text-red-500">{error}</p>}
+    </div>
+  );
+};
+
+export default TaskLinks;
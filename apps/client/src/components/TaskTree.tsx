@@ -0,0 +1,223 @@
+import React, { useState, useEffect, useCallback } from "react";
+import axios from "axios";
+import { useAuth } from "@clerk/clerk-react";
+import { FiChevronDown, FiChevronRight, FiPlus } from "react-icons/fi";
+import api from "../utils/api";
+import {
+  ALLOWED_CHILD_TYPES,
+  TaskStatus,
+  TaskTreeNode,
+  TaskType,
+} from "../utils/taskTypes";
+
+interface TaskTreeProps {
+  taskId: string;
+  taskType?: string;
+  darkMode?: boolean;
+  onSubtasksChanged?: () => void;
+}
+
+/** Collapsible list of a task's subtasks with rolled-up progress */
+const TaskTree: React.FC<TaskTreeProps> = ({
+  taskId,
+  taskType,
+  darkMode = false,
+  onSubtasksChanged,
+}) => {
+  const [tree, setTree] = useState<TaskTreeNode | null>(null);
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const [newTitle, setNewTitle] = useState("");
+  const [error, setError] = useState("");
+  const [isCreating, setIsCreating] = useState(false);
+  const { getToken } = useAuth();
+
+  const rootType = (tree?.type || taskType || TaskType.TASK) as TaskType;
+  const childTypes = ALLOWED_CHILD_TYPES[rootType] || [];
+  const [newType, setNewType] = useState<TaskType | "">("");
+
+  const fetchTree = useCallback(async () => {
+    try {
+      const token = await getToken();
+      const response = await axios.get<TaskTreeNode>(
+        api.getApiEndpoint(`api/tasks/${taskId}/tree`),
+        { headers: { Authorization: `Bearer ${token}` } },
+      );
+      setTree(response.data);
+    } catch (error) {
+      console.error("Failed to fetch subtasks:", error);
+    }
+  }, [taskId, getToken]);
+
+  useEffect(() => {
+    fetchTree();
+  }, [fetchTree]);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newTitle.trim() || isCreating) return;
+
+    try {
+      setIsCreating(true);
+      setError("");
+      const token = await getToken();
+      await axios.post(
+        api.getApiEndpoint(`api/tasks/${taskId}/subtasks`),
+        { title: newTitle.trim(), type: newType || childTypes[0] },
+        { headers: { Authorization: `Bearer ${token}` } },
+      );
+      setNewTitle("");
+      await fetchTree();
+      onSubtasksChanged?.();
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        setError(error.response?.data?.error || "Failed to create subtask");
+      } else {
+        setError("An unexpected error occurred");
+      }
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const toggle = (id: string) => {
+    setCollapsed((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const renderNode = (node: TaskTreeNode, depth: number) => {
+    const isCollapsed = collapsed.has(node.id);
+    const hasChildren = node.children.length > 0;
+
+    return (
+      <li key={node.id}>
+        <div
+          className={`flex items-center gap-2 py-1 text-xs ${darkMode ? "text-gray-200" : "text-gray-700"}`}
+          style={{ paddingLeft: depth * 16 }}
+        >
+          {hasChildren ? (
+            <button
+              onClick={() => toggle(node.id)}
+              className={darkMode ? "text-gray-400" : "text-gray-500"}
+              aria-label={isCollapsed ? "Expand" : "Collapse"}
+            >
+              {isCollapsed ? <FiChevronRight /> : <FiChevronDown />}
+            </button>
+          ) : (
+            <span className="w-3" />
+          )}
+          <span
+            className={`rounded px-1 text-[10px] ${darkMode ? "bg-[#2C2C2C] text-gray-400" : "bg-gray-200 text-gray-600"}`}
+          >
+            {node.type}
+          </span>
+          {node.key && (
+            <span className={`font-mono ${darkMode ? "text-gray-500" : "text-gray-400"}`}>
+              {node.key}
+            </span>
+          )}
+          <span
+            className={`flex-1 truncate ${node.status === TaskStatus.DONE ? "line-through opacity-60" : ""}`}
+          >
+            {node.title}
+          </span>
+          {node.rollup && (
+            <span className={darkMode ? "text-gray-500" : "text-gray-400"}>
+              {node.rollup.progress}% · {node.rollup.storyPoints} pts
+            </span>
+          )}
+        </div>
+        {hasChildren && !isCollapsed && (
+          <ul>{node.children.map((child) => renderNode(child, depth + 1))}</ul>
+        )}
+      </li>
+    );
+  };
+
+  return (
+    <div className="mb-3">
+      <div className="flex items-center justify-between mb-1">
+        <label
+          className={`text-xs font-medium ${darkMode ? "text-gray-400" : "text-gray-500"}`}
+        >
+          Subtasks
+        </label>
+        {tree?.rollup && tree.rollup.childCount > 0 && (
+          <span
+            className={`text-xs ${darkMode ? "text-gray-400" : "text-gray-500"}`}
+          >
+            {tree.rollup.progress}% done · {tree.rollup.storyPoints} pts
+          </span>
+        )}
+      </div>
+
+      {tree?.rollup && tree.rollup.childCount > 0 && (
+        <div
+          className={`mb-2 h-1 w-full rounded ${darkMode ? "bg-[#2C2C2C]" : "bg-gray-200"}`}
+        >
+          <div
+            className="h-1 rounded bg-emerald-500"
+            style={{ width: `${tree.rollup.progress}%` }}
+          />
+        </div>
+      )}
+
+      {tree && tree.children.length > 0 ? (
+        <ul>{tree.children.map((child) => renderNode(child, 0))}</ul>
+      ) : (
+        <p className={`text-xs ${darkMode ? "text-gray-500" : "text-gray-400"}`}>
+          No subtasks yet
+        </p>
+      )}
+
+      {childTypes.length > 0 && (
+        <form onSubmit={handleCreate} className="mt-2 flex gap-2">
+          <input
+            value={newTitle}
+            onChange={(e) => setNewTitle(e.target.value)}
+            placeholder="Add a subtask..."
+            className={`flex-1 p-1.5 rounded border text-xs ${
+              darkMode
+                ? "bg-[#1C1C1C] border-[#2C2C2C] text-gray-200 placeholder-gray-500"
+                : "bg-white border-gray-300 text-gray-700 placeholder-gray-400"
+            } focus:outline-none focus:ring-1 focus:ring-emerald-500`}
+          />
+          {childTypes.length > 1 && (
+            <select
+              value={newType || childTypes[0]}
+              onChange={(e) => setNewType(e.target.value as TaskType)}
+              className={`p-1.5 rounded border text-xs ${
+                darkMode
+                  ? "bg-[#1C1C1C] border-[#2C2C2C] text-gray-200"
+                  : "bg-white border-gray-300 text-gray-700"
+              }`}
+            >
+              {childTypes.map((type) => (
+                <option key={type} value={type}>
+                  {type}
+                </option>
+              ))}
+            </select>
+          )}
+          <button
+            type="submit"
+            disabled={isCreating || !newTitle.trim()}
+            className="px-2 rounded bg-emerald-600 hover:bg-emerald-700 text-white text-xs disabled:opacity-60"
+            aria-label="Add subtask"
+          >
+            <FiPlus />
+          </button>
+        </form>
+      )}
+      {error && <p className="mt-1 text-xs text-red-500">{error}</p>}
+    </div>
+  );
+};
+
+export default TaskTree;
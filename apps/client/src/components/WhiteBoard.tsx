@@ -1,8 +1,92 @@
 import React, { useEffect, useRef, useState } from "react";
 import { motion } from "framer-motion";
 import io, { Socket } from "socket.io-client";
+import axios from "axios";
+import { useAuth } from "@clerk/clerk-react";
 import api from "../utils/api";
-import { Pencil, Eraser, Undo, Trash } from "lucide-react"; // Changed Redo to Trash to match clear function
+import { socketAuth } from "../utils/socketAuth";
+import {
+  Pencil,
+  Eraser,
+  Undo,
+  Redo,
+  Trash,
+  Trash2,
+  ListPlus,
+  MousePointer2,
+  Square,
+  Circle,
+  Minus,
+  ArrowUpRight,
+  Type,
+  StickyNote,
+  ZoomIn,
+  ZoomOut,
+  Maximize,
+  Download,
+  Paperclip,
+  History,
+} from "lucide-react";
+import {
+  BoardObject,
+  BoardObjectKind,
+  ObjectAction,
+  OBJECT_TOOLS,
+  STICKY_COLOR,
+  collectObjects,
+  createActionId,
+  createObjectId,
+  drawObject,
+  drawSelection,
+  HANDLE_SIZE,
+  hitResizeHandle,
+  hitTest,
+  isObjectAction,
+  normalizeObject,
+} from "../utils/whiteboardObjects";
+import {
+  Bounds,
+  DEFAULT_VIEW,
+  View,
+  fitBounds,
+  getContentBounds,
+  getViewportBounds,
+  screenToWorld,
+  unionBounds,
+  worldToScreen,
+  zoomAt,
+} from "../utils/whiteboardView";
+import {
+  boardToSvg,
+  downloadBlob,
+  exportFileName,
+  getExportBounds,
+  getPngScale,
+} from "../utils/whiteboardExport";
+import {
+  BoardDoc,
+  BoardItem,
+  StateVector,
+  applyUpdate,
+  createBoardDoc,
+  deleteItems,
+  diffUpdate,
+  insertAction,
+  itemsForAction,
+  stateVector,
+  toActions,
+} from "../utils/boardDoc";
+import { NoteTask } from "../utils/taskTypes";
+import { useWhiteboards } from "../utils/apiHooks";
+import NotesToTasksModal from "./NotesToTasksModal";
+import AttachBoardModal from "./AttachBoardModal";
+import BoardHistoryPanel from "./BoardHistoryPanel";
+import {
+  PresenceStrip,
+  RemoteCursor,
+  RemoteCursors,
+  RoomUser,
+} from "./BoardPresence";
 
 interface WhiteBoardProps {
   roomCode: string;
@@ -19,8 +103,18 @@ type DrawingAction = {
   pressure?: number;
   timestamp?: number;
   points?: Point[]; // Added points array for smooth curves
+  authorId?: string;
+  actionId?: string; // Shared by every part of one stroke, for undo
 };
 
+type BoardAction = DrawingAction | ObjectAction;
+
+// In-progress pointer gesture for the object tools
+type ObjectGesture =
+  | { mode: "create"; startX: number; startY: number }
+  | { mode: "move"; origin: BoardObject; offsetX: number; offsetY: number }
+  | { mode: "resize"; origin: BoardObject };
+
 type Point = { x: number; y: number; pressure?: number };
 type SmoothingConfig = {
   factor: number;
@@ -36,6 +130,32 @@ const SMOOTHING_CONFIG: SmoothingConfig = {
   bezierControlPoints: 0.25, // Control point factor for Bezier curves
 };
 
+const SHAPE_TOOLS = [
+  { id: "rect", label: "Rectangle", icon: Square },
+  { id: "ellipse", label: "Ellipse", icon: Circle },
+  { id: "line", label: "Line", icon: Minus },
+  { id: "arrow", label: "Arrow", icon: ArrowUpRight },
+  { id: "text", label: "Text", icon: Type },
+  { id: "sticky", label: "Sticky note", icon: StickyNote },
+] as const;
+
+const BOARD_BACKGROUND = "#121212";
+
+// Minimap overlay size in screen pixels
+const MINIMAP_SIZE = { width: 180, height: 120 };
+
+// Size of a new text box or sticky note, placed with a single click
+const DEFAULT_OBJECT_SIZE = {
+  text: { width: 200, height: 40 },
+  sticky: { width: 180, height: 180 },
+};
+
+// Minimum gap between cursor position updates sent to the room
+const CURSOR_SEND_INTERVAL = 50; // ms
+
+// Undone actions this user can still redo
+const MAX_REDO_DEPTH = 50;
+
 // Batch processing configuration
 const BATCH_CONFIG = {
   size: 10,
@@ -50,14 +170,60 @@ const WhiteBoard: React.FC<WhiteBoardProps> = ({ roomCode, userId }) => {
   const [brushSize, setBrushSize] = useState(5);
   const [socket, setSocket] = useState<Socket | null>(null);
   const [tool, setTool] = useState("pen");
-  const [prevActions, setPrevActions] = useState<DrawingAction[]>([]);
+  const [prevActions, setPrevActions] = useState<BoardAction[]>([]);
   const [error, setError] = useState<string | null>(null);
   const prevSmoothedPoint = useRef<{ x: number; y: number } | null>(null);
-  const actionsRef = useRef<DrawingAction[]>([]);
+  const actionsRef = useRef<BoardAction[]>([]);
   const lastPointRef = useRef<{ x: number; y: number } | null>(null);
   const drawingPathRef = useRef<{ x: number; y: number }[]>([]);
-  const actionBatchRef = useRef<DrawingAction[]>([]);
+  // This viewer's copy of the board document; actionsRef is what it shows
+  const docRef = useRef<BoardDoc<BoardAction>>(createBoardDoc());
+  // Local changes not yet sent to the server
+  const actionBatchRef = useRef<BoardItem<BoardAction>[]>([]);
   const batchTimerRef = useRef<NodeJS.Timeout | null>(null);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [isConvertOpen, setIsConvertOpen] = useState(false);
+  const [editing, setEditing] = useState<{ id: string; text: string } | null>(
+    null,
+  );
+  const selectedIdsRef = useRef<string[]>([]);
+  const editingIdRef = useRef<string | null>(null);
+  const objectGestureRef = useRef<ObjectGesture | null>(null);
+  const draftObjectRef = useRef<BoardObject | null>(null);
+  const strokeIdRef = useRef<string | null>(null);
+  const minimapRef = useRef<HTMLCanvasElement>(null);
+  // World-to-screen transform of this viewer; the state copy drives the UI
+  const viewRef = useRef<View>(DEFAULT_VIEW);
+  const [view, setViewState] = useState<View>(DEFAULT_VIEW);
+  const panRef = useRef<{ x: number; y: number; origin: View } | null>(null);
+  const pinchRef = useRef<{
+    distance: number;
+    midX: number;
+    midY: number;
+    origin: View;
+  } | null>(null);
+  const spaceHeldRef = useRef(false);
+  const [isPanning, setIsPanning] = useState(false);
+  const minimapViewRef = useRef<{ bounds: Bounds; scale: number } | null>(null);
+  const wheelHandlerRef = useRef<(e: WheelEvent) => void>(() => {});
+  // This user's undone actions, newest last, and how many there are
+  const redoStackRef = useRef<BoardAction[][]>([]);
+  const [redoCount, setRedoCount] = useState(0);
+  const [isExportMenuOpen, setIsExportMenuOpen] = useState(false);
+  const [isAttachOpen, setIsAttachOpen] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [roomUsers, setRoomUsers] = useState<RoomUser[]>([]);
+  const [cursors, setCursors] = useState<Record<string, RemoteCursor>>({});
+  // The named board being viewed, or null for the room's main board. The
+  // ref lets socket handlers and emits see the current board.
+  const [boardId, setBoardId] = useState<string | null>(null);
+  const boardIdRef = useRef<string | null>(null);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const { data: boards = [] } = useWhiteboards(roomCode);
+  const boardName = boards.find((board) => board.id === boardId)?.name;
+  const exportName = boardName ? `${roomCode}-${boardName}` : roomCode;
+  const lastCursorSentRef = useRef(0);
+  const { getToken } = useAuth();
 
   const smoothedPoints = useRef<Point[]>([]);
   const lastVelocity = useRef<number>(0);
@@ -191,11 +357,11 @@ const WhiteBoard: React.FC<WhiteBoardProps> = ({ roomCode, userId }) => {
         reconnection: true,
         reconnectionAttempts: 5,
         reconnectionDelay: 1000,
-        query: { roomCode, userId },
+        query: { roomCode },
+        auth: socketAuth(getToken),
         timeout: 20000,
       });
 
-      let isReconnecting = false;
       let reconnectAttempts = 0;
       const maxReconnectAttempts = 5;
 
@@ -213,13 +379,14 @@ const WhiteBoard: React.FC<WhiteBoardProps> = ({ roomCode, userId }) => {
       newSocket.on("connect", () => {
         reconnectAttempts = 0;
         console.log("Whiteboard connected:", newSocket.id);
-        newSocket.emit("join-whiteboard", roomCode);
-
-        if (isReconnecting) {
-          console.log("Requesting whiteboard history after reconnection");
-          newSocket.emit("get-whiteboard-history", roomCode);
-          isReconnecting = false;
-        }
+        // Joining syncs both ways, so a reconnect also sends whatever was
+        // drawn while offline
+        newSocket.emit(
+          "join-whiteboard",
+          roomCode,
+          boardIdRef.current,
+          stateVector(docRef.current),
+        );
       });
 
       newSocket.on("connect_error", (err) => {
@@ -237,7 +404,6 @@ const WhiteBoard: React.FC<WhiteBoardProps> = ({ roomCode, userId }) => {
             newSocket.connect();
           }, 1000);
         }
-        isReconnecting = true;
       });
 
       newSocket.on("error", (err) => {
@@ -247,27 +413,116 @@ const WhiteBoard: React.FC<WhiteBoardProps> = ({ roomCode, userId }) => {
         }
       });
 
-      newSocket.on("whiteboard-history", (history) => {
-        console.log("Received whiteboard history:", history);
-        if (Array.isArray(history) && history.length > 0) {
-          setPrevActions(history);
-          actionsRef.current = history;
-          requestAnimationFrame(() => redrawCanvas(history));
-        }
+      newSocket.on("room-error", ({ error }: { error: string }) => {
+        if (isMountedRef.current) setError(error);
       });
 
-      newSocket.on("whiteboard-action", (action: DrawingAction) => {
-        handleRemoteAction(action);
-        actionsRef.current.push(action);
-        setPrevActions([...actionsRef.current]);
+      // The server's answer to joining: what this copy was missing, and the
+      // server's state vector so anything made offline can be sent back
+      newSocket.on(
+        "whiteboard-sync",
+        ({
+          boardId,
+          items,
+          vector,
+        }: {
+          boardId: string | null;
+          items: BoardItem<BoardAction>[];
+          vector: StateVector;
+        }) => {
+          if (boardId !== boardIdRef.current) return;
+          const doc = docRef.current;
+          applyUpdate(doc, items);
+          actionsRef.current = toActions(doc);
+          setPrevActions(actionsRef.current);
+          requestAnimationFrame(() => redrawCanvas(actionsRef.current));
+
+          const missing = diffUpdate(doc, vector);
+          if (missing.length > 0) {
+            newSocket.emit("whiteboard-update", {
+              roomCode,
+              boardId,
+              items: missing,
+            });
+          }
+        },
+      );
+
+      // Everyone's changes, strokes to undo, arrive as document items. New
+      // actions at the end of the board are drawn as they come; anything
+      // that lands earlier or deletes something needs a full redraw.
+      newSocket.on(
+        "whiteboard-update",
+        ({
+          boardId,
+          items,
+        }: {
+          boardId: string | null;
+          items: BoardItem<BoardAction>[];
+        }) => {
+          if (boardId !== boardIdRef.current) return;
+          const { added, appended } = applyUpdate(docRef.current, items);
+          if (added.length === 0) return;
+          if (added.some((item) => item.action?.type === "clear")) {
+            resetRedo();
+          }
+
+          if (appended) {
+            const actions = added.flatMap((item) =>
+              item.action ? [item.action] : [],
+            );
+            actions.forEach((action) => {
+              if (!isObjectAction(action)) handleRemoteAction(action);
+            });
+            actionsRef.current.push(...actions);
+            if (actions.some(isObjectAction)) redrawCanvas(actionsRef.current);
+          } else {
+            actionsRef.current = toActions(docRef.current);
+            redrawCanvas(actionsRef.current);
+          }
+          setPrevActions([...actionsRef.current]);
+        },
+      );
+
+      // Someone deleted the named board being viewed; fall back to the
+      // main board
+      newSocket.on("whiteboard-deleted", ({ boardId }: { boardId: string }) => {
+        if (boardIdRef.current !== boardId) return;
+        boardIdRef.current = null;
+        setBoardId(null);
+        resetBoard();
+        setNotice("This board was deleted; showing the main board");
+        setTimeout(() => setNotice(null), 3000);
+        newSocket.emit("join-whiteboard", roomCode, null, {});
       });
 
-      newSocket.on("whiteboard-batch", (batch: DrawingAction[]) => {
-        batch.forEach((action) => handleRemoteAction(action));
-        actionsRef.current.push(...batch);
-        setPrevActions([...actionsRef.current]);
+      // Who is viewing the board, resent whenever someone joins or leaves
+      newSocket.on("whiteboard-presence", (users: RoomUser[]) => {
+        setRoomUsers(users);
+        setCursors((current) =>
+          Object.fromEntries(
+            Object.entries(current).filter(([id]) =>
+              users.some((user) => user.userId === id),
+            ),
+          ),
+        );
       });
 
+      newSocket.on(
+        "whiteboard-cursor",
+        (cursor: RoomUser & { x: number | null; y: number | null }) => {
+          setCursors((current) => {
+            const next = { ...current };
+            if (cursor.x === null || cursor.y === null) {
+              delete next[cursor.userId];
+            } else {
+              next[cursor.userId] = { ...cursor, x: cursor.x, y: cursor.y };
+            }
+            return next;
+          });
+        },
+      );
+
       return newSocket;
     };
 
@@ -282,7 +537,17 @@ const WhiteBoard: React.FC<WhiteBoardProps> = ({ roomCode, userId }) => {
         clearTimeout(batchTimerRef.current);
       }
     };
-  }, [roomCode, userId]);
+  }, [roomCode, userId, getToken]);
+
+  // React's wheel listener is passive, so register one that can
+  // preventDefault and stop the page from scrolling while zooming
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const handleWheel = (e: WheelEvent) => wheelHandlerRef.current(e);
+    canvas.addEventListener("wheel", handleWheel, { passive: false });
+    return () => canvas.removeEventListener("wheel", handleWheel);
+  }, []);
 
   useEffect(() => {
     const handleLayoutChange = () => {
@@ -326,9 +591,28 @@ const WhiteBoard: React.FC<WhiteBoardProps> = ({ roomCode, userId }) => {
     const ctx = canvas.getContext("2d");
     if (!ctx) return;
 
-    // Start with a clean canvas
-    ctx.fillStyle = "#121212";
-    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    paintBoard(ctx, actions, viewRef.current, true);
+    drawMinimap(actions);
+  };
+
+  // Paint the board onto any canvas through the given view. The live board
+  // also shows the shape being dragged, the text box and the selection.
+  const paintBoard = (
+    ctx: CanvasRenderingContext2D,
+    actions: BoardAction[],
+    boardView: View,
+    live: boolean,
+  ) => {
+    // Start with a clean canvas, then draw in world coordinates
+    fillBackground(ctx);
+    ctx.setTransform(
+      boardView.zoom,
+      0,
+      0,
+      boardView.zoom,
+      boardView.x,
+      boardView.y,
+    );
 
     // Track current drawing state
     let lastTool = "pen";
@@ -339,9 +623,11 @@ const WhiteBoard: React.FC<WhiteBoardProps> = ({ roomCode, userId }) => {
     for (let i = 0; i < actions.length; i++) {
       const action = actions[i];
 
+      // Objects are painted after all strokes, see below
+      if (isObjectAction(action)) continue;
+
       if (action.type === "clear") {
-        ctx.fillStyle = "#121212";
-        ctx.fillRect(0, 0, canvas.width, canvas.height);
+        fillBackground(ctx);
         continue;
       }
 
@@ -424,6 +710,170 @@ const WhiteBoard: React.FC<WhiteBoardProps> = ({ roomCode, userId }) => {
         lastSize = action.brushSize || lastSize;
       }
     }
+
+    if (!live) {
+      collectObjects(actions).forEach((object) => drawObject(ctx, object));
+      return;
+    }
+
+    // Paint objects on top, with any shape being dragged in place of its
+    // stored version and the text being edited left to the text box
+    const draft = draftObjectRef.current;
+    const objects = collectObjects(actions).map((object) =>
+      object.id === draft?.id ? draft : object,
+    );
+    if (draft && !objects.some((object) => object.id === draft.id)) {
+      objects.push(draft);
+    }
+
+    objects.forEach((object) =>
+      drawObject(
+        ctx,
+        object.id === editingIdRef.current ? { ...object, text: "" } : object,
+      ),
+    );
+
+    objects
+      .filter((object) => selectedIdsRef.current.includes(object.id))
+      .forEach((object) => drawSelection(ctx, object, boardView.zoom));
+  };
+
+  // Paint the whole visible area, whatever the current transform
+  const fillBackground = (ctx: CanvasRenderingContext2D) => {
+    ctx.save();
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.globalCompositeOperation = "source-over";
+    ctx.fillStyle = BOARD_BACKGROUND;
+    ctx.fillRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+    ctx.restore();
+  };
+
+  const applyViewTransform = (ctx: CanvasRenderingContext2D) => {
+    const { x, y, zoom } = viewRef.current;
+    ctx.setTransform(zoom, 0, 0, zoom, x, y);
+  };
+
+  // Overview of the whole board with the visible area outlined
+  const drawMinimap = (actions: BoardAction[]) => {
+    const minimap = minimapRef.current;
+    const canvas = canvasRef.current;
+    if (!minimap || !canvas) return;
+    const ctx = minimap.getContext("2d");
+    if (!ctx) return;
+
+    const viewport = getViewportBounds(
+      viewRef.current,
+      canvas.width,
+      canvas.height,
+    );
+    const bounds = unionBounds(getContentBounds(actions), viewport)!;
+    const scale = Math.min(
+      MINIMAP_SIZE.width / Math.max(bounds.maxX - bounds.minX, 1),
+      MINIMAP_SIZE.height / Math.max(bounds.maxY - bounds.minY, 1),
+    );
+    minimapViewRef.current = { bounds, scale };
+    const toMap = (x: number, y: number) => ({
+      x: (x - bounds.minX) * scale,
+      y: (y - bounds.minY) * scale,
+    });
+
+    ctx.clearRect(0, 0, minimap.width, minimap.height);
+    ctx.fillStyle = "rgba(18, 18, 18, 0.85)";
+    ctx.fillRect(0, 0, minimap.width, minimap.height);
+
+    let lastClear = -1;
+    actions.forEach((action, index) => {
+      if (action.type === "clear") lastClear = index;
+    });
+    const visible = actions.slice(lastClear + 1);
+
+    ctx.lineWidth = 1;
+    visible.forEach((action) => {
+      if (action.type !== "draw" || action.tool === "eraser") return;
+      const points = action.points || [];
+      if (points.length < 2) return;
+      ctx.strokeStyle = action.color || "#D3D3D3";
+      ctx.beginPath();
+      const first = toMap(points[0].x, points[0].y);
+      ctx.moveTo(first.x, first.y);
+      points.slice(1).forEach((point) => {
+        const next = toMap(point.x, point.y);
+        ctx.lineTo(next.x, next.y);
+      });
+      ctx.stroke();
+    });
+
+    collectObjects(visible).forEach((object) => {
+      const box = normalizeObject({ ...object, kind: "rect" });
+      const topLeft = toMap(box.x, box.y);
+      ctx.fillStyle = object.color;
+      ctx.globalAlpha = object.kind === "sticky" ? 0.9 : 0.5;
+      ctx.fillRect(
+        topLeft.x,
+        topLeft.y,
+        Math.max(box.width * scale, 1),
+        Math.max(box.height * scale, 1),
+      );
+      ctx.globalAlpha = 1;
+    });
+
+    const viewTopLeft = toMap(viewport.minX, viewport.minY);
+    ctx.strokeStyle = "#10B981";
+    ctx.strokeRect(
+      viewTopLeft.x,
+      viewTopLeft.y,
+      (viewport.maxX - viewport.minX) * scale,
+      (viewport.maxY - viewport.minY) * scale,
+    );
+  };
+
+  const setView = (next: View) => {
+    viewRef.current = next;
+    setViewState(next);
+    redrawCanvas(actionsRef.current);
+  };
+
+  const zoomBy = (factor: number) => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    setView(
+      zoomAt(viewRef.current, canvas.width / 2, canvas.height / 2, factor),
+    );
+  };
+
+  const fitToContent = () => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const bounds = getContentBounds(actionsRef.current);
+    setView(
+      bounds ? fitBounds(bounds, canvas.width, canvas.height) : DEFAULT_VIEW,
+    );
+  };
+
+  // Clicking the minimap centers the view on that spot
+  const handleMinimapClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const canvas = canvasRef.current;
+    const minimapView = minimapViewRef.current;
+    if (!canvas || !minimapView) return;
+
+    const rect = e.currentTarget.getBoundingClientRect();
+    const worldX =
+      (e.clientX - rect.left) / minimapView.scale + minimapView.bounds.minX;
+    const worldY =
+      (e.clientY - rect.top) / minimapView.scale + minimapView.bounds.minY;
+    const { zoom } = viewRef.current;
+    setView({
+      zoom,
+      x: canvas.width / 2 - worldX * zoom,
+      y: canvas.height / 2 - worldY * zoom,
+    });
+  };
+
+  // Wheel zooms around the pointer; pinch on a trackpad arrives the same way
+  wheelHandlerRef.current = (e: WheelEvent) => {
+    e.preventDefault();
+    const { x, y } = getScreenPoint(e.clientX, e.clientY);
+    setView(zoomAt(viewRef.current, x, y, Math.exp(-e.deltaY * 0.0015)));
   };
 
   const handleRemoteAction = (action: DrawingAction) => {
@@ -433,9 +883,12 @@ const WhiteBoard: React.FC<WhiteBoardProps> = ({ roomCode, userId }) => {
     const ctx = canvas.getContext("2d");
     if (!ctx) return;
 
+    // Actions arrive in world coordinates; draw them through this viewer's view
+    applyViewTransform(ctx);
+
     if (action.type === "clear") {
-      ctx.fillStyle = "#121212";
-      ctx.fillRect(0, 0, canvas.width, canvas.height);
+      fillBackground(ctx);
+      drawMinimap(actionsRef.current);
     } else if (action.type === "start") {
       ctx.beginPath();
       ctx.moveTo(action.x || 0, action.y || 0);
@@ -505,28 +958,609 @@ const WhiteBoard: React.FC<WhiteBoardProps> = ({ roomCode, userId }) => {
     }
   };
 
-  const getMouseCoordinates = (e: React.MouseEvent<HTMLCanvasElement>) => {
+  // Position on the canvas element, in screen pixels
+  const getScreenPoint = (clientX: number, clientY: number) => {
     const canvas = canvasRef.current;
     if (!canvas) return { x: 0, y: 0 };
 
     const rect = canvas.getBoundingClientRect();
-    const x = e.clientX - rect.left;
-    const y = e.clientY - rect.top;
+    return { x: clientX - rect.left, y: clientY - rect.top };
+  };
+
+  // Board coordinates of the pointer, independent of pan and zoom
+  const getMouseCoordinates = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const { x, y } = getScreenPoint(e.clientX, e.clientY);
+    return screenToWorld(viewRef.current, x, y);
+  };
+
+  const getTouchCoordinates = (e: React.TouchEvent<HTMLCanvasElement>) => {
+    const touch = e.touches[0] || e.changedTouches[0];
+    if (!touch) return { x: 0, y: 0 };
+
+    const { x, y } = getScreenPoint(touch.clientX, touch.clientY);
+    return screenToWorld(viewRef.current, x, y);
+  };
+
+  const startPan = (clientX: number, clientY: number) => {
+    const { x, y } = getScreenPoint(clientX, clientY);
+    panRef.current = { x, y, origin: viewRef.current };
+    setIsPanning(true);
+  };
+
+  const movePan = (clientX: number, clientY: number) => {
+    const pan = panRef.current;
+    if (!pan) return;
+    const { x, y } = getScreenPoint(clientX, clientY);
+    setView({
+      ...pan.origin,
+      x: pan.origin.x + x - pan.x,
+      y: pan.origin.y + y - pan.y,
+    });
+  };
+
+  const endPan = () => {
+    panRef.current = null;
+    setIsPanning(false);
+  };
+
+  // Two fingers pan and pinch-zoom together
+  const getPinch = (touches: React.TouchList) => {
+    const a = getScreenPoint(touches[0].clientX, touches[0].clientY);
+    const b = getScreenPoint(touches[1].clientX, touches[1].clientY);
+    return {
+      distance: Math.hypot(a.x - b.x, a.y - b.y) || 1,
+      midX: (a.x + b.x) / 2,
+      midY: (a.y + b.y) / 2,
+    };
+  };
+
+  const startPinch = (e: React.TouchEvent<HTMLCanvasElement>) => {
+    // A second finger turns the gesture into navigation
+    if (isDrawing) stopDrawing();
+    objectGestureRef.current = null;
+    draftObjectRef.current = null;
+    pinchRef.current = { ...getPinch(e.touches), origin: viewRef.current };
+  };
+
+  const movePinch = (e: React.TouchEvent<HTMLCanvasElement>) => {
+    const pinch = pinchRef.current;
+    if (!pinch || e.touches.length < 2) return;
+    const current = getPinch(e.touches);
+    const zoomed = zoomAt(
+      pinch.origin,
+      pinch.midX,
+      pinch.midY,
+      current.distance / pinch.distance,
+    );
+    setView({
+      ...zoomed,
+      x: zoomed.x + current.midX - pinch.midX,
+      y: zoomed.y + current.midY - pinch.midY,
+    });
+  };
+
+  const isFreehandTool = tool === "pen" || tool === "eraser";
+
+  const selectObjects = (ids: string[]) => {
+    selectedIdsRef.current = ids;
+    setSelectedIds(ids);
+  };
+
+  // Apply an object change locally, then share it with the room. Changes
+  // made together pass the same actionId so one undo reverts them all.
+  const commitObjectAction = (
+    change: ObjectAction,
+    actionId = createActionId(),
+  ) => {
+    const action: ObjectAction = { ...change, authorId: userId, actionId };
+    resetRedo();
+    const newActions = [...actionsRef.current, action];
+    setPrevActions(newActions);
+    actionsRef.current = newActions;
+    redrawCanvas(newActions);
+
+    recordAction(action);
+    flushActionBatch();
+  };
+
+  const updateObject = (
+    id: string,
+    changes: Extract<ObjectAction, { type: "object-update" }>["changes"],
+    actionId?: string,
+  ) => {
+    commitObjectAction(
+      {
+        type: "object-update",
+        id,
+        changes,
+        timestamp: Date.now(),
+      },
+      actionId,
+    );
+  };
+
+  const deleteSelectedObjects = () => {
+    const ids = selectedIdsRef.current;
+    const actionId = createActionId();
+    selectObjects([]);
+    ids.forEach((id) =>
+      commitObjectAction(
+        { type: "object-delete", id, timestamp: Date.now() },
+        actionId,
+      ),
+    );
+  };
+
+  const startEditing = (object: BoardObject) => {
+    editingIdRef.current = object.id;
+    setEditing({ id: object.id, text: object.text || "" });
+    redrawCanvas(actionsRef.current);
+  };
+
+  const finishEditing = () => {
+    if (!editing) return;
+    const object = collectObjects(actionsRef.current).find(
+      (candidate) => candidate.id === editing.id,
+    );
+    editingIdRef.current = null;
+    setEditing(null);
+
+    if (!object) return;
+    if (object.kind === "text" && !editing.text.trim()) {
+      // An empty text box has nothing to show, so drop it
+      selectObjects(selectedIdsRef.current.filter((id) => id !== object.id));
+      commitObjectAction({
+        type: "object-delete",
+        id: object.id,
+        timestamp: Date.now(),
+      });
+    } else if (editing.text !== (object.text || "")) {
+      updateObject(object.id, { text: editing.text });
+    } else {
+      redrawCanvas(actionsRef.current);
+    }
+  };
+
+  // With `additive` (Shift held) the select tool toggles objects in and out
+  // of the selection instead of replacing it
+  const handleObjectPointerDown = (x: number, y: number, additive = false) => {
+    // The first click outside an open text box just closes it
+    if (editing) {
+      (document.activeElement as HTMLElement | null)?.blur();
+      return;
+    }
+
+    if (tool === "select") {
+      const objects = collectObjects(actionsRef.current);
+      const selected =
+        selectedIdsRef.current.length === 1
+          ? objects.find((object) => object.id === selectedIdsRef.current[0])
+          : undefined;
+
+      if (
+        selected &&
+        hitResizeHandle(selected, x, y, HANDLE_SIZE / viewRef.current.zoom)
+      ) {
+        objectGestureRef.current = { mode: "resize", origin: selected };
+      } else if (additive) {
+        const hit = hitTest(objects, x, y);
+        if (hit) {
+          selectObjects(
+            selectedIdsRef.current.includes(hit.id)
+              ? selectedIdsRef.current.filter((id) => id !== hit.id)
+              : [...selectedIdsRef.current, hit.id],
+          );
+        }
+      } else {
+        const hit = hitTest(objects, x, y);
+        selectObjects(hit ? [hit.id] : []);
+        if (hit) {
+          objectGestureRef.current = {
+            mode: "move",
+            origin: hit,
+            offsetX: x - hit.x,
+            offsetY: y - hit.y,
+          };
+        }
+      }
+      redrawCanvas(actionsRef.current);
+      return;
+    }
+
+    if (tool === "text" || tool === "sticky") {
+      // Text boxes and sticky notes are placed with a click and typed into
+      const object: BoardObject = {
+        id: createObjectId(),
+        kind: tool,
+        x,
+        y,
+        ...DEFAULT_OBJECT_SIZE[tool],
+        color: tool === "sticky" ? STICKY_COLOR : color,
+        strokeWidth: 1,
+        text: "",
+      };
+      selectObjects([object.id]);
+      setTool("select");
+      commitObjectAction({
+        type: "object-add",
+        object,
+        timestamp: Date.now(),
+      });
+      startEditing(object);
+      return;
+    }
+
+    if (!OBJECT_TOOLS.includes(tool as BoardObjectKind)) return;
+
+    objectGestureRef.current = { mode: "create", startX: x, startY: y };
+    draftObjectRef.current = {
+      id: createObjectId(),
+      kind: tool as BoardObjectKind,
+      x,
+      y,
+      width: 0,
+      height: 0,
+      color,
+      strokeWidth: brushSize,
+    };
+  };
+
+  const handleObjectPointerMove = (x: number, y: number) => {
+    const gesture = objectGestureRef.current;
+    if (!gesture) return;
+
+    if (gesture.mode === "create" && draftObjectRef.current) {
+      draftObjectRef.current = {
+        ...draftObjectRef.current,
+        width: x - gesture.startX,
+        height: y - gesture.startY,
+      };
+    } else if (gesture.mode === "move") {
+      draftObjectRef.current = {
+        ...gesture.origin,
+        x: x - gesture.offsetX,
+        y: y - gesture.offsetY,
+      };
+    } else if (gesture.mode === "resize") {
+      draftObjectRef.current = {
+        ...gesture.origin,
+        width: x - gesture.origin.x,
+        height: y - gesture.origin.y,
+      };
+    }
+    redrawCanvas(actionsRef.current);
+  };
+
+  const handleObjectPointerUp = () => {
+    const gesture = objectGestureRef.current;
+    const draft = draftObjectRef.current;
+    objectGestureRef.current = null;
+    draftObjectRef.current = null;
+    if (!gesture || !draft) return;
+
+    if (gesture.mode === "create") {
+      // Ignore clicks that never became a shape
+      if (Math.abs(draft.width) < 4 && Math.abs(draft.height) < 4) {
+        redrawCanvas(actionsRef.current);
+        return;
+      }
+      const object = normalizeObject(draft);
+      selectObjects([object.id]);
+      commitObjectAction({
+        type: "object-add",
+        object,
+        timestamp: Date.now(),
+      });
+      return;
+    }
+
+    const object = normalizeObject(draft);
+    const { origin } = gesture;
+    if (
+      object.x === origin.x &&
+      object.y === origin.y &&
+      object.width === origin.width &&
+      object.height === origin.height
+    ) {
+      redrawCanvas(actionsRef.current);
+      return;
+    }
+    updateObject(
+      object.id,
+      gesture.mode === "move"
+        ? { x: object.x, y: object.y }
+        : {
+            x: object.x,
+            y: object.y,
+            width: object.width,
+            height: object.height,
+          },
+    );
+  };
+
+  const handleMouseDown = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    // Space+drag or the middle button pans in any tool
+    if (spaceHeldRef.current || e.button === 1) {
+      e.preventDefault();
+      startPan(e.clientX, e.clientY);
+      return;
+    }
+    if (isFreehandTool) {
+      startDrawing(e);
+      return;
+    }
+    // Keep focus where it is, so a new text box is not blurred straight away
+    e.preventDefault();
+    const { x, y } = getMouseCoordinates(e);
+    handleObjectPointerDown(x, y, e.shiftKey);
+    if (tool === "select") canvasContainerRef.current?.focus();
+  };
+
+  // Share this user's pointer with the room, at most every
+  // CURSOR_SEND_INTERVAL; null hides it when the pointer leaves the board
+  const sendCursor = (point: { x: number; y: number } | null) => {
+    if (!socket) return;
+    const now = Date.now();
+    if (point && now - lastCursorSentRef.current < CURSOR_SEND_INTERVAL) {
+      return;
+    }
+    lastCursorSentRef.current = now;
+    socket.emit("whiteboard-cursor", {
+      roomCode,
+      boardId: boardIdRef.current,
+      x: point?.x ?? null,
+      y: point?.y ?? null,
+    });
+  };
+
+  const handleMouseMove = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    sendCursor(getMouseCoordinates(e));
+    if (panRef.current) {
+      movePan(e.clientX, e.clientY);
+      return;
+    }
+    if (isFreehandTool) {
+      draw(e);
+      return;
+    }
+    const { x, y } = getMouseCoordinates(e);
+    handleObjectPointerMove(x, y);
+  };
+
+  const handleMouseUp = () => {
+    if (panRef.current) {
+      endPan();
+      return;
+    }
+    if (isFreehandTool) {
+      stopDrawing();
+      return;
+    }
+    handleObjectPointerUp();
+  };
+
+  const handleDoubleClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    if (tool !== "select") return;
+    const { x, y } = getMouseCoordinates(e);
+    const hit = hitTest(collectObjects(actionsRef.current), x, y);
+    if (hit && (hit.kind === "text" || hit.kind === "sticky")) {
+      startEditing(hit);
+    }
+  };
+
+  const handleBoardKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    // Text boxes keep their own undo while being edited
+    if (editing) return;
+
+    if (e.key === " ") {
+      e.preventDefault();
+      spaceHeldRef.current = true;
+      setIsPanning(true);
+      return;
+    }
+
+    if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === "z") {
+      e.preventDefault();
+      if (e.shiftKey) {
+        redoLastAction();
+      } else {
+        undoLastAction();
+      }
+      return;
+    }
+
+    if (selectedIdsRef.current.length === 0) return;
+    if (e.key === "Delete" || e.key === "Backspace") {
+      e.preventDefault();
+      deleteSelectedObjects();
+    } else if (e.key === "Escape") {
+      selectObjects([]);
+      redrawCanvas(actionsRef.current);
+    }
+  };
+
+  const handleBoardKeyUp = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (e.key === " ") {
+      spaceHeldRef.current = false;
+      if (!panRef.current) setIsPanning(false);
+    }
+  };
+
+  const changeTool = (nextTool: string) => {
+    setTool(nextTool);
+    if (nextTool !== "select" && selectedIdsRef.current.length > 0) {
+      selectObjects([]);
+      redrawCanvas(actionsRef.current);
+    }
+  };
+
+  // Color and size also restyle the selected object
+  const changeColor = (nextColor: string) => {
+    setColor(nextColor);
+    const actionId = createActionId();
+    selectedIdsRef.current.forEach((id) =>
+      updateObject(id, { color: nextColor }, actionId),
+    );
+  };
+
+  const changeBrushSize = (nextSize: number) => {
+    setBrushSize(nextSize);
+    const actionId = createActionId();
+    selectedIdsRef.current.forEach((id) =>
+      updateObject(id, { strokeWidth: nextSize }, actionId),
+    );
+  };
+
+  // Selected notes with text that have not been turned into tasks yet
+  const convertibleNotes = collectObjects(prevActions)
+    .filter(
+      (object) =>
+        selectedIds.includes(object.id) &&
+        (object.kind === "sticky" || object.kind === "text") &&
+        object.text?.trim() &&
+        !object.taskId,
+    )
+    .map((object) => ({ objectId: object.id, text: object.text || "" }));
+
+  // Link each converted note to its task so it shows a badge
+  const handleNotesConverted = (tasks: NoteTask[]) => {
+    const actionId = createActionId();
+    tasks.forEach((task) =>
+      updateObject(
+        task.objectId,
+        { taskId: task.taskId, taskKey: task.key || undefined },
+        actionId,
+      ),
+    );
+  };
+
+  // Export the whole board rather than just the visible area. PNG and SVG
+  // are made from this client's copy; PDF is rendered by the server.
+  const exportBoard = async (format: "png" | "svg" | "pdf") => {
+    setIsExportMenuOpen(false);
+    const actions = actionsRef.current;
+
+    if (format === "svg") {
+      downloadBlob(
+        new Blob([boardToSvg(actions, BOARD_BACKGROUND)], {
+          type: "image/svg+xml",
+        }),
+        exportFileName(exportName, "svg"),
+      );
+      return;
+    }
+
+    if (format === "png") {
+      const bounds = getExportBounds(actions);
+      const scale = getPngScale(bounds);
+      const canvas = document.createElement("canvas");
+      canvas.width = Math.ceil((bounds.maxX - bounds.minX) * scale);
+      canvas.height = Math.ceil((bounds.maxY - bounds.minY) * scale);
+      const ctx = canvas.getContext("2d");
+      if (!ctx) return;
+
+      paintBoard(
+        ctx,
+        actions,
+        { zoom: scale, x: -bounds.minX * scale, y: -bounds.minY * scale },
+        false,
+      );
+      // Erased pixels are transparent; back them with the board color
+      ctx.setTransform(1, 0, 0, 1, 0, 0);
+      ctx.globalCompositeOperation = "destination-over";
+      ctx.fillStyle = BOARD_BACKGROUND;
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+      canvas.toBlob((blob) => {
+        if (blob) downloadBlob(blob, exportFileName(exportName, "png"));
+      }, "image/png");
+      return;
+    }
+
+    try {
+      const token = await getToken();
+      const response = await axios.get<Blob>(
+        api.getApiEndpoint(
+          `/api/whiteboards/${encodeURIComponent(roomCode)}/export`,
+        ),
+        {
+          params: { format: "pdf", boardId: boardId ?? undefined },
+          headers: { Authorization: `Bearer ${token}` },
+          responseType: "blob",
+        },
+      );
+      downloadBlob(response.data, exportFileName(exportName, "pdf"));
+    } catch (err) {
+      console.error("Failed to export whiteboard:", err);
+      setError("Failed to export the whiteboard as PDF");
+    }
+  };
+
+  const showNotice = (message: string) => {
+    setNotice(message);
+    setTimeout(() => setNotice(null), 3000);
+  };
+
+  const handleBoardAttached = (fileName: string) => {
+    showNotice(`Attached ${fileName}`);
+  };
+
+  // Start over with an empty copy, before joining another board
+  const resetBoard = () => {
+    docRef.current = createBoardDoc();
+    actionBatchRef.current = [];
+    actionsRef.current = [];
+    setPrevActions([]);
+    resetRedo();
+    setCursors({});
+    selectObjects([]);
+    editingIdRef.current = null;
+    setEditing(null);
+    requestAnimationFrame(() => redrawCanvas([]));
+  };
+
+  // Switch to another of the room's boards; the server answers with its
+  // contents, which replace what is on screen
+  const selectBoard = (nextBoardId: string | null) => {
+    if (nextBoardId === boardIdRef.current) return;
+    if (batchTimerRef.current) clearTimeout(batchTimerRef.current);
+    flushActionBatch();
+    sendCursor(null);
+
+    boardIdRef.current = nextBoardId;
+    setBoardId(nextBoardId);
+    resetBoard();
+    socket?.emit("join-whiteboard", roomCode, nextBoardId, {});
+  };
 
-    return { x, y };
+  const editingObject = editing
+    ? collectObjects(prevActions).find((object) => object.id === editing.id)
+    : undefined;
+
+  // Add a local action to this copy of the board and queue it for sending
+  const recordAction = (action: BoardAction) => {
+    actionBatchRef.current.push(insertAction(docRef.current, action));
   };
 
+  // Send queued changes. While offline they stay in the document only and
+  // go out with the sync that follows reconnecting.
   const flushActionBatch = () => {
-    if (actionBatchRef.current.length > 0 && socket) {
-      socket.emit("whiteboard-batch", {
+    if (actionBatchRef.current.length > 0 && socket?.connected) {
+      socket.emit("whiteboard-update", {
         roomCode,
-        actions: actionBatchRef.current,
+        boardId: boardIdRef.current,
+        items: actionBatchRef.current,
       });
-      actionBatchRef.current = [];
     }
+    actionBatchRef.current = [];
     batchTimerRef.current = null;
   };
 
+  // New work makes this user's undone actions unreachable
+  const resetRedo = () => {
+    redoStackRef.current = [];
+    setRedoCount(0);
+  };
+
   const startDrawing = (e: React.MouseEvent<HTMLCanvasElement>) => {
     const canvas = canvasRef.current;
     if (!canvas || !socket) return;
@@ -536,6 +1570,10 @@ const WhiteBoard: React.FC<WhiteBoardProps> = ({ roomCode, userId }) => {
 
     const { x, y } = getMouseCoordinates(e);
     prevSmoothedPoint.current = { x, y };
+    applyViewTransform(ctx);
+
+    strokeIdRef.current = createActionId();
+    resetRedo();
 
     const action: DrawingAction = {
       type: "start",
@@ -545,10 +1583,12 @@ const WhiteBoard: React.FC<WhiteBoardProps> = ({ roomCode, userId }) => {
       brushSize,
       tool,
       timestamp: Date.now(),
+      authorId: userId,
+      actionId: strokeIdRef.current,
     };
 
     // Add to batch and send immediately for start actions
-    actionBatchRef.current.push(action);
+    recordAction(action);
     flushActionBatch();
 
     const newActions = [...actionsRef.current, action];
@@ -590,6 +1630,7 @@ const WhiteBoard: React.FC<WhiteBoardProps> = ({ roomCode, userId }) => {
 
     const ctx = touchCanvas.getContext("2d");
     if (!ctx) return;
+    applyViewTransform(ctx);
 
     if (smoothed.length > 0) {
       // High quality rendering with proper antialiasing
@@ -642,7 +1683,7 @@ const WhiteBoard: React.FC<WhiteBoardProps> = ({ roomCode, userId }) => {
     }
 
     // Add to batch with complete smoothed points for high quality remote rendering
-    actionBatchRef.current.push({
+    const drawAction: DrawingAction = {
       type: "draw",
       x,
       y,
@@ -652,7 +1693,11 @@ const WhiteBoard: React.FC<WhiteBoardProps> = ({ roomCode, userId }) => {
       tool,
       timestamp: Date.now(),
       points: smoothed,
-    });
+      authorId: userId,
+      actionId: strokeIdRef.current ?? undefined,
+    };
+    recordAction(drawAction);
+    actionsRef.current.push(drawAction);
 
     // Start batch timer if not already running
     if (!batchTimerRef.current) {
@@ -676,6 +1721,7 @@ const WhiteBoard: React.FC<WhiteBoardProps> = ({ roomCode, userId }) => {
   const stopDrawing = () => {
     setIsDrawing(false);
     lastPointRef.current = null;
+    drawMinimap(actionsRef.current);
 
     // Flush any remaining actions
     if (batchTimerRef.current) {
@@ -694,47 +1740,97 @@ const WhiteBoard: React.FC<WhiteBoardProps> = ({ roomCode, userId }) => {
     const action: DrawingAction = {
       type: "clear",
       timestamp: Date.now(),
+      authorId: userId,
     };
 
     // Send clear action immediately
-    socket.emit("whiteboard-action", { roomCode, action });
+    recordAction(action);
+    flushActionBatch();
 
     const newActions = [...actionsRef.current, action];
     setPrevActions(newActions);
     actionsRef.current = newActions;
 
-    ctx.fillStyle = "#121212";
-    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    fillBackground(ctx);
+    drawMinimap(newActions);
+    selectObjects([]);
+    editingIdRef.current = null;
+    setEditing(null);
+    // Clearing starts a fresh board for everyone, so there is nothing to redo
+    resetRedo();
   };
 
+  // Only this user's own actions since the last clear can be undone
+  const undoableActionId = (() => {
+    for (let i = prevActions.length - 1; i >= 0; i--) {
+      const action = prevActions[i];
+      if (action.type === "clear") return null;
+      if (action.authorId === userId && action.actionId) {
+        return action.actionId;
+      }
+    }
+    return null;
+  })();
+  const canUndo = undoableActionId !== null;
+
+  // Undo deletes every item of this user's last stroke or object change
+  // from the document; like any other change it works offline too
   const undoLastAction = () => {
-    if (actionsRef.current.length === 0) return;
+    if (!undoableActionId) return;
+    const doc = docRef.current;
+    const undone = actionsRef.current.filter(
+      (action) => action.actionId === undoableActionId,
+    );
+    actionBatchRef.current.push(
+      deleteItems(doc, itemsForAction(doc, undoableActionId)),
+    );
+    flushActionBatch();
 
-    const newActions = [...actionsRef.current];
-    newActions.pop();
-    setPrevActions(newActions);
-    actionsRef.current = newActions;
-    redrawCanvas(newActions);
+    redoStackRef.current = [...redoStackRef.current, undone].slice(
+      -MAX_REDO_DEPTH,
+    );
+    setRedoCount(redoStackRef.current.length);
+    actionsRef.current = toActions(doc);
+    setPrevActions(actionsRef.current);
+    redrawCanvas(actionsRef.current);
+  };
 
-    if (socket) {
-      socket.emit("whiteboard-undo", { roomCode });
-    }
+  // Redo adds the undone actions back, on top of the board
+  const redoLastAction = () => {
+    const restored = redoStackRef.current.pop();
+    if (!restored) return;
+    restored.forEach(recordAction);
+    flushActionBatch();
+
+    setRedoCount(redoStackRef.current.length);
+    actionsRef.current = [...actionsRef.current, ...restored];
+    setPrevActions(actionsRef.current);
+    redrawCanvas(actionsRef.current);
   };
 
   // Add touch event handling for mobile support
   const startDrawingTouch = (e: React.TouchEvent<HTMLCanvasElement>) => {
     e.preventDefault();
-    const touch = e.touches[0];
+    if (e.touches.length >= 2) {
+      startPinch(e);
+      return;
+    }
+    if (!isFreehandTool) {
+      const { x, y } = getTouchCoordinates(e);
+      handleObjectPointerDown(x, y);
+      return;
+    }
     const canvas = canvasRef.current;
     if (!canvas || !socket) return;
 
-    const rect = canvas.getBoundingClientRect();
-    const x = touch.clientX - rect.left;
-    const y = touch.clientY - rect.top;
+    const { x, y } = getTouchCoordinates(e);
 
     // Rest of the logic identical to startDrawing
     prevSmoothedPoint.current = { x, y };
 
+    strokeIdRef.current = createActionId();
+    resetRedo();
+
     const action: DrawingAction = {
       type: "start",
       x,
@@ -743,10 +1839,12 @@ const WhiteBoard: React.FC<WhiteBoardProps> = ({ roomCode, userId }) => {
       brushSize,
       tool,
       timestamp: Date.now(),
+      authorId: userId,
+      actionId: strokeIdRef.current,
     };
 
     // Add to batch and send immediately for start actions
-    actionBatchRef.current.push(action);
+    recordAction(action);
     flushActionBatch();
 
     const newActions = [...actionsRef.current, action];
@@ -755,6 +1853,7 @@ const WhiteBoard: React.FC<WhiteBoardProps> = ({ roomCode, userId }) => {
 
     const ctx = canvas.getContext("2d");
     if (ctx) {
+      applyViewTransform(ctx);
       ctx.beginPath();
       ctx.moveTo(x, y);
       ctx.strokeStyle = tool === "eraser" ? "#121212" : color;
@@ -774,15 +1873,21 @@ const WhiteBoard: React.FC<WhiteBoardProps> = ({ roomCode, userId }) => {
 
   const drawTouch = (e: React.TouchEvent<HTMLCanvasElement>) => {
     e.preventDefault();
+    if (pinchRef.current) {
+      movePinch(e);
+      return;
+    }
+    if (!isFreehandTool) {
+      const { x, y } = getTouchCoordinates(e);
+      handleObjectPointerMove(x, y);
+      return;
+    }
     if (!isDrawing || !socket) return;
 
-    const touch = e.touches[0];
     const canvasEl = canvasRef.current;
     if (!canvasEl) return;
 
-    const rect = canvasEl.getBoundingClientRect();
-    const x = touch.clientX - rect.left;
-    const y = touch.clientY - rect.top;
+    const { x, y } = getTouchCoordinates(e);
 
     // Rest identical to draw function
     const pressure = calculatePressure(x, y);
@@ -797,6 +1902,7 @@ const WhiteBoard: React.FC<WhiteBoardProps> = ({ roomCode, userId }) => {
 
     const ctx = canvasEl.getContext("2d");
     if (!ctx) return;
+    applyViewTransform(ctx);
 
     if (smoothed.length > 0) {
       // High quality rendering with proper antialiasing
@@ -849,7 +1955,7 @@ const WhiteBoard: React.FC<WhiteBoardProps> = ({ roomCode, userId }) => {
     }
 
     // Add to batch with complete smoothed points for high quality remote rendering
-    actionBatchRef.current.push({
+    const drawAction: DrawingAction = {
       type: "draw",
       x,
       y,
@@ -859,7 +1965,11 @@ const WhiteBoard: React.FC<WhiteBoardProps> = ({ roomCode, userId }) => {
       tool,
       timestamp: Date.now(),
       points: smoothed,
-    });
+      authorId: userId,
+      actionId: strokeIdRef.current ?? undefined,
+    };
+    recordAction(drawAction);
+    actionsRef.current.push(drawAction);
 
     // Start batch timer if not already running
     if (!batchTimerRef.current) {
@@ -882,7 +1992,11 @@ const WhiteBoard: React.FC<WhiteBoardProps> = ({ roomCode, userId }) => {
 
   const stopDrawingTouch = (e: React.TouchEvent<HTMLCanvasElement>) => {
     e.preventDefault();
-    stopDrawing();
+    if (pinchRef.current) {
+      if (e.touches.length < 2) pinchRef.current = null;
+      return;
+    }
+    handleMouseUp();
   };
 
   return (
@@ -896,22 +2010,44 @@ const WhiteBoard: React.FC<WhiteBoardProps> = ({ roomCode, userId }) => {
           {error}
         </div>
       )}
+      {notice && (
+        <div className="bg-emerald-500/20 text-emerald-400 p-2 text-center">
+          {notice}
+        </div>
+      )}
       <div className="flex justify-between items-center p-2 bg-[#1F1F1F] border-b border-gray-800">
         <div className="flex items-center space-x-2">
           <button
-            onClick={() => setTool("pen")}
+            onClick={() => changeTool("select")}
+            className={`p-2 rounded-md ${tool === "select" ? "bg-emerald-500/20 text-emerald-400" : "bg-[#2C2C2C] text-gray-300"} hover:bg-[#3C3C3C] transition`}
+            title="Select"
+          >
+            <MousePointer2 size={18} />
+          </button>
+          <button
+            onClick={() => changeTool("pen")}
             className={`p-2 rounded-md ${tool === "pen" ? "bg-emerald-500/20 text-emerald-400" : "bg-[#2C2C2C] text-gray-300"} hover:bg-[#3C3C3C] transition`}
             title="Pen"
           >
             <Pencil size={18} />
           </button>
           <button
-            onClick={() => setTool("eraser")}
+            onClick={() => changeTool("eraser")}
             className={`p-2 rounded-md ${tool === "eraser" ? "bg-emerald-500/20 text-emerald-400" : "bg-[#2C2C2C] text-gray-300"} hover:bg-[#3C3C3C] transition`}
             title="Eraser"
           >
             <Eraser size={18} />
           </button>
+          {SHAPE_TOOLS.map(({ id, label, icon: Icon }) => (
+            <button
+              key={id}
+              onClick={() => changeTool(id)}
+              className={`p-2 rounded-md ${tool === id ? "bg-emerald-500/20 text-emerald-400" : "bg-[#2C2C2C] text-gray-300"} hover:bg-[#3C3C3C] transition`}
+              title={label}
+            >
+              <Icon size={18} />
+            </button>
+          ))}
           <div className="h-6 w-px bg-gray-700 mx-1"></div>
           <div className="flex items-center ml-2">
             <label htmlFor="color-picker" className="text-white mr-2 text-sm">
@@ -921,7 +2057,7 @@ const WhiteBoard: React.FC<WhiteBoardProps> = ({ roomCode, userId }) => {
               type="color"
               id="color-picker"
               value={color}
-              onChange={(e) => setColor(e.target.value)}
+              onChange={(e) => changeColor(e.target.value)}
               className="h-8 w-8 cursor-pointer rounded border border-gray-600"
               disabled={tool === "eraser"}
             />
@@ -936,7 +2072,7 @@ const WhiteBoard: React.FC<WhiteBoardProps> = ({ roomCode, userId }) => {
               min="1"
               max="30"
               value={brushSize}
-              onChange={(e) => setBrushSize(parseInt(e.target.value))}
+              onChange={(e) => changeBrushSize(parseInt(e.target.value))}
               className="w-24 accent-emerald-500"
             />
             <span className="text-white ml-2 w-6 text-sm">{brushSize}</span>
@@ -944,13 +2080,90 @@ const WhiteBoard: React.FC<WhiteBoardProps> = ({ roomCode, userId }) => {
         </div>
 
         <div className="flex items-center space-x-2">
+          <button
+            onClick={() => setIsHistoryOpen((open) => !open)}
+            className={`flex items-center gap-1 p-2 rounded-md ${isHistoryOpen ? "bg-emerald-500/20 text-emerald-400" : "bg-[#2C2C2C] text-white"} hover:bg-[#3C3C3C] transition text-sm`}
+            title="Boards and snapshots"
+          >
+            <History size={18} />
+            <span className="max-w-32 truncate">
+              {boardName ?? "Main board"}
+            </span>
+          </button>
+          {convertibleNotes.length > 0 && (
+            <button
+              onClick={() => setIsConvertOpen(true)}
+              className="flex items-center gap-1 p-2 rounded-md bg-emerald-500/20 text-emerald-400 hover:bg-emerald-500/30 transition text-sm"
+              title="Create tasks from the selected notes"
+            >
+              <ListPlus size={18} />
+              <span>Create task{convertibleNotes.length === 1 ? "" : "s"}</span>
+            </button>
+          )}
+          {selectedIds.length > 0 && (
+            <button
+              onClick={deleteSelectedObjects}
+              className="p-2 rounded-md bg-[#2C2C2C] text-gray-300 hover:bg-[#3C3C3C] transition"
+              title="Delete selected"
+            >
+              <Trash2 size={18} />
+            </button>
+          )}
           <button
             onClick={undoLastAction}
-            className="p-2 rounded-md bg-[#2C2C2C] text-white hover:bg-[#3C3C3C] transition"
-            title="Undo"
+            disabled={!canUndo}
+            className="p-2 rounded-md bg-[#2C2C2C] text-white hover:bg-[#3C3C3C] transition disabled:opacity-40"
+            title="Undo (Ctrl+Z)"
           >
             <Undo size={18} />
           </button>
+          <button
+            onClick={redoLastAction}
+            disabled={redoCount === 0}
+            className="p-2 rounded-md bg-[#2C2C2C] text-white hover:bg-[#3C3C3C] transition disabled:opacity-40"
+            title="Redo (Ctrl+Shift+Z)"
+          >
+            <Redo size={18} />
+          </button>
+          <div className="relative">
+            <button
+              onClick={() => setIsExportMenuOpen((open) => !open)}
+              className={`p-2 rounded-md ${isExportMenuOpen ? "bg-emerald-500/20 text-emerald-400" : "bg-[#2C2C2C] text-white"} hover:bg-[#3C3C3C] transition`}
+              title="Export"
+            >
+              <Download size={18} />
+            </button>
+            {isExportMenuOpen && (
+              <div className="absolute right-0 top-full z-20 mt-1 w-48 rounded-md border border-[#2C2C2C] bg-[#1C1C1C] py-1 text-sm text-gray-200 shadow-xl">
+                {(
+                  [
+                    ["png", "PNG image"],
+                    ["svg", "SVG image"],
+                    ["pdf", "PDF document"],
+                  ] as const
+                ).map(([format, label]) => (
+                  <button
+                    key={format}
+                    onClick={() => exportBoard(format)}
+                    className="block w-full px-3 py-1.5 text-left hover:bg-[#2C2C2C]"
+                  >
+                    {label}
+                  </button>
+                ))}
+                <div className="my-1 h-px bg-[#2C2C2C]" />
+                <button
+                  onClick={() => {
+                    setIsExportMenuOpen(false);
+                    setIsAttachOpen(true);
+                  }}
+                  className="flex w-full items-center gap-2 px-3 py-1.5 text-left hover:bg-[#2C2C2C]"
+                >
+                  <Paperclip size={14} />
+                  Attach to task or milestone
+                </button>
+              </div>
+            )}
+          </div>
           <button
             onClick={clearCanvas}
             className="p-2 rounded-md bg-red-500/20 text-red-400 hover:bg-red-500/30 transition"
@@ -963,20 +2176,125 @@ const WhiteBoard: React.FC<WhiteBoardProps> = ({ roomCode, userId }) => {
 
       <div
         ref={canvasContainerRef}
-        className="flex-1 relative bg-gray-800 overflow-hidden"
+        tabIndex={0}
+        onKeyDown={handleBoardKeyDown}
+        onKeyUp={handleBoardKeyUp}
+        className="flex-1 relative bg-gray-800 overflow-hidden focus:outline-none"
       >
         <canvas
           ref={canvasRef}
-          onMouseDown={startDrawing}
-          onMouseMove={draw}
-          onMouseUp={stopDrawing}
-          onMouseLeave={stopDrawing}
+          onMouseDown={handleMouseDown}
+          onMouseMove={handleMouseMove}
+          onMouseUp={handleMouseUp}
+          onMouseLeave={() => {
+            sendCursor(null);
+            handleMouseUp();
+          }}
+          onDoubleClick={handleDoubleClick}
           onTouchStart={startDrawingTouch}
           onTouchMove={drawTouch}
           onTouchEnd={stopDrawingTouch}
-          className="absolute top-0 left-0 w-full h-full cursor-crosshair bg-[#121212]"
+          className={`absolute top-0 left-0 w-full h-full ${isPanning ? "cursor-grab" : tool === "select" ? "cursor-default" : "cursor-crosshair"} bg-[#121212]`}
         />
+        <RemoteCursors cursors={Object.values(cursors)} view={view} />
+        <PresenceStrip users={roomUsers} currentUserId={userId} />
+        {isHistoryOpen && (
+          <BoardHistoryPanel
+            roomCode={roomCode}
+            boardId={boardId}
+            onSelectBoard={selectBoard}
+            onClose={() => setIsHistoryOpen(false)}
+            onNotice={showNotice}
+          />
+        )}
+        {editing && editingObject && (
+          <textarea
+            autoFocus
+            value={editing.text}
+            onChange={(e) => setEditing({ ...editing, text: e.target.value })}
+            onBlur={finishEditing}
+            onKeyDown={(e) => {
+              if (e.key === "Escape" || (e.key === "Enter" && e.ctrlKey)) {
+                e.currentTarget.blur();
+              }
+            }}
+            placeholder={
+              editingObject.kind === "sticky" ? "Write a note..." : "Text"
+            }
+            style={{
+              left: worldToScreen(view, editingObject.x, editingObject.y).x,
+              top: worldToScreen(view, editingObject.x, editingObject.y).y,
+              transform: `scale(${view.zoom})`,
+              transformOrigin: "top left",
+              width: editingObject.width,
+              height: editingObject.height,
+              padding: editingObject.kind === "sticky" ? 10 : 2,
+              color:
+                editingObject.kind === "sticky"
+                  ? "#1F2937"
+                  : editingObject.color,
+            }}
+            className="absolute resize-none overflow-hidden bg-transparent text-base leading-5 font-sans border border-emerald-500/60 focus:outline-none"
+          />
+        )}
+
+        <div className="absolute bottom-3 right-3 flex flex-col items-end gap-2">
+          <canvas
+            ref={minimapRef}
+            width={MINIMAP_SIZE.width}
+            height={MINIMAP_SIZE.height}
+            onClick={handleMinimapClick}
+            className="rounded border border-gray-700 cursor-pointer"
+            title="Minimap"
+          />
+          <div className="flex items-center gap-1 rounded-md bg-[#1F1F1F]/90 p-1 text-gray-300">
+            <button
+              onClick={() => zoomBy(1 / 1.2)}
+              className="p-1.5 rounded hover:bg-[#3C3C3C] transition"
+              title="Zoom out"
+            >
+              <ZoomOut size={16} />
+            </button>
+            <button
+              onClick={() => setView(DEFAULT_VIEW)}
+              className="w-12 text-xs hover:text-white"
+              title="Reset zoom"
+            >
+              {Math.round(view.zoom * 100)}%
+            </button>
+            <button
+              onClick={() => zoomBy(1.2)}
+              className="p-1.5 rounded hover:bg-[#3C3C3C] transition"
+              title="Zoom in"
+            >
+              <ZoomIn size={16} />
+            </button>
+            <button
+              onClick={fitToContent}
+              className="p-1.5 rounded hover:bg-[#3C3C3C] transition"
+              title="Fit to content"
+            >
+              <Maximize size={16} />
+            </button>
+          </div>
+        </div>
       </div>
+
+      <NotesToTasksModal
+        isOpen={isConvertOpen}
+        onClose={() => setIsConvertOpen(false)}
+        roomCode={roomCode}
+        notes={convertibleNotes}
+        onCreated={handleNotesConverted}
+      />
+
+      <AttachBoardModal
+        isOpen={isAttachOpen}
+        onClose={() => setIsAttachOpen(false)}
+        roomCode={roomCode}
+        boardId={boardId}
+        onAttached={handleBoardAttached}
+      />
     </motion.div>
   );
 };
@@ -1,14 +1,14 @@
-import React, { useRef, useState, useEffect } from "react";
+import React, { useRef, useState, useEffect, useMemo } from "react";
 import FullCalendar from "@fullcalendar/react";
 import dayGridPlugin from "@fullcalendar/daygrid";
 import timeGridPlugin from "@fullcalendar/timegrid";
 import interactionPlugin, { DateClickArg } from "@fullcalendar/interaction";
-import { EventClickArg } from "@fullcalendar/core";
+import { DatesSetArg, EventClickArg } from "@fullcalendar/core";
 import "../styles/calendar-styles.css";
 import CalenderTaskModal from "../components/CalenderTaskModal";
 import { useAuth } from "@clerk/clerk-react";
-import axios from "axios";
-import api from "../utils/api";
+import { useWorkspaceTasks } from "../utils/apiHooks";
+import { Task } from "../utils/taskTypes";
 
 interface CalendarEvent {
   id: string;
@@ -20,18 +20,6 @@ interface CalendarEvent {
   workspaceName?: string;
 }
 
-interface Task {
-  id: string;
-  title: string;
-  description?: string;
-  priority: string;
-  type: string;
-  status: string;
-  projectId: string;
-  dueDate?: string;
-  assigneeId?: string;
-}
-
 interface CalendarProps {
   workspaceName?: string;
   darkMode: boolean;
@@ -90,42 +78,43 @@ const Calendar: React.FC<CalendarProps> = ({ workspaceName, darkMode }) => {
   const [taskState, setTaskState] = useState(false);
   const [selectedDate, setSelectedDate] = useState<string>("");
   const { getToken } = useAuth();
-  const [tasks, setTasks] = useState<Task[]>([]);
+  const [visibleRange, setVisibleRange] = useState<{
+    start: string;
+    end: string;
+  } | null>(null);
 
-  const fetchTasksByWorkspaceName = async () => {
-    try {
-      const token = await getToken();
-      if (!token || !workspaceName) {
-        throw new Error("Authentication token or workspace name not available");
-      }
-      const response = await axios.get(
-        api.getApiEndpoint(`api/tasks/workspace/${workspaceName}`),
-        {
-          headers: {
-            Authorization: `Bearer ${token}`,
-          },
-        },
-      );
-      setTasks(response.data);
-    } catch (error: unknown) {
-      if (axios.isAxiosError(error)) {
-        console.error(
-          "Error fetching tasks:",
-          error.response?.data?.error || error.message,
-        );
-      } else if (error instanceof Error) {
-        console.error("Error fetching tasks:", error.message);
-      } else {
-        console.error("Unknown error fetching tasks");
-      }
-    }
-  };
+  // Only fetch tasks due within the dates the calendar is showing
+  const {
+    data: taskPages,
+    refetch,
+    hasNextPage,
+    fetchNextPage,
+    isFetchingNextPage,
+  } = useWorkspaceTasks(visibleRange ? workspaceName : null, {
+    dueFrom: visibleRange?.start,
+    dueTo: visibleRange?.end,
+    sort: "dueDate",
+    limit: 200,
+  });
 
+  // A calendar view needs every task in range, so keep paging until done
   useEffect(() => {
-    if (workspaceName) {
-      fetchTasksByWorkspaceName();
+    if (hasNextPage && !isFetchingNextPage) {
+      fetchNextPage();
     }
-  }, [workspaceName, getToken]);
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
+
+  const tasks: Task[] = useMemo(
+    () => taskPages?.pages.flatMap((page) => page.tasks) ?? [],
+    [taskPages],
+  );
+
+  const handleDatesSet = (arg: DatesSetArg) => {
+    setVisibleRange({
+      start: arg.start.toISOString(),
+      end: arg.end.toISOString(),
+    });
+  };
 
   const mapTasksToEvents = (tasks: Task[]): CalendarEvent[] => {
     const priorityColors: Record<string, string> = {
@@ -157,7 +146,7 @@ const Calendar: React.FC<CalendarProps> = ({ workspaceName, darkMode }) => {
   };
 
   const handleTaskAdded = () => {
-    fetchTasksByWorkspaceName();
+    refetch();
     console.log("Task added successfully");
   };
 
@@ -246,6 +235,7 @@ const Calendar: React.FC<CalendarProps> = ({ workspaceName, darkMode }) => {
           events={fullCalendarEvents}
           dateClick={handleDateClick}
           eventClick={handleEventClick}
+          datesSet={handleDatesSet}
           height={containerHeight || "auto"}
           themeSystem="standard"
           dayCellClassNames={
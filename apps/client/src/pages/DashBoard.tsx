@@ -12,6 +12,8 @@ import ChatRoom from "../components/ChatRoom";
 import { JoinCallButton } from "../components/VideoButton";
 import { useUser } from "@clerk/clerk-react";
 import Settings from "../components/Settings";
+import { SearchResult } from "../utils/taskTypes";
+import { useWorkspacePresence } from "../utils/presence";
 
 function DashBoard() {
   const { workspaceCode } = useParams();
@@ -20,6 +22,12 @@ function DashBoard() {
     null,
   );
   const [selectedSprintId, setSelectedSprintId] = useState<string | null>(null);
+  const [focusTaskId, setFocusTaskId] = useState<string | null>(null);
+  // Private channel or direct conversation open in chat; null is the
+  // workspace-wide chat
+  const [selectedChannelId, setSelectedChannelId] = useState<string | null>(
+    null,
+  );
   const [darkMode, setDarkMode] = useState(() => {
     const savedMode = localStorage.getItem("darkMode");
     return savedMode !== null ? savedMode === "true" : true;
@@ -29,6 +37,7 @@ function DashBoard() {
   const { user } = useUser();
 
   const email = user?.emailAddresses?.[0]?.emailAddress || null;
+  const presence = useWorkspacePresence(workspaceCode, email);
 
   // Separate the initialization phase to ensure correct order
   useEffect(() => {
@@ -108,10 +117,39 @@ function DashBoard() {
     }
   };
 
+  // Jump from a search result to the view that shows it
+  const handleSearchSelect = (result: SearchResult) => {
+    switch (result.type) {
+      case "task":
+      case "project":
+        if (result.projectId) {
+          handleProjectSelect(result.projectId);
+        }
+        setFocusTaskId(result.type === "task" ? result.id : null);
+        setSelectedItem("projects");
+        break;
+      case "sprint":
+        handleSprintSelect(result.id);
+        setSelectedItem("sprints");
+        break;
+      case "milestone":
+        setSelectedItem("roadmap");
+        break;
+      case "message":
+        setSelectedItem("messages");
+        break;
+    }
+  };
+
   const handleCloseChatRoom = () => {
     setSelectedItem("");
   };
 
+  const handleChannelSelect = (channelId: string | null) => {
+    setSelectedChannelId(channelId);
+    setSelectedItem("messages");
+  };
+
   const handleSidebarToggle = (minimized: boolean) => {
     setIsSidebarMinimized(minimized);
   };
@@ -124,6 +162,8 @@ function DashBoard() {
             projectId={selectedProjectId}
             workspaceName={workspaceCode}
             darkMode={darkMode}
+            focusTaskId={focusTaskId}
+            onTaskFocused={() => setFocusTaskId(null)}
           />
         ) : (
           <div
@@ -144,7 +184,11 @@ function DashBoard() {
         );
       case "members":
         return (
-          <Members workspaceName={workspaceCode || ""} darkMode={darkMode} />
+          <Members
+            workspaceName={workspaceCode || ""}
+            darkMode={darkMode}
+            presence={presence}
+          />
         );
       case "calendar":
         return (
@@ -167,9 +211,13 @@ function DashBoard() {
               } border-r`}
             >
               <ChatRoom
+                key={selectedChannelId ?? "general"}
                 roomCode={workspaceCode || "general"}
+                channelId={selectedChannelId}
                 userId={email || "anonymous"}
                 onClose={handleCloseChatRoom}
+                onLeaveChannel={() => setSelectedChannelId(null)}
+                presence={presence}
                 darkMode={darkMode}
               />
             </div>
@@ -251,6 +299,10 @@ function DashBoard() {
           onItemSelect={handleItemSelect}
           onSidebarToggle={handleSidebarToggle}
           isInitialized={isInitialized} // Pass the initialization state
+          userEmail={email || ""}
+          selectedChannelId={selectedChannelId}
+          onChannelSelect={handleChannelSelect}
+          presence={presence}
         />
       </div>
 
@@ -263,6 +315,7 @@ function DashBoard() {
           workspaceCode={workspaceCode}
           darkMode={darkMode}
           toggleDarkMode={toggleDarkMode}
+          onSearchSelect={handleSearchSelect}
         />
         {/* Main content */}
         <main
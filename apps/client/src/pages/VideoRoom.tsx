@@ -1,6 +1,7 @@
 import React, { useEffect, useRef, useState, useCallback } from "react";
 import Peer, { MediaConnection } from "peerjs";
 import io from "socket.io-client";
+import { useAuth } from "@clerk/clerk-react";
 import {
   Mic,
   MicOff,
@@ -12,6 +13,7 @@ import {
 import { motion, AnimatePresence } from "framer-motion";
 // import { useNavigate } from "react-router-dom";
 import { getApiUrl } from "../utils/api";
+import { socketAuth } from "../utils/socketAuth";
 import WhiteBoard from "../components/WhiteBoard";
 import ChatRoom from "../components/ChatRoom";
 
@@ -96,6 +98,7 @@ const VideoRoom: React.FC<RoomProps> = ({
   const [error, setError] = useState<string | null>(null);
   const isMountedRef = useRef(true);
   const [isChatOpen, setIsChatOpen] = useState(false);
+  const { getToken } = useAuth();
 
   const connectToNewUser = useCallback(
     (peerId: string, stream: MediaStream) => {
@@ -171,7 +174,8 @@ const VideoRoom: React.FC<RoomProps> = ({
 
     // Initialize Socket.IO
     socketRef.current = io(getApiUrl(), {
-      query: { roomCode, userId },
+      query: { roomCode },
+      auth: socketAuth(getToken),
       path: "/socket.io",
       transports: ["polling"], // Try WebSocket first, fall back to polling
       reconnection: true,
@@ -187,6 +191,10 @@ const VideoRoom: React.FC<RoomProps> = ({
       }
     });
 
+    socketRef.current.on("room-error", ({ error }: { error: string }) => {
+      if (isMountedRef.current) setError(error);
+    });
+
     socketRef.current.on("connect", () => {
       console.log(
         "Socket.IO connected:",
@@ -332,7 +340,14 @@ const VideoRoom: React.FC<RoomProps> = ({
         addedPeerIdsRef.current.clear();
       }, 1000);
     };
-  }, [roomCode, userId, initialMuted, initialVideoOff, connectToNewUser]);
+  }, [
+    roomCode,
+    userId,
+    initialMuted,
+    initialVideoOff,
+    connectToNewUser,
+    getToken,
+  ]);
 
   const toggleMute = () => {
     if (localStreamRef.current) {
@@ -1,8 +1,33 @@
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  useInfiniteQuery,
+  useQuery,
+  useMutation,
+  useQueryClient,
+} from "@tanstack/react-query";
 import axios from "axios";
 import { useAuth } from "@clerk/clerk-react";
 import api from "./api";
 import { useRef } from "react";
+import {
+  Attachment,
+  BoardDiff,
+  BoardExportFormat,
+  ChatChannel,
+  ChatChannelList,
+  MilestoneOption,
+  NoteTask,
+  ProjectOption,
+  SearchResult,
+  SprintOption,
+  Tag,
+  TaskListParams,
+  TaskPage,
+  WhiteboardBoard,
+  WhiteboardExport,
+  WhiteboardSnapshot,
+  WorkspaceMemberOption,
+} from "./taskTypes";
+import { createThumbnail, fileMimeType } from "./attachments";
 
 interface Workspace {
   id: string | number;
@@ -197,3 +222,718 @@ export function useCreateUser() {
     },
   });
 }
+
+// Hook for fetching a workspace's tag catalog
+export function useWorkspaceTags(workspaceName: string | null | undefined) {
+  const { getToken } = useAuth();
+
+  return useQuery<Tag[]>({
+    queryKey: ["tags", workspaceName],
+    queryFn: async () => {
+      const token = await getToken();
+      const response = await axios.get<Tag[]>(
+        api.getApiEndpoint(
+          `/api/tags/workspace/${encodeURIComponent(workspaceName!)}`,
+        ),
+        {
+          headers: { Authorization: `Bearer ${token}` },
+        },
+      );
+      return response.data;
+    },
+    enabled: !!workspaceName,
+  });
+}
+
+// Hook for adding a tag to a workspace's catalog
+export function useCreateTag(workspaceName: string | null | undefined) {
+  const { getToken } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ name, color }: { name: string; color?: string }) => {
+      const token = await getToken();
+      const response = await axios.post<Tag>(
+        api.getApiEndpoint(
+          `/api/tags/workspace/${encodeURIComponent(workspaceName!)}`,
+        ),
+        { name, color },
+        {
+          headers: { Authorization: `Bearer ${token}` },
+        },
+      );
+      return response.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["tags", workspaceName] });
+    },
+  });
+}
+
+// Drop empty parameters so they don't end up as "?status=" in the URL
+const toSearchParams = (params: TaskListParams, cursor: string | null) => {
+  const search = new URLSearchParams();
+  Object.entries(params).forEach(([key, value]) => {
+    if (value !== undefined && value !== null && value !== "") {
+      search.set(key, String(value));
+    }
+  });
+  if (cursor) search.set("cursor", cursor);
+  return search.toString();
+};
+
+// Shared infinite query over one of the paginated task list endpoints
+function useTaskPages(
+  scope: "project" | "workspace",
+  id: string | null | undefined,
+  params: TaskListParams,
+) {
+  const { getToken } = useAuth();
+  const path =
+    scope === "project"
+      ? `/api/tasks/task/${id}`
+      : `/api/tasks/workspace/${encodeURIComponent(id ?? "")}`;
+
+  return useInfiniteQuery<TaskPage>({
+    queryKey: ["tasks", scope, id, params],
+    queryFn: async ({ pageParam }) => {
+      const token = await getToken();
+      const response = await axios.get<TaskPage>(
+        api.getApiEndpoint(
+          `${path}?${toSearchParams(params, pageParam as string | null)}`,
+        ),
+        {
+          headers: { Authorization: `Bearer ${token}` },
+        },
+      );
+      return response.data;
+    },
+    initialPageParam: null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    enabled: !!id,
+  });
+}
+
+// Hook for paging through a project's tasks with filters and sorting
+export function useProjectTasks(
+  projectId: string | null | undefined,
+  params: TaskListParams = {},
+) {
+  return useTaskPages("project", projectId, params);
+}
+
+// Hook for paging through every task in a workspace
+export function useWorkspaceTasks(
+  workspaceName: string | null | undefined,
+  params: TaskListParams = {},
+) {
+  return useTaskPages("workspace", workspaceName, params);
+}
+
+// Hook for ranked full-text search across a workspace
+export function useGlobalSearch(
+  workspaceName: string | null | undefined,
+  query: string,
+) {
+  const { getToken } = useAuth();
+
+  return useQuery<SearchResult[]>({
+    queryKey: ["search", workspaceName, query],
+    queryFn: async () => {
+      const token = await getToken();
+      const params = new URLSearchParams({ q: query });
+      if (workspaceName) params.set("workspaceName", workspaceName);
+      const response = await axios.get<{ results: SearchResult[] }>(
+        api.getApiEndpoint(`/api/search?${params.toString()}`),
+        {
+          headers: { Authorization: `Bearer ${token}` },
+        },
+      );
+      return response.data.results;
+    },
+    enabled: query.trim().length > 0,
+    staleTime: 1000 * 30,
+  });
+}
+
+// Hook for listing a workspace's projects
+export function useWorkspaceProjects(workspaceName: string | null | undefined) {
+  const { getToken } = useAuth();
+
+  return useQuery<ProjectOption[]>({
+    queryKey: ["projects", workspaceName],
+    queryFn: async () => {
+      const token = await getToken();
+      const response = await axios.get<ProjectOption[]>(
+        api.getApiEndpoint(
+          `/api/projects/workspace/${encodeURIComponent(workspaceName!)}`,
+        ),
+        {
+          headers: { Authorization: `Bearer ${token}` },
+        },
+      );
+      return response.data;
+    },
+    enabled: !!workspaceName,
+  });
+}
+
+// Hook for listing the sprints of every project in a workspace
+export function useWorkspaceSprints(workspaceName: string | null | undefined) {
+  const { getToken } = useAuth();
+
+  return useQuery<SprintOption[]>({
+    queryKey: ["sprints", workspaceName],
+    queryFn: async () => {
+      const token = await getToken();
+      const response = await axios.get<SprintOption[]>(
+        api.getApiEndpoint(
+          `/api/sprints/workspace/${encodeURIComponent(workspaceName!)}`,
+        ),
+        {
+          headers: { Authorization: `Bearer ${token}` },
+        },
+      );
+      return response.data;
+    },
+    enabled: !!workspaceName,
+  });
+}
+
+// Hook for turning whiteboard notes into tasks
+export function useCreateTasksFromNotes(roomCode: string) {
+  const { getToken } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (input: {
+      projectId: string;
+      sprintId?: string;
+      notes: { objectId: string; text: string }[];
+    }) => {
+      const token = await getToken();
+      const response = await axios.post<{ tasks: NoteTask[] }>(
+        api.getApiEndpoint(
+          `/api/whiteboards/${encodeURIComponent(roomCode)}/tasks`,
+        ),
+        input,
+        {
+          headers: { Authorization: `Bearer ${token}` },
+        },
+      );
+      return response.data.tasks;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["tasks"] });
+    },
+  });
+}
+
+// Hook for listing the milestones of every project in a workspace
+export function useWorkspaceMilestones(
+  workspaceName: string | null | undefined,
+) {
+  const { getToken } = useAuth();
+
+  return useQuery<MilestoneOption[]>({
+    queryKey: ["milestones", workspaceName],
+    queryFn: async () => {
+      const token = await getToken();
+      const response = await axios.get<MilestoneOption[]>(
+        api.getApiEndpoint(
+          `/api/roadmap/workspace/${encodeURIComponent(workspaceName!)}/milestones`,
+        ),
+        {
+          headers: { Authorization: `Bearer ${token}` },
+        },
+      );
+      return response.data;
+    },
+    enabled: !!workspaceName,
+  });
+}
+
+export type BoardExportTarget = { taskId: string } | { milestoneId: string };
+
+// Hook for listing the whiteboards attached to a task or milestone
+export function useWhiteboardExports(target: BoardExportTarget) {
+  const { getToken } = useAuth();
+
+  return useQuery<WhiteboardExport[]>({
+    queryKey: ["whiteboardExports", target],
+    queryFn: async () => {
+      const token = await getToken();
+      const response = await axios.get<WhiteboardExport[]>(
+        api.getApiEndpoint(
+          `/api/whiteboards/exports?${new URLSearchParams(target).toString()}`,
+        ),
+        {
+          headers: { Authorization: `Bearer ${token}` },
+        },
+      );
+      return response.data;
+    },
+  });
+}
+
+// Hook for rendering a room's whiteboard and attaching it to a task or
+// milestone
+export function useAttachWhiteboardExport(roomCode: string) {
+  const { getToken } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (
+      input: BoardExportTarget & {
+        format: BoardExportFormat;
+        boardId?: string | null;
+      },
+    ) => {
+      const token = await getToken();
+      const response = await axios.post<WhiteboardExport>(
+        api.getApiEndpoint(
+          `/api/whiteboards/${encodeURIComponent(roomCode)}/exports`,
+        ),
+        input,
+        {
+          headers: { Authorization: `Bearer ${token}` },
+        },
+      );
+      return response.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["whiteboardExports"] });
+    },
+  });
+}
+
+const whiteboardEndpoint = (roomCode: string, path = "") =>
+  api.getApiEndpoint(`/api/whiteboards/${encodeURIComponent(roomCode)}${path}`);
+
+// Hook for listing a room's named whiteboards
+export function useWhiteboards(roomCode: string) {
+  const { getToken } = useAuth();
+
+  return useQuery<WhiteboardBoard[]>({
+    queryKey: ["whiteboards", roomCode],
+    queryFn: async () => {
+      const token = await getToken();
+      const response = await axios.get<WhiteboardBoard[]>(
+        whiteboardEndpoint(roomCode, "/boards"),
+        {
+          headers: { Authorization: `Bearer ${token}` },
+        },
+      );
+      return response.data;
+    },
+    enabled: !!roomCode,
+  });
+}
+
+// Hook for creating, renaming and deleting a room's named whiteboards
+export function useWhiteboardMutations(roomCode: string) {
+  const { getToken } = useAuth();
+  const queryClient = useQueryClient();
+
+  const onSuccess = () => {
+    queryClient.invalidateQueries({ queryKey: ["whiteboards", roomCode] });
+  };
+
+  const createBoard = useMutation({
+    mutationFn: async (name: string) => {
+      const token = await getToken();
+      const response = await axios.post<WhiteboardBoard>(
+        whiteboardEndpoint(roomCode, "/boards"),
+        { name },
+        {
+          headers: { Authorization: `Bearer ${token}` },
+        },
+      );
+      return response.data;
+    },
+    onSuccess,
+  });
+
+  const renameBoard = useMutation({
+    mutationFn: async ({
+      boardId,
+      name,
+    }: {
+      boardId: string;
+      name: string;
+    }) => {
+      const token = await getToken();
+      const response = await axios.patch<WhiteboardBoard>(
+        whiteboardEndpoint(roomCode, `/boards/${boardId}`),
+        { name },
+        {
+          headers: { Authorization: `Bearer ${token}` },
+        },
+      );
+      return response.data;
+    },
+    onSuccess,
+  });
+
+  const deleteBoard = useMutation({
+    mutationFn: async (boardId: string) => {
+      const token = await getToken();
+      await axios.delete(whiteboardEndpoint(roomCode, `/boards/${boardId}`), {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      return boardId;
+    },
+    onSuccess,
+  });
+
+  return { createBoard, renameBoard, deleteBoard };
+}
+
+// Hook for listing the snapshots of a board; a null boardId is the room's
+// main board
+export function useWhiteboardSnapshots(
+  roomCode: string,
+  boardId: string | null,
+) {
+  const { getToken } = useAuth();
+
+  return useQuery<WhiteboardSnapshot[]>({
+    queryKey: ["whiteboardSnapshots", roomCode, boardId],
+    queryFn: async () => {
+      const token = await getToken();
+      const query = boardId ? `?boardId=${encodeURIComponent(boardId)}` : "";
+      const response = await axios.get<WhiteboardSnapshot[]>(
+        whiteboardEndpoint(roomCode, `/snapshots${query}`),
+        {
+          headers: { Authorization: `Bearer ${token}` },
+        },
+      );
+      return response.data;
+    },
+    enabled: !!roomCode,
+  });
+}
+
+// Hook for comparing a snapshot with the board as it is now
+export function useWhiteboardSnapshotDiff(
+  roomCode: string,
+  snapshotId: string | null,
+) {
+  const { getToken } = useAuth();
+
+  return useQuery<BoardDiff>({
+    queryKey: ["whiteboardSnapshotDiff", roomCode, snapshotId],
+    queryFn: async () => {
+      const token = await getToken();
+      const response = await axios.get<BoardDiff>(
+        whiteboardEndpoint(roomCode, `/snapshots/${snapshotId}/diff`),
+        {
+          headers: { Authorization: `Bearer ${token}` },
+        },
+      );
+      return response.data;
+    },
+    enabled: !!roomCode && !!snapshotId,
+    staleTime: 0,
+  });
+}
+
+// Hook for taking and restoring snapshots of a board
+export function useWhiteboardSnapshotMutations(roomCode: string) {
+  const { getToken } = useAuth();
+  const queryClient = useQueryClient();
+
+  const onSuccess = () => {
+    queryClient.invalidateQueries({
+      queryKey: ["whiteboardSnapshots", roomCode],
+    });
+    queryClient.invalidateQueries({
+      queryKey: ["whiteboardSnapshotDiff", roomCode],
+    });
+  };
+
+  const createSnapshot = useMutation({
+    mutationFn: async (input: { name: string; boardId: string | null }) => {
+      const token = await getToken();
+      const response = await axios.post<WhiteboardSnapshot>(
+        whiteboardEndpoint(roomCode, "/snapshots"),
+        input,
+        {
+          headers: { Authorization: `Bearer ${token}` },
+        },
+      );
+      return response.data;
+    },
+    onSuccess,
+  });
+
+  const restoreSnapshot = useMutation({
+    mutationFn: async (snapshotId: string) => {
+      const token = await getToken();
+      const response = await axios.post<{ backup: WhiteboardSnapshot }>(
+        whiteboardEndpoint(roomCode, `/snapshots/${snapshotId}/restore`),
+        {},
+        {
+          headers: { Authorization: `Bearer ${token}` },
+        },
+      );
+      return response.data;
+    },
+    onSuccess,
+  });
+
+  return { createSnapshot, restoreSnapshot };
+}
+
+// Hook for listing a workspace's members, e.g. to invite them to a channel
+export function useWorkspaceMembers(workspaceName: string | null | undefined) {
+  const { getToken } = useAuth();
+
+  return useQuery<WorkspaceMemberOption[]>({
+    queryKey: ["workspaceMembers", workspaceName],
+    queryFn: async () => {
+      const token = await getToken();
+      const response = await axios.get<{ members: WorkspaceMemberOption[] }>(
+        api.getApiEndpoint(
+          `/api/workspaces/${encodeURIComponent(workspaceName!)}/members`,
+        ),
+        {
+          headers: { Authorization: `Bearer ${token}` },
+        },
+      );
+      return response.data.members;
+    },
+    enabled: !!workspaceName,
+  });
+}
+
+// How often the sidebar refreshes unread counts
+const CHAT_CHANNELS_REFRESH_MS = 30_000;
+
+// Hook for listing the user's private channels and direct conversations in
+// a workspace, with unread counts
+export function useChatChannels(workspaceName: string | null | undefined) {
+  const { getToken } = useAuth();
+
+  return useQuery<ChatChannelList>({
+    queryKey: ["chatChannels", workspaceName],
+    queryFn: async () => {
+      const token = await getToken();
+      const response = await axios.get<ChatChannelList>(
+        api.getApiEndpoint(
+          `/api/chat/${encodeURIComponent(workspaceName!)}/channels`,
+        ),
+        {
+          headers: { Authorization: `Bearer ${token}` },
+        },
+      );
+      return response.data;
+    },
+    enabled: !!workspaceName,
+    refetchInterval: CHAT_CHANNELS_REFRESH_MS,
+  });
+}
+
+// Hook for creating channels, opening direct conversations, inviting people
+// and leaving
+export function useChatChannelMutations(
+  workspaceName: string | null | undefined,
+) {
+  const { getToken } = useAuth();
+  const queryClient = useQueryClient();
+
+  const onSuccess = () => {
+    queryClient.invalidateQueries({
+      queryKey: ["chatChannels", workspaceName],
+    });
+  };
+
+  const post = async <T>(path: string, body: object = {}) => {
+    const token = await getToken();
+    const response = await axios.post<T>(
+      api.getApiEndpoint(`/api/chat${path}`),
+      body,
+      {
+        headers: { Authorization: `Bearer ${token}` },
+      },
+    );
+    return response.data;
+  };
+
+  const createChannel = useMutation({
+    mutationFn: (channel: { name: string; memberIds: string[] }) =>
+      post<ChatChannel>(
+        `/${encodeURIComponent(workspaceName!)}/channels`,
+        channel,
+      ),
+    onSuccess,
+  });
+
+  const openDirect = useMutation({
+    mutationFn: (userId: string) =>
+      post<ChatChannel>(`/${encodeURIComponent(workspaceName!)}/direct`, {
+        userId,
+      }),
+    onSuccess,
+  });
+
+  const inviteMembers = useMutation({
+    mutationFn: ({
+      channelId,
+      userIds,
+    }: {
+      channelId: string;
+      userIds: string[];
+    }) => post<ChatChannel>(`/channels/${channelId}/members`, { userIds }),
+    onSuccess,
+  });
+
+  const leaveChannel = useMutation({
+    mutationFn: async (channelId: string) => {
+      const token = await getToken();
+      await axios.delete(
+        api.getApiEndpoint(`/api/chat/channels/${channelId}/members/me`),
+        {
+          headers: { Authorization: `Bearer ${token}` },
+        },
+      );
+      return channelId;
+    },
+    onSuccess,
+  });
+
+  return { createChannel, openDirect, inviteMembers, leaveChannel };
+}
+
+const attachmentEndpoint = (path = "") =>
+  api.getApiEndpoint(`/api/attachments${path}`);
+
+// Hook for listing the files attached to a task
+export function useTaskAttachments(taskId: string) {
+  const { getToken } = useAuth();
+
+  return useQuery<Attachment[]>({
+    queryKey: ["attachments", taskId],
+    queryFn: async () => {
+      const token = await getToken();
+      const response = await axios.get<Attachment[]>(
+        attachmentEndpoint(`/tasks/${taskId}`),
+        {
+          headers: { Authorization: `Bearer ${token}` },
+        },
+      );
+      return response.data;
+    },
+    enabled: !!taskId,
+  });
+}
+
+export type AttachmentTarget = { taskId: string } | { workspaceName: string };
+
+// Hook for uploading a file to a task, or for a chat message yet to be
+// sent. The file is the request body; images then get a thumbnail made in
+// the browser.
+export function useUploadAttachment(target: AttachmentTarget) {
+  const { getToken } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (file: File) => {
+      const token = await getToken();
+      const path =
+        "taskId" in target
+          ? `/tasks/${target.taskId}`
+          : `/chat/${encodeURIComponent(target.workspaceName)}`;
+      const response = await axios.post<Attachment>(
+        attachmentEndpoint(path),
+        file,
+        {
+          headers: {
+            Authorization: `Bearer ${token}`,
+            "Content-Type": fileMimeType(file) || "application/octet-stream",
+          },
+          params: { name: file.name },
+        },
+      );
+
+      const thumbnail = response.data.isImage
+        ? await createThumbnail(file)
+        : null;
+      if (!thumbnail) return response.data;
+
+      try {
+        const withThumbnail = await axios.put<Attachment>(
+          attachmentEndpoint(`/${response.data.id}/thumbnail`),
+          thumbnail,
+          {
+            headers: {
+              Authorization: `Bearer ${token}`,
+              "Content-Type": thumbnail.type,
+            },
+          },
+        );
+        return withThumbnail.data;
+      } catch (error) {
+        // The full image still works as its own preview
+        console.error("Failed to upload thumbnail:", error);
+        return response.data;
+      }
+    },
+    onSuccess: () => {
+      if ("taskId" in target) {
+        queryClient.invalidateQueries({
+          queryKey: ["attachments", target.taskId],
+        });
+      }
+    },
+  });
+}
+
+// Hook for removing an attached file
+export function useDeleteAttachment() {
+  const { getToken } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (attachment: Attachment) => {
+      const token = await getToken();
+      await axios.delete(attachmentEndpoint(`/${attachment.id}`), {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      return attachment;
+    },
+    onSuccess: (attachment) => {
+      if (attachment.taskId) {
+        queryClient.invalidateQueries({
+          queryKey: ["attachments", attachment.taskId],
+        });
+      }
+    },
+  });
+}
+
+// Hook for an attachment's bytes, or its thumbnail's. Downloads need the
+// auth header, so images are fetched as blobs rather than linked directly.
+export function useAttachmentFile(
+  attachment: Attachment,
+  { thumbnail = false, enabled = true } = {},
+) {
+  const { getToken } = useAuth();
+
+  return useQuery<Blob>({
+    queryKey: ["attachmentFile", attachment.id, thumbnail],
+    queryFn: async () => {
+      const token = await getToken();
+      const response = await axios.get<Blob>(
+        attachmentEndpoint(`/${attachment.id}${thumbnail ? "/thumbnail" : ""}`),
+        {
+          headers: { Authorization: `Bearer ${token}` },
+          responseType: "blob",
+        },
+      );
+      return response.data;
+    },
+    enabled,
+    staleTime: Infinity,
+  });
+}
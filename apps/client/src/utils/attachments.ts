@@ -0,0 +1,86 @@
+// Client-side helpers for file attachments. The limits mirror the server's
+// (apps/server/src/utils/attachments.js) so users hear about a bad file
+// before it is uploaded.
+
+export const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024;
+export const MAX_ATTACHMENTS_PER_MESSAGE = 10;
+
+// The types the server accepts, for the file picker
+export const ATTACHMENT_ACCEPT = [
+  "image/png",
+  "image/jpeg",
+  "image/gif",
+  "image/webp",
+  "application/pdf",
+  "application/zip",
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+  "text/plain",
+  "text/csv",
+  "text/markdown",
+  ".md",
+].join(",");
+
+const PREVIEWABLE_TYPES = [
+  "image/png",
+  "image/jpeg",
+  "image/gif",
+  "image/webp",
+];
+
+// Longest thumbnail side in pixels
+const THUMBNAIL_SIZE = 320;
+
+// e.g. 1536 -> "1.5 KB"
+export const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round((bytes / 1024) * 10) / 10} KB`;
+  return `${Math.round((bytes / (1024 * 1024)) * 10) / 10} MB`;
+};
+
+// Browsers often leave Markdown files without a type
+export const fileMimeType = (file: File) =>
+  file.type || (/\.(md|markdown)$/i.test(file.name) ? "text/markdown" : "");
+
+/** Why a file cannot be attached, or null when it can */
+export const checkAttachment = (file: File): string | null => {
+  if (file.size === 0) return `${file.name} is empty`;
+  if (file.size > MAX_ATTACHMENT_SIZE) {
+    return `${file.name} is larger than ${formatFileSize(MAX_ATTACHMENT_SIZE)}`;
+  }
+  return null;
+};
+
+/**
+ * A JPEG no larger than THUMBNAIL_SIZE on either side, drawn from an image
+ * file, or null for other files and images the browser cannot decode.
+ */
+export const createThumbnail = async (file: File): Promise<Blob | null> => {
+  if (!PREVIEWABLE_TYPES.includes(file.type)) return null;
+
+  try {
+    const bitmap = await createImageBitmap(file);
+    const scale = Math.min(
+      1,
+      THUMBNAIL_SIZE / Math.max(bitmap.width, bitmap.height),
+    );
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+    canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+
+    const context = canvas.getContext("2d");
+    if (!context) return null;
+    // JPEG has no transparency, so give transparent images a white page
+    context.fillStyle = "#ffffff";
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+
+    return await new Promise((resolve) =>
+      canvas.toBlob(resolve, "image/jpeg", 0.8),
+    );
+  } catch {
+    return null;
+  }
+};
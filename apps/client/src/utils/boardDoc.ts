@@ -0,0 +1,134 @@
+/**
+ * Client copy of the server's whiteboard document (server
+ * src/utils/boardDoc.js); keep the two in step.
+ *
+ * A board is a set of immutable items, each holding one action or a list
+ * of items it deletes, named by the client that made it plus a Lamport
+ * clock. Items are ordered by (clock, client), so edits made concurrently
+ * or offline merge into the same board on every copy.
+ */
+
+type DocAction = { type: string; actionId?: string };
+
+export type BoardItem<A extends DocAction = DocAction> = {
+  client: string;
+  clock: number;
+} & (
+  { action: A; deletes?: undefined } | { deletes: string[]; action?: undefined }
+);
+
+// Highest clock seen from each client
+export type StateVector = Record<string, number>;
+
+export interface BoardDoc<A extends DocAction = DocAction> {
+  clientId: string;
+  clock: number;
+  items: Map<string, BoardItem<A>>;
+  order: BoardItem<A>[];
+  clients: Map<string, number>;
+}
+
+export const itemId = (item: BoardItem) => `${item.client}:${item.clock}`;
+
+const compareItems = (a: BoardItem, b: BoardItem) =>
+  a.clock - b.clock || (a.client < b.client ? -1 : a.client > b.client ? 1 : 0);
+
+export const createBoardDoc = <A extends DocAction>(
+  clientId = `client_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`,
+): BoardDoc<A> => ({
+  clientId,
+  clock: 0,
+  items: new Map(),
+  order: [],
+  clients: new Map(),
+});
+
+// Place an item in board order; returns whether it went at the very end
+const insertItem = <A extends DocAction>(
+  doc: BoardDoc<A>,
+  item: BoardItem<A>,
+) => {
+  doc.items.set(itemId(item), item);
+  doc.clock = Math.max(doc.clock, item.clock);
+  doc.clients.set(
+    item.client,
+    Math.max(doc.clients.get(item.client) ?? 0, item.clock),
+  );
+
+  let index = doc.order.length;
+  while (index > 0 && compareItems(doc.order[index - 1], item) > 0) index--;
+  doc.order.splice(index, 0, item);
+  return index === doc.order.length - 1;
+};
+
+/**
+ * Merge items from the server. Items already present are skipped.
+ * `appended` is true when the new items only add actions after everything
+ * already on the board, so they can be drawn without a full redraw.
+ */
+export const applyUpdate = <A extends DocAction>(
+  doc: BoardDoc<A>,
+  items: BoardItem<A>[],
+) => {
+  const added: BoardItem<A>[] = [];
+  let appended = true;
+  [...items].sort(compareItems).forEach((item) => {
+    if (doc.items.has(itemId(item))) return;
+    const atEnd = insertItem(doc, item);
+    if (!atEnd || item.deletes) appended = false;
+    added.push(item);
+  });
+  return { added, appended };
+};
+
+export const insertAction = <A extends DocAction>(
+  doc: BoardDoc<A>,
+  action: A,
+): BoardItem<A> => {
+  const item = { client: doc.clientId, clock: doc.clock + 1, action };
+  insertItem(doc, item);
+  return item;
+};
+
+export const deleteItems = <A extends DocAction>(
+  doc: BoardDoc<A>,
+  ids: string[],
+): BoardItem<A> => {
+  const item = { client: doc.clientId, clock: doc.clock + 1, deletes: ids };
+  insertItem(doc, item);
+  return item;
+};
+
+const deletedIds = (doc: BoardDoc) => {
+  const deleted = new Set<string>();
+  doc.order.forEach((item) => item.deletes?.forEach((id) => deleted.add(id)));
+  return deleted;
+};
+
+// The board as an action list in board order, without deleted actions
+export const toActions = <A extends DocAction>(doc: BoardDoc<A>): A[] => {
+  const deleted = deletedIds(doc);
+  return doc.order.flatMap((item) =>
+    item.action && !deleted.has(itemId(item)) ? [item.action] : [],
+  );
+};
+
+// Ids of the visible items that make up one stroke or object change
+export const itemsForAction = (doc: BoardDoc, actionId: string) => {
+  const deleted = deletedIds(doc);
+  return doc.order
+    .filter(
+      (item) =>
+        item.action?.actionId === actionId && !deleted.has(itemId(item)),
+    )
+    .map(itemId);
+};
+
+export const stateVector = (doc: BoardDoc): StateVector =>
+  Object.fromEntries(doc.clients);
+
+// Items the other side is missing, given its state vector
+export const diffUpdate = <A extends DocAction>(
+  doc: BoardDoc<A>,
+  vector: StateVector = {},
+) => doc.order.filter((item) => item.clock > (vector[item.client] ?? 0));
@@ -0,0 +1,90 @@
+import { useEffect, useState } from "react";
+import io from "socket.io-client";
+import { useAuth } from "@clerk/clerk-react";
+import api from "./api";
+import { socketAuth } from "./socketAuth";
+
+export type PresenceStatus = "online" | "away";
+
+// Status by email for everyone with the workspace open; anyone missing is
+// offline
+export type PresenceMap = Record<string, PresenceStatus>;
+
+// Idle this long and you show as away
+const AWAY_AFTER_MS = 5 * 60 * 1000;
+
+const ACTIVITY_EVENTS = ["mousemove", "keydown", "mousedown", "touchstart"];
+
+/**
+ * Announce the current user in a workspace and follow everyone else's
+ * status. Shows as away while the tab is hidden or after a while idle.
+ */
+export function useWorkspacePresence(
+  roomCode: string | null | undefined,
+  email: string | null | undefined,
+): PresenceMap {
+  const [presence, setPresence] = useState<PresenceMap>({});
+  const { getToken } = useAuth();
+
+  useEffect(() => {
+    if (!roomCode || !email) return;
+
+    const socket = io(api.getApiUrl(), {
+      transports: ["polling"],
+      auth: socketAuth(getToken),
+    });
+    let status: PresenceStatus = "online";
+    let idleTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const announce = (next: PresenceStatus) => {
+      status = next;
+      socket.emit("presence", { roomCode, status });
+    };
+
+    const handleActivity = () => {
+      clearTimeout(idleTimer);
+      idleTimer = setTimeout(() => announce("away"), AWAY_AFTER_MS);
+      if (status !== "online" && !document.hidden) announce("online");
+    };
+
+    const handleVisibility = () => {
+      if (document.hidden) {
+        announce("away");
+      } else {
+        handleActivity();
+      }
+    };
+
+    socket.on("connect", () => announce(document.hidden ? "away" : "online"));
+    socket.on(
+      "presence-update",
+      (update: {
+        roomCode: string;
+        users: { email: string; status: PresenceStatus }[];
+      }) => {
+        if (update.roomCode !== roomCode) return;
+        setPresence(
+          Object.fromEntries(update.users.map((u) => [u.email, u.status])),
+        );
+      },
+    );
+
+    ACTIVITY_EVENTS.forEach((event) =>
+      window.addEventListener(event, handleActivity, { passive: true }),
+    );
+    document.addEventListener("visibilitychange", handleVisibility);
+    handleActivity();
+
+    return () => {
+      clearTimeout(idleTimer);
+      ACTIVITY_EVENTS.forEach((event) =>
+        window.removeEventListener(event, handleActivity),
+      );
+      document.removeEventListener("visibilitychange", handleVisibility);
+      socket.disconnect();
+      setPresence({});
+    };
+  }, [roomCode, email, getToken]);
+
+  return presence;
+}
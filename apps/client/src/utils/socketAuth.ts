@@ -0,0 +1,10 @@
+// Sockets sign in with the same Clerk session token as API requests. Used
+// as socket.io's `auth` option, so a fresh token is fetched on every
+// connect and reconnect; the server works out who the user is from it.
+export const socketAuth =
+  (getToken: () => Promise<string | null>) =>
+  (callback: (data: { token: string | null }) => void) => {
+    getToken()
+      .then((token) => callback({ token }))
+      .catch(() => callback({ token: null }));
+  };
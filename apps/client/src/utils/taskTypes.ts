@@ -27,8 +27,38 @@ export interface User {
   joinedAt: string;
 }
 
+// Which task types may be nested directly under each type (mirrors the server)
+export const ALLOWED_CHILD_TYPES: Record<TaskType, TaskType[]> = {
+  [TaskType.EPIC]: [TaskType.STORY],
+  [TaskType.STORY]: [TaskType.TASK, TaskType.BUG],
+  [TaskType.TASK]: [TaskType.TASK, TaskType.BUG],
+  [TaskType.BUG]: [],
+};
+
+export interface TaskRollup {
+  storyPoints: number;
+  childCount: number;
+  progress: number; // 0-100, share of leaf subtasks that are done
+}
+
+export interface Tag {
+  id: string;
+  name: string;
+  color: string | null;
+  workspaceId: string;
+  _count?: { tasks: number };
+}
+
+export interface TaskTagLink {
+  id: string;
+  tagId: string;
+  tag: Tag;
+}
+
 export interface Task {
   id: string;
+  key?: string | null; // Human-readable issue key, e.g. PIX-42
+  number?: number | null;
   title: string;
   description?: string;
   status: TaskStatus;
@@ -39,4 +69,258 @@ export interface Task {
   projectId: string;
   type?: string;
   name?: string;
+  storyPoints?: number | null;
+  parentId?: string | null;
+  rollup?: TaskRollup;
+  tags?: TaskTagLink[];
+  blockedBy?: string[]; // Ids of open tasks blocking this one
+}
+
+// Query parameters accepted by the task list endpoints. List values are
+// comma-separated; assigneeId/creatorId accept "me" and "none".
+export interface TaskListParams {
+  status?: string;
+  priority?: string;
+  type?: string;
+  assigneeId?: string;
+  creatorId?: string;
+  sprintId?: string;
+  dueFrom?: string;
+  dueTo?: string;
+  q?: string;
+  tags?: string;
+  sort?:
+    | "createdAt"
+    | "updatedAt"
+    | "dueDate"
+    | "priority"
+    | "status"
+    | "title"
+    | "number";
+  order?: "asc" | "desc";
+  limit?: number;
+}
+
+export interface TaskPage {
+  tasks: Task[];
+  nextCursor: string | null;
+}
+
+// Link types as seen from the task they are listed on
+export type TaskLinkType =
+  | "BLOCKS"
+  | "BLOCKED_BY"
+  | "DUPLICATES"
+  | "DUPLICATED_BY"
+  | "RELATES_TO";
+
+export interface TaskLink {
+  id: string;
+  type: TaskLinkType;
+  createdAt: string;
+  task: Pick<Task, "id" | "key" | "title" | "status" | "type">;
+}
+
+export interface TaskTreeNode extends Task {
+  children: TaskTreeNode[];
+}
+
+export interface TaskComment {
+  id: string;
+  body: string; // Markdown
+  taskId: string;
+  parentId: string | null;
+  createdAt: string;
+  editedAt: string | null;
+  deletedAt: string | null;
+  author: { id: string; name: string | null; email: string | null };
+  mentions: { id: string; user: { id: string; name: string | null } }[];
+  _count?: { revisions: number };
+}
+
+export interface TaskCommentRevision {
+  id: string;
+  body: string;
+  action: "EDITED" | "DELETED";
+  createdAt: string;
+  editor: { id: string; name: string | null };
+}
+
+export type SearchResultType =
+  | "task"
+  | "project"
+  | "sprint"
+  | "milestone"
+  | "message";
+
+// One ranked hit from the global search endpoint
+export interface SearchResult {
+  type: SearchResultType;
+  id: string;
+  title: string | null;
+  snippet: string;
+  rank: number;
+  createdAt: string;
+  workspaceName: string;
+  projectId?: string;
+  key?: string | null;
+}
+
+// Project and sprint choices offered when converting whiteboard notes
+export interface ProjectOption {
+  id: string;
+  name: string;
+  key?: string;
+}
+
+export interface SprintOption {
+  id: string;
+  name: string;
+  projectId: string;
+  status?: string;
+}
+
+// A task created from a whiteboard note, keyed by the note's object id
+export interface NoteTask {
+  objectId: string;
+  taskId: string;
+  key: string | null;
+  title: string;
+}
+
+// Milestone choices offered when attaching a whiteboard
+export interface MilestoneOption {
+  id: string;
+  title: string;
+  projectId?: string;
+}
+
+export type BoardExportFormat = "SVG" | "PDF";
+
+// A rendered whiteboard attached to a task or milestone; the file itself is
+// downloaded separately
+export interface WhiteboardExport {
+  id: string;
+  roomName: string;
+  format: BoardExportFormat;
+  fileName: string;
+  createdAt: string;
+  taskId: string | null;
+  milestoneId: string | null;
+  createdBy: { id: string; name: string | null; email: string | null };
+}
+
+// A named whiteboard in a room, alongside the room's main board
+export interface WhiteboardBoard {
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+  createdBy: { id: string; name: string | null; email: string | null };
+}
+
+// A saved version of a board that can be compared with now or restored
+export interface WhiteboardSnapshot {
+  id: string;
+  name: string;
+  boardId: string | null;
+  createdAt: string;
+  createdBy: { id: string; name: string | null; email: string | null };
+}
+
+export interface BoardDiffObject {
+  id: string;
+  kind: string;
+  label: string;
+}
+
+// What changed on a board since a snapshot was taken
+export interface BoardDiff {
+  snapshotId: string;
+  objects: {
+    added: BoardDiffObject[];
+    removed: BoardDiffObject[];
+    changed: BoardDiffObject[];
+  };
+  strokes: { added: number; removed: number };
+}
+
+export type ChatChannelKind = "PRIVATE" | "DIRECT";
+
+// An invite-only channel or a direct conversation in a workspace's chat.
+// Direct conversations are named after the other person.
+export interface ChatChannel {
+  id: string;
+  kind: ChatChannelKind;
+  name: string;
+  members: { id: string; name: string | null; email: string | null }[];
+  unreadCount: number;
+}
+
+// Everything the chat sidebar lists, with the workspace-wide chat's unread
+// count alongside the user's channels
+export interface ChatChannelList {
+  general: { unreadCount: number };
+  channels: ChatChannel[];
+}
+
+// A workspace member as listed with the workspace details; id is the
+// membership, userId the person
+export interface WorkspaceMemberOption {
+  id: string;
+  userId: string;
+  name: string | null;
+  email: string | null;
+  role: string;
+}
+
+// The task fields shown on chat cards
+export interface ChatTaskSummary {
+  id: string;
+  key: string | null;
+  title: string;
+  status: TaskStatus;
+  priority: Priority;
+  projectId: string;
+  assignee: { name: string | null; email: string } | null;
+}
+
+// Summary of a task posted into chat by a slash command
+export interface ChatTaskCard {
+  type: "task";
+  // "created" by /task, "status" for a /status change
+  action: "created" | "status";
+  task: ChatTaskSummary;
+}
+
+// A sprint or milestone mentioned in chat, shown with its owner
+export interface ChatPlanReference {
+  type: "sprint" | "milestone";
+  id: string;
+  title: string;
+  status: string;
+  progress: number;
+  startDate: string | null;
+  endDate: string | null;
+  owner: { name: string | null; email: string } | null;
+}
+
+// A live card for an issue key or link in a chat message
+export type ChatReference =
+  | ({ type: "task" } & ChatTaskSummary)
+  | ChatPlanReference;
+
+// A file attached to a task or sent in chat. Images can be previewed and
+// usually have a small thumbnail; the bytes are downloaded separately.
+export interface Attachment {
+  id: string;
+  fileName: string;
+  mimeType: string;
+  size: number;
+  isImage: boolean;
+  hasThumbnail: boolean;
+  taskId: string | null;
+  messageId: string | null;
+  createdAt: string;
+  uploader: { name: string | null; email: string | null } | null;
 }
@@ -0,0 +1,215 @@
+// Client-side export of the whiteboard. PNGs are painted by the board's own
+// canvas renderer; SVGs are built here from the same actions so they stay
+// vector and match what is on screen.
+
+import {
+  BoardObject,
+  collectObjects,
+  normalizeObject,
+  wrapText,
+} from "./whiteboardObjects";
+import { Bounds, getContentBounds } from "./whiteboardView";
+
+export const EXPORT_PADDING = 20;
+
+// Longest PNG side in pixels; bigger boards are exported at a lower scale
+const MAX_PNG_SIZE = 8192;
+
+const EMPTY_BOUNDS: Bounds = { minX: 0, minY: 0, maxX: 800, maxY: 600 };
+const FONT_SIZE = 16;
+
+type Point = { x: number; y: number; pressure?: number };
+
+type ExportAction = {
+  type: string;
+  x?: number;
+  y?: number;
+  tool?: string;
+  color?: string;
+  brushSize?: number;
+  pressure?: number;
+  points?: Point[];
+};
+
+/** World area an export covers: the content plus padding, or a blank page */
+export const getExportBounds = (actions: ExportAction[]): Bounds => {
+  const content = getContentBounds(actions) ?? EMPTY_BOUNDS;
+  return {
+    minX: content.minX - EXPORT_PADDING,
+    minY: content.minY - EXPORT_PADDING,
+    maxX: content.maxX + EXPORT_PADDING,
+    maxY: content.maxY + EXPORT_PADDING,
+  };
+};
+
+/** Pixels per world unit for a PNG: 2x for sharpness when it fits */
+export const getPngScale = (bounds: Bounds) =>
+  Math.min(
+    2,
+    MAX_PNG_SIZE /
+      Math.max(bounds.maxX - bounds.minX, bounds.maxY - bounds.minY, 1),
+  );
+
+// e.g. "design-review-whiteboard-2026-10-19.png"
+export const exportFileName = (roomCode: string, extension: string) =>
+  `${roomCode.replace(/[^\w-]+/g, "-")}-whiteboard-${new Date()
+    .toISOString()
+    .slice(0, 10)}.${extension}`;
+
+/** Save a blob through the browser's download prompt */
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const escapeXml = (text: string) =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+// Same curve the canvas draws: quadratic segments through point midpoints
+const strokePathData = (points: Point[]) => {
+  const parts = [`M${round(points[0].x)} ${round(points[0].y)}`];
+  for (let i = 1; i < points.length - 2; i++) {
+    const p1 = points[i];
+    const p2 = points[i + 1];
+    parts.push(
+      `Q${round(p1.x)} ${round(p1.y)} ${round((p1.x + p2.x) / 2)} ${round((p1.y + p2.y) / 2)}`,
+    );
+  }
+  const last = points[points.length - 1];
+  if (points.length > 2) {
+    const secondLast = points[points.length - 2];
+    parts.push(
+      `Q${round(secondLast.x)} ${round(secondLast.y)} ${round(last.x)} ${round(last.y)}`,
+    );
+  } else {
+    parts.push(`L${round(last.x)} ${round(last.y)}`);
+  }
+  return parts.join(" ");
+};
+
+const objectToSvg = (
+  object: BoardObject,
+  measure: CanvasRenderingContext2D,
+) => {
+  const box = normalizeObject({ ...object, kind: "rect" });
+  const stroke = `fill="none" stroke="${escapeXml(object.color)}" stroke-width="${object.strokeWidth}" stroke-linecap="round" stroke-linejoin="round"`;
+  const parts: string[] = [];
+
+  switch (object.kind) {
+    case "rect":
+      parts.push(
+        `<rect x="${round(box.x)}" y="${round(box.y)}" width="${round(box.width)}" height="${round(box.height)}" ${stroke}/>`,
+      );
+      break;
+    case "ellipse":
+      parts.push(
+        `<ellipse cx="${round(box.x + box.width / 2)}" cy="${round(box.y + box.height / 2)}" rx="${round(box.width / 2)}" ry="${round(box.height / 2)}" ${stroke}/>`,
+      );
+      break;
+    case "line":
+    case "arrow": {
+      const endX = object.x + object.width;
+      const endY = object.y + object.height;
+      let data = `M${round(object.x)} ${round(object.y)} L${round(endX)} ${round(endY)}`;
+      if (object.kind === "arrow") {
+        const angle = Math.atan2(object.height, object.width);
+        const size = 8 + object.strokeWidth * 2;
+        [angle - Math.PI / 6, angle + Math.PI / 6].forEach((side) => {
+          data += ` M${round(endX)} ${round(endY)} L${round(endX - size * Math.cos(side))} ${round(endY - size * Math.sin(side))}`;
+        });
+      }
+      parts.push(`<path d="${data}" ${stroke}/>`);
+      break;
+    }
+    case "sticky":
+      parts.push(
+        `<rect x="${round(object.x)}" y="${round(object.y)}" width="${round(object.width)}" height="${round(object.height)}" fill="${escapeXml(object.color)}"/>`,
+      );
+      break;
+  }
+
+  if ((object.kind === "text" || object.kind === "sticky") && object.text) {
+    const padding = object.kind === "sticky" ? 10 : 2;
+    const fill = object.kind === "sticky" ? "#1F2937" : object.color;
+    measure.font = `${FONT_SIZE}px sans-serif`;
+    const lines = wrapText(measure, object.text, object.width - padding * 2)
+      .map((line, index) => ({
+        line,
+        y: object.y + padding + index * (FONT_SIZE + 4),
+      }))
+      .filter(({ y }) => y + FONT_SIZE <= object.y + object.height);
+    parts.push(
+      `<text font-family="sans-serif" font-size="${FONT_SIZE}" fill="${escapeXml(fill)}" dominant-baseline="hanging">${lines
+        .map(
+          ({ line, y }) =>
+            `<tspan x="${round(object.x + padding)}" y="${round(y)}">${escapeXml(line)}</tspan>`,
+        )
+        .join("")}</text>`,
+    );
+  }
+
+  if (object.taskId) {
+    const label = object.taskKey || "Task";
+    measure.font = "bold 11px monospace";
+    const width = measure.measureText(label).width + 12;
+    const height = 18;
+    const x = object.x + object.width - width - 4;
+    const y = object.y - height / 2;
+    parts.push(
+      `<rect x="${round(x)}" y="${round(y)}" width="${round(width)}" height="${height}" rx="${height / 2}" fill="#059669"/>`,
+      `<text x="${round(x + 6)}" y="${round(y + height / 2 + 1)}" font-family="monospace" font-size="11" font-weight="bold" fill="#FFFFFF" dominant-baseline="middle">${escapeXml(label)}</text>`,
+    );
+  }
+
+  return parts.join("\n");
+};
+
+/**
+ * Standalone SVG of everything drawn since the last clear, strokes first
+ * and objects on top as on the canvas
+ */
+export const boardToSvg = (actions: ExportAction[], background: string) => {
+  let lastClear = -1;
+  actions.forEach((action, index) => {
+    if (action.type === "clear") lastClear = index;
+  });
+  const visible = actions.slice(lastClear + 1);
+  const bounds = getExportBounds(visible);
+  const width = round(bounds.maxX - bounds.minX);
+  const height = round(bounds.maxY - bounds.minY);
+
+  const strokes = visible
+    .filter((action) => action.type === "draw" && action.points?.length)
+    .filter((action) => action.points!.length > 1)
+    .map((action) => {
+      // The canvas erases to transparent; on an export that is the background
+      const strokeColor =
+        action.tool === "eraser" ? background : action.color || "#000000";
+      const strokeWidth =
+        (action.brushSize || 5) * (action.points![1].pressure || 1);
+      return `<path d="${strokePathData(action.points!)}" fill="none" stroke="${escapeXml(strokeColor)}" stroke-width="${round(strokeWidth)}" stroke-linecap="round" stroke-linejoin="round"/>`;
+    });
+
+  const measure = document.createElement("canvas").getContext("2d")!;
+  const objects = collectObjects(visible).map((object) =>
+    objectToSvg(object, measure),
+  );
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="${round(bounds.minX)} ${round(bounds.minY)} ${width} ${height}">`,
+    `<rect x="${round(bounds.minX)}" y="${round(bounds.minY)}" width="${width}" height="${height}" fill="${background}"/>`,
+    ...strokes,
+    ...objects,
+    "</svg>",
+  ].join("\n");
+};
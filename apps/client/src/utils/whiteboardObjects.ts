@@ -0,0 +1,335 @@
+// Object layer of the whiteboard: shapes, text boxes and sticky notes that
+// keep an id so they can be selected and edited after they are drawn.
+
+export type BoardObjectKind =
+  "rect" | "ellipse" | "line" | "arrow" | "text" | "sticky";
+
+export interface BoardObject {
+  id: string;
+  kind: BoardObjectKind;
+  x: number;
+  y: number;
+  // Lines and arrows run from (x, y) to (x + width, y + height), so these
+  // may be negative; boxes are normalized to positive sizes
+  width: number;
+  height: number;
+  color: string;
+  strokeWidth: number;
+  text?: string;
+  // Set once a sticky note or text box has been turned into a task
+  taskId?: string;
+  taskKey?: string;
+}
+
+// Who made an action, and which undo step it belongs to
+export interface ActionMeta {
+  timestamp?: number;
+  authorId?: string;
+  actionId?: string;
+}
+
+export type ObjectAction = ActionMeta &
+  (
+    | { type: "object-add"; object: BoardObject }
+    | {
+        type: "object-update";
+        id: string;
+        changes: Partial<Omit<BoardObject, "id" | "kind">>;
+      }
+    | { type: "object-delete"; id: string }
+  );
+
+export const OBJECT_TOOLS: BoardObjectKind[] = [
+  "rect",
+  "ellipse",
+  "line",
+  "arrow",
+  "text",
+  "sticky",
+];
+
+export const STICKY_COLOR = "#FDE68A";
+export const HANDLE_SIZE = 8;
+
+export const isObjectAction = (action: {
+  type: string;
+}): action is ObjectAction =>
+  action.type === "object-add" ||
+  action.type === "object-update" ||
+  action.type === "object-delete";
+
+const createId = (prefix: string) =>
+  `${prefix}_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
+
+export const createObjectId = () => createId("obj");
+
+// Groups everything one undo step should remove, e.g. all parts of a stroke
+export const createActionId = () => createId("act");
+
+const isLinear = (object: BoardObject) =>
+  object.kind === "line" || object.kind === "arrow";
+
+/** Make width and height positive for box-like objects */
+export const normalizeObject = (object: BoardObject): BoardObject => {
+  if (isLinear(object)) return object;
+  return {
+    ...object,
+    x: Math.min(object.x, object.x + object.width),
+    y: Math.min(object.y, object.y + object.height),
+    width: Math.abs(object.width),
+    height: Math.abs(object.height),
+  };
+};
+
+/**
+ * Replay a board's actions into its current objects, in stacking order.
+ * A "clear" removes every object drawn before it.
+ */
+export const collectObjects = (actions: { type: string }[]): BoardObject[] => {
+  const objects = new Map<string, BoardObject>();
+  for (const action of actions) {
+    if (action.type === "clear") {
+      objects.clear();
+    } else if (isObjectAction(action)) {
+      if (action.type === "object-add") {
+        objects.set(action.object.id, action.object);
+      } else if (action.type === "object-update") {
+        const current = objects.get(action.id);
+        if (current) objects.set(action.id, { ...current, ...action.changes });
+      } else {
+        objects.delete(action.id);
+      }
+    }
+  }
+  return [...objects.values()];
+};
+
+// Distance from a point to the segment (x1, y1)-(x2, y2)
+const distanceToSegment = (
+  px: number,
+  py: number,
+  x1: number,
+  y1: number,
+  x2: number,
+  y2: number,
+) => {
+  const dx = x2 - x1;
+  const dy = y2 - y1;
+  const lengthSq = dx * dx + dy * dy;
+  const t = lengthSq
+    ? Math.max(0, Math.min(1, ((px - x1) * dx + (py - y1) * dy) / lengthSq))
+    : 0;
+  return Math.hypot(px - (x1 + t * dx), py - (y1 + t * dy));
+};
+
+/** Topmost object under a point, if any */
+export const hitTest = (
+  objects: BoardObject[],
+  x: number,
+  y: number,
+): BoardObject | null => {
+  for (let i = objects.length - 1; i >= 0; i--) {
+    const object = objects[i];
+    if (isLinear(object)) {
+      const distance = distanceToSegment(
+        x,
+        y,
+        object.x,
+        object.y,
+        object.x + object.width,
+        object.y + object.height,
+      );
+      if (distance <= Math.max(6, object.strokeWidth)) return object;
+    } else if (
+      x >= object.x &&
+      x <= object.x + object.width &&
+      y >= object.y &&
+      y <= object.y + object.height
+    ) {
+      return object;
+    }
+  }
+  return null;
+};
+
+/**
+ * Is the point on the resize handle at the object's far corner? Pass the
+ * handle size in world units when the board is zoomed.
+ */
+export const hitResizeHandle = (
+  object: BoardObject,
+  x: number,
+  y: number,
+  tolerance = HANDLE_SIZE,
+) => {
+  const handleX = object.x + object.width;
+  const handleY = object.y + object.height;
+  return (
+    Math.abs(x - handleX) <= tolerance && Math.abs(y - handleY) <= tolerance
+  );
+};
+
+// Break text into lines that fit the given width
+export const wrapText = (
+  ctx: CanvasRenderingContext2D,
+  text: string,
+  maxWidth: number,
+) => {
+  const lines: string[] = [];
+  text.split("\n").forEach((paragraph) => {
+    let line = "";
+    paragraph.split(" ").forEach((word) => {
+      const candidate = line ? `${line} ${word}` : word;
+      if (ctx.measureText(candidate).width > maxWidth && line) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = candidate;
+      }
+    });
+    lines.push(line);
+  });
+  return lines;
+};
+
+const drawArrowHead = (ctx: CanvasRenderingContext2D, object: BoardObject) => {
+  const endX = object.x + object.width;
+  const endY = object.y + object.height;
+  const angle = Math.atan2(object.height, object.width);
+  const size = 8 + object.strokeWidth * 2;
+
+  ctx.beginPath();
+  ctx.moveTo(endX, endY);
+  ctx.lineTo(
+    endX - size * Math.cos(angle - Math.PI / 6),
+    endY - size * Math.sin(angle - Math.PI / 6),
+  );
+  ctx.moveTo(endX, endY);
+  ctx.lineTo(
+    endX - size * Math.cos(angle + Math.PI / 6),
+    endY - size * Math.sin(angle + Math.PI / 6),
+  );
+  ctx.stroke();
+};
+
+// Small pill in the top-right corner linking a note to its task
+const drawTaskBadge = (ctx: CanvasRenderingContext2D, object: BoardObject) => {
+  const label = object.taskKey || "Task";
+  ctx.font = "bold 11px monospace";
+  ctx.textBaseline = "middle";
+  const width = ctx.measureText(label).width + 12;
+  const height = 18;
+  const x = object.x + object.width - width - 4;
+  const y = object.y - height / 2;
+
+  ctx.fillStyle = "#059669";
+  ctx.beginPath();
+  ctx.roundRect(x, y, width, height, height / 2);
+  ctx.fill();
+  ctx.fillStyle = "#FFFFFF";
+  ctx.fillText(label, x + 6, y + height / 2 + 1);
+};
+
+/** Paint one object onto the canvas */
+export const drawObject = (
+  ctx: CanvasRenderingContext2D,
+  object: BoardObject,
+) => {
+  ctx.save();
+  ctx.globalCompositeOperation = "source-over";
+  ctx.strokeStyle = object.color;
+  ctx.fillStyle = object.color;
+  ctx.lineWidth = object.strokeWidth;
+  ctx.lineCap = "round";
+  ctx.lineJoin = "round";
+
+  switch (object.kind) {
+    case "rect":
+      ctx.strokeRect(object.x, object.y, object.width, object.height);
+      break;
+    case "ellipse":
+      ctx.beginPath();
+      ctx.ellipse(
+        object.x + object.width / 2,
+        object.y + object.height / 2,
+        Math.abs(object.width / 2),
+        Math.abs(object.height / 2),
+        0,
+        0,
+        Math.PI * 2,
+      );
+      ctx.stroke();
+      break;
+    case "line":
+    case "arrow":
+      ctx.beginPath();
+      ctx.moveTo(object.x, object.y);
+      ctx.lineTo(object.x + object.width, object.y + object.height);
+      ctx.stroke();
+      if (object.kind === "arrow") drawArrowHead(ctx, object);
+      break;
+    case "sticky":
+      ctx.shadowColor = "rgba(0, 0, 0, 0.35)";
+      ctx.shadowBlur = 6;
+      ctx.fillRect(object.x, object.y, object.width, object.height);
+      ctx.shadowBlur = 0;
+      ctx.fillStyle = "#1F2937";
+      break;
+    case "text":
+      break;
+  }
+
+  if ((object.kind === "text" || object.kind === "sticky") && object.text) {
+    const padding = object.kind === "sticky" ? 10 : 2;
+    const fontSize = 16;
+    ctx.font = `${fontSize}px sans-serif`;
+    ctx.textBaseline = "top";
+    wrapText(ctx, object.text, object.width - padding * 2).forEach(
+      (line, index) => {
+        const lineY = object.y + padding + index * (fontSize + 4);
+        if (lineY + fontSize <= object.y + object.height) {
+          ctx.fillText(line, object.x + padding, lineY);
+        }
+      },
+    );
+  }
+
+  if (object.taskId) drawTaskBadge(ctx, object);
+
+  ctx.restore();
+};
+
+/**
+ * Dashed outline plus a resize handle around the selected object, kept the
+ * same size on screen whatever the zoom
+ */
+export const drawSelection = (
+  ctx: CanvasRenderingContext2D,
+  object: BoardObject,
+  zoom = 1,
+) => {
+  const margin = 4 / zoom;
+  const handle = HANDLE_SIZE / zoom;
+
+  ctx.save();
+  ctx.globalCompositeOperation = "source-over";
+  ctx.strokeStyle = "#10B981";
+  ctx.lineWidth = 1 / zoom;
+  ctx.setLineDash([4 / zoom, 4 / zoom]);
+  const box = normalizeObject({ ...object, kind: "rect" });
+  ctx.strokeRect(
+    box.x - margin,
+    box.y - margin,
+    box.width + margin * 2,
+    box.height + margin * 2,
+  );
+  ctx.setLineDash([]);
+  ctx.fillStyle = "#10B981";
+  ctx.fillRect(
+    object.x + object.width - handle / 2,
+    object.y + object.height - handle / 2,
+    handle,
+    handle,
+  );
+  ctx.restore();
+};
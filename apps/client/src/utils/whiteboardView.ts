@@ -0,0 +1,139 @@
+// Viewport math for the infinite whiteboard. Board actions are stored in
+// world coordinates; each viewer maps them to the screen with its own view.
+
+import { collectObjects, normalizeObject } from "./whiteboardObjects";
+
+// Screen position of the world origin, and screen pixels per world unit
+export interface View {
+  x: number;
+  y: number;
+  zoom: number;
+}
+
+export interface Bounds {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+export const DEFAULT_VIEW: View = { x: 0, y: 0, zoom: 1 };
+export const MIN_ZOOM = 0.1;
+export const MAX_ZOOM = 8;
+
+const clampZoom = (zoom: number) =>
+  Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom));
+
+export const screenToWorld = (view: View, x: number, y: number) => ({
+  x: (x - view.x) / view.zoom,
+  y: (y - view.y) / view.zoom,
+});
+
+export const worldToScreen = (view: View, x: number, y: number) => ({
+  x: x * view.zoom + view.x,
+  y: y * view.zoom + view.y,
+});
+
+/** Zoom by `factor` while keeping the world point under (x, y) in place */
+export const zoomAt = (
+  view: View,
+  x: number,
+  y: number,
+  factor: number,
+): View => {
+  const zoom = clampZoom(view.zoom * factor);
+  const world = screenToWorld(view, x, y);
+  return { zoom, x: x - world.x * zoom, y: y - world.y * zoom };
+};
+
+/** World area currently visible in a viewport of the given size */
+export const getViewportBounds = (
+  view: View,
+  width: number,
+  height: number,
+): Bounds => {
+  const topLeft = screenToWorld(view, 0, 0);
+  const bottomRight = screenToWorld(view, width, height);
+  return {
+    minX: topLeft.x,
+    minY: topLeft.y,
+    maxX: bottomRight.x,
+    maxY: bottomRight.y,
+  };
+};
+
+export const unionBounds = (a: Bounds | null, b: Bounds | null) => {
+  if (!a) return b;
+  if (!b) return a;
+  return {
+    minX: Math.min(a.minX, b.minX),
+    minY: Math.min(a.minY, b.minY),
+    maxX: Math.max(a.maxX, b.maxX),
+    maxY: Math.max(a.maxY, b.maxY),
+  };
+};
+
+type BoundsAction = {
+  type: string;
+  x?: number;
+  y?: number;
+  tool?: string;
+  points?: { x: number; y: number }[];
+};
+
+/**
+ * Box around everything drawn since the last clear, or null for an empty
+ * board. Eraser strokes do not count as content.
+ */
+export const getContentBounds = (actions: BoundsAction[]): Bounds | null => {
+  let lastClear = -1;
+  actions.forEach((action, index) => {
+    if (action.type === "clear") lastClear = index;
+  });
+  const visible = actions.slice(lastClear + 1);
+
+  let bounds: Bounds | null = null;
+  const include = (x: number, y: number) => {
+    bounds = unionBounds(bounds, { minX: x, minY: y, maxX: x, maxY: y });
+  };
+
+  visible.forEach((action) => {
+    if (action.tool === "eraser") return;
+    if (action.type === "start" && action.x !== undefined) {
+      include(action.x, action.y ?? 0);
+    } else if (action.type === "draw") {
+      action.points?.forEach((point) => include(point.x, point.y));
+    }
+  });
+
+  collectObjects(visible).forEach((object) => {
+    const box = normalizeObject({ ...object, kind: "rect" });
+    include(box.x, box.y);
+    include(box.x + box.width, box.y + box.height);
+  });
+
+  return bounds;
+};
+
+/** View that shows `bounds` centered in the viewport with some padding */
+export const fitBounds = (
+  bounds: Bounds,
+  width: number,
+  height: number,
+  padding = 40,
+): View => {
+  const contentWidth = Math.max(bounds.maxX - bounds.minX, 1);
+  const contentHeight = Math.max(bounds.maxY - bounds.minY, 1);
+  const zoom = clampZoom(
+    Math.min(
+      (width - padding * 2) / contentWidth,
+      (height - padding * 2) / contentHeight,
+      2,
+    ),
+  );
+  return {
+    zoom,
+    x: width / 2 - ((bounds.minX + bounds.maxX) / 2) * zoom,
+    y: height / 2 - ((bounds.minY + bounds.maxY) / 2) * zoom,
+  };
+};
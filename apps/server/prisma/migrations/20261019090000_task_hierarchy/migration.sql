@@ -0,0 +1,9 @@
+-- Task.parentId used to hold the workspace name; clear anything that is not a real task id
+UPDATE "Task" SET "parentId" = NULL
+WHERE "parentId" IS NOT NULL AND "parentId" NOT IN (SELECT "id" FROM "Task");
+
+-- CreateIndex
+CREATE INDEX "Task_parentId_idx" ON "Task"("parentId");
+
+-- AddForeignKey
+ALTER TABLE "Task" ADD CONSTRAINT "Task_parentId_fkey" FOREIGN KEY ("parentId") REFERENCES "Task"("id") ON DELETE SET NULL ON UPDATE CASCADE;
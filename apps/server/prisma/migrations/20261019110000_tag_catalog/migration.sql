@@ -0,0 +1,52 @@
+-- CreateTable
+CREATE TABLE "Tag" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "color" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "workspaceId" TEXT NOT NULL,
+
+    CONSTRAINT "Tag_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Tag_workspaceId_name_key" ON "Tag"("workspaceId", "name");
+
+-- Backfill the catalog from the existing per-task tags, one entry per workspace and name
+INSERT INTO "Tag" ("id", "name", "color", "workspaceId", "updatedAt")
+SELECT DISTINCT ON (p."workspaceId", tt."name")
+    md5(random()::text || clock_timestamp()::text), tt."name", tt."color", p."workspaceId", CURRENT_TIMESTAMP
+FROM "TaskTag" tt
+JOIN "Task" t ON t."id" = tt."taskId"
+JOIN "Project" p ON p."id" = t."projectId"
+ORDER BY p."workspaceId", tt."name";
+
+-- Point every TaskTag at its catalog entry
+ALTER TABLE "TaskTag" ADD COLUMN "tagId" TEXT;
+
+UPDATE "TaskTag" tt SET "tagId" = tg."id"
+FROM "Task" t, "Project" p, "Tag" tg
+WHERE t."id" = tt."taskId" AND p."id" = t."projectId"
+  AND tg."workspaceId" = p."workspaceId" AND tg."name" = tt."name";
+
+ALTER TABLE "TaskTag" ALTER COLUMN "tagId" SET NOT NULL;
+
+-- DropIndex
+DROP INDEX "TaskTag_taskId_name_key";
+
+-- AlterTable
+ALTER TABLE "TaskTag" DROP COLUMN "name",
+DROP COLUMN "color";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TaskTag_taskId_tagId_key" ON "TaskTag"("taskId", "tagId");
+
+-- CreateIndex
+CREATE INDEX "TaskTag_tagId_idx" ON "TaskTag"("tagId");
+
+-- AddForeignKey
+ALTER TABLE "Tag" ADD CONSTRAINT "Tag_workspaceId_fkey" FOREIGN KEY ("workspaceId") REFERENCES "Workspace"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TaskTag" ADD CONSTRAINT "TaskTag_tagId_fkey" FOREIGN KEY ("tagId") REFERENCES "Tag"("id") ON DELETE CASCADE ON UPDATE CASCADE;
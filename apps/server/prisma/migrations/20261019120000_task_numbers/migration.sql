@@ -0,0 +1,21 @@
+-- AlterTable
+ALTER TABLE "Project" ADD COLUMN "taskCounter" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "Task" ADD COLUMN "number" INTEGER;
+
+-- Number existing tasks per project in creation order
+UPDATE "Task" t SET "number" = numbered."rn"
+FROM (
+    SELECT "id", ROW_NUMBER() OVER (PARTITION BY "projectId" ORDER BY "createdAt", "id") AS "rn"
+    FROM "Task"
+) numbered
+WHERE t."id" = numbered."id";
+
+-- Continue each project's counter after its highest number
+UPDATE "Project" p SET "taskCounter" = COALESCE(
+    (SELECT MAX(t."number") FROM "Task" t WHERE t."projectId" = p."id"), 0
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Task_projectId_number_key" ON "Task"("projectId", "number");
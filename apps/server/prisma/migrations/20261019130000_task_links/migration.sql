@@ -0,0 +1,29 @@
+-- CreateEnum
+CREATE TYPE "TaskLinkType" AS ENUM ('BLOCKS', 'DUPLICATES', 'RELATES_TO');
+
+-- CreateTable
+CREATE TABLE "TaskLink" (
+    "id" TEXT NOT NULL,
+    "type" "TaskLinkType" NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "sourceId" TEXT NOT NULL,
+    "targetId" TEXT NOT NULL,
+    "createdById" TEXT NOT NULL,
+
+    CONSTRAINT "TaskLink_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "TaskLink_targetId_idx" ON "TaskLink"("targetId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TaskLink_sourceId_targetId_type_key" ON "TaskLink"("sourceId", "targetId", "type");
+
+-- AddForeignKey
+ALTER TABLE "TaskLink" ADD CONSTRAINT "TaskLink_sourceId_fkey" FOREIGN KEY ("sourceId") REFERENCES "Task"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TaskLink" ADD CONSTRAINT "TaskLink_targetId_fkey" FOREIGN KEY ("targetId") REFERENCES "Task"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TaskLink" ADD CONSTRAINT "TaskLink_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
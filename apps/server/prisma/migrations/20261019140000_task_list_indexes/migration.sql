@@ -0,0 +1,8 @@
+-- CreateIndex
+CREATE INDEX "Task_projectId_status_idx" ON "Task"("projectId", "status");
+
+-- CreateIndex
+CREATE INDEX "Task_assigneeId_idx" ON "Task"("assigneeId");
+
+-- CreateIndex
+CREATE INDEX "Task_dueDate_idx" ON "Task"("dueDate");
@@ -0,0 +1,17 @@
+-- Expression indexes for global search. The expressions must match the
+-- ones used in searchController so Postgres can use these indexes.
+
+-- CreateIndex
+CREATE INDEX "Task_search_idx" ON "Task" USING GIN (to_tsvector('english', coalesce("title", '') || ' ' || coalesce("description", '')));
+
+-- CreateIndex
+CREATE INDEX "Project_search_idx" ON "Project" USING GIN (to_tsvector('english', coalesce("name", '') || ' ' || coalesce("description", '')));
+
+-- CreateIndex
+CREATE INDEX "Sprint_search_idx" ON "Sprint" USING GIN (to_tsvector('english', coalesce("name", '') || ' ' || coalesce("goal", '')));
+
+-- CreateIndex
+CREATE INDEX "Milestone_search_idx" ON "Milestone" USING GIN (to_tsvector('english', coalesce("title", '') || ' ' || coalesce("description", '')));
+
+-- CreateIndex
+CREATE INDEX "ChatMessage_search_idx" ON "ChatMessage" USING GIN (to_tsvector('english', coalesce("message", '')));
@@ -0,0 +1,32 @@
+-- CreateEnum
+CREATE TYPE "BoardExportFormat" AS ENUM ('SVG', 'PDF');
+
+-- CreateTable
+CREATE TABLE "WhiteboardExport" (
+    "id" TEXT NOT NULL,
+    "roomName" TEXT NOT NULL,
+    "format" "BoardExportFormat" NOT NULL,
+    "fileName" TEXT NOT NULL,
+    "content" BYTEA NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdById" TEXT NOT NULL,
+    "taskId" TEXT,
+    "milestoneId" TEXT,
+
+    CONSTRAINT "WhiteboardExport_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "WhiteboardExport_taskId_idx" ON "WhiteboardExport"("taskId");
+
+-- CreateIndex
+CREATE INDEX "WhiteboardExport_milestoneId_idx" ON "WhiteboardExport"("milestoneId");
+
+-- AddForeignKey
+ALTER TABLE "WhiteboardExport" ADD CONSTRAINT "WhiteboardExport_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "WhiteboardExport" ADD CONSTRAINT "WhiteboardExport_taskId_fkey" FOREIGN KEY ("taskId") REFERENCES "Task"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "WhiteboardExport" ADD CONSTRAINT "WhiteboardExport_milestoneId_fkey" FOREIGN KEY ("milestoneId") REFERENCES "Milestone"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- CreateIndex
+CREATE INDEX "ChatMessage_roomName_createdAt_idx" ON "ChatMessage"("roomName", "createdAt");
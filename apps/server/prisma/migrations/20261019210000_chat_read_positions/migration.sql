@@ -0,0 +1,23 @@
+-- AlterTable
+ALTER TABLE "ChatChannelMember" DROP COLUMN "lastReadAt";
+
+-- CreateTable
+CREATE TABLE "ChatReadPosition" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "chatKey" TEXT NOT NULL,
+    "messageId" TEXT NOT NULL,
+    "readAt" TIMESTAMP(3) NOT NULL,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ChatReadPosition_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ChatReadPosition_chatKey_idx" ON "ChatReadPosition"("chatKey");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ChatReadPosition_userId_chatKey_key" ON "ChatReadPosition"("userId", "chatKey");
+
+-- AddForeignKey
+ALTER TABLE "ChatReadPosition" ADD CONSTRAINT "ChatReadPosition_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
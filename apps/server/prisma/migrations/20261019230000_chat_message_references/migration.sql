@@ -0,0 +1,35 @@
+-- CreateTable
+CREATE TABLE "ChatMessageReference" (
+    "id" TEXT NOT NULL,
+    "messageId" TEXT NOT NULL,
+    "taskId" TEXT,
+    "sprintId" TEXT,
+    "milestoneId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ChatMessageReference_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ChatMessageReference_messageId_idx" ON "ChatMessageReference"("messageId");
+
+-- CreateIndex
+CREATE INDEX "ChatMessageReference_taskId_idx" ON "ChatMessageReference"("taskId");
+
+-- CreateIndex
+CREATE INDEX "ChatMessageReference_sprintId_idx" ON "ChatMessageReference"("sprintId");
+
+-- CreateIndex
+CREATE INDEX "ChatMessageReference_milestoneId_idx" ON "ChatMessageReference"("milestoneId");
+
+-- AddForeignKey
+ALTER TABLE "ChatMessageReference" ADD CONSTRAINT "ChatMessageReference_messageId_fkey" FOREIGN KEY ("messageId") REFERENCES "ChatMessage"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ChatMessageReference" ADD CONSTRAINT "ChatMessageReference_taskId_fkey" FOREIGN KEY ("taskId") REFERENCES "Task"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ChatMessageReference" ADD CONSTRAINT "ChatMessageReference_sprintId_fkey" FOREIGN KEY ("sprintId") REFERENCES "Sprint"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ChatMessageReference" ADD CONSTRAINT "ChatMessageReference_milestoneId_fkey" FOREIGN KEY ("milestoneId") REFERENCES "Milestone"("id") ON DELETE CASCADE ON UPDATE CASCADE;
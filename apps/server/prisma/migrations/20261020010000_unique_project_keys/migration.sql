@@ -0,0 +1,44 @@
+-- Normalize existing keys the way generateProjectKey builds them: upper-case
+-- letters and digits, starting with a letter, at most 10 characters
+UPDATE "Project" SET "key" = LEFT(
+    REGEXP_REPLACE(REGEXP_REPLACE(UPPER("key"), '[^A-Z0-9]', '', 'g'), '^[0-9]+', ''),
+    10
+);
+
+-- Keys with nothing usable left fall back to the name, then to "PRJ"
+UPDATE "Project" SET "key" = COALESCE(
+    NULLIF(LEFT(REGEXP_REPLACE(REGEXP_REPLACE(UPPER("name"), '[^A-Z0-9]', '', 'g'), '^[0-9]+', ''), 3), ''),
+    'PRJ'
+)
+WHERE "key" = '';
+
+-- The oldest project keeps a shared key; later ones get the next free suffix
+DO $$
+DECLARE
+    duplicate RECORD;
+    candidate TEXT;
+    suffix INTEGER;
+BEGIN
+    FOR duplicate IN
+        SELECT "id", "workspaceId", "key" FROM (
+            SELECT "id", "workspaceId", "key",
+                ROW_NUMBER() OVER (PARTITION BY "workspaceId", "key" ORDER BY "createdAt", "id") AS "rn"
+            FROM "Project"
+        ) ranked
+        WHERE "rn" > 1
+    LOOP
+        suffix := 2;
+        LOOP
+            candidate := LEFT(duplicate."key", 10 - LENGTH(suffix::TEXT)) || suffix;
+            EXIT WHEN NOT EXISTS (
+                SELECT 1 FROM "Project"
+                WHERE "workspaceId" = duplicate."workspaceId" AND "key" = candidate
+            );
+            suffix := suffix + 1;
+        END LOOP;
+        UPDATE "Project" SET "key" = candidate WHERE "id" = duplicate."id";
+    END LOOP;
+END $$;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Project_workspaceId_key_key" ON "Project"("workspaceId", "key");
@@ -0,0 +1,60 @@
+import mockDB from '../mocks/db.js';
+import * as commentController from '../../controllers/commentController.js';
+
+jest.mock('../../db.js', () => ({ __esModule: true, default: mockDB }));
+
+describe('Comment Controller Tests', () => {
+  const mockResponse = () => {
+    const res = {};
+    res.status = jest.fn().mockReturnValue(res);
+    res.json = jest.fn().mockReturnValue(res);
+    return res;
+  };
+
+  const authFor = (email) => ({ emailAddresses: [{ emailAddress: email }] });
+
+  const historyRequest = (email) => ({
+    params: { taskId: 'task-1', commentId: 'comment-1' },
+    auth: authFor(email),
+  });
+
+  const revisions = [
+    { id: 'r2', body: 'second draft', action: 'DELETED' },
+    { id: 'r1', body: 'first draft', action: 'EDITED' },
+  ];
+
+  // The caller is a MEMBER of the task's workspace; the comment is deleted
+  const signIn = (userId, role = 'MEMBER') => {
+    mockDB.user.findFirst.mockResolvedValue({ id: userId });
+    mockDB.task.findUnique.mockResolvedValue({ id: 'task-1', project: { workspaceId: 'w1' } });
+    mockDB.workspaceMember.findUnique.mockResolvedValue({ id: 'm1', role });
+    mockDB.taskComment.findUnique.mockResolvedValue({
+      id: 'comment-1', taskId: 'task-1', authorId: 'author-id', deletedAt: new Date(),
+    });
+    mockDB.taskCommentRevision.findMany.mockResolvedValue(revisions);
+  };
+
+  // Test 1: a deleted comment's old text is hidden from other members
+  test('getCommentHistory hides deleted bodies from other members', async () => {
+    signIn('member-id');
+    const res = mockResponse();
+
+    await commentController.getCommentHistory(historyRequest('member@example.com'), res);
+
+    expect(res.status).toHaveBeenCalledWith(200);
+    expect(res.json.mock.calls[0][0].map((revision) => revision.body)).toEqual(['', '']);
+  });
+
+  // Test 2: the author and moderators still see it
+  test('getCommentHistory shows deleted bodies to the author and moderators', async () => {
+    signIn('author-id');
+    const own = mockResponse();
+    await commentController.getCommentHistory(historyRequest('author@example.com'), own);
+    expect(own.json).toHaveBeenCalledWith(revisions);
+
+    signIn('manager-id', 'MANAGER');
+    const moderator = mockResponse();
+    await commentController.getCommentHistory(historyRequest('manager@example.com'), moderator);
+    expect(moderator.json).toHaveBeenCalledWith(revisions);
+  });
+});
@@ -0,0 +1,111 @@
+import mockDB from '../mocks/db.js';
+import * as tagController from '../../controllers/tagController.js';
+
+jest.mock('../../db.js', () => ({ __esModule: true, default: mockDB }));
+
+describe('Tag Controller Tests', () => {
+  const mockResponse = () => {
+    const res = {};
+    res.status = jest.fn().mockReturnValue(res);
+    res.json = jest.fn().mockReturnValue(res);
+    return res;
+  };
+
+  const auth = { emailAddresses: [{ emailAddress: 'test@example.com' }] };
+
+  // The caller has the given role in workspace w1, which owns tag-1 and task-1
+  const signIn = (role) => {
+    mockDB.user.findFirst.mockResolvedValue({ id: 'caller-id' });
+    mockDB.workspace.findUnique.mockResolvedValue({ id: 'w1', name: 'acme' });
+    mockDB.workspaceMember.findUnique.mockResolvedValue(role && { id: 'm1', role });
+    mockDB.tag.findUnique.mockImplementation(async ({ where }) =>
+      where.id === 'tag-1' ? { id: 'tag-1', name: 'bug', workspaceId: 'w1' } : null
+    );
+    mockDB.task.findUnique.mockResolvedValue({ id: 'task-1', project: { workspaceId: 'w1' } });
+  };
+
+  // Test 1: any workspace member can add a tag to the catalog
+  test('createTag lets a MEMBER create a tag', async () => {
+    signIn('MEMBER');
+    mockDB.tag.create.mockResolvedValue({ id: 'tag-2', name: 'ux' });
+    const req = { params: { workspaceName: 'acme' }, body: { name: ' ux ', color: '#10b981' }, auth };
+    const res = mockResponse();
+
+    await tagController.createTag(req, res);
+
+    expect(mockDB.tag.create).toHaveBeenCalledWith({
+      data: { name: 'ux', color: '#10b981', workspaceId: 'w1' },
+    });
+    expect(res.status).toHaveBeenCalledWith(201);
+  });
+
+  // Test 2: people outside the workspace cannot add tags
+  test('createTag returns 403 for non-members', async () => {
+    signIn(null);
+    const req = { params: { workspaceName: 'acme' }, body: { name: 'ux' }, auth };
+    const res = mockResponse();
+
+    await tagController.createTag(req, res);
+
+    expect(res.status).toHaveBeenCalledWith(403);
+    expect(mockDB.tag.create).not.toHaveBeenCalled();
+  });
+
+  // Test 3: only ADMINs and MANAGERs rename or delete catalog tags
+  test('updateTag and deleteTag return 403 for a MEMBER', async () => {
+    signIn('MEMBER');
+
+    const rename = mockResponse();
+    await tagController.updateTag({ params: { tagId: 'tag-1' }, body: { name: 'defect' }, auth }, rename);
+    const remove = mockResponse();
+    await tagController.deleteTag({ params: { tagId: 'tag-1' }, auth }, remove);
+
+    expect(rename.status).toHaveBeenCalledWith(403);
+    expect(remove.status).toHaveBeenCalledWith(403);
+    expect(mockDB.tag.update).not.toHaveBeenCalled();
+    expect(mockDB.tag.delete).not.toHaveBeenCalled();
+  });
+
+  // Test 4: a MANAGER can rename and an ADMIN can delete
+  test('updateTag and deleteTag work for ADMINs and MANAGERs', async () => {
+    signIn('MANAGER');
+    mockDB.tag.update.mockResolvedValue({ id: 'tag-1', name: 'defect' });
+    const rename = mockResponse();
+    await tagController.updateTag({ params: { tagId: 'tag-1' }, body: { name: 'defect' }, auth }, rename);
+    expect(rename.status).toHaveBeenCalledWith(200);
+
+    signIn('ADMIN');
+    const remove = mockResponse();
+    await tagController.deleteTag({ params: { tagId: 'tag-1' }, auth }, remove);
+    expect(mockDB.tag.delete).toHaveBeenCalledWith({ where: { id: 'tag-1' } });
+    expect(remove.status).toHaveBeenCalledWith(200);
+  });
+
+  // Test 5: tags from another workspace cannot be attached to a task
+  test('attachTaskTags only attaches tags from the task\'s workspace', async () => {
+    signIn('MEMBER');
+    mockDB.tag.findMany.mockResolvedValue([{ id: 'tag-1' }]);
+    const req = { params: { taskId: 'task-1' }, body: { tagIds: ['tag-1', 'foreign-tag'] }, auth };
+    const res = mockResponse();
+
+    await tagController.attachTaskTags(req, res);
+
+    expect(mockDB.tag.findMany).toHaveBeenCalledWith({
+      where: { id: { in: ['tag-1', 'foreign-tag'] }, workspaceId: 'w1' },
+      select: { id: true },
+    });
+    expect(res.status).toHaveBeenCalledWith(404);
+    expect(mockDB.taskTag.createMany).not.toHaveBeenCalled();
+  });
+
+  // Test 6: only members of the task's workspace can detach its tags
+  test('detachTaskTag returns 403 for non-members', async () => {
+    signIn(null);
+    const res = mockResponse();
+
+    await tagController.detachTaskTag({ params: { taskId: 'task-1', tagId: 'tag-1' }, auth }, res);
+
+    expect(res.status).toHaveBeenCalledWith(403);
+    expect(mockDB.taskTag.deleteMany).not.toHaveBeenCalled();
+  });
+});
@@ -1,8 +1,7 @@
-const userController = require('../../controllers/userController.cjs');
-import mockDB from '../../__tests__/mocks/db.js';
+import mockDB from '../mocks/db.js';
+import * as userController from '../../controllers/userController.js';
 
-// Fix: Use mockDB directly without .default
-jest.mock('../../db.js', () => mockDB);
+jest.mock('../../db.js', () => ({ __esModule: true, default: mockDB }));
 
 describe('User Controller Tests', () => {
   // Mock Express request and response objects
@@ -13,13 +12,16 @@ describe('User Controller Tests', () => {
     return res;
   };
 
+  // req.auth as authMiddleware leaves it for a signed-in user
+  const authFor = (email) => ({ emailAddresses: [{ emailAddress: email }] });
+
   beforeEach(() => {
     jest.clearAllMocks();
   });
 
   // Test 1: checkUserExists returns 400 if email not provided
   test('checkUserExists returns 400 if email not provided', async () => {
-    const req = { query: {} };
+    const req = { query: {}, auth: authFor('test@example.com') };
     const res = mockResponse();
     
     await userController.checkUserExists(req, res);
@@ -30,7 +32,7 @@ describe('User Controller Tests', () => {
 
   // Test 2: checkUserExists returns exists: false if user doesn't exist
   test('checkUserExists returns exists: false if user doesn\'t exist', async () => {
-    const req = { query: { email: 'nonexistent@example.com' } };
+    const req = { query: { email: 'nonexistent@example.com' }, auth: authFor('nonexistent@example.com') };
     const res = mockResponse();
     
     // Fix: Remove .default
@@ -44,7 +46,7 @@ describe('User Controller Tests', () => {
 
   // Test 3: createUser returns 400 if email is missing
   test('createUser returns 400 if email is missing', async () => {
-    const req = { body: { name: 'Test User' } };
+    const req = { body: { name: 'Test User' }, auth: authFor('test@example.com') };
     const res = mockResponse();
     
     await userController.createUser(req, res);
@@ -61,7 +63,7 @@ describe('User Controller Tests', () => {
       role: 'MEMBER' 
     };
     
-    const req = { body: userData };
+    const req = { body: userData, auth: authFor('test@example.com') };
     const res = mockResponse();
     
     const createdUser = { id: '1', ...userData };
@@ -80,14 +82,29 @@ describe('User Controller Tests', () => {
     });
   });
 
-  // Test 5: deleteUser returns 404 if user doesn't exist
+  // Test 5: createUser only creates the caller's own account
+  test('createUser returns 403 for someone else\'s email', async () => {
+    const req = {
+      body: { email: 'other@example.com', name: 'Other', role: 'ADMIN' },
+      auth: authFor('test@example.com'),
+    };
+    const res = mockResponse();
+
+    await userController.createUser(req, res);
+
+    expect(res.status).toHaveBeenCalledWith(403);
+    expect(mockDB.user.create).not.toHaveBeenCalled();
+  });
+
+  // Test 6: deleteUser returns 404 if user doesn't exist
   test('deleteUser returns 404 if user doesn\'t exist', async () => {
-    const req = { params: { id: 'nonexistent-id' } };
+    const req = { params: { id: 'caller-id' }, auth: authFor('test@example.com') };
     const res = mockResponse();
+
+    mockDB.user.findFirst.mockResolvedValue({ id: 'caller-id' });
     
     const prismaError = new Error('User not found');
     prismaError.code = 'P2025';
-    // Fix: Remove .default
     mockDB.user.delete.mockRejectedValue(prismaError);
     
     await userController.deleteUser(req, res);
@@ -95,4 +112,161 @@ describe('User Controller Tests', () => {
     expect(res.status).toHaveBeenCalledWith(404);
     expect(res.json).toHaveBeenCalledWith({ error: 'User not found' });
   });
+
+  // Test 7: deleteUser refuses anyone but the owner, workspace ADMINs included
+  test('deleteUser returns 403 for other users', async () => {
+    const req = { params: { id: 'target-id' }, auth: authFor('admin@example.com') };
+    const res = mockResponse();
+
+    mockDB.user.findFirst.mockResolvedValue({ id: 'admin-id' });
+    mockDB.workspaceMember.findFirst.mockResolvedValue({ id: 'm1', role: 'ADMIN' });
+
+    await userController.deleteUser(req, res);
+
+    expect(res.status).toHaveBeenCalledWith(403);
+    expect(mockDB.user.delete).not.toHaveBeenCalled();
+  });
+
+  // Test 8: deleteUser lets owners delete their own account
+  test('deleteUser deletes the caller\'s own account', async () => {
+    const req = { params: { id: 'caller-id' }, auth: authFor('test@example.com') };
+    const res = mockResponse();
+
+    mockDB.user.findFirst.mockResolvedValue({ id: 'caller-id' });
+    mockDB.user.delete.mockResolvedValue({ id: 'caller-id' });
+
+    await userController.deleteUser(req, res);
+
+    expect(mockDB.workspaceMember.findFirst).not.toHaveBeenCalled();
+    expect(mockDB.user.delete).toHaveBeenCalledWith({ where: { id: 'caller-id' } });
+    expect(res.status).toHaveBeenCalledWith(200);
+  });
+
+  // Test 9: updateMe renames the signed-in user, whoever the body names
+  test('updateMe updates the caller\'s profile', async () => {
+    const req = {
+      body: { name: '  Ada  ', email: 'other@example.com' },
+      auth: authFor('test@example.com'),
+    };
+    const res = mockResponse();
+
+    mockDB.user.findFirst.mockResolvedValue({ id: 'caller-id' });
+    const updated = { id: 'caller-id', name: 'Ada', email: 'test@example.com', role: 'MEMBER' };
+    mockDB.user.update.mockResolvedValue(updated);
+
+    await userController.updateMe(req, res);
+
+    expect(mockDB.user.findFirst).toHaveBeenCalledWith({ where: { email: 'test@example.com' } });
+    expect(mockDB.user.update).toHaveBeenCalledWith({
+      where: { id: 'caller-id' },
+      data: { name: 'Ada' },
+      select: { id: true, name: true, email: true, role: true },
+    });
+    expect(res.status).toHaveBeenCalledWith(200);
+    expect(res.json).toHaveBeenCalledWith({ message: 'User updated successfully', user: updated });
+  });
+
+  // Test 10: updateMe creates the account on first save and needs a name
+  test('updateMe creates a missing account and rejects blank names', async () => {
+    const res = mockResponse();
+    mockDB.user.findFirst.mockResolvedValue(null);
+    mockDB.user.create.mockResolvedValue({ id: 'new-id', name: 'Ada' });
+
+    await userController.updateMe({ body: { name: 'Ada' }, auth: authFor('test@example.com') }, res);
+
+    expect(mockDB.user.create).toHaveBeenCalledWith({
+      data: { email: 'test@example.com', name: 'Ada', role: 'MEMBER' },
+      select: { id: true, name: true, email: true, role: true },
+    });
+    expect(res.status).toHaveBeenCalledWith(201);
+
+    const blank = mockResponse();
+    await userController.updateMe({ body: { name: '   ' }, auth: authFor('test@example.com') }, blank);
+    expect(blank.status).toHaveBeenCalledWith(400);
+  });
+
+  // Test 11: getMe returns the signed-in user's profile
+  test('getMe returns the caller\'s profile or 404', async () => {
+    const profile = { id: 'caller-id', name: 'Ada', email: 'test@example.com', role: 'MEMBER' };
+    mockDB.user.findFirst.mockResolvedValueOnce(profile).mockResolvedValueOnce(null);
+
+    const res = mockResponse();
+    await userController.getMe({ auth: authFor('test@example.com') }, res);
+
+    expect(mockDB.user.findFirst).toHaveBeenCalledWith({
+      where: { email: 'test@example.com' },
+      select: { id: true, name: true, email: true, role: true },
+    });
+    expect(res.status).toHaveBeenCalledWith(200);
+    expect(res.json).toHaveBeenCalledWith(profile);
+
+    const missing = mockResponse();
+    await userController.getMe({ auth: authFor('new@example.com') }, missing);
+    expect(missing.status).toHaveBeenCalledWith(404);
+  });
+
+  // Test 12: owners can rename themselves but the role is left alone
+  test('updateUser renames the owner and ignores a role', async () => {
+    const req = {
+      params: { id: 'caller-id' },
+      body: { name: 'Ada', role: 'ADMIN' },
+      auth: authFor('test@example.com'),
+    };
+    const res = mockResponse();
+
+    mockDB.user.findFirst.mockResolvedValue({ id: 'caller-id' });
+    mockDB.user.findUnique.mockResolvedValue({ id: 'caller-id' });
+    mockDB.user.update.mockResolvedValue({ id: 'caller-id', name: 'Ada' });
+
+    await userController.updateUser(req, res);
+
+    expect(mockDB.user.update).toHaveBeenCalledWith({
+      where: { id: 'caller-id' },
+      data: { name: 'Ada' },
+    });
+    expect(res.status).toHaveBeenCalledWith(200);
+  });
+
+  // Test 13: a workspace ADMIN cannot change another user's global account
+  test('updateUser returns 403 for a workspace ADMIN', async () => {
+    const req = {
+      params: { id: 'target-id' },
+      body: { role: 'ADMIN' },
+      auth: authFor('admin@example.com'),
+    };
+    const res = mockResponse();
+
+    mockDB.user.findFirst.mockResolvedValue({ id: 'admin-id' });
+    mockDB.workspaceMember.findFirst.mockResolvedValue({ id: 'm1', role: 'ADMIN' });
+
+    await userController.updateUser(req, res);
+
+    expect(res.status).toHaveBeenCalledWith(403);
+    expect(mockDB.user.update).not.toHaveBeenCalled();
+  });
+
+  // Test 14: other users' profiles are hidden unless you share a workspace
+  test('getUser returns 404 for users outside the caller\'s workspaces', async () => {
+    const req = { params: { id: 'stranger-id' }, auth: authFor('test@example.com') };
+    const res = mockResponse();
+
+    mockDB.user.findFirst.mockResolvedValue({ id: 'caller-id' });
+    mockDB.workspaceMember.findFirst.mockResolvedValue(null);
+
+    await userController.getUser(req, res);
+
+    expect(res.status).toHaveBeenCalledWith(404);
+    expect(mockDB.user.findUnique).not.toHaveBeenCalled();
+  });
+
+  // Test 15: other people's accounts cannot be looked up by email
+  test('checkUserExists returns 403 for someone else\'s email', async () => {
+    const req = { query: { email: 'other@example.com' }, auth: authFor('test@example.com') };
+    const res = mockResponse();
+
+    await userController.checkUserExists(req, res);
+
+    expect(res.status).toHaveBeenCalledWith(403);
+    expect(mockDB.user.findUnique).not.toHaveBeenCalled();
+  });
 });
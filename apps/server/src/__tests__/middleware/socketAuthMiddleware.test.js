@@ -0,0 +1,59 @@
+import mockPrisma from '../../db.js';
+import { clerkClient, verifyToken } from '@clerk/express';
+import socketAuthMiddleware from '../../middleware/socketAuthMiddleware.js';
+
+jest.mock('../../db.js', () => {
+  const { mockDeep } = require('jest-mock-extended');
+  return { __esModule: true, default: mockDeep() };
+});
+
+jest.mock('@clerk/express', () => ({
+  verifyToken: jest.fn(),
+  clerkClient: { users: { getUser: jest.fn() } },
+}));
+
+describe('Socket auth middleware', () => {
+  const socketWith = (auth) => ({ handshake: { auth }, data: {} });
+  const user = { id: 'u1', email: 'ada@example.com', name: 'Ada' };
+
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    verifyToken.mockResolvedValue({ sub: 'clerk_1' });
+    clerkClient.users.getUser.mockResolvedValue({
+      emailAddresses: [{ emailAddress: 'ada@example.com' }],
+    });
+    mockPrisma.user.findFirst.mockResolvedValue(user);
+  });
+
+  // Test 1: a verified token puts the database user on the socket
+  test('accepts a valid session token', async () => {
+    const socket = socketWith({ token: 'session-token' });
+    const next = jest.fn();
+
+    await socketAuthMiddleware(socket, next);
+
+    expect(verifyToken).toHaveBeenCalledWith('session-token', expect.any(Object));
+    expect(clerkClient.users.getUser).toHaveBeenCalledWith('clerk_1');
+    expect(mockPrisma.user.findFirst).toHaveBeenCalledWith({ where: { email: 'ada@example.com' } });
+    expect(socket.data.user).toBe(user);
+    expect(next).toHaveBeenCalledWith();
+  });
+
+  // Test 2: no token, a bad token or an unknown user refuses the connection
+  test('rejects missing, invalid and unknown users', async () => {
+    const next = jest.fn();
+    await socketAuthMiddleware(socketWith({}), next);
+    expect(next.mock.calls[0][0].message).toBe('Unauthenticated');
+    expect(verifyToken).not.toHaveBeenCalled();
+
+    verifyToken.mockRejectedValueOnce(new Error('jwt expired'));
+    const invalid = socketWith({ token: 'expired' });
+    await socketAuthMiddleware(invalid, next);
+    expect(next.mock.calls[1][0].message).toBe('Unauthenticated');
+    expect(invalid.data.user).toBeUndefined();
+
+    mockPrisma.user.findFirst.mockResolvedValueOnce(null);
+    await socketAuthMiddleware(socketWith({ token: 'session-token' }), next);
+    expect(next.mock.calls[2][0].message).toBe('User not found');
+  });
+});
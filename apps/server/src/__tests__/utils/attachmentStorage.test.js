@@ -0,0 +1,49 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  createLocalStorage,
+  newStorageKey,
+} from '../../utils/attachmentStorage.js';
+
+describe('Attachment storage', () => {
+  let root;
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'attachments-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  // Test 1: files round-trip through nested keys and can be removed twice
+  test('local storage puts, reads and removes files', async () => {
+    const storage = createLocalStorage(root);
+    await storage.put('files/2026-10/abc', Buffer.from('hello'), 'text/plain');
+
+    expect((await storage.read('files/2026-10/abc')).toString()).toBe('hello');
+    expect(await fs.readFile(path.join(root, 'files/2026-10/abc'), 'utf8')).toBe('hello');
+
+    await storage.remove('files/2026-10/abc');
+    await storage.remove('files/2026-10/abc');
+    await expect(storage.read('files/2026-10/abc')).rejects.toThrow();
+  });
+
+  // Test 2: keys cannot reach outside the storage root
+  test('local storage rejects keys outside its root', async () => {
+    const storage = createLocalStorage(root);
+
+    await expect(storage.put('../escape', Buffer.from('x'))).rejects.toThrow('Invalid storage key');
+    await expect(storage.read('/etc/passwd')).rejects.toThrow('Invalid storage key');
+  });
+
+  // Test 3: keys are grouped by kind and month and never repeat
+  test('newStorageKey', () => {
+    const now = new Date('2026-10-19T12:00:00Z');
+    const key = newStorageKey('files', now);
+
+    expect(key).toMatch(/^files\/2026-10\/[0-9a-f-]{36}$/);
+    expect(newStorageKey('files', now)).not.toBe(key);
+  });
+});
@@ -0,0 +1,104 @@
+import {
+  validateUpload,
+  matchesFileSignature,
+  sanitizeFileName,
+  contentDisposition,
+  formatAttachment,
+  formatFileSize,
+  MAX_THUMBNAIL_SIZE,
+  THUMBNAIL_TYPES,
+} from '../../utils/attachments.js';
+
+const PNG = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 0]);
+const PDF = Buffer.from('%PDF-1.7\n...');
+
+describe('Attachments', () => {
+  // Test 1: allowed types pass and the Content-Type is normalized
+  test('validateUpload accepts allowed files', () => {
+    expect(validateUpload(PNG, 'image/png')).toEqual({ mimeType: 'image/png' });
+    expect(validateUpload(PDF, 'Application/PDF; charset=binary')).toEqual({ mimeType: 'application/pdf' });
+    expect(validateUpload(Buffer.from('a,b\n1,2'), 'text/csv')).toEqual({ mimeType: 'text/csv' });
+  });
+
+  // Test 2: empty, oversized, disallowed and disguised files are refused
+  test('validateUpload rejects bad files with a status', () => {
+    expect(validateUpload(Buffer.alloc(0), 'image/png').status).toBe(400);
+    expect(validateUpload(undefined, 'image/png').status).toBe(400);
+    expect(validateUpload(Buffer.alloc(11), 'text/plain', { maxSize: 10 }).status).toBe(413);
+    expect(validateUpload(Buffer.from('<svg/>'), 'image/svg+xml').status).toBe(415);
+    expect(validateUpload(Buffer.from('MZ...'), 'application/pdf')).toEqual({
+      error: "The file's contents do not match its type",
+      status: 400,
+    });
+    expect(validateUpload(PDF, 'application/pdf', {
+      maxSize: MAX_THUMBNAIL_SIZE,
+      allowedTypes: THUMBNAIL_TYPES,
+    }).status).toBe(415);
+  });
+
+  // Test 3: WebP needs both the RIFF header and the WEBP marker
+  test('matchesFileSignature checks WebP containers', () => {
+    const webp = Buffer.concat([Buffer.from('RIFF'), Buffer.alloc(4), Buffer.from('WEBPVP8 ')]);
+    const wav = Buffer.concat([Buffer.from('RIFF'), Buffer.alloc(4), Buffer.from('WAVEfmt ')]);
+
+    expect(matchesFileSignature(webp, 'image/webp')).toBe(true);
+    expect(matchesFileSignature(wav, 'image/webp')).toBe(false);
+    expect(matchesFileSignature(Buffer.from('anything'), 'text/markdown')).toBe(true);
+  });
+
+  // Test 4: folders, control characters and quotes are stripped from names
+  test('sanitizeFileName keeps only a safe name', () => {
+    expect(sanitizeFileName('../../etc/passwd')).toBe('passwd');
+    expect(sanitizeFileName('C:\\Users\\me\\report "final".pdf')).toBe('report final.pdf');
+    expect(sanitizeFileName('a\u0000b\n.txt')).toBe('ab.txt');
+    expect(sanitizeFileName('..')).toBe('file');
+    expect(sanitizeFileName(undefined)).toBe('file');
+    expect(sanitizeFileName('x'.repeat(300))).toHaveLength(200);
+  });
+
+  // Test 5: images open inline, everything else downloads, names keep UTF-8
+  test('contentDisposition and formatFileSize', () => {
+    expect(contentDisposition('photo.png', 'image/png')).toBe(
+      `inline; filename="photo.png"; filename*=UTF-8''photo.png`
+    );
+    expect(contentDisposition('résumé.pdf', 'application/pdf')).toBe(
+      `attachment; filename="r_sum_.pdf"; filename*=UTF-8''r%C3%A9sum%C3%A9.pdf`
+    );
+    expect(formatFileSize(512)).toBe('512 B');
+    expect(formatFileSize(1536)).toBe('1.5 KB');
+    expect(formatFileSize(10 * 1024 * 1024)).toBe('10 MB');
+  });
+
+  // Test 6: storage keys stay on the server
+  test('formatAttachment hides storage details', () => {
+    const createdAt = new Date('2026-10-01T10:00:00Z');
+    const formatted = formatAttachment({
+      id: 'att1',
+      fileName: 'photo.png',
+      mimeType: 'image/png',
+      size: 2048,
+      storageKey: 'files/2026-10/abc',
+      thumbnailKey: 'thumbnails/2026-10/def',
+      thumbnailType: 'image/jpeg',
+      workspaceId: 'ws1',
+      taskId: 't1',
+      messageId: null,
+      uploaderId: 'u1',
+      createdAt,
+      uploader: { id: 'u1', name: 'Ada', email: 'ada@example.com' },
+    });
+
+    expect(formatted).toEqual({
+      id: 'att1',
+      fileName: 'photo.png',
+      mimeType: 'image/png',
+      size: 2048,
+      isImage: true,
+      hasThumbnail: true,
+      taskId: 't1',
+      messageId: null,
+      createdAt,
+      uploader: { name: 'Ada', email: 'ada@example.com' },
+    });
+  });
+});
@@ -0,0 +1,47 @@
+import { diffBoards } from '../../utils/boardDiff.js';
+
+jest.mock('../../db.js', () => {
+  const { mockDeep } = require('jest-mock-extended');
+  return { __esModule: true, default: mockDeep() };
+});
+
+const note = (id, text) => ({
+  type: 'object-add',
+  object: { id, kind: 'sticky', x: 0, y: 0, width: 100, height: 100, color: '#FDE68A', strokeWidth: 1, text },
+});
+
+describe('Board diff', () => {
+  // Test 1: objects are matched by id across versions
+  test('diffBoards reports added, removed and changed objects', () => {
+    const before = [note('a', 'Keep'), note('b', 'Remove me'), note('c', 'Old text')];
+    const after = [note('a', 'Keep'), note('c', 'New text'), note('d', 'Brand new\nsecond line')];
+
+    const { objects } = diffBoards(before, after);
+
+    expect(objects.added).toEqual([{ id: 'd', kind: 'sticky', label: 'Brand new' }]);
+    expect(objects.removed).toEqual([{ id: 'b', kind: 'sticky', label: 'Remove me' }]);
+    expect(objects.changed).toEqual([{ id: 'c', kind: 'sticky', label: 'New text' }]);
+  });
+
+  // Test 2: strokes are counted once per stroke, not per segment
+  test('diffBoards counts strokes by actionId', () => {
+    const before = [
+      { type: 'draw', actionId: 's1', x: 1, y: 1 },
+      { type: 'draw', actionId: 's1', x: 2, y: 2 },
+    ];
+    const after = [
+      { type: 'draw', actionId: 's2', x: 5, y: 5 },
+      { type: 'draw', actionId: 's3', x: 6, y: 6 },
+    ];
+
+    expect(diffBoards(before, after).strokes).toEqual({ added: 2, removed: 1 });
+  });
+
+  // Test 3: a clear in the newer version removes everything before it
+  test('diffBoards treats cleared content as removed', () => {
+    const before = [note('a', 'Gone')];
+    const after = [note('a', 'Gone'), { type: 'clear' }];
+
+    expect(diffBoards(before, after).objects.removed).toHaveLength(1);
+  });
+});
@@ -0,0 +1,98 @@
+import {
+  applyUpdate,
+  compactDoc,
+  createBoardDoc,
+  decodeDoc,
+  deleteItems,
+  diffUpdate,
+  docFromActions,
+  encodeDoc,
+  insertAction,
+  itemsForAction,
+  stateVector,
+  toActions,
+} from '../../utils/boardDoc.js';
+
+// Send everything one copy has that the other is missing, both ways
+const sync = (a, b) => {
+  const toB = diffUpdate(a, stateVector(b));
+  const toA = diffUpdate(b, stateVector(a));
+  applyUpdate(b, toB);
+  applyUpdate(a, toA);
+};
+
+describe('Board documents', () => {
+  // Test 1: concurrent edits end up in the same order on every copy
+  test('merging in any order gives the same board', () => {
+    const alice = createBoardDoc('alice');
+    const bob = createBoardDoc('bob');
+    const server = createBoardDoc('server');
+
+    const fromAlice = [insertAction(alice, { type: 'start', actionId: 'a1' })];
+    const fromBob = [
+      insertAction(bob, { type: 'start', actionId: 'b1' }),
+      insertAction(bob, { type: 'draw', actionId: 'b1' }),
+    ];
+
+    applyUpdate(server, fromBob);
+    applyUpdate(server, fromAlice);
+    applyUpdate(alice, fromBob);
+    applyUpdate(bob, fromAlice);
+
+    expect(toActions(alice)).toEqual(toActions(bob));
+    expect(toActions(server)).toEqual(toActions(alice));
+    expect(toActions(alice).map((action) => action.actionId)).toEqual(['a1', 'b1', 'b1']);
+  });
+
+  // Test 2: the same update applied twice changes nothing the second time
+  test('applyUpdate ignores items it already has and reports appends', () => {
+    const alice = createBoardDoc('alice');
+    const server = createBoardDoc('server');
+    const items = [insertAction(alice, { type: 'start' })];
+
+    expect(applyUpdate(server, items)).toEqual({ added: items, appended: true });
+    expect(applyUpdate(server, items)).toEqual({ added: [], appended: true });
+
+    const undo = deleteItems(alice, ['alice:1']);
+    expect(applyUpdate(server, [undo]).appended).toBe(false);
+    expect(toActions(server)).toEqual([]);
+  });
+
+  // Test 3: edits made while disconnected merge back through state vectors
+  test('offline edits on both sides converge after a sync', () => {
+    const server = createBoardDoc('server');
+    const alice = createBoardDoc('alice');
+    const bob = createBoardDoc('bob');
+    applyUpdate(server, [insertAction(alice, { type: 'start', actionId: 'a1' })]);
+    sync(server, bob);
+
+    // Alice is offline and undoes her stroke; Bob keeps drawing
+    deleteItems(alice, itemsForAction(alice, 'a1'));
+    insertAction(alice, { type: 'object-add', actionId: 'a2', object: { id: 'n1' } });
+    applyUpdate(server, [insertAction(bob, { type: 'start', actionId: 'b1' })]);
+
+    sync(server, alice);
+    sync(server, bob);
+
+    expect(toActions(alice)).toEqual(toActions(bob));
+    expect(toActions(server).map((action) => action.actionId)).toEqual(['b1', 'a2']);
+  });
+
+  // Test 4: stored documents drop what can never show again
+  test('compactDoc keeps only what is visible since the last clear', () => {
+    const alice = createBoardDoc('alice');
+    insertAction(alice, { type: 'start', actionId: 'old' });
+    insertAction(alice, { type: 'clear' });
+    insertAction(alice, { type: 'start', actionId: 'undone' });
+    deleteItems(alice, itemsForAction(alice, 'undone'));
+    insertAction(alice, { type: 'start', actionId: 'kept' });
+
+    const stored = encodeDoc(compactDoc(alice));
+    const loaded = decodeDoc(JSON.parse(JSON.stringify(stored)), 'server');
+
+    expect(stored.items).toHaveLength(3);
+    expect(toActions(loaded)).toEqual([{ type: 'clear' }, { type: 'start', actionId: 'kept' }]);
+    expect(stateVector(loaded)).toEqual({ alice: 5 });
+    expect(toActions(docFromActions([{ type: 'draw' }]))).toEqual([{ type: 'draw' }]);
+  });
+});
@@ -0,0 +1,75 @@
+import { buildDisplayList, renderBoardSvg, renderBoardPdf, EXPORT_PADDING } from '../../utils/boardRender.js';
+
+jest.mock('../../db.js', () => {
+  const { mockDeep } = require('jest-mock-extended');
+  return { __esModule: true, default: mockDeep() };
+});
+
+const stroke = {
+  type: 'draw',
+  actionId: 's1',
+  color: '#ff0000',
+  brushSize: 4,
+  points: [
+    { x: 10, y: 10 },
+    { x: 20, y: 30 },
+    { x: 40, y: 40 },
+    { x: 50, y: 50 },
+  ],
+};
+
+const note = {
+  type: 'object-add',
+  object: {
+    id: 'n1',
+    kind: 'sticky',
+    x: 100,
+    y: 100,
+    width: 120,
+    height: 120,
+    color: '#FDE68A',
+    strokeWidth: 1,
+    text: 'Ship <it> & (soon)',
+  },
+};
+
+describe('Board render', () => {
+  // Test 1: the export area covers the content plus padding
+  test('buildDisplayList sizes the board to its content', () => {
+    const { items, bounds } = buildDisplayList([stroke, note]);
+
+    expect(items.map((item) => item.type)).toEqual(['path', 'rect', 'text']);
+    expect(bounds.minX).toBe(10 - 2 - EXPORT_PADDING);
+    expect(bounds.maxY).toBe(220 + EXPORT_PADDING);
+  });
+
+  // Test 2: cleared and deleted content is not rendered
+  test('buildDisplayList ignores what a clear or delete removed', () => {
+    const actions = [stroke, { type: 'clear' }, note, { type: 'object-delete', id: 'n1' }];
+
+    expect(buildDisplayList(actions).items).toEqual([]);
+  });
+
+  // Test 3: SVG output escapes note text
+  test('renderBoardSvg produces an escaped SVG document', () => {
+    const svg = renderBoardSvg([stroke, note]);
+
+    expect(svg.startsWith('<svg xmlns="http://www.w3.org/2000/svg"')).toBe(true);
+    expect(svg).toContain('<path d="M10 10 Q20 30 30 35');
+    expect(svg).toContain('&lt;it&gt; &amp;');
+    expect(svg.trim().endsWith('</svg>')).toBe(true);
+  });
+
+  // Test 4: PDF output is a single page with a valid xref offset and escaped text
+  test('renderBoardPdf produces a one-page PDF', () => {
+    const pdf = renderBoardPdf([stroke, note]).toString('latin1');
+    const xrefOffset = Number(pdf.match(/startxref\n(\d+)/)[1]);
+
+    expect(pdf.startsWith('%PDF-1.4')).toBe(true);
+    expect(pdf.slice(xrefOffset, xrefOffset + 4)).toBe('xref');
+    expect(pdf).toContain('/Count 1');
+    expect(pdf).toContain('(Ship <it> &) Tj');
+    expect(pdf).toContain('(\\(soon\\)) Tj');
+    expect(pdf.trim().endsWith('%%EOF')).toBe(true);
+  });
+});
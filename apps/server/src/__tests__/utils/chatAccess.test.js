@@ -0,0 +1,49 @@
+import mockPrisma from '../../db.js';
+import { isWorkspaceMember, resolveChat } from '../../utils/chatAccess.js';
+
+jest.mock('../../db.js', () => {
+  const { mockDeep } = require('jest-mock-extended');
+  return { __esModule: true, default: mockDeep() };
+});
+
+describe('Chat access', () => {
+  const user = { id: 'u1', email: 'alice@example.com' };
+  const channelMembership = {
+    channelId: 'c1',
+    channel: { workspace: { name: 'acme' } },
+  };
+
+  // Test 1: the workspace-wide chat is open to the workspace's members
+  test('resolveChat places workspace members in the workspace chat', async () => {
+    mockPrisma.workspaceMember.findFirst.mockResolvedValue({ id: 'm1' });
+
+    await expect(resolveChat(user, 'acme', null)).resolves.toEqual({
+      user, channelId: null, room: 'acme',
+    });
+    expect(mockPrisma.workspaceMember.findFirst).toHaveBeenCalledWith({
+      where: { userId: 'u1', workspace: { name: 'acme' } },
+      select: { id: true },
+    });
+    await expect(isWorkspaceMember(user, '')).resolves.toBe(false);
+  });
+
+  // Test 2: channel members reach the channel's own room
+  test('resolveChat places channel members in the channel room', async () => {
+    mockPrisma.workspaceMember.findFirst.mockResolvedValue({ id: 'm1' });
+    mockPrisma.chatChannelMember.findUnique.mockResolvedValue(channelMembership);
+
+    await expect(resolveChat(user, 'acme', 'c1')).resolves.toEqual({
+      user, channelId: 'c1', room: 'chat-channel:c1',
+    });
+    await expect(resolveChat(user, 'other', 'c1')).resolves.toBeNull();
+  });
+
+  // Test 3: someone removed from the workspace loses its channels and DMs
+  test('resolveChat refuses channels to removed workspace members', async () => {
+    mockPrisma.workspaceMember.findFirst.mockResolvedValue(null);
+    mockPrisma.chatChannelMember.findUnique.mockResolvedValue(channelMembership);
+
+    await expect(resolveChat(user, 'acme', 'c1')).resolves.toBeNull();
+    await expect(resolveChat(user, 'acme', null)).resolves.toBeNull();
+  });
+});
@@ -0,0 +1,77 @@
+import {
+  buildUnreadQuery,
+  chatRoomName,
+  directKey,
+  formatChannel,
+  isNewerReadPosition,
+  parseChannelName,
+  MAX_CHANNEL_NAME_LENGTH,
+} from '../../utils/chatChannels.js';
+
+const member = (id, name) => ({ user: { id, name, email: `${id}@example.com` } });
+
+describe('Chat channels', () => {
+  // Test 1: channel names are normalized and rejected when empty or too long
+  test('parseChannelName slugifies names', () => {
+    expect(parseChannelName('  #Design Review! ')).toBe('design-review');
+    expect(parseChannelName('café_team')).toBe('café_team');
+    expect(parseChannelName('!!!')).toBeNull();
+    expect(parseChannelName(42)).toBeNull();
+    expect(parseChannelName('a'.repeat(MAX_CHANNEL_NAME_LENGTH + 1))).toBeNull();
+  });
+
+  // Test 2: a pair of people share one direct conversation per workspace
+  test('directKey ignores who started the conversation', () => {
+    expect(directKey('ws1', ['bob', 'alice'])).toBe(directKey('ws1', ['alice', 'bob']));
+    expect(directKey('ws1', ['alice', 'bob'])).not.toBe(directKey('ws2', ['alice', 'bob']));
+    expect(chatRoomName('Acme', null)).toBe('Acme');
+    expect(chatRoomName('Acme', 'c1')).toBe('chat-channel:c1');
+  });
+
+  // Test 3: unread counts skip the reader's own messages, replies and deletions
+  test('buildUnreadQuery counts newer messages from other people', () => {
+    const since = new Date('2025-01-01T09:00:00Z');
+    expect(buildUnreadQuery({ roomName: 'Acme', channelId: 'c1', userId: 'u1', since })).toEqual({
+      where: {
+        roomName: 'Acme',
+        channelId: 'c1',
+        parentId: null,
+        deletedAt: null,
+        userId: { not: 'u1' },
+        createdAt: { gt: since },
+      },
+    });
+    expect(buildUnreadQuery({ roomName: 'Acme', userId: 'u1', since }).where.channelId).toBeNull();
+  });
+
+  // Test 4: read positions never move backwards
+  test('isNewerReadPosition only accepts later messages', () => {
+    const position = { readAt: new Date('2025-01-01T09:00:00Z') };
+    expect(isNewerReadPosition(null, { createdAt: new Date() })).toBe(true);
+    expect(isNewerReadPosition(position, { createdAt: '2025-01-01T09:05:00Z' })).toBe(true);
+    expect(isNewerReadPosition(position, { createdAt: '2025-01-01T08:55:00Z' })).toBe(false);
+    expect(isNewerReadPosition(position, { createdAt: position.readAt })).toBe(false);
+  });
+
+  // Test 5: direct conversations are shown under the other person's name
+  test('formatChannel names direct conversations after the other member', () => {
+    const direct = {
+      id: 'c1',
+      kind: 'DIRECT',
+      name: null,
+      members: [member('u1', 'Alice'), member('u2', 'Bob')],
+    };
+    expect(formatChannel(direct, 'u1', 3)).toMatchObject({ name: 'Bob', unreadCount: 3 });
+    expect(formatChannel(direct, 'u2').name).toBe('Alice');
+
+    const channel = { ...direct, kind: 'PRIVATE', name: 'design' };
+    expect(formatChannel(channel, 'u1')).toMatchObject({
+      name: 'design',
+      unreadCount: 0,
+      members: [
+        { id: 'u1', name: 'Alice', email: 'u1@example.com' },
+        { id: 'u2', name: 'Bob', email: 'u2@example.com' },
+      ],
+    });
+  });
+});
@@ -0,0 +1,61 @@
+import { parseChatCommand, formatTaskCard } from '../../utils/chatCommands.js';
+
+// Task keys are parsed with utils/taskKeys.js, which loads the database client
+jest.mock('../../db.js', () => {
+  const { mockDeep } = require('jest-mock-extended');
+  return { __esModule: true, default: mockDeep() };
+});
+
+describe('Chat commands', () => {
+  // Test 1: ordinary messages are not commands
+  test('parseChatCommand ignores plain text', () => {
+    expect(parseChatCommand('hello /task')).toBeNull();
+    expect(parseChatCommand('/ not a command')).toBeNull();
+    expect(parseChatCommand('')).toBeNull();
+  });
+
+  // Test 2: /task takes a quoted or bare title plus assignee, priority and project
+  test('parseChatCommand parses /task', () => {
+    expect(parseChatCommand('/task "Fix login" @Alice high')).toEqual({
+      name: 'task',
+      title: 'Fix login',
+      assignee: 'alice',
+      priority: 'HIGH',
+      projectKey: null,
+    });
+    expect(parseChatCommand('/task “Ship it” #pix')).toMatchObject({ title: 'Ship it', projectKey: 'PIX', assignee: null, priority: null });
+    expect(parseChatCommand('/task Fix  the   build low')).toMatchObject({ title: 'Fix the build', priority: 'LOW' });
+    expect(parseChatCommand('/task "High five" medium')).toMatchObject({ title: 'High five', priority: 'MEDIUM' });
+  });
+
+  // Test 3: /task without a title or with two assignees is rejected
+  test('parseChatCommand rejects bad /task usage', () => {
+    expect(parseChatCommand('/task @alice high').error).toMatch(/title/);
+    expect(parseChatCommand('/task "Fix" @alice @bob').error).toMatch(/one assignee/);
+  });
+
+  // Test 4: /status takes an issue key and a status, including two-word ones
+  test('parseChatCommand parses /status', () => {
+    expect(parseChatCommand('/status pix-42 done')).toEqual({ name: 'status', key: 'PIX-42', status: 'DONE' });
+    expect(parseChatCommand('/status PIX-7 in progress')).toMatchObject({ status: 'IN_PROGRESS' });
+    expect(parseChatCommand('/status 42 done').error).toMatch(/Which task/);
+    expect(parseChatCommand('/status PIX-42 finished').error).toMatch(/Unknown status/);
+  });
+
+  // Test 5: /help and unknown commands both ask for help
+  test('parseChatCommand treats other commands as help requests', () => {
+    expect(parseChatCommand('/help')).toEqual({ name: 'help', unknown: null });
+    expect(parseChatCommand('/Giphy cats')).toEqual({ name: 'help', unknown: 'giphy' });
+  });
+
+  // Test 6: cards carry the task summary and assignee
+  test('formatTaskCard summarizes the task', () => {
+    const task = { id: 't1', key: 'PIX-3', title: 'Fix login', status: 'TODO', priority: 'HIGH', projectId: 'p1', description: 'x' };
+    expect(formatTaskCard('created', task, { id: 'u1', name: 'Alice', email: 'alice@example.com' })).toEqual({
+      type: 'task',
+      action: 'created',
+      task: { id: 't1', key: 'PIX-3', title: 'Fix login', status: 'TODO', priority: 'HIGH', projectId: 'p1', assignee: { name: 'Alice', email: 'alice@example.com' } },
+    });
+    expect(formatTaskCard('status', task, null).task.assignee).toBeNull();
+  });
+});
@@ -0,0 +1,96 @@
+import {
+  buildChatPageQuery,
+  toChatPage,
+  formatChatMessage,
+  canDeleteMessage,
+  canEditMessage,
+  isValidReaction,
+  CHAT_PAGE_SIZE,
+  MAX_CHAT_PAGE_SIZE,
+} from '../../utils/chatHistory.js';
+
+// Messages include their task references, which load the database client
+jest.mock('../../db.js', () => {
+  const { mockDeep } = require('jest-mock-extended');
+  return { __esModule: true, default: mockDeep() };
+});
+
+const row = (id, minute) => ({
+  id,
+  message: `Message ${id}`,
+  createdAt: new Date(Date.UTC(2025, 0, 1, 9, minute)),
+  user: { name: 'Alice', email: 'alice@example.com' },
+});
+
+describe('Chat history', () => {
+  // Test 1: the first page is the newest messages, older pages resume after the cursor
+  test('buildChatPageQuery pages backwards from the cursor', () => {
+    const first = buildChatPageQuery('room-1');
+    expect(first).toMatchObject({
+      where: { roomName: 'room-1', channelId: null, parentId: null },
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      take: CHAT_PAGE_SIZE + 1,
+      limit: CHAT_PAGE_SIZE,
+    });
+    expect(first.cursor).toBeUndefined();
+
+    const older = buildChatPageQuery('room-1', { before: 'm7', limit: '1000' });
+    expect(older).toMatchObject({ cursor: { id: 'm7' }, skip: 1, take: MAX_CHAT_PAGE_SIZE + 1 });
+
+    const channel = buildChatPageQuery('room-1', { channelId: 'c1' });
+    expect(channel.where).toEqual({ roomName: 'room-1', channelId: 'c1', parentId: null });
+  });
+
+  // Test 2: pages come back in reading order with the cursor for the next one
+  test('toChatPage trims the extra row and reverses into reading order', () => {
+    const rows = [row('m3', 3), row('m2', 2), row('m1', 1)];
+
+    const page = toChatPage(rows, 2);
+    expect(page.messages.map((message) => message.id)).toEqual(['m2', 'm3']);
+    expect(page.messages[0]).toMatchObject({ id: 'm2', sender: 'Alice', text: 'Message m2', timestamp: rows[1].createdAt });
+    expect(page.nextCursor).toBe('m2');
+
+    expect(toChatPage(rows, 5).nextCursor).toBeNull();
+  });
+
+  // Test 3: reactions are grouped by emoji and deleted messages are blanked
+  test('formatChatMessage summarizes reactions and hides deleted text', () => {
+    const bob = { name: 'Bob', email: 'bob@example.com' };
+    const message = {
+      ...row('m1', 1),
+      parentId: null,
+      editedAt: new Date(),
+      reactions: [
+        { emoji: '👍', user: bob },
+        { emoji: '🎉', user: bob },
+        { emoji: '👍', user: { name: 'Alice', email: 'alice@example.com' } },
+      ],
+      _count: { replies: 2 },
+    };
+
+    const formatted = formatChatMessage(message);
+    expect(formatted.reactions.map((reaction) => [reaction.emoji, reaction.users.length])).toEqual([
+      ['👍', 2],
+      ['🎉', 1],
+    ]);
+    expect(formatted).toMatchObject({ replyCount: 2, deleted: false, senderEmail: 'alice@example.com' });
+
+    const deleted = formatChatMessage({ ...message, deletedAt: new Date() });
+    expect(deleted).toMatchObject({ text: '', deleted: true, reactions: [] });
+  });
+
+  // Test 4: authors edit their own messages; authors and ADMINs delete
+  test('canEditMessage and canDeleteMessage follow authorship and role', () => {
+    const message = { userId: 'u1', deletedAt: null };
+    const author = { id: 'u1' };
+    const other = { id: 'u2' };
+
+    expect(canEditMessage(message, author)).toBe(true);
+    expect(canEditMessage(message, other)).toBe(false);
+    expect(canDeleteMessage(message, other, { role: 'MANAGER' })).toBe(false);
+    expect(canDeleteMessage(message, other, { role: 'ADMIN' })).toBe(true);
+    expect(canDeleteMessage({ ...message, deletedAt: new Date() }, author, null)).toBe(false);
+    expect(isValidReaction('👍')).toBe(true);
+    expect(isValidReaction('lol')).toBe(false);
+  });
+});
@@ -0,0 +1,109 @@
+import mockPrisma from '../../db.js';
+import {
+  extractReferences,
+  resolveReferences,
+  formatReferences,
+  broadcastReferenceUpdate,
+  broadcastReferenceRemoval,
+  findReferenceRooms,
+  MAX_REFERENCES_PER_MESSAGE,
+} from '../../utils/chatReferences.js';
+
+jest.mock('../../db.js', () => {
+  const { mockDeep } = require('jest-mock-extended');
+  return { __esModule: true, default: mockDeep() };
+});
+
+describe('Chat references', () => {
+  // Test 1: keys and app links are found once each, code is ignored
+  test('extractReferences finds issue keys and links', () => {
+    const text = 'PIX-4 is blocked, see https://app.example.com/workspace/acme?task=pix-4 and ?sprint= ' +
+      'https://app.example.com/workspace/acme?sprint=cm1sprint&milestone=cm2mile plus `PIX-9` and DOC-12';
+
+    expect(extractReferences(text)).toEqual([
+      { type: 'task', key: 'PIX-4' },
+      { type: 'sprint', id: 'cm1sprint' },
+      { type: 'milestone', id: 'cm2mile' },
+      { type: 'task', key: 'DOC-12' },
+    ]);
+    expect(extractReferences('https://x.io/w?task=cm9task')).toEqual([{ type: 'task', id: 'cm9task' }]);
+    expect(extractReferences('no references here')).toEqual([]);
+  });
+
+  // Test 2: a message unfurls a limited number of references
+  test('extractReferences caps the number of references', () => {
+    const text = Array.from({ length: 10 }, (_, i) => `PIX-${i + 1}`).join(' ');
+    expect(extractReferences(text)).toHaveLength(MAX_REFERENCES_PER_MESSAGE);
+  });
+
+  // Test 3: only entities in the chat's workspace are kept, once each
+  test('resolveReferences looks up references inside the workspace', async () => {
+    mockPrisma.task.findFirst.mockImplementation(async ({ where }) =>
+      where.number === 4 || where.id === 't4' ? { id: 't4' } : null
+    );
+    mockPrisma.sprint.findFirst.mockResolvedValue({ id: 's1' });
+    mockPrisma.milestone.findFirst.mockResolvedValue(null);
+
+    const resolved = await resolveReferences(
+      [{ type: 'task', key: 'PIX-4' }, { type: 'task', id: 't4' }, { type: 'task', key: 'PIX-5' }, { type: 'sprint', id: 's1' }, { type: 'milestone', id: 'm1' }],
+      'acme'
+    );
+
+    expect(resolved).toEqual([{ taskId: 't4' }, { sprintId: 's1' }]);
+    expect(mockPrisma.task.findFirst.mock.calls[0][0].where).toEqual({
+      number: 4,
+      project: { key: 'PIX', workspace: { name: 'acme' } },
+    });
+  });
+
+  // Test 4: stored references become cards, with task keys and owners
+  test('formatReferences builds cards for each kind', () => {
+    const cards = formatReferences([
+      {
+        task: { id: 't4', number: 4, title: 'Fix login', status: 'TODO', priority: 'HIGH', projectId: 'p1', project: { key: 'PIX' }, assignee: { name: 'Alice', email: 'alice@example.com' } },
+      },
+      { milestone: { id: 'm1', title: 'Beta', status: 'UPCOMING', progress: 40, owner: null } },
+      { task: null },
+    ]);
+
+    expect(cards).toEqual([
+      { type: 'task', id: 't4', key: 'PIX-4', title: 'Fix login', status: 'TODO', priority: 'HIGH', projectId: 'p1', assignee: { name: 'Alice', email: 'alice@example.com' } },
+      { type: 'milestone', id: 'm1', title: 'Beta', status: 'UPCOMING', progress: 40, startDate: null, endDate: null, owner: null },
+    ]);
+  });
+
+  // Test 5: updates go once to every chat that mentioned the entity
+  test('broadcastReferenceUpdate pushes the card to each mentioning chat', async () => {
+    mockPrisma.chatMessageReference.findMany.mockResolvedValue([
+      { message: { roomName: 'acme', channelId: null } },
+      { message: { roomName: 'acme', channelId: null } },
+      { message: { roomName: 'acme', channelId: 'c1' } },
+    ]);
+    mockPrisma.sprint.findUnique.mockResolvedValue({ id: 's1', name: 'Sprint 3', status: 'ACTIVE', progress: 10, owner: null });
+
+    const emit = jest.fn();
+    const io = { to: jest.fn(() => ({ emit })) };
+    await broadcastReferenceUpdate(io, 'sprint', 's1');
+
+    expect(mockPrisma.chatMessageReference.findMany.mock.calls[0][0].where).toEqual({ sprintId: 's1' });
+    expect(io.to.mock.calls.map(([room]) => room)).toEqual(['acme', 'chat-channel:c1']);
+    expect(emit).toHaveBeenCalledWith('reference-updated', expect.objectContaining({ type: 'sprint', id: 's1', title: 'Sprint 3' }));
+  });
+
+  // Test 6: deleted entities are removed from the chats found before the delete
+  test('broadcastReferenceRemoval drops the card in each mentioning chat', async () => {
+    mockPrisma.chatMessageReference.findMany.mockResolvedValue([
+      { message: { roomName: 'acme', channelId: null } },
+      { message: { roomName: 'acme', channelId: 'c1' } },
+    ]);
+
+    const rooms = await findReferenceRooms('task', 't4');
+    const emit = jest.fn();
+    const io = { to: jest.fn(() => ({ emit })) };
+    broadcastReferenceRemoval(io, rooms, 'task', 't4');
+
+    expect(mockPrisma.chatMessageReference.findMany.mock.calls[0][0].where).toEqual({ taskId: 't4' });
+    expect(io.to.mock.calls.map(([room]) => room)).toEqual(['acme', 'chat-channel:c1']);
+    expect(emit).toHaveBeenCalledWith('reference-removed', { type: 'task', id: 't4' });
+  });
+});
@@ -0,0 +1,26 @@
+import { extractMentionHandles, resolveMentions } from '../../utils/mentions.js';
+
+describe('Mention parsing', () => {
+  const members = [
+    { user: { id: 'u1', name: 'Alice Smith', email: 'alice@example.com' } },
+    { user: { id: 'u2', name: 'Bob', email: 'bob.jones@example.com' } },
+  ];
+
+  // Test 1: handles are collected once, without trailing punctuation
+  test('extractMentionHandles finds unique handles', () => {
+    const body = 'Thanks @AliceSmith, can @bob.jones and @alicesmith. review?';
+    expect(extractMentionHandles(body)).toEqual(['alicesmith', 'bob.jones']);
+  });
+
+  // Test 2: emails and code spans are not mentions
+  test('extractMentionHandles ignores plain emails and code', () => {
+    const body = 'Mail jane@example.com or run `npm i @scope/pkg`\n```\n@bob\n```';
+    expect(extractMentionHandles(body)).toEqual([]);
+  });
+
+  // Test 3: handles match names, email local parts and full emails
+  test('resolveMentions matches workspace members', () => {
+    const users = resolveMentions(['alicesmith', 'bob@example.com', 'bob.jones', 'nobody'], members);
+    expect(users.map((u) => u.id)).toEqual(['u1', 'u2']);
+  });
+});
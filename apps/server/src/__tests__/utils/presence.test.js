@@ -0,0 +1,54 @@
+import {
+  presenceColor,
+  listRoomUsers,
+  shouldRelayCursor,
+  summarizePresence,
+  PRESENCE_COLORS,
+  CURSOR_THROTTLE_MS,
+} from '../../utils/presence.js';
+
+describe('Room presence', () => {
+  // Test 1: each user always gets the same color from the palette
+  test('presenceColor is stable per user', () => {
+    expect(presenceColor('alice@example.com')).toBe(presenceColor('alice@example.com'));
+    expect(PRESENCE_COLORS).toContain(presenceColor('bob@example.com'));
+    expect(PRESENCE_COLORS).toContain(presenceColor(undefined));
+  });
+
+  // Test 2: several connections from one user are listed once
+  test('listRoomUsers lists each user once', () => {
+    const alice = { userId: 'alice', name: 'Alice', color: '#F87171' };
+    const bob = { userId: 'bob', name: 'Bob', color: '#60A5FA' };
+    const roomUsers = new Map([
+      ['socket-1', alice],
+      ['socket-2', bob],
+      ['socket-3', { ...alice }],
+    ]);
+
+    expect(listRoomUsers(roomUsers)).toEqual([alice, bob]);
+    expect(listRoomUsers(undefined)).toEqual([]);
+  });
+
+  // Test 3: cursor updates closer together than the throttle are dropped
+  test('shouldRelayCursor throttles updates', () => {
+    expect(shouldRelayCursor(undefined, 1000)).toBe(true);
+    expect(shouldRelayCursor(1000, 1000 + CURSOR_THROTTLE_MS - 1)).toBe(false);
+    expect(shouldRelayCursor(1000, 1000 + CURSOR_THROTTLE_MS)).toBe(true);
+  });
+
+  // Test 4: a person is online if any of their dashboards is
+  test('summarizePresence gives one status per person', () => {
+    const connections = new Map([
+      ['s1', { email: 'alice@example.com', status: 'away' }],
+      ['s2', { email: 'alice@example.com', status: 'online' }],
+      ['s3', { email: 'alice@example.com', status: 'away' }],
+      ['s4', { email: 'bob@example.com', status: 'away' }],
+      ['s5', { email: undefined, status: 'online' }],
+    ]);
+    expect(summarizePresence(connections)).toEqual([
+      { email: 'alice@example.com', status: 'online' },
+      { email: 'bob@example.com', status: 'away' },
+    ]);
+    expect(summarizePresence(undefined)).toEqual([]);
+  });
+});
@@ -0,0 +1,34 @@
+import { buildTsQuery, parseSearchTypes, mergeSearchResults, SEARCH_TYPES } from '../../utils/search.js';
+
+describe('Global search helpers', () => {
+  // Test 1: free text becomes a safe prefix query
+  test('buildTsQuery strips tsquery syntax and adds prefix matching', () => {
+    expect(buildTsQuery('Fix  log-in!')).toBe('fix:* & log:* & in:*');
+    expect(buildTsQuery("') | (drop")).toBe('drop:*');
+    expect(buildTsQuery('  !!  ')).toBeNull();
+  });
+
+  // Test 2: type filters only accept known entity types
+  test('parseSearchTypes defaults to every type and rejects unknown ones', () => {
+    expect(parseSearchTypes(undefined)).toEqual(SEARCH_TYPES);
+    expect(parseSearchTypes('Task, sprint')).toEqual(['task', 'sprint']);
+    expect(parseSearchTypes('task,user')).toBeNull();
+  });
+
+  // Test 3: results from every type are ranked together
+  test('mergeSearchResults orders by rank, then type, then recency', () => {
+    const merged = mergeSearchResults(
+      [
+        [{ id: 't1', type: 'task', rank: 0.2, createdAt: '2025-01-01' }],
+        [
+          { id: 'm1', type: 'message', rank: 0.5, createdAt: '2025-01-01' },
+          { id: 'm2', type: 'message', rank: 0.2, createdAt: '2025-02-01' },
+        ],
+        [{ id: 's1', type: 'sprint', rank: 0.2, createdAt: '2025-01-01' }],
+      ],
+      3
+    );
+
+    expect(merged.map((result) => result.id)).toEqual(['m1', 't1', 's1']);
+  });
+});
@@ -0,0 +1,86 @@
+import mockPrisma from '../../db.js';
+import {
+  validateParentAssignment,
+  withRollups,
+  buildTaskTree,
+  getDescendants,
+} from '../../utils/taskHierarchy.js';
+
+jest.mock('../../db.js', () => {
+  const { mockDeep } = require('jest-mock-extended');
+  return { __esModule: true, default: mockDeep() };
+});
+
+describe('Task hierarchy helpers', () => {
+  const tasks = [
+    { id: 'epic', type: 'EPIC', status: 'IN_PROGRESS', storyPoints: null, parentId: null },
+    { id: 'story', type: 'STORY', status: 'IN_PROGRESS', storyPoints: 8, parentId: 'epic' },
+    { id: 'task-1', type: 'TASK', status: 'DONE', storyPoints: 3, parentId: 'story' },
+    { id: 'task-2', type: 'TASK', status: 'TODO', storyPoints: 2, parentId: 'story' },
+    { id: 'task-3', type: 'TASK', status: 'ARCHIVED', storyPoints: 5, parentId: 'story' },
+  ];
+
+  // Test 1: roll-ups sum leaf story points and progress, skipping archived tasks
+  test('withRollups rolls progress and story points up to parents', () => {
+    const byId = Object.fromEntries(withRollups(tasks).map((t) => [t.id, t]));
+
+    expect(byId['task-1'].rollup).toEqual({ storyPoints: 3, childCount: 0, progress: 100 });
+    expect(byId['story'].rollup).toEqual({ storyPoints: 5, childCount: 2, progress: 50 });
+    expect(byId['epic'].rollup).toEqual({ storyPoints: 5, childCount: 1, progress: 50 });
+  });
+
+  // Test 2: buildTaskTree nests children under the requested root
+  test('buildTaskTree nests descendants under the root', () => {
+    const tree = buildTaskTree(withRollups(tasks), 'epic');
+
+    expect(tree.id).toBe('epic');
+    expect(tree.children.map((c) => c.id)).toEqual(['story']);
+    expect(tree.children[0].children.map((c) => c.id)).toEqual(['task-1', 'task-2', 'task-3']);
+  });
+
+  // Test 3: only allowed child types can be nested
+  test('validateParentAssignment rejects an EPIC under a STORY', async () => {
+    mockPrisma.task.findUnique.mockResolvedValue({
+      id: 'story', type: 'STORY', projectId: 'p1', parentId: 'epic',
+    });
+
+    const result = await validateParentAssignment({
+      parentId: 'story', childType: 'EPIC', projectId: 'p1',
+    });
+
+    expect(result.status).toBe(400);
+  });
+
+  // Test 4: a task cannot be moved under one of its own subtasks
+  test('validateParentAssignment detects cycles', async () => {
+    mockPrisma.task.findUnique
+      .mockResolvedValueOnce({ id: 'task-2', type: 'TASK', projectId: 'p1', parentId: 'task-1' })
+      .mockResolvedValueOnce({ id: 'task-1', parentId: null });
+
+    const result = await validateParentAssignment({
+      taskId: 'task-1', parentId: 'task-2', childType: 'TASK', projectId: 'p1',
+    });
+
+    expect(result.error).toMatch(/cannot be nested under itself/);
+  });
+
+  // Test 5: a page rolls up from its descendants without loading the whole scope
+  test('getDescendants loads the subtree below a page of tasks', async () => {
+    mockPrisma.task.findMany
+      .mockResolvedValueOnce([tasks[1]])
+      .mockResolvedValueOnce([tasks[2], tasks[3], tasks[4]])
+      .mockResolvedValueOnce([]);
+
+    const page = [tasks[0]];
+    const descendants = await getDescendants(page.map((t) => t.id));
+
+    expect(descendants.map((t) => t.id)).toEqual(['story', 'task-1', 'task-2', 'task-3']);
+    expect(mockPrisma.task.findMany).toHaveBeenNthCalledWith(
+      2,
+      expect.objectContaining({ where: { parentId: { in: ['story'] } } })
+    );
+    expect(withRollups(page, [...page, ...descendants])[0].rollup).toEqual({
+      storyPoints: 5, childCount: 1, progress: 50,
+    });
+  });
+});
@@ -0,0 +1,63 @@
+import mockPrisma from '../../db.js';
+import {
+  parseTaskKey,
+  formatTaskKey,
+  generateProjectKey,
+  createKeyedProject,
+} from '../../utils/taskKeys.js';
+
+jest.mock('../../db.js', () => {
+  const { mockDeep } = require('jest-mock-extended');
+  return { __esModule: true, default: mockDeep() };
+});
+
+describe('Task keys', () => {
+  // Test 1: keys round-trip between text and parts
+  test('parseTaskKey and formatTaskKey round-trip', () => {
+    expect(parseTaskKey('pix-42')).toEqual({ projectKey: 'PIX', number: 42 });
+    expect(formatTaskKey('PIX', 42)).toBe('PIX-42');
+    expect(parseTaskKey('cm9x1abc')).toBeNull();
+    expect(formatTaskKey('PIX', null)).toBeNull();
+  });
+
+  // Test 2: project keys skip ones already used in the workspace
+  test('generateProjectKey appends a suffix when the key is taken', async () => {
+    mockPrisma.project.findMany.mockResolvedValue([{ key: 'PIX' }, { key: 'PIX2' }]);
+
+    await expect(generateProjectKey('Pixel bay', 'w1')).resolves.toBe('PIX3');
+  });
+
+  // Test 3: names without letters fall back to a default key
+  test('generateProjectKey strips symbols from the name', async () => {
+    mockPrisma.project.findMany.mockResolvedValue([]);
+
+    await expect(generateProjectKey('#1 app', 'w1')).resolves.toBe('APP');
+    await expect(generateProjectKey('!!!', 'w1')).resolves.toBe('PRJ');
+  });
+
+  // Test 4: a key taken by a concurrent create is regenerated and retried
+  test('createKeyedProject retries when the key was taken meanwhile', async () => {
+    mockPrisma.project.findMany
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce([{ key: 'PIX' }]);
+    mockPrisma.project.create
+      .mockRejectedValueOnce(Object.assign(new Error('Unique constraint'), { code: 'P2002' }))
+      .mockImplementationOnce(({ data }) => Promise.resolve({ id: 'p2', ...data }));
+
+    const project = await createKeyedProject({ name: 'Pixel bay', workspaceId: 'w1' });
+
+    expect(project.key).toBe('PIX2');
+    expect(mockPrisma.project.create).toHaveBeenCalledTimes(2);
+  });
+
+  // Test 5: other errors are not retried
+  test('createKeyedProject rethrows errors other than a taken key', async () => {
+    mockPrisma.project.findMany.mockResolvedValue([]);
+    mockPrisma.project.create.mockRejectedValueOnce(new Error('Connection lost'));
+
+    await expect(createKeyedProject({ name: 'Pixel bay', workspaceId: 'w1' })).rejects.toThrow(
+      'Connection lost'
+    );
+    expect(mockPrisma.project.create).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,40 @@
+import mockPrisma from '../../db.js';
+import { normalizeTaskLink, createsBlockingCycle, withBlockedState } from '../../utils/taskLinks.js';
+
+jest.mock('../../db.js', () => {
+  const { mockDeep } = require('jest-mock-extended');
+  return { __esModule: true, default: mockDeep() };
+});
+
+describe('Task links', () => {
+  // Test 1: "blocked by" is stored as the inverse BLOCKS link
+  test('normalizeTaskLink flips BLOCKED_BY links', () => {
+    expect(normalizeTaskLink('blocked-by', 'a', 'b')).toEqual({ type: 'BLOCKS', sourceId: 'b', targetId: 'a' });
+    expect(normalizeTaskLink('RELATES_TO', 'a', 'b')).toEqual({ type: 'RELATES_TO', sourceId: 'a', targetId: 'b' });
+    expect(normalizeTaskLink('parent', 'a', 'b')).toBeNull();
+  });
+
+  // Test 2: a blocks b, b blocks c, so c cannot block a
+  test('createsBlockingCycle follows existing BLOCKS links', async () => {
+    const edges = { a: ['b'], b: ['c'], c: [] };
+    mockPrisma.taskLink.findMany.mockImplementation(async ({ where }) =>
+      where.sourceId.in.flatMap((id) => edges[id].map((targetId) => ({ targetId })))
+    );
+
+    await expect(createsBlockingCycle('c', 'a')).resolves.toBe(true);
+    await expect(createsBlockingCycle('a', 'c')).resolves.toBe(false);
+  });
+
+  // Test 3: only open blockers count towards the blocked state
+  test('withBlockedState ignores finished blockers', () => {
+    const task = withBlockedState({
+      id: 't1',
+      incomingLinks: [
+        { source: { id: 'x', status: 'IN_PROGRESS' } },
+        { source: { id: 'y', status: 'DONE' } },
+      ],
+    });
+
+    expect(task).toEqual({ id: 't1', blockedBy: ['x'] });
+  });
+});
@@ -0,0 +1,51 @@
+import { buildTaskListQuery, toTaskPage, MAX_PAGE_SIZE } from '../../utils/taskQuery.js';
+
+describe('Task list query', () => {
+  // Test 1: filters combine with the endpoint scope
+  test('buildTaskListQuery builds filters from query parameters', () => {
+    const { where } = buildTaskListQuery(
+      { status: 'todo,IN_PROGRESS', assigneeId: 'me,none', q: 'login', dueFrom: '2025-01-01' },
+      { projectId: 'p1' },
+      'u1'
+    );
+
+    expect(where.AND).toEqual([
+      { projectId: 'p1' },
+      { status: { in: ['TODO', 'IN_PROGRESS'] } },
+      { OR: [{ assigneeId: null }, { assigneeId: { in: ['u1'] } }] },
+      { dueDate: { gte: new Date('2025-01-01'), lte: undefined } },
+      {
+        OR: [
+          { title: { contains: 'login', mode: 'insensitive' } },
+          { description: { contains: 'login', mode: 'insensitive' } },
+        ],
+      },
+    ]);
+  });
+
+  // Test 2: sorting and cursors produce stable pages
+  test('buildTaskListQuery sorts with an id tie-breaker and resumes after the cursor', () => {
+    const args = buildTaskListQuery({ sort: 'priority', order: 'desc', limit: '1000', cursor: 't9' }, {}, 'u1');
+
+    expect(args.orderBy).toEqual([{ priority: 'desc' }, { id: 'asc' }]);
+    expect(args.take).toBe(MAX_PAGE_SIZE + 1);
+    expect(args.cursor).toEqual({ id: 't9' });
+    expect(args.skip).toBe(1);
+  });
+
+  // Test 3: bad parameters are reported instead of ignored
+  test('buildTaskListQuery rejects unknown values', () => {
+    expect(buildTaskListQuery({ status: 'DOING' }, {}, 'u1').error).toBe('Invalid status "DOING"');
+    expect(buildTaskListQuery({ sort: 'password' }, {}, 'u1').error).toBe('Cannot sort by "password"');
+    expect(buildTaskListQuery({ dueTo: 'soon' }, {}, 'u1').error).toBeDefined();
+  });
+
+  // Test 4: the extra row only signals that another page exists
+  test('toTaskPage trims the lookahead row', () => {
+    expect(toTaskPage([{ id: 'a' }, { id: 'b' }, { id: 'c' }], 2)).toEqual({
+      tasks: [{ id: 'a' }, { id: 'b' }],
+      nextCursor: 'b',
+    });
+    expect(toTaskPage([{ id: 'a' }], 2).nextCursor).toBeNull();
+  });
+});
@@ -0,0 +1,195 @@
+import mockPrisma from '../../db.js';
+import {
+  compactActions,
+  getBoard,
+  scheduleSave,
+  releaseBoard,
+  getBoardSnapshot,
+  applyBoardUpdate,
+  boardKey,
+  replaceBoard,
+  SAVE_DEBOUNCE_MS,
+  MAX_CLOCK_AHEAD,
+} from '../../utils/whiteboardStore.js';
+import { createBoardDoc, deleteItems, insertAction, itemId, toActions } from '../../utils/boardDoc.js';
+
+jest.mock('../../db.js', () => {
+  const { mockDeep } = require('jest-mock-extended');
+  return { __esModule: true, default: mockDeep() };
+});
+
+describe('Whiteboard store', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    mockPrisma.room.updateMany.mockResolvedValue({ count: 1 });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  // Test 1: strokes before the last clear are not stored
+  test('compactActions drops everything a clear wiped out', () => {
+    const actions = [{ type: 'start' }, { type: 'clear' }, { type: 'start', x: 1 }, { type: 'draw' }];
+
+    expect(compactActions(actions)).toEqual([{ type: 'start', x: 1 }, { type: 'draw' }]);
+  });
+
+  // Test 2: object edits are folded into the object and deleted objects vanish
+  test('compactActions folds object updates and deletes', () => {
+    const rect = { id: 'a', kind: 'rect', x: 0, y: 0, width: 10, height: 10, color: '#fff', strokeWidth: 2 };
+    const note = { id: 'b', kind: 'sticky', x: 5, y: 5, width: 100, height: 100, color: '#FDE68A', strokeWidth: 1 };
+    const actions = [
+      { type: 'object-add', object: rect },
+      { type: 'start', x: 1 },
+      { type: 'object-add', object: note },
+      { type: 'object-update', id: 'a', changes: { x: 40, color: '#f00' } },
+      { type: 'object-delete', id: 'b' },
+    ];
+
+    expect(compactActions(actions)).toEqual([
+      { type: 'object-add', object: { ...rect, x: 40, color: '#f00' } },
+      { type: 'start', x: 1 },
+    ]);
+  });
+
+  // Test 3: boards are loaded from Room.whiteboardData once
+  test('getBoard loads the saved board the first time a room is used', async () => {
+    mockPrisma.room.findUnique.mockResolvedValue({
+      whiteboardData: { version: 1, actions: [{ type: 'start' }] },
+    });
+
+    const [first, second] = await Promise.all([getBoard('load-room'), getBoard('load-room')]);
+
+    expect(toActions(first)).toEqual([{ type: 'start' }]);
+    expect(second).toBe(first);
+    expect(mockPrisma.room.findUnique).toHaveBeenCalledTimes(1);
+  });
+
+  // Test 4: a burst of changes produces a single write
+  test('scheduleSave debounces writes to the room', async () => {
+    mockPrisma.room.findUnique.mockResolvedValue({ whiteboardData: null });
+    const board = await getBoard('save-room');
+    insertAction(board, { type: 'start' });
+
+    scheduleSave('save-room');
+    scheduleSave('save-room');
+    expect(mockPrisma.room.updateMany).not.toHaveBeenCalled();
+
+    jest.advanceTimersByTime(SAVE_DEBOUNCE_MS);
+    expect(mockPrisma.room.updateMany).toHaveBeenCalledTimes(1);
+    const saved = mockPrisma.room.updateMany.mock.calls[0][0].data.whiteboardData;
+    expect(saved.version).toBe(2);
+    expect(saved.items.map((item) => item.action)).toEqual([{ type: 'start' }]);
+  });
+
+  // Test 5: leaving saves immediately and the snapshot falls back to the database
+  test('releaseBoard saves and forgets the board', async () => {
+    mockPrisma.room.findUnique.mockResolvedValue({ whiteboardData: [{ type: 'draw' }] });
+    await getBoard('leave-room');
+
+    await releaseBoard('leave-room');
+    expect(mockPrisma.room.updateMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { name: 'leave-room' } })
+    );
+
+    const snapshot = await getBoardSnapshot('leave-room');
+    expect(snapshot).toEqual({ actions: [{ type: 'draw' }], updatedAt: null, live: false });
+  });
+
+  // Test 6: clients cannot draw in someone else's name
+  test('applyBoardUpdate stamps the sender and skips known items', async () => {
+    mockPrisma.room.findUnique.mockResolvedValue({ whiteboardData: null });
+    const alice = createBoardDoc('alice');
+    const items = [insertAction(alice, { type: 'start', actionId: 's1', authorId: 'mallory' })];
+
+    const added = await applyBoardUpdate('update-room', items, 'alice@example.com');
+
+    expect(added).toHaveLength(1);
+    expect(added[0].action.authorId).toBe('alice@example.com');
+    expect(await applyBoardUpdate('update-room', items, 'alice@example.com')).toEqual([]);
+  });
+
+  // Test 7: malformed object changes never reach the board
+  test('applyBoardUpdate drops invalid items', async () => {
+    mockPrisma.room.findUnique.mockResolvedValue({ whiteboardData: null });
+    const items = [
+      { client: 'alice', clock: 1, action: { type: 'object-update', changes: {} } },
+      { client: 'alice', clock: 0, action: { type: 'start' } },
+      { client: 'alice', clock: 2, action: { type: 'object-delete', id: 'o1' } },
+    ];
+
+    const added = await applyBoardUpdate('invalid-room', items, 'alice');
+
+    expect(added.map((item) => item.clock)).toEqual([2]);
+  });
+
+  // Test 8: named boards are loaded from and saved to the Whiteboard table
+  test('named boards use their own record and can be replaced', async () => {
+    mockPrisma.whiteboard.findUnique.mockResolvedValue({ data: { version: 1, actions: [{ type: 'start' }] } });
+    mockPrisma.whiteboard.updateMany.mockResolvedValue({ count: 1 });
+    const key = boardKey('room-1', 'b1');
+
+    expect(key).toBe('board:b1');
+    expect(boardKey('room-1')).toBe('room-1');
+    expect(toActions(await getBoard(key))).toEqual([{ type: 'start' }]);
+
+    const items = await replaceBoard(key, [{ type: 'draw', actionId: 's1' }]);
+
+    expect(items.map((item) => item.action.type)).toEqual(['clear', 'draw']);
+    expect(mockPrisma.whiteboard.updateMany).toHaveBeenCalledWith({
+      where: { id: 'b1' },
+      data: { data: expect.objectContaining({ version: 2, items: expect.any(Array) }) },
+    });
+    expect(mockPrisma.room.updateMany).not.toHaveBeenCalled();
+    expect((await getBoardSnapshot(key)).actions).toEqual([{ type: 'draw', actionId: 's1' }]);
+  });
+
+  // Test 9: undo only reaches the sender's own strokes
+  test('applyBoardUpdate drops deletions of other authors\' items', async () => {
+    mockPrisma.room.findUnique.mockResolvedValue({ whiteboardData: null });
+    const alice = createBoardDoc('alice');
+    const bob = createBoardDoc('bob');
+    const aliceStroke = insertAction(alice, { type: 'start', actionId: 'a1' });
+    await applyBoardUpdate('undo-room', [aliceStroke], 'alice@example.com');
+    const bobStroke = insertAction(bob, { type: 'start', actionId: 'b1' });
+    await applyBoardUpdate('undo-room', [bobStroke], 'bob@example.com');
+
+    // Bob tries to erase both strokes; only his own goes
+    bob.clock = 5;
+    const erase = deleteItems(bob, [itemId(aliceStroke), itemId(bobStroke)]);
+    const added = await applyBoardUpdate('undo-room', [erase], 'bob@example.com');
+
+    expect(added).toEqual([{ ...erase, deletes: [itemId(bobStroke)] }]);
+    expect((await getBoardSnapshot('undo-room')).actions.map((action) => action.actionId)).toEqual(['a1']);
+
+    // A deletion aimed only at someone else is dropped entirely
+    const sneaky = deleteItems(bob, [itemId(aliceStroke)]);
+    expect(await applyBoardUpdate('undo-room', [sneaky], 'bob@example.com')).toEqual([]);
+
+    // A stroke and its undo sent together, e.g. after being offline
+    const offline = insertAction(alice, { type: 'start', actionId: 'a2' });
+    const undo = deleteItems(alice, [itemId(offline)]);
+    expect(await applyBoardUpdate('undo-room', [offline, undo], 'alice@example.com')).toHaveLength(2);
+  });
+
+  // Test 10: nobody can send as another client or run the clock out of range
+  test('applyBoardUpdate rejects borrowed client ids and runaway clocks', async () => {
+    mockPrisma.room.findUnique.mockResolvedValue({ whiteboardData: null });
+    const alice = createBoardDoc('alice');
+    const first = insertAction(alice, { type: 'start', actionId: 'a1' });
+    await applyBoardUpdate('spoof-room', [first], 'alice@example.com');
+
+    // Bob takes ids Alice has yet to use; her real stroke must still land
+    const squat = { client: 'alice', clock: 2, action: { type: 'start', actionId: 'b1' } };
+    expect(await applyBoardUpdate('spoof-room', [squat], 'bob@example.com')).toEqual([]);
+    const next = insertAction(alice, { type: 'start', actionId: 'a2' });
+    expect(await applyBoardUpdate('spoof-room', [next], 'alice@example.com')).toHaveLength(1);
+
+    const doc = await getBoard('spoof-room');
+    const huge = { client: 'bob', clock: 1e300, action: { type: 'start', actionId: 'b2' } };
+    const farAhead = { client: 'bob', clock: doc.clock + MAX_CLOCK_AHEAD + 1, action: { type: 'start', actionId: 'b3' } };
+    expect(await applyBoardUpdate('spoof-room', [huge, farAhead], 'bob@example.com')).toEqual([]);
+    expect(doc.clock).toBe(2);
+  });
+});
@@ -0,0 +1,47 @@
+import {
+  noteToTaskFields,
+  parseNotesForTasks,
+  MAX_NOTES_PER_CONVERSION,
+  MAX_NOTE_TITLE_LENGTH,
+} from '../../utils/whiteboardTasks.js';
+
+describe('Whiteboard note conversion', () => {
+  // Test 1: a one-line note becomes just a title
+  test('noteToTaskFields uses a single line as the title', () => {
+    expect(noteToTaskFields('  Fix   login page ')).toEqual({ title: 'Fix login page', description: null });
+  });
+
+  // Test 2: multi-line notes keep their full text as the description
+  test('noteToTaskFields keeps the rest of a multi-line note', () => {
+    expect(noteToTaskFields('Fix login\n\n- check SSO\n')).toEqual({
+      title: 'Fix login',
+      description: 'Fix login\n- check SSO',
+    });
+  });
+
+  // Test 3: long titles are cut and the full text is kept
+  test('noteToTaskFields truncates overlong titles', () => {
+    const text = 'a'.repeat(MAX_NOTE_TITLE_LENGTH + 20);
+    const fields = noteToTaskFields(text);
+
+    expect(fields.title).toHaveLength(MAX_NOTE_TITLE_LENGTH);
+    expect(fields.description).toBe(text);
+    expect(noteToTaskFields('   \n ')).toBeNull();
+  });
+
+  // Test 4: requests are rejected when a note is empty or the batch too large
+  test('parseNotesForTasks validates the notes list', () => {
+    expect(parseNotesForTasks([{ objectId: 'a', text: 'Ship it' }])).toEqual({
+      notes: [{ objectId: 'a', title: 'Ship it', description: null }],
+    });
+    expect(parseNotesForTasks([]).error).toBeDefined();
+    expect(parseNotesForTasks([{ objectId: 'a', text: ' ' }]).error).toBeDefined();
+    expect(parseNotesForTasks([{ text: 'No id' }]).error).toBeDefined();
+
+    const tooMany = Array.from({ length: MAX_NOTES_PER_CONVERSION + 1 }, (_, i) => ({
+      objectId: `n${i}`,
+      text: 'Note',
+    }));
+    expect(parseNotesForTasks(tooMany).error).toBeDefined();
+  });
+});
@@ -0,0 +1,355 @@
+import prisma from "../db.js";
+import {
+  MAX_THUMBNAIL_SIZE,
+  THUMBNAIL_TYPES,
+  IMAGE_TYPES,
+  contentDisposition,
+  formatAttachment,
+  sanitizeFileName,
+  validateUpload,
+} from "../utils/attachments.js";
+import {
+  getAttachmentStorage,
+  newStorageKey,
+} from "../utils/attachmentStorage.js";
+
+const uploaderInclude = { uploader: { select: { name: true, email: true } } };
+
+const loadMembership = (workspaceId, userId) =>
+  prisma.workspaceMember.findUnique({
+    where: { workspaceId_userId: { workspaceId, userId } },
+  });
+
+/**
+ * Resolve the user and an attachment they may see. Workspace members see
+ * task files and workspace chat files; files in a private channel or direct
+ * conversation need channel membership; files not yet sent in a message are
+ * only visible to their uploader.
+ */
+const loadAttachmentForUser = async (attachmentId, email) => {
+  const user = await prisma.user.findFirst({ where: { email } });
+  if (!user) {
+    return { error: "User not found", status: 404 };
+  }
+
+  const attachment = await prisma.attachment.findUnique({
+    where: { id: attachmentId },
+    include: { message: { select: { channelId: true } } },
+  });
+  if (!attachment) {
+    return { error: "Attachment not found", status: 404 };
+  }
+
+  const membership = await loadMembership(attachment.workspaceId, user.id);
+  const pending = !attachment.taskId && !attachment.messageId;
+  const channelId = attachment.message?.channelId;
+  const inChannel =
+    !channelId ||
+    !!(await prisma.chatChannelMember.findUnique({
+      where: { channelId_userId: { channelId, userId: user.id } },
+    }));
+
+  if (
+    !membership ||
+    !inChannel ||
+    (pending && attachment.uploaderId !== user.id)
+  ) {
+    return { error: "You cannot access this attachment", status: 403 };
+  }
+
+  return { user, attachment, membership };
+};
+
+// Store the uploaded body and record it; the stored file is removed again
+// if the record cannot be written
+const saveUpload = async (req, res, target) => {
+  const { error, status, mimeType } = validateUpload(
+    req.body,
+    req.headers["content-type"]
+  );
+  if (error) {
+    return res.status(status).json({ error });
+  }
+
+  const storage = getAttachmentStorage();
+  const storageKey = newStorageKey("files");
+  await storage.put(storageKey, req.body, mimeType);
+
+  try {
+    const attachment = await prisma.attachment.create({
+      data: {
+        fileName: sanitizeFileName(req.query.name),
+        mimeType,
+        size: req.body.length,
+        storageKey,
+        ...target,
+      },
+      include: uploaderInclude,
+    });
+    res.status(201).json(formatAttachment(attachment));
+  } catch (error) {
+    await storage.remove(storageKey).catch(() => {});
+    throw error;
+  }
+};
+
+// POST /api/attachments/tasks/:taskId?name= - Attach a file to a task. The
+// body is the file itself, sent with its MIME type as the Content-Type.
+export const uploadTaskAttachment = async (req, res) => {
+  try {
+    const { taskId } = req.params;
+    const { emailAddresses } = req.auth;
+    const email = emailAddresses?.[0]?.emailAddress;
+
+    const user = await prisma.user.findFirst({ where: { email } });
+    if (!user) {
+      return res.status(404).json({ error: "User not found" });
+    }
+
+    const task = await prisma.task.findUnique({
+      where: { id: taskId },
+      include: { project: { select: { workspaceId: true } } },
+    });
+    if (!task) {
+      return res.status(404).json({ error: "Task not found" });
+    }
+
+    const workspaceId = task.project.workspaceId;
+    if (!(await loadMembership(workspaceId, user.id))) {
+      return res
+        .status(403)
+        .json({ error: "User is not a member of the task's workspace" });
+    }
+
+    await saveUpload(req, res, {
+      workspaceId,
+      taskId: task.id,
+      uploaderId: user.id,
+    });
+  } catch (error) {
+    console.error("Upload task attachment error:", error);
+    res.status(500).json({ error: "Failed to upload file" });
+  }
+};
+
+// GET /api/attachments/tasks/:taskId - A task's files, oldest first
+export const getTaskAttachments = async (req, res) => {
+  try {
+    const { taskId } = req.params;
+    const { emailAddresses } = req.auth;
+    const email = emailAddresses?.[0]?.emailAddress;
+
+    const user = await prisma.user.findFirst({ where: { email } });
+    if (!user) {
+      return res.status(404).json({ error: "User not found" });
+    }
+
+    const task = await prisma.task.findUnique({
+      where: { id: taskId },
+      include: { project: { select: { workspaceId: true } } },
+    });
+    if (!task) {
+      return res.status(404).json({ error: "Task not found" });
+    }
+
+    if (!(await loadMembership(task.project.workspaceId, user.id))) {
+      return res
+        .status(403)
+        .json({ error: "User is not a member of the task's workspace" });
+    }
+
+    const attachments = await prisma.attachment.findMany({
+      where: { taskId },
+      include: uploaderInclude,
+      orderBy: { createdAt: "asc" },
+    });
+    res.status(200).json(attachments.map(formatAttachment));
+  } catch (error) {
+    console.error("Get task attachments error:", error);
+    res.status(500).json({ error: "Failed to fetch attachments" });
+  }
+};
+
+// POST /api/attachments/chat/:workspaceName?name= - Upload a file for a
+// chat message. It stays private to the uploader until a message carrying
+// its id is sent.
+export const uploadChatAttachment = async (req, res) => {
+  try {
+    const { workspaceName } = req.params;
+    const { emailAddresses } = req.auth;
+    const email = emailAddresses?.[0]?.emailAddress;
+
+    const user = await prisma.user.findFirst({ where: { email } });
+    if (!user) {
+      return res.status(404).json({ error: "User not found" });
+    }
+
+    const workspace = await prisma.workspace.findUnique({
+      where: { name: workspaceName },
+    });
+    if (!workspace) {
+      return res.status(404).json({ error: "Workspace not found" });
+    }
+
+    if (!(await loadMembership(workspace.id, user.id))) {
+      return res
+        .status(403)
+        .json({ error: "User is not a member of this workspace" });
+    }
+
+    await saveUpload(req, res, {
+      workspaceId: workspace.id,
+      uploaderId: user.id,
+    });
+  } catch (error) {
+    console.error("Upload chat attachment error:", error);
+    res.status(500).json({ error: "Failed to upload file" });
+  }
+};
+
+// GET /api/attachments/:attachmentId - Download a file
+export const downloadAttachment = async (req, res) => {
+  try {
+    const { attachmentId } = req.params;
+    const { emailAddresses } = req.auth;
+    const email = emailAddresses?.[0]?.emailAddress;
+
+    const { error, status, attachment } = await loadAttachmentForUser(
+      attachmentId,
+      email
+    );
+    if (error) {
+      return res.status(status).json({ error });
+    }
+
+    const content = await getAttachmentStorage().read(attachment.storageKey);
+    res.setHeader("Content-Type", attachment.mimeType);
+    res.setHeader(
+      "Content-Disposition",
+      contentDisposition(attachment.fileName, attachment.mimeType)
+    );
+    res.setHeader("X-Content-Type-Options", "nosniff");
+    res.status(200).send(content);
+  } catch (error) {
+    console.error("Download attachment error:", error);
+    res.status(500).json({ error: "Failed to download file" });
+  }
+};
+
+// GET /api/attachments/:attachmentId/thumbnail - An image's small preview
+export const getAttachmentThumbnail = async (req, res) => {
+  try {
+    const { attachmentId } = req.params;
+    const { emailAddresses } = req.auth;
+    const email = emailAddresses?.[0]?.emailAddress;
+
+    const { error, status, attachment } = await loadAttachmentForUser(
+      attachmentId,
+      email
+    );
+    if (error) {
+      return res.status(status).json({ error });
+    }
+    if (!attachment.thumbnailKey) {
+      return res.status(404).json({ error: "This file has no thumbnail" });
+    }
+
+    const content = await getAttachmentStorage().read(attachment.thumbnailKey);
+    res.setHeader("Content-Type", attachment.thumbnailType);
+    res.setHeader("X-Content-Type-Options", "nosniff");
+    res.status(200).send(content);
+  } catch (error) {
+    console.error("Get attachment thumbnail error:", error);
+    res.status(500).json({ error: "Failed to fetch thumbnail" });
+  }
+};
+
+// PUT /api/attachments/:attachmentId/thumbnail - Store the preview the
+// uploader's browser made for an image, replacing any earlier one
+export const uploadAttachmentThumbnail = async (req, res) => {
+  try {
+    const { attachmentId } = req.params;
+    const { emailAddresses } = req.auth;
+    const email = emailAddresses?.[0]?.emailAddress;
+
+    const {
+      error: accessError,
+      status: accessStatus,
+      user,
+      attachment,
+    } = await loadAttachmentForUser(attachmentId, email);
+    if (accessError) {
+      return res.status(accessStatus).json({ error: accessError });
+    }
+    if (attachment.uploaderId !== user.id) {
+      return res
+        .status(403)
+        .json({ error: "Only the uploader can set a thumbnail" });
+    }
+    if (!IMAGE_TYPES.includes(attachment.mimeType)) {
+      return res.status(400).json({ error: "Only images have thumbnails" });
+    }
+
+    const { error, status, mimeType } = validateUpload(
+      req.body,
+      req.headers["content-type"],
+      { maxSize: MAX_THUMBNAIL_SIZE, allowedTypes: THUMBNAIL_TYPES }
+    );
+    if (error) {
+      return res.status(status).json({ error });
+    }
+
+    const storage = getAttachmentStorage();
+    const thumbnailKey = newStorageKey("thumbnails");
+    await storage.put(thumbnailKey, req.body, mimeType);
+
+    const updated = await prisma.attachment.update({
+      where: { id: attachment.id },
+      data: { thumbnailKey, thumbnailType: mimeType },
+      include: uploaderInclude,
+    });
+    if (attachment.thumbnailKey) {
+      await storage.remove(attachment.thumbnailKey);
+    }
+
+    res.status(200).json(formatAttachment(updated));
+  } catch (error) {
+    console.error("Upload attachment thumbnail error:", error);
+    res.status(500).json({ error: "Failed to save thumbnail" });
+  }
+};
+
+// DELETE /api/attachments/:attachmentId - The uploader or a workspace ADMIN
+// can remove a file
+export const deleteAttachment = async (req, res) => {
+  try {
+    const { attachmentId } = req.params;
+    const { emailAddresses } = req.auth;
+    const email = emailAddresses?.[0]?.emailAddress;
+
+    const { error, status, user, attachment, membership } =
+      await loadAttachmentForUser(attachmentId, email);
+    if (error) {
+      return res.status(status).json({ error });
+    }
+    if (attachment.uploaderId !== user.id && membership.role !== "ADMIN") {
+      return res
+        .status(403)
+        .json({ error: "You don't have permission to delete this file" });
+    }
+
+    await prisma.attachment.delete({ where: { id: attachment.id } });
+
+    const storage = getAttachmentStorage();
+    await Promise.all(
+      [attachment.storageKey, attachment.thumbnailKey]
+        .filter(Boolean)
+        .map((key) => storage.remove(key))
+    );
+
+    res.status(200).json({ message: "Attachment deleted" });
+  } catch (error) {
+    console.error("Delete attachment error:", error);
+    res.status(500).json({ error: "Failed to delete file" });
+  }
+};
@@ -0,0 +1,341 @@
+import prisma from "../db.js";
+import {
+  buildUnreadQuery,
+  channelInclude,
+  chatRoomName,
+  directKey,
+  formatChannel,
+  parseChannelName,
+} from "../utils/chatChannels.js";
+
+// Resolve the authenticated user and their membership of a workspace by name
+const loadWorkspaceForUser = async (workspaceName, email) => {
+  const user = await prisma.user.findFirst({ where: { email } });
+  if (!user) {
+    return { error: "User not found", status: 404 };
+  }
+
+  const workspace = await prisma.workspace.findUnique({
+    where: { name: workspaceName },
+  });
+  if (!workspace) {
+    return { error: "Workspace not found", status: 404 };
+  }
+
+  const membership = await prisma.workspaceMember.findUnique({
+    where: {
+      workspaceId_userId: { workspaceId: workspace.id, userId: user.id },
+    },
+  });
+  if (!membership) {
+    return { error: "User is not a member of this workspace", status: 403 };
+  }
+
+  return { user, workspace, membership };
+};
+
+// Resolve the authenticated user and a channel they belong to
+const loadChannelForUser = async (channelId, email) => {
+  const user = await prisma.user.findFirst({ where: { email } });
+  if (!user) {
+    return { error: "User not found", status: 404 };
+  }
+
+  const channel = await prisma.chatChannel.findUnique({
+    where: { id: channelId },
+    include: channelInclude,
+  });
+  if (!channel) {
+    return { error: "Channel not found", status: 404 };
+  }
+
+  if (!channel.members.some((member) => member.userId === user.id)) {
+    return { error: "You are not a member of this channel", status: 403 };
+  }
+
+  // Channel memberships are kept when someone leaves the workspace
+  const membership = await prisma.workspaceMember.findUnique({
+    where: {
+      workspaceId_userId: { workspaceId: channel.workspaceId, userId: user.id },
+    },
+  });
+  if (!membership) {
+    return { error: "User is not a member of this workspace", status: 403 };
+  }
+
+  return { user, channel };
+};
+
+// The subset of userIds who belong to the workspace
+const workspaceUserIds = async (workspaceId, userIds) => {
+  const members = await prisma.workspaceMember.findMany({
+    where: { workspaceId, userId: { in: userIds } },
+    select: { userId: true },
+  });
+  return members.map((member) => member.userId);
+};
+
+const parseUserIds = (value) =>
+  Array.isArray(value)
+    ? [...new Set(value.filter((id) => typeof id === "string"))]
+    : [];
+
+// GET /api/chat/:workspaceName/channels - The user's channels and direct
+// conversations, with unread counts for those and the workspace-wide chat
+export const getChannels = async (req, res) => {
+  try {
+    const { workspaceName } = req.params;
+    const { emailAddresses } = req.auth;
+    const email = emailAddresses?.[0]?.emailAddress;
+
+    const { error, status, user, workspace, membership } =
+      await loadWorkspaceForUser(workspaceName, email);
+    if (error) {
+      return res.status(status).json({ error });
+    }
+
+    const memberships = await prisma.chatChannelMember.findMany({
+      where: { userId: user.id, channel: { workspaceId: workspace.id } },
+      include: { channel: { include: channelInclude } },
+      orderBy: { joinedAt: "asc" },
+    });
+
+    // Where the user has read up to in each chat, on any device
+    const positions = await prisma.chatReadPosition.findMany({
+      where: {
+        userId: user.id,
+        chatKey: {
+          in: [
+            chatRoomName(workspace.name, null),
+            ...memberships.map((member) =>
+              chatRoomName(workspace.name, member.channelId)
+            ),
+          ],
+        },
+      },
+    });
+    const readAt = new Map(
+      positions.map((position) => [position.chatKey, position.readAt])
+    );
+
+    const countUnread = (channelId, joinedAt) =>
+      prisma.chatMessage.count(
+        buildUnreadQuery({
+          roomName: workspace.name,
+          channelId,
+          userId: user.id,
+          since:
+            readAt.get(chatRoomName(workspace.name, channelId)) ?? joinedAt,
+        })
+      );
+
+    const [generalUnread, channels] = await Promise.all([
+      countUnread(null, membership.joinedAt),
+      Promise.all(
+        memberships.map(async (member) =>
+          formatChannel(
+            member.channel,
+            user.id,
+            await countUnread(member.channelId, member.joinedAt)
+          )
+        )
+      ),
+    ]);
+
+    res.status(200).json({ general: { unreadCount: generalUnread }, channels });
+  } catch (error) {
+    console.error("Get chat channels error:", error);
+    res.status(500).json({ error: "Failed to fetch channels" });
+  }
+};
+
+// POST /api/chat/:workspaceName/channels - Create an invite-only channel
+export const createChannel = async (req, res) => {
+  try {
+    const { workspaceName } = req.params;
+    const { emailAddresses } = req.auth;
+    const email = emailAddresses?.[0]?.emailAddress;
+
+    const name = parseChannelName(req.body.name);
+    if (!name) {
+      return res.status(400).json({ error: "Channel name is required" });
+    }
+
+    const { error, status, user, workspace } = await loadWorkspaceForUser(
+      workspaceName,
+      email
+    );
+    if (error) {
+      return res.status(status).json({ error });
+    }
+
+    const existing = await prisma.chatChannel.findUnique({
+      where: { workspaceId_name: { workspaceId: workspace.id, name } },
+    });
+    if (existing) {
+      return res
+        .status(409)
+        .json({ error: `A channel named #${name} already exists` });
+    }
+
+    // People outside the workspace cannot be invited
+    const invited = await workspaceUserIds(
+      workspace.id,
+      parseUserIds(req.body.memberIds).filter((id) => id !== user.id)
+    );
+
+    const channel = await prisma.chatChannel.create({
+      data: {
+        kind: "PRIVATE",
+        name,
+        workspaceId: workspace.id,
+        createdById: user.id,
+        members: {
+          create: [user.id, ...invited].map((userId) => ({ userId })),
+        },
+      },
+      include: channelInclude,
+    });
+
+    res.status(201).json(formatChannel(channel, user.id));
+  } catch (error) {
+    console.error("Create chat channel error:", error);
+    res.status(500).json({ error: "Failed to create channel" });
+  }
+};
+
+// POST /api/chat/:workspaceName/direct - Open the direct conversation with
+// another workspace member, starting it if needed
+export const openDirectChannel = async (req, res) => {
+  try {
+    const { workspaceName } = req.params;
+    const { userId: otherUserId } = req.body;
+    const { emailAddresses } = req.auth;
+    const email = emailAddresses?.[0]?.emailAddress;
+
+    const { error, status, user, workspace } = await loadWorkspaceForUser(
+      workspaceName,
+      email
+    );
+    if (error) {
+      return res.status(status).json({ error });
+    }
+
+    if (typeof otherUserId !== "string" || otherUserId === user.id) {
+      return res.status(400).json({ error: "Choose someone else to message" });
+    }
+
+    const [other] = await workspaceUserIds(workspace.id, [otherUserId]);
+    if (!other) {
+      return res
+        .status(404)
+        .json({ error: "That person is not in this workspace" });
+    }
+
+    const key = directKey(workspace.id, [user.id, other]);
+    const channel =
+      (await prisma.chatChannel.findUnique({
+        where: { directKey: key },
+        include: channelInclude,
+      })) ??
+      (await prisma.chatChannel.create({
+        data: {
+          kind: "DIRECT",
+          directKey: key,
+          workspaceId: workspace.id,
+          createdById: user.id,
+          members: { create: [{ userId: user.id }, { userId: other }] },
+        },
+        include: channelInclude,
+      }));
+
+    res.status(200).json(formatChannel(channel, user.id));
+  } catch (error) {
+    console.error("Open direct message error:", error);
+    res.status(500).json({ error: "Failed to open conversation" });
+  }
+};
+
+// POST /api/chat/channels/:channelId/members - Invite people to a channel.
+// Any member can invite other workspace members.
+export const addChannelMembers = async (req, res) => {
+  try {
+    const { channelId } = req.params;
+    const { emailAddresses } = req.auth;
+    const email = emailAddresses?.[0]?.emailAddress;
+
+    const { error, status, user, channel } = await loadChannelForUser(
+      channelId,
+      email
+    );
+    if (error) {
+      return res.status(status).json({ error });
+    }
+
+    if (channel.kind === "DIRECT") {
+      return res
+        .status(400)
+        .json({ error: "Direct messages are between two people" });
+    }
+
+    const current = new Set(channel.members.map((member) => member.userId));
+    const invited = await workspaceUserIds(
+      channel.workspaceId,
+      parseUserIds(req.body.userIds).filter((id) => !current.has(id))
+    );
+    if (invited.length === 0) {
+      return res.status(400).json({ error: "No one new to invite" });
+    }
+
+    await prisma.chatChannelMember.createMany({
+      data: invited.map((userId) => ({ channelId: channel.id, userId })),
+      skipDuplicates: true,
+    });
+
+    const updated = await prisma.chatChannel.findUnique({
+      where: { id: channel.id },
+      include: channelInclude,
+    });
+    res.status(200).json(formatChannel(updated, user.id));
+  } catch (error) {
+    console.error("Add channel members error:", error);
+    res.status(500).json({ error: "Failed to invite members" });
+  }
+};
+
+// DELETE /api/chat/channels/:channelId/members/me - Leave a channel
+export const leaveChannel = async (req, res) => {
+  try {
+    const { channelId } = req.params;
+    const { emailAddresses } = req.auth;
+    const email = emailAddresses?.[0]?.emailAddress;
+
+    const { error, status, user, channel } = await loadChannelForUser(
+      channelId,
+      email
+    );
+    if (error) {
+      return res.status(status).json({ error });
+    }
+
+    if (channel.kind === "DIRECT") {
+      return res
+        .status(400)
+        .json({ error: "You cannot leave a direct conversation" });
+    }
+
+    await prisma.chatChannelMember.delete({
+      where: { channelId_userId: { channelId: channel.id, userId: user.id } },
+    });
+
+    // Nobody left to read it
+    if (channel.members.length === 1) {
+      await prisma.chatChannel.delete({ where: { id: channel.id } });
+    }
+
+    res.status(200).json({ message: "Left channel" });
+  } catch (error) {
+    console.error("Leave channel error:", error);
+    res.status(500).json({ error: "Failed to leave channel" });
+  }
+};
@@ -0,0 +1,349 @@
+import prisma from "../db.js";
+import { extractMentionHandles, resolveMentions } from "../utils/mentions.js";
+
+const commentInclude = {
+  author: { select: { id: true, name: true, email: true } },
+  mentions: { include: { user: { select: { id: true, name: true } } } },
+  _count: { select: { revisions: true } },
+};
+
+// Resolve the authenticated user and check they can see the task
+const loadTaskForUser = async (taskId, email) => {
+  const user = await prisma.user.findFirst({ where: { email } });
+  if (!user) {
+    return { error: "User not found", status: 404 };
+  }
+
+  const task = await prisma.task.findUnique({
+    where: { id: taskId },
+    include: { project: { select: { workspaceId: true } } },
+  });
+  if (!task) {
+    return { error: "Task not found", status: 404 };
+  }
+
+  const workspaceMember = await prisma.workspaceMember.findUnique({
+    where: {
+      workspaceId_userId: {
+        workspaceId: task.project.workspaceId,
+        userId: user.id,
+      },
+    },
+  });
+  if (!workspaceMember) {
+    return {
+      error: "User is not a member of the task's workspace",
+      status: 403,
+    };
+  }
+
+  return { user, task, workspaceMember };
+};
+
+// The author, or a workspace ADMIN or MANAGER
+const canModerateComment = (comment, user, workspaceMember) =>
+  comment.authorId === user.id ||
+  ["ADMIN", "MANAGER"].includes(workspaceMember.role);
+
+// Store the mentions in a comment body and notify newly mentioned members
+const syncMentions = async (comment, task, author) => {
+  const members = await prisma.workspaceMember.findMany({
+    where: { workspaceId: task.project.workspaceId },
+    include: { user: { select: { id: true, name: true, email: true } } },
+  });
+  const mentioned = resolveMentions(
+    extractMentionHandles(comment.body),
+    members
+  ).filter((user) => user.id !== author.id);
+
+  const existing = await prisma.commentMention.findMany({
+    where: { commentId: comment.id },
+    select: { userId: true },
+  });
+  const alreadyMentioned = new Set(existing.map((mention) => mention.userId));
+  const mentionedIds = new Set(mentioned.map((user) => user.id));
+
+  await prisma.commentMention.deleteMany({
+    where: { commentId: comment.id, userId: { notIn: [...mentionedIds] } },
+  });
+
+  for (const user of mentioned) {
+    if (alreadyMentioned.has(user.id)) continue;
+
+    await prisma.commentMention.create({
+      data: { commentId: comment.id, userId: user.id },
+    });
+
+    try {
+      await prisma.notification.create({
+        data: {
+          title: `${author.name || "Someone"} mentioned you on ${task.title}`,
+          content: comment.body.slice(0, 280),
+          userId: user.id,
+          isRead: false,
+        },
+      });
+    } catch (notificationError) {
+      console.error("Failed to create notification:", notificationError);
+    }
+  }
+};
+
+// Get all comments on a task, oldest first; replies carry a parentId
+export const getTaskComments = async (req, res) => {
+  try {
+    const { taskId } = req.params;
+    const { emailAddresses } = req.auth;
+    const email = emailAddresses?.[0]?.emailAddress;
+
+    const { error, status } = await loadTaskForUser(taskId, email);
+    if (error) {
+      return res.status(status).json({ error });
+    }
+
+    const comments = await prisma.taskComment.findMany({
+      where: { taskId },
+      include: commentInclude,
+      orderBy: { createdAt: "asc" },
+    });
+
+    // Deleted comments keep their place in the thread but lose their body
+    res.status(200).json(
+      comments.map((comment) =>
+        comment.deletedAt ? { ...comment, body: "", mentions: [] } : comment
+      )
+    );
+  } catch (error) {
+    console.error("Get comments error:", error);
+    res.status(500).json({ error: "Failed to fetch comments" });
+  }
+};
+
+export const createComment = async (req, res) => {
+  try {
+    const { taskId } = req.params;
+    const { body, parentId } = req.body;
+    const { emailAddresses } = req.auth;
+    const email = emailAddresses?.[0]?.emailAddress;
+
+    if (!body || !body.trim()) {
+      return res.status(400).json({ error: "Comment body is required" });
+    }
+
+    const { error, status, user, task } = await loadTaskForUser(taskId, email);
+    if (error) {
+      return res.status(status).json({ error });
+    }
+
+    if (parentId) {
+      const parent = await prisma.taskComment.findUnique({
+        where: { id: parentId },
+      });
+      if (!parent || parent.taskId !== taskId) {
+        return res.status(404).json({ error: "Parent comment not found" });
+      }
+      if (parent.deletedAt) {
+        return res
+          .status(400)
+          .json({ error: "Cannot reply to a deleted comment" });
+      }
+    }
+
+    const comment = await prisma.taskComment.create({
+      data: {
+        body: body.trim(),
+        taskId,
+        authorId: user.id,
+        parentId: parentId || null,
+      },
+    });
+
+    await syncMentions(comment, task, user);
+
+    // Log activity for the comment
+    try {
+      await prisma.activity.create({
+        data: {
+          type: "COMMENTED",
+          content: `Commented on task "${task.title}"`,
+          userId: user.id,
+          taskId: task.id,
+        },
+      });
+    } catch (activityError) {
+      console.error("Failed to log activity:", activityError);
+    }
+
+    const created = await prisma.taskComment.findUnique({
+      where: { id: comment.id },
+      include: commentInclude,
+    });
+
+    res.status(201).json(created);
+  } catch (error) {
+    console.error("Create comment error:", error);
+    res.status(500).json({ error: "Failed to create comment" });
+  }
+};
+
+export const updateComment = async (req, res) => {
+  try {
+    const { taskId, commentId } = req.params;
+    const { body } = req.body;
+    const { emailAddresses } = req.auth;
+    const email = emailAddresses?.[0]?.emailAddress;
+
+    if (!body || !body.trim()) {
+      return res.status(400).json({ error: "Comment body is required" });
+    }
+
+    const { error, status, user, task } = await loadTaskForUser(taskId, email);
+    if (error) {
+      return res.status(status).json({ error });
+    }
+
+    const comment = await prisma.taskComment.findUnique({
+      where: { id: commentId },
+    });
+    if (!comment || comment.taskId !== taskId || comment.deletedAt) {
+      return res.status(404).json({ error: "Comment not found" });
+    }
+
+    if (comment.authorId !== user.id) {
+      return res
+        .status(403)
+        .json({ error: "Only the author can edit this comment" });
+    }
+
+    if (comment.body === body.trim()) {
+      const unchanged = await prisma.taskComment.findUnique({
+        where: { id: commentId },
+        include: commentInclude,
+      });
+      return res.status(200).json(unchanged);
+    }
+
+    // Keep the previous body as a revision before overwriting it
+    const updated = await prisma.$transaction(async (tx) => {
+      await tx.taskCommentRevision.create({
+        data: {
+          commentId,
+          body: comment.body,
+          editorId: user.id,
+          action: "EDITED",
+        },
+      });
+      return tx.taskComment.update({
+        where: { id: commentId },
+        data: { body: body.trim(), editedAt: new Date() },
+      });
+    });
+
+    await syncMentions(updated, task, user);
+
+    const result = await prisma.taskComment.findUnique({
+      where: { id: commentId },
+      include: commentInclude,
+    });
+
+    res.status(200).json(result);
+  } catch (error) {
+    console.error("Update comment error:", error);
+    res.status(500).json({ error: "Failed to update comment" });
+  }
+};
+
+// Soft delete: the body is moved into the revision history
+export const deleteComment = async (req, res) => {
+  try {
+    const { taskId, commentId } = req.params;
+    const { emailAddresses } = req.auth;
+    const email = emailAddresses?.[0]?.emailAddress;
+
+    const { error, status, user, workspaceMember } = await loadTaskForUser(
+      taskId,
+      email
+    );
+    if (error) {
+      return res.status(status).json({ error });
+    }
+
+    const comment = await prisma.taskComment.findUnique({
+      where: { id: commentId },
+    });
+    if (!comment || comment.taskId !== taskId || comment.deletedAt) {
+      return res.status(404).json({ error: "Comment not found" });
+    }
+
+    if (!canModerateComment(comment, user, workspaceMember)) {
+      return res
+        .status(403)
+        .json({ error: "You don't have permission to delete this comment" });
+    }
+
+    await prisma.$transaction([
+      prisma.taskCommentRevision.create({
+        data: {
+          commentId,
+          body: comment.body,
+          editorId: user.id,
+          action: "DELETED",
+        },
+      }),
+      prisma.commentMention.deleteMany({ where: { commentId } }),
+      prisma.taskComment.update({
+        where: { id: commentId },
+        data: { deletedAt: new Date() },
+      }),
+    ]);
+
+    res.status(200).json({ message: "Comment deleted successfully" });
+  } catch (error) {
+    console.error("Delete comment error:", error);
+    res.status(500).json({ error: "Failed to delete comment" });
+  }
+};
+
+// Edit and delete history of a single comment, newest first. Once the
+// comment is deleted, only its author and ADMINs or MANAGERs see old bodies.
+export const getCommentHistory = async (req, res) => {
+  try {
+    const { taskId, commentId } = req.params;
+    const { emailAddresses } = req.auth;
+    const email = emailAddresses?.[0]?.emailAddress;
+
+    const { error, status, user, workspaceMember } = await loadTaskForUser(
+      taskId,
+      email
+    );
+    if (error) {
+      return res.status(status).json({ error });
+    }
+
+    const comment = await prisma.taskComment.findUnique({
+      where: { id: commentId },
+    });
+    if (!comment || comment.taskId !== taskId) {
+      return res.status(404).json({ error: "Comment not found" });
+    }
+
+    const revisions = await prisma.taskCommentRevision.findMany({
+      where: { commentId },
+      include: { editor: { select: { id: true, name: true } } },
+      orderBy: { createdAt: "desc" },
+    });
+
+    const hideBodies =
+      comment.deletedAt && !canModerateComment(comment, user, workspaceMember);
+    res
+      .status(200)
+      .json(
+        hideBodies
+          ? revisions.map((revision) => ({ ...revision, body: "" }))
+          : revisions
+      );
+  } catch (error) {
+    console.error("Get comment history error:", error);
+    res.status(500).json({ error: "Failed to fetch comment history" });
+  }
+};
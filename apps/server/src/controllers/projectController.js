@@ -1,4 +1,5 @@
 import prisma from '../db.js'
+import { createKeyedProject } from '../utils/taskKeys.js'
 
 export const createProject = async (req, res) => {
     try {
@@ -35,13 +36,10 @@ export const createProject = async (req, res) => {
         return res.status(403).json({ error: 'User is not a member of this workspace' });
       }
   
-      const project = await prisma.project.create({
-        data: {
-          name,
-          description: description || null,
-          workspaceId,
-          key: name.slice(0, 3).toUpperCase(),
-        },
+      const project = await createKeyedProject({
+        name,
+        description: description || null,
+        workspaceId,
       });
   
       res.status(201).json({ message: 'Project created successfully', project });
@@ -158,6 +156,7 @@ export const getProjectInfo = async(req, res) => {
     const projectData = {
       id: project.id,
       name: project.name,
+      key: project.key,
       description: project.description,
       status: project.status,
       progress: progressPercentage, // Use calculated progress
@@ -1,4 +1,10 @@
 import prisma from "../db.js";
+import { withTaskKey } from "../utils/taskKeys.js";
+import {
+  broadcastReferenceRemoval,
+  broadcastReferenceUpdate,
+  findReferenceRooms,
+} from "../utils/chatReferences.js";
 
 const checkWorkspaceMembership = async (userId, workspaceId) => {
   const workspaceMember = await prisma.workspaceMember.findUnique({
@@ -240,6 +246,17 @@ export const updateMilestone = async (req, res) => {
       },
     });
 
+    // Refresh the card wherever this milestone was mentioned in chat
+    try {
+      await broadcastReferenceUpdate(
+        req.app?.get("io"),
+        "milestone",
+        milestoneId
+      );
+    } catch (broadcastError) {
+      console.error("Failed to update chat cards:", broadcastError);
+    }
+
     res.status(200).json(updatedMilestone);
   } catch (error) {
     console.error("Update milestone error:", error);
@@ -259,10 +276,21 @@ export const deleteMilestone = async (req, res) => {
       return res.status(404).json({ error: "Milestone not found" });
     }
 
+    // Chat mentions go with the milestone, so find where it was mentioned first
+    const mentionRooms = await findReferenceRooms("milestone", milestoneId);
+
     await prisma.milestone.delete({
       where: { id: milestoneId },
     });
 
+    // Remove the card wherever this milestone was mentioned in chat
+    broadcastReferenceRemoval(
+      req.app?.get("io"),
+      mentionRooms,
+      "milestone",
+      milestoneId
+    );
+
     res.status(200).json({ message: "Milestone deleted successfully" });
   } catch (error) {
     console.error("Delete milestone error:", error);
@@ -389,14 +417,12 @@ export const getTasksForMilestone = async (req, res) => {
       },
       include: {
         assignee: { select: { id: true, name: true } },
-        tags: true,
+        tags: { include: { tag: true } },
       },
     });
-    // Generate project keys client-side or here (e.g., "PX-201" from project.key + task.id)
-    const tasksWithKeys = tasks.map((task) => ({
-      ...task,
-      key: `${milestone.project.key}-${task.id}`,
-    }));
+    const tasksWithKeys = tasks.map((task) =>
+      withTaskKey(task, milestone.project.key)
+    );
     res.status(200).json(tasksWithKeys);
   } catch (error) {
     console.error("Get tasks for milestone error:", error);
@@ -0,0 +1,153 @@
+import prisma from "../db.js";
+import { Prisma } from "../../generated/prisma/index.js";
+import {
+  buildTsQuery,
+  parseSearchTypes,
+  mergeSearchResults,
+  DEFAULT_SEARCH_LIMIT,
+  MAX_SEARCH_LIMIT,
+} from "../utils/search.js";
+import { formatTaskKey } from "../utils/taskKeys.js";
+
+// Each query matches the expression indexes created in the
+// full_text_search migration; keep the to_tsvector() calls in sync.
+const searchQueries = {
+  task: (tsQuery, workspaceIds, limit) => prisma.$queryRaw`
+    SELECT t."id", t."title", left(coalesce(t."description", ''), 160) AS "snippet",
+      t."createdAt", t."number", t."projectId", p."key" AS "projectKey",
+      w."name" AS "workspaceName",
+      ts_rank(to_tsvector('english', coalesce(t."title", '') || ' ' || coalesce(t."description", '')),
+        to_tsquery('english', ${tsQuery})) AS "rank"
+    FROM "Task" t
+    JOIN "Project" p ON p."id" = t."projectId"
+    JOIN "Workspace" w ON w."id" = p."workspaceId"
+    WHERE p."workspaceId" IN (${Prisma.join(workspaceIds)})
+      AND to_tsvector('english', coalesce(t."title", '') || ' ' || coalesce(t."description", ''))
+        @@ to_tsquery('english', ${tsQuery})
+    ORDER BY "rank" DESC
+    LIMIT ${limit}`,
+
+  project: (tsQuery, workspaceIds, limit) => prisma.$queryRaw`
+    SELECT p."id", p."name" AS "title", left(coalesce(p."description", ''), 160) AS "snippet",
+      p."createdAt", p."id" AS "projectId", w."name" AS "workspaceName",
+      ts_rank(to_tsvector('english', coalesce(p."name", '') || ' ' || coalesce(p."description", '')),
+        to_tsquery('english', ${tsQuery})) AS "rank"
+    FROM "Project" p
+    JOIN "Workspace" w ON w."id" = p."workspaceId"
+    WHERE p."workspaceId" IN (${Prisma.join(workspaceIds)})
+      AND to_tsvector('english', coalesce(p."name", '') || ' ' || coalesce(p."description", ''))
+        @@ to_tsquery('english', ${tsQuery})
+    ORDER BY "rank" DESC
+    LIMIT ${limit}`,
+
+  sprint: (tsQuery, workspaceIds, limit) => prisma.$queryRaw`
+    SELECT s."id", s."name" AS "title", left(coalesce(s."goal", ''), 160) AS "snippet",
+      s."createdAt", s."projectId", w."name" AS "workspaceName",
+      ts_rank(to_tsvector('english', coalesce(s."name", '') || ' ' || coalesce(s."goal", '')),
+        to_tsquery('english', ${tsQuery})) AS "rank"
+    FROM "Sprint" s
+    JOIN "Project" p ON p."id" = s."projectId"
+    JOIN "Workspace" w ON w."id" = p."workspaceId"
+    WHERE p."workspaceId" IN (${Prisma.join(workspaceIds)})
+      AND to_tsvector('english', coalesce(s."name", '') || ' ' || coalesce(s."goal", ''))
+        @@ to_tsquery('english', ${tsQuery})
+    ORDER BY "rank" DESC
+    LIMIT ${limit}`,
+
+  milestone: (tsQuery, workspaceIds, limit) => prisma.$queryRaw`
+    SELECT m."id", m."title", left(coalesce(m."description", ''), 160) AS "snippet",
+      m."createdAt", m."projectId", w."name" AS "workspaceName",
+      ts_rank(to_tsvector('english', coalesce(m."title", '') || ' ' || coalesce(m."description", '')),
+        to_tsquery('english', ${tsQuery})) AS "rank"
+    FROM "Milestone" m
+    JOIN "Project" p ON p."id" = m."projectId"
+    JOIN "Workspace" w ON w."id" = p."workspaceId"
+    WHERE p."workspaceId" IN (${Prisma.join(workspaceIds)})
+      AND to_tsvector('english', coalesce(m."title", '') || ' ' || coalesce(m."description", ''))
+        @@ to_tsquery('english', ${tsQuery})
+    ORDER BY "rank" DESC
+    LIMIT ${limit}`,
+
+  // Workspace chat lives in the room named after the workspace. Private
+  // channels, direct messages and deleted messages are left out.
+  message: (tsQuery, workspaceIds, limit) => prisma.$queryRaw`
+    SELECT c."id", u."name" AS "title", left(c."message", 160) AS "snippet",
+      c."createdAt", w."name" AS "workspaceName",
+      ts_rank(to_tsvector('english', coalesce(c."message", '')),
+        to_tsquery('english', ${tsQuery})) AS "rank"
+    FROM "ChatMessage" c
+    JOIN "Workspace" w ON w."name" = c."roomName"
+    JOIN "User" u ON u."id" = c."userId"
+    WHERE w."id" IN (${Prisma.join(workspaceIds)})
+      AND c."channelId" IS NULL
+      AND c."deletedAt" IS NULL
+      AND to_tsvector('english', coalesce(c."message", ''))
+        @@ to_tsquery('english', ${tsQuery})
+    ORDER BY "rank" DESC
+    LIMIT ${limit}`,
+};
+
+// GET /api/search?q=login&workspaceName=acme&types=task,sprint&limit=20
+export const search = async (req, res) => {
+  try {
+    const { q, workspaceName, types: typesParam, limit: limitParam } =
+      req.query;
+    const { emailAddresses } = req.auth;
+    const email = emailAddresses?.[0]?.emailAddress;
+
+    const tsQuery = buildTsQuery(q);
+    if (!tsQuery) {
+      return res.status(400).json({ error: "Search query is required" });
+    }
+
+    const types = parseSearchTypes(typesParam);
+    if (!types) {
+      return res.status(400).json({ error: "Unknown search type" });
+    }
+
+    const limit = Math.min(
+      Math.max(parseInt(limitParam, 10) || DEFAULT_SEARCH_LIMIT, 1),
+      MAX_SEARCH_LIMIT
+    );
+
+    const user = await prisma.user.findFirst({ where: { email } });
+    if (!user) {
+      return res.status(404).json({ error: "User not found" });
+    }
+
+    // Only search workspaces the user belongs to
+    const memberships = await prisma.workspaceMember.findMany({
+      where: {
+        userId: user.id,
+        ...(workspaceName ? { workspace: { name: workspaceName } } : {}),
+      },
+      select: { workspaceId: true },
+    });
+    if (memberships.length === 0) {
+      if (workspaceName) {
+        return res
+          .status(403)
+          .json({ error: "User is not a member of this workspace" });
+      }
+      return res.status(200).json({ results: [] });
+    }
+    const workspaceIds = memberships.map((member) => member.workspaceId);
+
+    const groups = await Promise.all(
+      types.map(async (type) => {
+        const rows = await searchQueries[type](tsQuery, workspaceIds, limit);
+        return rows.map(({ number, projectKey, ...row }) => ({
+          ...row,
+          type,
+          rank: Number(row.rank),
+          ...(type === "task" ? { key: formatTaskKey(projectKey, number) } : {}),
+        }));
+      })
+    );
+
+    res.status(200).json({ results: mergeSearchResults(groups, limit) });
+  } catch (error) {
+    console.error("Search error:", error);
+    res.status(500).json({ error: "Search failed" });
+  }
+};
@@ -1,4 +1,10 @@
 import prisma from "../db.js";
+import { createNumberedTask, withTaskKey } from "../utils/taskKeys.js";
+import {
+  broadcastReferenceRemoval,
+  broadcastReferenceUpdate,
+  findReferenceRooms,
+} from "../utils/chatReferences.js";
 
 export const getSprint = async (req, res) => {
   try {
@@ -12,7 +18,7 @@ export const getSprint = async (req, res) => {
         tasks: {
           include: {
             assignee: { select: { id: true, name: true } },
-            tags: true,
+            tags: { include: { tag: true } },
 
             
           },
@@ -24,7 +30,10 @@ export const getSprint = async (req, res) => {
       return res.status(404).json({ error: "Sprint not found" });
     }
 
-    res.status(200).json(sprint);
+    res.status(200).json({
+      ...sprint,
+      tasks: sprint.tasks.map((task) => withTaskKey(task, sprint.project.key)),
+    });
   } catch (error) {
     console.error("Get sprint error:", error);
     res.status(500).json({ error: "Failed to fetch sprint" });
@@ -159,13 +168,22 @@ export const getAllSprints = async (req, res) => {
       },
       include: {
         owner: { select: { id: true, name: true } },
-        tasks: { select: { id: true, title: true, status: true } },
+        tasks: {
+          select: { id: true, title: true, status: true, number: true },
+        },
         project: { select: { id: true, name: true, key: true } },
       },
       orderBy: { createdAt: "desc" },
     });
 
-    return res.status(200).json(sprints);
+    return res.status(200).json(
+      sprints.map((sprint) => ({
+        ...sprint,
+        tasks: sprint.tasks.map((task) =>
+          withTaskKey(task, sprint.project.key)
+        ),
+      }))
+    );
   } catch (error) {
     console.error("Get all sprints error:", error);
     return res.status(500).json({ error: "Failed to fetch sprints" });
@@ -197,6 +215,13 @@ export const updateSprint = async (req, res) => {
       },
     });
 
+    // Refresh the card wherever this sprint was mentioned in chat
+    try {
+      await broadcastReferenceUpdate(req.app?.get("io"), "sprint", sprintId);
+    } catch (broadcastError) {
+      console.error("Failed to update chat cards:", broadcastError);
+    }
+
     res.status(200).json(updatedSprint);
   } catch (error) {
     console.error("Update sprint error:", error);
@@ -216,10 +241,21 @@ export const deleteSprint = async (req, res) => {
       return res.status(404).json({ error: "Sprint not found" });
     }
 
+    // Chat mentions go with the sprint, so find where it was mentioned first
+    const mentionRooms = await findReferenceRooms("sprint", sprintId);
+
     await prisma.sprint.delete({
       where: { id: sprintId },
     });
 
+    // Remove the card wherever this sprint was mentioned in chat
+    broadcastReferenceRemoval(
+      req.app?.get("io"),
+      mentionRooms,
+      "sprint",
+      sprintId
+    );
+
     res.status(200).json({ message: "Sprint deleted successfully" });
   } catch (error) {
     console.error("Delete sprint error:", error);
@@ -288,8 +324,8 @@ export const createTask = async (req, res) => {
     if (sprintId) taskData.sprint = { connect: { id: sprintId } };
     if (assigneeId) taskData.assignee = { connect: { id: assigneeId } };
 
-    const task = await prisma.task.create({ data: taskData });
-    res.status(201).json(task);
+    const task = await createNumberedTask(taskData);
+    res.status(201).json(withTaskKey(task, project.key));
   } catch (error) {
     console.error("Create task error:", error);
     res.status(500).json({ error: "Failed to create task" });
@@ -0,0 +1,301 @@
+import prisma from "../db.js";
+
+const HEX_COLOR = /^#[0-9a-fA-F]{6}$/;
+
+const getMembership = async (userId, workspaceId) =>
+  prisma.workspaceMember.findUnique({
+    where: { workspaceId_userId: { workspaceId, userId } },
+  });
+
+// Resolve the authenticated user and their membership of a workspace by name
+const loadWorkspaceForUser = async (workspaceName, email) => {
+  const user = await prisma.user.findFirst({ where: { email } });
+  if (!user) {
+    return { error: "User not found", status: 404 };
+  }
+
+  const workspace = await prisma.workspace.findUnique({
+    where: { name: workspaceName },
+  });
+  if (!workspace) {
+    return { error: "Workspace not found", status: 404 };
+  }
+
+  const membership = await getMembership(user.id, workspace.id);
+  if (!membership) {
+    return { error: "User is not a member of this workspace", status: 403 };
+  }
+
+  return { user, workspace, membership };
+};
+
+// Resolve the authenticated user and a tag they are allowed to manage
+const loadTagForUser = async (tagId, email) => {
+  const user = await prisma.user.findFirst({ where: { email } });
+  if (!user) {
+    return { error: "User not found", status: 404 };
+  }
+
+  const tag = await prisma.tag.findUnique({ where: { id: tagId } });
+  if (!tag) {
+    return { error: "Tag not found", status: 404 };
+  }
+
+  const membership = await getMembership(user.id, tag.workspaceId);
+  if (!membership) {
+    return { error: "User is not a member of this workspace", status: 403 };
+  }
+
+  if (!["ADMIN", "MANAGER"].includes(membership.role)) {
+    return {
+      error: "Only workspace admins and managers can change tags",
+      status: 403,
+    };
+  }
+
+  return { user, tag, membership };
+};
+
+// Resolve the authenticated user and a task they are a workspace member of
+const loadTaskForUser = async (taskId, email) => {
+  const user = await prisma.user.findFirst({ where: { email } });
+  if (!user) {
+    return { error: "User not found", status: 404 };
+  }
+
+  const task = await prisma.task.findUnique({
+    where: { id: taskId },
+    include: { project: { select: { workspaceId: true } } },
+  });
+  if (!task) {
+    return { error: "Task not found", status: 404 };
+  }
+
+  const membership = await getMembership(user.id, task.project.workspaceId);
+  if (!membership) {
+    return {
+      error: "User is not a member of the task's workspace",
+      status: 403,
+    };
+  }
+
+  return { user, task, membership };
+};
+
+// GET /api/tags/workspace/:workspaceName - List the workspace tag catalog
+export const getWorkspaceTags = async (req, res) => {
+  try {
+    const { workspaceName } = req.params;
+    const { emailAddresses } = req.auth;
+    const email = emailAddresses?.[0]?.emailAddress;
+
+    const { error, status, workspace } = await loadWorkspaceForUser(
+      workspaceName,
+      email
+    );
+    if (error) {
+      return res.status(status).json({ error });
+    }
+
+    const tags = await prisma.tag.findMany({
+      where: { workspaceId: workspace.id },
+      include: { _count: { select: { tasks: true } } },
+      orderBy: { name: "asc" },
+    });
+
+    res.status(200).json(tags);
+  } catch (error) {
+    console.error("Get tags error:", error);
+    res.status(500).json({ error: "Failed to fetch tags" });
+  }
+};
+
+// POST /api/tags/workspace/:workspaceName - Add a tag to the catalog
+export const createTag = async (req, res) => {
+  try {
+    const { workspaceName } = req.params;
+    const { name, color } = req.body;
+    const { emailAddresses } = req.auth;
+    const email = emailAddresses?.[0]?.emailAddress;
+
+    if (!name || !name.trim()) {
+      return res.status(400).json({ error: "Tag name is required" });
+    }
+    if (color && !HEX_COLOR.test(color)) {
+      return res
+        .status(400)
+        .json({ error: "Color must be a hex value such as #10b981" });
+    }
+
+    const { error, status, workspace } = await loadWorkspaceForUser(
+      workspaceName,
+      email
+    );
+    if (error) {
+      return res.status(status).json({ error });
+    }
+
+    const existing = await prisma.tag.findUnique({
+      where: {
+        workspaceId_name: { workspaceId: workspace.id, name: name.trim() },
+      },
+    });
+    if (existing) {
+      return res.status(400).json({ error: "Tag already exists" });
+    }
+
+    const tag = await prisma.tag.create({
+      data: {
+        name: name.trim(),
+        color: color || null,
+        workspaceId: workspace.id,
+      },
+    });
+
+    res.status(201).json(tag);
+  } catch (error) {
+    console.error("Create tag error:", error);
+    res.status(500).json({ error: "Failed to create tag" });
+  }
+};
+
+// PUT /api/tags/:tagId - Rename or recolor a tag
+export const updateTag = async (req, res) => {
+  try {
+    const { tagId } = req.params;
+    const { name, color } = req.body;
+    const { emailAddresses } = req.auth;
+    const email = emailAddresses?.[0]?.emailAddress;
+
+    if (name !== undefined && !name.trim()) {
+      return res.status(400).json({ error: "Tag name cannot be empty" });
+    }
+    if (color && !HEX_COLOR.test(color)) {
+      return res
+        .status(400)
+        .json({ error: "Color must be a hex value such as #10b981" });
+    }
+
+    const { error, status, tag } = await loadTagForUser(tagId, email);
+    if (error) {
+      return res.status(status).json({ error });
+    }
+
+    if (name && name.trim() !== tag.name) {
+      const clash = await prisma.tag.findUnique({
+        where: {
+          workspaceId_name: { workspaceId: tag.workspaceId, name: name.trim() },
+        },
+      });
+      if (clash) {
+        return res.status(400).json({ error: "Tag already exists" });
+      }
+    }
+
+    const updatedTag = await prisma.tag.update({
+      where: { id: tagId },
+      data: {
+        name: name ? name.trim() : undefined,
+        color: color === undefined ? undefined : color || null,
+      },
+    });
+
+    res.status(200).json(updatedTag);
+  } catch (error) {
+    console.error("Update tag error:", error);
+    res.status(500).json({ error: "Failed to update tag" });
+  }
+};
+
+// DELETE /api/tags/:tagId - Remove a tag from the catalog and every task
+export const deleteTag = async (req, res) => {
+  try {
+    const { tagId } = req.params;
+    const { emailAddresses } = req.auth;
+    const email = emailAddresses?.[0]?.emailAddress;
+
+    const { error, status } = await loadTagForUser(tagId, email);
+    if (error) {
+      return res.status(status).json({ error });
+    }
+
+    await prisma.tag.delete({ where: { id: tagId } });
+
+    res.status(200).json({ message: "Tag deleted successfully" });
+  } catch (error) {
+    console.error("Delete tag error:", error);
+    res.status(500).json({ error: "Failed to delete tag" });
+  }
+};
+
+// POST /api/tasks/:taskId/tags - Attach one or more catalog tags to a task
+export const attachTaskTags = async (req, res) => {
+  try {
+    const { taskId } = req.params;
+    const { tagId, tagIds } = req.body;
+    const { emailAddresses } = req.auth;
+    const email = emailAddresses?.[0]?.emailAddress;
+
+    const ids = tagIds || (tagId ? [tagId] : []);
+    if (!Array.isArray(ids) || ids.length === 0) {
+      return res.status(400).json({ error: "At least one tag ID is required" });
+    }
+
+    const { error, status, task } = await loadTaskForUser(taskId, email);
+    if (error) {
+      return res.status(status).json({ error });
+    }
+
+    // Only tags from the task's own workspace can be attached
+    const tags = await prisma.tag.findMany({
+      where: { id: { in: ids }, workspaceId: task.project.workspaceId },
+      select: { id: true },
+    });
+    if (tags.length !== new Set(ids).size) {
+      return res
+        .status(404)
+        .json({ error: "One or more tags were not found in this workspace" });
+    }
+
+    await prisma.taskTag.createMany({
+      data: tags.map((tag) => ({ taskId, tagId: tag.id })),
+      skipDuplicates: true,
+    });
+
+    const taskTags = await prisma.taskTag.findMany({
+      where: { taskId },
+      include: { tag: true },
+    });
+
+    res.status(200).json(taskTags);
+  } catch (error) {
+    console.error("Attach tags error:", error);
+    res.status(500).json({ error: "Failed to attach tags" });
+  }
+};
+
+// DELETE /api/tasks/:taskId/tags/:tagId - Detach a tag from a task
+export const detachTaskTag = async (req, res) => {
+  try {
+    const { taskId, tagId } = req.params;
+    const { emailAddresses } = req.auth;
+    const email = emailAddresses?.[0]?.emailAddress;
+
+    const { error, status } = await loadTaskForUser(taskId, email);
+    if (error) {
+      return res.status(status).json({ error });
+    }
+
+    const { count } = await prisma.taskTag.deleteMany({
+      where: { taskId, tagId },
+    });
+    if (count === 0) {
+      return res.status(404).json({ error: "Tag is not attached to this task" });
+    }
+
+    res.status(200).json({ message: "Tag removed from task" });
+  } catch (error) {
+    console.error("Detach tag error:", error);
+    res.status(500).json({ error: "Failed to remove tag" });
+  }
+};
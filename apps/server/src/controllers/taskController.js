@@ -1,4 +1,51 @@
 import prisma from "../db.js";
+import {
+  ALLOWED_CHILD_TYPES,
+  validateParentAssignment,
+  withRollups,
+  buildTaskTree,
+  getDescendants,
+  getDescendantIds,
+} from "../utils/taskHierarchy.js";
+import { createNumberedTask, parseTaskKey, withTaskKey } from "../utils/taskKeys.js";
+import {
+  blockerInclude,
+  getOpenBlockers,
+  withBlockedState,
+} from "../utils/taskLinks.js";
+import { buildTaskListQuery, toTaskPage } from "../utils/taskQuery.js";
+import {
+  broadcastReferenceRemoval,
+  broadcastReferenceUpdate,
+  findReferenceRooms,
+} from "../utils/chatReferences.js";
+
+const taskListInclude = {
+  assignee: { select: { id: true, name: true } },
+  creator: { select: { id: true, name: true } },
+  tags: { include: { tag: true } },
+  project: { select: { key: true } },
+  ...blockerInclude,
+};
+
+// Run a filtered, sorted, cursor-paginated task list query within `scope`.
+// Roll-ups count every descendant of the page's tasks, not just the page.
+const listTasks = async (query, scope, userId) => {
+  const { error, limit, ...args } = buildTaskListQuery(query, scope, userId);
+  if (error) return { error };
+
+  const rows = await prisma.task.findMany({ ...args, include: taskListInclude });
+  const { tasks, nextCursor } = toTaskPage(rows, limit);
+  const descendants = await getDescendants(tasks.map((task) => task.id));
+
+  return {
+    tasks: withRollups(
+      tasks.map((task) => withBlockedState(withTaskKey(task))),
+      [...tasks, ...descendants]
+    ),
+    nextCursor,
+  };
+};
 
 export const createTask = async (req, res) => {
   try {
@@ -11,6 +58,9 @@ export const createTask = async (req, res) => {
       dueDate,
       status,
       assigneeId,
+      storyPoints,
+      parentId,
+      tagIds,
     } = req.body;
     const { emailAddresses } = req.auth;
     const email = emailAddresses?.[0]?.emailAddress;
@@ -94,21 +144,50 @@ export const createTask = async (req, res) => {
       }
     }
 
-    // Create the task with the workspace name as parentId
-    const task = await prisma.task.create({
-      data: {
+    // Validate the parent task if this is a subtask
+    if (parentId) {
+      const { error, status: errorStatus } = await validateParentAssignment({
+        parentId,
+        childType: type || "TASK",
+        projectId,
+      });
+      if (error) {
+        return res.status(errorStatus).json({ error });
+      }
+    }
+
+    // Only tags from this workspace's catalog can be attached
+    let validTagIds = [];
+    if (Array.isArray(tagIds) && tagIds.length > 0) {
+      const tags = await prisma.tag.findMany({
+        where: { id: { in: tagIds }, workspaceId: workspace.id },
+        select: { id: true },
+      });
+      validTagIds = tags.map((tag) => tag.id);
+    }
+
+    const task = await createNumberedTask(
+      {
         title,
         description: description || null,
         projectId,
         type: type || "TASK",
         priority: priority || "MEDIUM",
         status: status || "TODO",
+        storyPoints: storyPoints ? parseInt(storyPoints) : null,
         dueDate: dueDate ? new Date(dueDate) : null,
         creatorId: user.id,
         assigneeId: assigneeId && assigneeId.trim() !== '' ? assigneeId : null,
-        parentId: workspace.name,
+        parentId: parentId || null,
+        tags: {
+          create: validTagIds.map((tagId) => ({ tagId })),
+        },
       },
-    });
+      {
+        tags: { include: { tag: true } },
+        project: { select: { key: true } },
+      }
+    );
 
     // Log activity for task creation
     try {
@@ -154,7 +233,9 @@ export const createTask = async (req, res) => {
       }
     }
 
-    res.status(201).json({ message: "Task created successfully", task });
+    res
+      .status(201)
+      .json({ message: "Task created successfully", task: withTaskKey(task) });
   } catch (error) {
     console.error("Task creation error:", error);
     res.status(500).json({ error: "Failed to create task" });
@@ -203,16 +284,17 @@ export const getProjectTasks = async (req, res) => {
         .json({ error: "User is not a member of the project’s workspace" });
     }
 
-    // Fetch tasks for the project
-    const tasks = await prisma.task.findMany({
-      where: { projectId },
-      include: {
-        assignee: { select: { id: true, name: true } },
-        creator: { select: { id: true, name: true } },
-      },
-    });
+    // Fetch one page of the project's tasks
+    const { error, tasks, nextCursor } = await listTasks(
+      req.query,
+      { projectId },
+      user.id
+    );
+    if (error) {
+      return res.status(400).json({ error });
+    }
 
-    res.status(200).json(tasks);
+    res.status(200).json({ tasks, nextCursor });
   } catch (error) {
     console.error(error);
     res.status(500).json({ error: "Failed to fetch tasks" });
@@ -293,11 +375,17 @@ export const deleteTask = async (req, res) => {
       console.error("Failed to log activity:", activityError);
     }
 
+    // Chat mentions go with the task, so find where it was mentioned first
+    const mentionRooms = await findReferenceRooms("task", taskId);
+
     // Delete the task
     await prisma.task.delete({
       where: { id: taskId },
     });
 
+    // Remove the card wherever this task was mentioned in chat
+    broadcastReferenceRemoval(req.app?.get("io"), mentionRooms, "task", taskId);
+
     res.status(200).json({ message: "Task deleted successfully" });
   } catch (error) {
     console.error(error);
@@ -347,16 +435,17 @@ export const getTasksByWorkspaceName = async (req, res) => {
         .json({ error: "User is not a member of the workspace" });
     }
 
-    // Fetch tasks where parentId matches the workspace name
-    const tasks = await prisma.task.findMany({
-      where: { parentId: workspaceName },
-      include: {
-        assignee: { select: { id: true, name: true } },
-        creator: { select: { id: true, name: true } },
-      },
-    });
+    // Fetch one page of tasks from every project in the workspace
+    const { error, tasks, nextCursor } = await listTasks(
+      req.query,
+      { project: { workspaceId: workspace.id } },
+      user.id
+    );
+    if (error) {
+      return res.status(400).json({ error });
+    }
 
-    res.status(200).json(tasks);
+    res.status(200).json({ tasks, nextCursor });
   } catch (error) {
     console.error(error);
     res.status(500).json({ error: "Failed to fetch tasks" });
@@ -375,6 +464,9 @@ export const updateTask = async (req, res) => {
       status,
       dueDate,
       assigneeId,
+      storyPoints,
+      parentId,
+      overrideBlockers,
     } = req.body;
     const { emailAddresses } = req.auth;
     const email = emailAddresses?.[0]?.emailAddress;
@@ -432,6 +524,47 @@ export const updateTask = async (req, res) => {
         .json({ error: "You don't have permission to update this task" });
     }
 
+    // Re-parenting (or a type change under the same parent) must keep the
+    // hierarchy valid; `parentId: null` detaches the task
+    const nextParentId = parentId === undefined ? task.parentId : parentId;
+    if (nextParentId && (parentId !== undefined || type)) {
+      const { error, status: errorStatus } = await validateParentAssignment({
+        taskId,
+        parentId: nextParentId,
+        childType: type ?? task.type,
+        projectId: task.projectId,
+      });
+      if (error) {
+        return res.status(errorStatus).json({ error });
+      }
+    }
+
+    // Changing the type must not strand existing subtasks
+    if (type && type !== task.type) {
+      const children = await prisma.task.findMany({
+        where: { parentId: taskId },
+        select: { type: true },
+      });
+      const allowed = ALLOWED_CHILD_TYPES[type] || [];
+      if (children.some((child) => !allowed.includes(child.type))) {
+        return res.status(400).json({
+          error: `A ${type} cannot hold this task's current subtasks`,
+        });
+      }
+    }
+
+    // A task cannot be completed while tasks blocking it are still open,
+    // unless the caller explicitly overrides the check
+    if (status === "DONE" && task.status !== "DONE" && !overrideBlockers) {
+      const blockers = await getOpenBlockers(taskId);
+      if (blockers.length > 0) {
+        return res.status(409).json({
+          error: "This task is blocked by tasks that are not done yet",
+          blockers: blockers.map((blocker) => withTaskKey(blocker)),
+        });
+      }
+    }
+
     // Prepare data for update
     const updatedData = {
       title: title ?? task.title,
@@ -441,13 +574,23 @@ export const updateTask = async (req, res) => {
       status: status ?? task.status,
       dueDate: dueDate ? new Date(dueDate) : task.dueDate,
       assigneeId: assigneeId ?? task.assigneeId,
+      storyPoints:
+        storyPoints === undefined
+          ? task.storyPoints
+          : storyPoints === null || storyPoints === ""
+            ? null
+            : parseInt(storyPoints),
+      parentId: nextParentId || null,
     };
 
     // Update the task
-    const updatedTask = await prisma.task.update({
-      where: { id: taskId },
-      data: updatedData,
-    });
+    const updatedTask = withTaskKey(
+      await prisma.task.update({
+        where: { id: taskId },
+        data: updatedData,
+        include: { project: { select: { key: true } } },
+      })
+    );
 
     // Log activity for task update
     try {
@@ -463,6 +606,13 @@ export const updateTask = async (req, res) => {
       console.error("Failed to log activity:", activityError);
     }
 
+    // Refresh the card wherever this task was mentioned in chat
+    try {
+      await broadcastReferenceUpdate(req.app?.get("io"), "task", taskId);
+    } catch (broadcastError) {
+      console.error("Failed to update chat cards:", broadcastError);
+    }
+
     res.status(200).json({ message: "Task updated successfully", updatedTask });
   } catch (error) {
     console.error(error);
@@ -470,3 +620,160 @@ export const updateTask = async (req, res) => {
   }
 };
 
+// Create a subtask directly under an existing task
+export const createSubtask = async (req, res) => {
+  try {
+    const { taskId } = req.params;
+
+    const parent = await prisma.task.findUnique({
+      where: { id: taskId },
+      select: { id: true, projectId: true },
+    });
+
+    if (!parent) {
+      return res.status(404).json({ error: "Parent task not found" });
+    }
+
+    // The subtask always lives in its parent's project
+    req.body = { ...req.body, projectId: parent.projectId, parentId: parent.id };
+    return createTask(req, res);
+  } catch (error) {
+    console.error("Subtask creation error:", error);
+    res.status(500).json({ error: "Failed to create subtask" });
+  }
+};
+
+// Get a task together with all of its descendants and roll-ups
+export const getTaskTree = async (req, res) => {
+  try {
+    const { taskId } = req.params;
+    const { emailAddresses } = req.auth;
+    const email = emailAddresses?.[0]?.emailAddress;
+
+    // Find user by email
+    const user = await prisma.user.findFirst({
+      where: { email: email },
+    });
+
+    if (!user) {
+      return res.status(404).json({ error: "User not found" });
+    }
+
+    const task = await prisma.task.findUnique({
+      where: { id: taskId },
+      include: {
+        project: {
+          select: { workspaceId: true },
+        },
+      },
+    });
+
+    if (!task) {
+      return res.status(404).json({ error: "Task not found" });
+    }
+
+    // Check if user is a member of the workspace
+    const workspaceMember = await prisma.workspaceMember.findUnique({
+      where: {
+        workspaceId_userId: {
+          workspaceId: task.project.workspaceId,
+          userId: user.id,
+        },
+      },
+    });
+
+    if (!workspaceMember) {
+      return res
+        .status(403)
+        .json({ error: "User is not a member of the task's workspace" });
+    }
+
+    const descendantIds = await getDescendantIds(taskId);
+    const tasks = await prisma.task.findMany({
+      where: { id: { in: [taskId, ...descendantIds] } },
+      include: {
+        assignee: { select: { id: true, name: true } },
+        creator: { select: { id: true, name: true } },
+        tags: { include: { tag: true } },
+        project: { select: { key: true } },
+      },
+      orderBy: { createdAt: "asc" },
+    });
+
+    res
+      .status(200)
+      .json(
+        buildTaskTree(withRollups(tasks.map((task) => withTaskKey(task))), taskId)
+      );
+  } catch (error) {
+    console.error(error);
+    res.status(500).json({ error: "Failed to fetch task tree" });
+  }
+};
+
+// Resolve a human-readable key such as "PIX-42" to a task
+export const getTaskByKey = async (req, res) => {
+  try {
+    const { key } = req.params;
+    const { workspaceName } = req.query;
+    const { emailAddresses } = req.auth;
+    const email = emailAddresses?.[0]?.emailAddress;
+
+    const parsed = parseTaskKey(key);
+    if (!parsed) {
+      return res.status(400).json({ error: "Invalid task key" });
+    }
+
+    // Find user by email
+    const user = await prisma.user.findFirst({
+      where: { email: email },
+    });
+
+    if (!user) {
+      return res.status(404).json({ error: "User not found" });
+    }
+
+    // Project keys are only unique within a workspace, so only look in the
+    // user's workspaces (optionally narrowed to one of them)
+    const tasks = await prisma.task.findMany({
+      where: {
+        number: parsed.number,
+        project: {
+          key: parsed.projectKey,
+          workspace: {
+            members: { some: { userId: user.id } },
+            ...(workspaceName && { name: workspaceName }),
+          },
+        },
+      },
+      include: {
+        assignee: { select: { id: true, name: true } },
+        creator: { select: { id: true, name: true } },
+        tags: { include: { tag: true } },
+        project: {
+          select: {
+            key: true,
+            name: true,
+            workspace: { select: { name: true } },
+          },
+        },
+      },
+    });
+
+    if (tasks.length === 0) {
+      return res.status(404).json({ error: "Task not found" });
+    }
+
+    if (tasks.length > 1) {
+      return res.status(409).json({
+        error: "Task key is ambiguous; pass ?workspaceName= to choose one",
+        workspaces: tasks.map((task) => task.project.workspace.name),
+      });
+    }
+
+    res.status(200).json(withTaskKey(tasks[0]));
+  } catch (error) {
+    console.error(error);
+    res.status(500).json({ error: "Failed to fetch task" });
+  }
+};
@@ -0,0 +1,218 @@
+import prisma from "../db.js";
+import { createsBlockingCycle, normalizeTaskLink } from "../utils/taskLinks.js";
+import { parseTaskKey, withTaskKey } from "../utils/taskKeys.js";
+
+const linkedTaskSelect = {
+  id: true,
+  number: true,
+  title: true,
+  status: true,
+  type: true,
+  project: { select: { key: true } },
+};
+
+// How a stored link reads from the other end, e.g. BLOCKS -> BLOCKED_BY
+const INVERSE_LINK_TYPES = {
+  BLOCKS: "BLOCKED_BY",
+  DUPLICATES: "DUPLICATED_BY",
+  RELATES_TO: "RELATES_TO",
+};
+
+// Resolve the authenticated user and check they can see the task
+const loadTaskForUser = async (taskId, email) => {
+  const user = await prisma.user.findFirst({ where: { email } });
+  if (!user) {
+    return { error: "User not found", status: 404 };
+  }
+
+  const task = await prisma.task.findUnique({
+    where: { id: taskId },
+    include: { project: { select: { workspaceId: true } } },
+  });
+  if (!task) {
+    return { error: "Task not found", status: 404 };
+  }
+
+  const workspaceMember = await prisma.workspaceMember.findUnique({
+    where: {
+      workspaceId_userId: {
+        workspaceId: task.project.workspaceId,
+        userId: user.id,
+      },
+    },
+  });
+  if (!workspaceMember) {
+    return {
+      error: "User is not a member of the task's workspace",
+      status: 403,
+    };
+  }
+
+  return { user, task, workspaceMember };
+};
+
+// Find the other end of a new link by id or key inside the same workspace
+const findLinkTarget = async ({ targetId, targetKey }, workspaceId) => {
+  if (targetId) {
+    return prisma.task.findFirst({
+      where: { id: targetId, project: { workspaceId } },
+      select: { id: true },
+    });
+  }
+
+  const parsed = parseTaskKey(targetKey);
+  if (!parsed) return null;
+  return prisma.task.findFirst({
+    where: {
+      number: parsed.number,
+      project: { key: parsed.projectKey, workspaceId },
+    },
+    select: { id: true },
+  });
+};
+
+// GET /api/tasks/:taskId/links - List links in both directions, phrased
+// from this task's point of view
+export const getTaskLinks = async (req, res) => {
+  try {
+    const { taskId } = req.params;
+    const { emailAddresses } = req.auth;
+    const email = emailAddresses?.[0]?.emailAddress;
+
+    const { error, status } = await loadTaskForUser(taskId, email);
+    if (error) {
+      return res.status(status).json({ error });
+    }
+
+    const links = await prisma.taskLink.findMany({
+      where: { OR: [{ sourceId: taskId }, { targetId: taskId }] },
+      include: {
+        source: { select: linkedTaskSelect },
+        target: { select: linkedTaskSelect },
+      },
+      orderBy: { createdAt: "asc" },
+    });
+
+    res.status(200).json(
+      links.map((link) => {
+        const isOutgoing = link.sourceId === taskId;
+        return {
+          id: link.id,
+          type: isOutgoing ? link.type : INVERSE_LINK_TYPES[link.type],
+          createdAt: link.createdAt,
+          task: withTaskKey(isOutgoing ? link.target : link.source),
+        };
+      })
+    );
+  } catch (error) {
+    console.error("Get task links error:", error);
+    res.status(500).json({ error: "Failed to fetch task links" });
+  }
+};
+
+// POST /api/tasks/:taskId/links - Link this task to another one
+export const createTaskLink = async (req, res) => {
+  try {
+    const { taskId } = req.params;
+    const { type, targetId, targetKey } = req.body;
+    const { emailAddresses } = req.auth;
+    const email = emailAddresses?.[0]?.emailAddress;
+
+    if (!targetId && !targetKey) {
+      return res
+        .status(400)
+        .json({ error: "A target task ID or key is required" });
+    }
+
+    const { error, status, user, task } = await loadTaskForUser(
+      taskId,
+      email
+    );
+    if (error) {
+      return res.status(status).json({ error });
+    }
+
+    const target = await findLinkTarget(
+      { targetId, targetKey },
+      task.project.workspaceId
+    );
+    if (!target) {
+      return res
+        .status(404)
+        .json({ error: "Linked task not found in this workspace" });
+    }
+    if (target.id === taskId) {
+      return res.status(400).json({ error: "A task cannot link to itself" });
+    }
+
+    const link = normalizeTaskLink(type, taskId, target.id);
+    if (!link) {
+      return res.status(400).json({
+        error: "Link type must be BLOCKS, BLOCKED_BY, DUPLICATES or RELATES_TO",
+      });
+    }
+
+    const existing = await prisma.taskLink.findFirst({
+      where:
+        link.type === "RELATES_TO"
+          ? {
+              type: "RELATES_TO",
+              OR: [
+                { sourceId: link.sourceId, targetId: link.targetId },
+                { sourceId: link.targetId, targetId: link.sourceId },
+              ],
+            }
+          : link,
+    });
+    if (existing) {
+      return res.status(400).json({ error: "These tasks are already linked" });
+    }
+
+    if (
+      link.type === "BLOCKS" &&
+      (await createsBlockingCycle(link.sourceId, link.targetId))
+    ) {
+      return res
+        .status(400)
+        .json({ error: "This link would create a blocking cycle" });
+    }
+
+    const created = await prisma.taskLink.create({
+      data: { ...link, createdById: user.id },
+    });
+
+    res.status(201).json(created);
+  } catch (error) {
+    console.error("Create task link error:", error);
+    res.status(500).json({ error: "Failed to create task link" });
+  }
+};
+
+// DELETE /api/tasks/:taskId/links/:linkId - Remove a link from either end
+export const deleteTaskLink = async (req, res) => {
+  try {
+    const { taskId, linkId } = req.params;
+    const { emailAddresses } = req.auth;
+    const email = emailAddresses?.[0]?.emailAddress;
+
+    const { error, status } = await loadTaskForUser(taskId, email);
+    if (error) {
+      return res.status(status).json({ error });
+    }
+
+    const { count } = await prisma.taskLink.deleteMany({
+      where: {
+        id: linkId,
+        OR: [{ sourceId: taskId }, { targetId: taskId }],
+      },
+    });
+    if (count === 0) {
+      return res.status(404).json({ error: "Link not found on this task" });
+    }
+
+    res.status(200).json({ message: "Task link deleted successfully" });
+  } catch (error) {
+    console.error("Delete task link error:", error);
+    res.status(500).json({ error: "Failed to delete task link" });
+  }
+};
@@ -1,14 +1,38 @@
 import prisma from '../db.js'
 
+const authEmail = (req) => req.auth.emailAddresses?.[0]?.emailAddress;
+
+// The signed-in user's own record, or null before their account is created
+const loadCurrentUser = (req) =>
+  prisma.user.findFirst({ where: { email: authEmail(req) } });
+
+// Accounts span every workspace, so only their owner may change or delete
+// one; workspace ADMINs manage members and roles on WorkspaceMember instead
+const authorizeOwnAccount = async (req, userId) => {
+  const actor = await loadCurrentUser(req);
+  if (!actor) {
+    return { error: 'User not found', status: 404 };
+  }
+  if (actor.id !== userId) {
+    return { error: 'You can only change your own account', status: 403 };
+  }
+  return { actor };
+};
+
+const profileSelect = { id: true, name: true, email: true, role: true };
+
+// Whether the signed-in user's own account exists yet; other people's
+// emails are not looked up, so accounts cannot be enumerated
 export const checkUserExists = async (req, res) => {
   try {
     const { email } = req.query;
-    console.log('Checking user with email:', email);
 
     if (!email) {
-      console.log('Email missing in query parameters');
       return res.status(400).json({ error: 'Email parameter is required' });
     }
+    if (email !== authEmail(req)) {
+      return res.status(403).json({ error: 'You can only look up your own account' });
+    }
 
     const user = await prisma.user.findUnique({
       where: { email },
@@ -20,12 +44,11 @@ export const checkUserExists = async (req, res) => {
     });
 
     if (user) {
-      console.log('User found:', user); // Add this to debug
       res.status(200).json({ 
         exists: true, 
-        id: user.id,  // Make sure this is being sent
+        id: user.id,
         name: user.name,
-        hasName: !!user.name // Add this to explicitly check if name exists
+        hasName: !!user.name
       });
     } else {
       res.status(200).json({ exists: false });
@@ -39,20 +62,24 @@ export const checkUserExists = async (req, res) => {
   }
 };
 
+// Users create their own account on first sign-in, always as a MEMBER
 export const createUser = async (req, res) => {
   try {
-    const { email, name, role } = req.body;
-    console.log('Creating user with:', { email, name, role });
+    const { email, name } = req.body;
+    console.log('Creating user with:', { email, name });
 
     if (!email) {
       return res.status(400).json({ error: 'Email is required' });
     }
+    if (email !== authEmail(req)) {
+      return res.status(403).json({ error: 'You can only create your own account' });
+    }
 
     const user = await prisma.user.create({
       data: {
         email,
         name,
-        role: role || 'MEMBER',
+        role: 'MEMBER',
       },
     });
     console.log('User created:', user);
@@ -64,9 +91,23 @@ export const createUser = async (req, res) => {
   }
 };
 
+// Yourself, or someone you share a workspace with
 export const getUser = async (req, res) => {
     try {
       const { id } = req.params;
+
+      const actor = await loadCurrentUser(req);
+      if (!actor) {
+        return res.status(404).json({ error: 'User not found' });
+      }
+      if (actor.id !== id) {
+        const sharesWorkspace = await prisma.workspaceMember.findFirst({
+          where: { userId: actor.id, workspace: { members: { some: { userId: id } } } },
+        });
+        if (!sharesWorkspace) {
+          return res.status(404).json({ error: 'User not found' });
+        }
+      }
   
       const user = await prisma.user.findUnique({
         where: { id },
@@ -87,13 +128,20 @@ export const getUser = async (req, res) => {
     }
   };
 
+// The owner can rename themselves. The email is tied to the sign-in and
+// the role is not changed here.
 export const updateUser = async (req, res) => {
   try {
     const { id } = req.params;
-    const { email, name, role } = req.body;
+    const { name } = req.body;
 
     console.log('Updating user with ID:', id);
-    console.log('Update data:', { email, name, role });
+    console.log('Update data:', { name });
+
+    const { error, status } = await authorizeOwnAccount(req, id);
+    if (error) {
+      return res.status(status).json({ error });
+    }
 
     // First check if user exists
     const existingUser = await prisma.user.findUnique({
@@ -109,9 +157,7 @@ export const updateUser = async (req, res) => {
     const user = await prisma.user.update({
       where: { id },
       data: {
-        email: email || undefined,
         name: name || undefined,
-        role: role || undefined,
       },
     });
 
@@ -127,52 +173,71 @@ export const updateUser = async (req, res) => {
   }
 };
 
-export const updateUserByEmail = async (req, res) => {
+// GET /api/users/me - The signed-in user's profile
+export const getMe = async (req, res) => {
   try {
-    const { email } = req.params;
-    const { name, role } = req.body;
-    
-    console.log('Updating user with email:', email);
-    console.log('Update data:', { name, role });
-
-    // First check if user exists
-    const existingUser = await prisma.user.findUnique({
-      where: { email },
+    const user = await prisma.user.findFirst({
+      where: { email: authEmail(req) },
+      select: profileSelect,
     });
 
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    res.status(200).json(user);
+  } catch (error) {
+    console.error('Error in getMe:', error);
+    res.status(500).json({ error: 'Failed to fetch profile' });
+  }
+};
+
+// PUT /api/users/me - Update the signed-in user's name, creating their
+// account if it does not exist yet
+export const updateMe = async (req, res) => {
+  try {
+    const email = authEmail(req);
+    const name = typeof req.body.name === 'string' ? req.body.name.trim() : '';
+
+    if (!email) {
+      return res.status(400).json({ error: 'Your account has no email address' });
+    }
+    if (!name) {
+      return res.status(400).json({ error: 'Name is required' });
+    }
+
+    const existingUser = await loadCurrentUser(req);
     if (!existingUser) {
       console.log(`User with email ${email} not found, creating new user`);
-      // Create new user if not found
       const newUser = await prisma.user.create({
-        data: {
-          email,
-          name,
-          role: role || 'MEMBER',
-        },
+        data: { email, name, role: 'MEMBER' },
+        select: profileSelect,
       });
       return res.status(201).json({ message: 'User created successfully', user: newUser });
     }
 
-    // Update existing user
     const user = await prisma.user.update({
-      where: { email },
-      data: {
-        name: name || undefined,
-        role: role || undefined,
-      },
+      where: { id: existingUser.id },
+      data: { name },
+      select: profileSelect,
     });
 
-    console.log('User updated successfully:', user);
     res.status(200).json({ message: 'User updated successfully', user });
   } catch (error) {
-    console.error('Error in updateUserByEmail:', error);
-    res.status(500).json({ error: 'Failed to update user', details: error.message });
+    console.error('Error in updateMe:', error);
+    res.status(500).json({ error: 'Failed to update profile' });
   }
 };
 
+// Only the owner can delete an account
 export const deleteUser = async (req, res) => {
     try {
       const { id } = req.params;
+
+      const { error, status } = await authorizeOwnAccount(req, id);
+      if (error) {
+        return res.status(status).json({ error });
+      }
   
       await prisma.user.delete({
         where: { id },
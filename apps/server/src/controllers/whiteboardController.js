@@ -0,0 +1,811 @@
+import prisma from "../db.js";
+import {
+  boardChannel,
+  boardKey,
+  discardBoard,
+  getBoardSnapshot,
+  replaceBoard,
+} from "../utils/whiteboardStore.js";
+import { diffBoards } from "../utils/boardDiff.js";
+import { createNumberedTask, withTaskKey } from "../utils/taskKeys.js";
+import { parseNotesForTasks } from "../utils/whiteboardTasks.js";
+import {
+  EXPORT_FORMATS,
+  renderBoardPdf,
+  renderBoardSvg,
+} from "../utils/boardRender.js";
+
+const EXPORT_CONTENT_TYPES = {
+  SVG: "image/svg+xml",
+  PDF: "application/pdf",
+};
+
+// Fields returned when listing exports; the file itself is fetched separately
+const exportSummarySelect = {
+  id: true,
+  roomName: true,
+  format: true,
+  fileName: true,
+  createdAt: true,
+  taskId: true,
+  milestoneId: true,
+  createdBy: { select: { id: true, name: true, email: true } },
+};
+
+// Resolve the authenticated user and check they belong to the workspace
+// the room is named after
+const loadRoomForUser = async (roomCode, email) => {
+  const user = await prisma.user.findFirst({ where: { email } });
+  if (!user) {
+    return { error: "User not found", status: 404 };
+  }
+
+  const workspace = await prisma.workspace.findUnique({
+    where: { name: roomCode },
+    select: { id: true },
+  });
+  if (!workspace) {
+    return { error: "Room not found", status: 404 };
+  }
+
+  const workspaceMember = await prisma.workspaceMember.findUnique({
+    where: {
+      workspaceId_userId: { workspaceId: workspace.id, userId: user.id },
+    },
+  });
+  if (!workspaceMember) {
+    return { error: "User is not a member of this workspace", status: 403 };
+  }
+
+  return { user, workspace, workspaceMember };
+};
+
+// Longest board or snapshot name
+const MAX_BOARD_NAME_LENGTH = 80;
+
+const boardSelect = {
+  id: true,
+  name: true,
+  createdAt: true,
+  updatedAt: true,
+  createdBy: { select: { id: true, name: true, email: true } },
+};
+
+const snapshotSelect = {
+  id: true,
+  name: true,
+  boardId: true,
+  createdAt: true,
+  createdBy: { select: { id: true, name: true, email: true } },
+};
+
+// Trimmed board or snapshot name, or an error message
+const parseBoardName = (rawName) => {
+  const name = typeof rawName === "string" ? rawName.trim() : "";
+  if (!name) return { error: "Name is required" };
+  if (name.length > MAX_BOARD_NAME_LENGTH) {
+    return {
+      error: `Name must be at most ${MAX_BOARD_NAME_LENGTH} characters`,
+    };
+  }
+  return { name };
+};
+
+// Resolve which board a request is about: a named board of this room, or
+// the room's main board when no boardId is given
+const loadBoardKey = async (roomCode, boardId) => {
+  if (!boardId) return { key: roomCode, board: null };
+
+  const board = await prisma.whiteboard.findUnique({
+    where: { id: boardId },
+    select: { id: true, name: true, roomName: true },
+  });
+  if (!board || board.roomName !== roomCode) {
+    return { error: "Board not found", status: 404 };
+  }
+  return { key: boardKey(roomCode, boardId), board };
+};
+
+const loadSnapshotForRoom = async (roomCode, snapshotId) => {
+  const snapshot = await prisma.whiteboardSnapshot.findUnique({
+    where: { id: snapshotId },
+  });
+  return snapshot && snapshot.roomName === roomCode ? snapshot : null;
+};
+
+// Find the workspace a task or milestone lives in, for export access checks
+const loadExportTarget = async ({ taskId, milestoneId }) => {
+  if (taskId) {
+    const task = await prisma.task.findUnique({
+      where: { id: taskId },
+      select: {
+        id: true,
+        title: true,
+        project: { select: { workspaceId: true } },
+      },
+    });
+    return task && { task, workspaceId: task.project.workspaceId };
+  }
+
+  const milestone = await prisma.milestone.findUnique({
+    where: { id: milestoneId },
+    select: {
+      id: true,
+      title: true,
+      project: { select: { workspaceId: true } },
+    },
+  });
+  return milestone && { milestone, workspaceId: milestone.project.workspaceId };
+};
+
+const isWorkspaceMember = async (workspaceId, userId) =>
+  !!(await prisma.workspaceMember.findUnique({
+    where: { workspaceId_userId: { workspaceId, userId } },
+  }));
+
+// e.g. "design-review-whiteboard-2026-10-19.pdf"
+const exportFileName = (roomCode, format) =>
+  `${roomCode.replace(/[^\w-]+/g, "-")}-whiteboard-${new Date()
+    .toISOString()
+    .slice(0, 10)}.${format.toLowerCase()}`;
+
+const renderBoard = (actions, format) =>
+  format === "PDF"
+    ? renderBoardPdf(actions)
+    : Buffer.from(renderBoardSvg(actions), "utf8");
+
+const sendExportFile = (res, { format, fileName, content }) => {
+  res.setHeader("Content-Type", EXPORT_CONTENT_TYPES[format]);
+  res.setHeader("Content-Disposition", `attachment; filename="${fileName}"`);
+  res.status(200).send(Buffer.from(content));
+};
+
+// GET /api/whiteboards/:roomCode?boardId= - Current board state as an
+// action list; the room's main board unless a boardId is given
+export const getWhiteboardSnapshot = async (req, res) => {
+  try {
+    const { roomCode } = req.params;
+    const { boardId } = req.query;
+    const { emailAddresses } = req.auth;
+    const email = emailAddresses?.[0]?.emailAddress;
+
+    const { error, status } = await loadRoomForUser(roomCode, email);
+    if (error) {
+      return res.status(status).json({ error });
+    }
+
+    const board = await loadBoardKey(roomCode, boardId);
+    if (board.error) {
+      return res.status(board.status).json({ error: board.error });
+    }
+
+    const snapshot = await getBoardSnapshot(board.key);
+    if (!snapshot) {
+      return res.status(404).json({ error: "Room not found" });
+    }
+
+    res.status(200).json({ roomCode, boardId: boardId || null, ...snapshot });
+  } catch (error) {
+    console.error("Get whiteboard snapshot error:", error);
+    res.status(500).json({ error: "Failed to fetch whiteboard" });
+  }
+};
+
+// POST /api/whiteboards/:roomCode/tasks - Turn sticky notes and text boxes
+// into tasks. Body: { projectId, sprintId?, notes: [{ objectId, text }] }.
+// The response maps each note to its task so the board can link back to it.
+export const createTasksFromNotes = async (req, res) => {
+  try {
+    const { roomCode } = req.params;
+    const { projectId, sprintId, notes: rawNotes } = req.body;
+    const { emailAddresses } = req.auth;
+    const email = emailAddresses?.[0]?.emailAddress;
+
+    if (!projectId) {
+      return res.status(400).json({ error: "Project ID is required" });
+    }
+
+    const { error: notesError, notes } = parseNotesForTasks(rawNotes);
+    if (notesError) {
+      return res.status(400).json({ error: notesError });
+    }
+
+    const { error, status, user, workspace } = await loadRoomForUser(
+      roomCode,
+      email
+    );
+    if (error) {
+      return res.status(status).json({ error });
+    }
+
+    const project = await prisma.project.findUnique({
+      where: { id: projectId },
+      select: { id: true, workspaceId: true },
+    });
+    if (!project || project.workspaceId !== workspace.id) {
+      return res
+        .status(404)
+        .json({ error: "Project not found in this workspace" });
+    }
+
+    if (sprintId) {
+      const sprint = await prisma.sprint.findUnique({
+        where: { id: sprintId },
+        select: { projectId: true },
+      });
+      if (!sprint || sprint.projectId !== project.id) {
+        return res
+          .status(400)
+          .json({ error: "Sprint does not belong to the selected project" });
+      }
+    }
+
+    // One at a time so the tasks are numbered in the order they were selected
+    const created = [];
+    for (const note of notes) {
+      const task = await createNumberedTask(
+        {
+          title: note.title,
+          description: note.description,
+          projectId: project.id,
+          sprintId: sprintId || null,
+          type: "TASK",
+          priority: "MEDIUM",
+          status: "TODO",
+          creatorId: user.id,
+        },
+        { project: { select: { key: true } } }
+      );
+      created.push({ objectId: note.objectId, task: withTaskKey(task) });
+    }
+
+    // Log activity for each created task
+    try {
+      await prisma.activity.createMany({
+        data: created.map(({ task }) => ({
+          type: "CREATED",
+          content: `Task "${task.title}" was created from a whiteboard note`,
+          userId: user.id,
+          taskId: task.id,
+        })),
+      });
+    } catch (activityError) {
+      console.error("Failed to log activity:", activityError);
+    }
+
+    res.status(201).json({
+      message: `${created.length} task(s) created`,
+      tasks: created.map(({ objectId, task }) => ({
+        objectId,
+        taskId: task.id,
+        key: task.key,
+        title: task.title,
+      })),
+    });
+  } catch (error) {
+    console.error("Create tasks from notes error:", error);
+    res.status(500).json({ error: "Failed to create tasks from notes" });
+  }
+};
+
+// GET /api/whiteboards/:roomCode/export?format=svg|pdf&boardId= - Download
+// the board rendered on the server from its stored actions
+export const exportWhiteboard = async (req, res) => {
+  try {
+    const { roomCode } = req.params;
+    const { boardId } = req.query;
+    const format = String(req.query.format || "svg").toLowerCase();
+    const { emailAddresses } = req.auth;
+    const email = emailAddresses?.[0]?.emailAddress;
+
+    if (!EXPORT_FORMATS.includes(format)) {
+      return res
+        .status(400)
+        .json({ error: `Format must be one of: ${EXPORT_FORMATS.join(", ")}` });
+    }
+
+    const { error, status } = await loadRoomForUser(roomCode, email);
+    if (error) {
+      return res.status(status).json({ error });
+    }
+
+    const board = await loadBoardKey(roomCode, boardId);
+    if (board.error) {
+      return res.status(board.status).json({ error: board.error });
+    }
+
+    const snapshot = await getBoardSnapshot(board.key);
+    if (!snapshot) {
+      return res.status(404).json({ error: "Room not found" });
+    }
+
+    const exportFormat = format.toUpperCase();
+    sendExportFile(res, {
+      format: exportFormat,
+      fileName: exportFileName(
+        board.board ? `${roomCode}-${board.board.name}` : roomCode,
+        exportFormat
+      ),
+      content: renderBoard(snapshot.actions, exportFormat),
+    });
+  } catch (error) {
+    console.error("Export whiteboard error:", error);
+    res.status(500).json({ error: "Failed to export whiteboard" });
+  }
+};
+
+// POST /api/whiteboards/:roomCode/exports - Render the board and attach it
+// to a task or milestone. Body: { format, boardId?, taskId } or
+// { format, boardId?, milestoneId }
+export const attachWhiteboardExport = async (req, res) => {
+  try {
+    const { roomCode } = req.params;
+    const { taskId, milestoneId, boardId } = req.body;
+    const format = String(req.body.format || "svg").toLowerCase();
+    const { emailAddresses } = req.auth;
+    const email = emailAddresses?.[0]?.emailAddress;
+
+    if (!EXPORT_FORMATS.includes(format)) {
+      return res
+        .status(400)
+        .json({ error: `Format must be one of: ${EXPORT_FORMATS.join(", ")}` });
+    }
+    if (!taskId === !milestoneId) {
+      return res
+        .status(400)
+        .json({ error: "Provide either a task ID or a milestone ID" });
+    }
+
+    const { error, status, user, workspace } = await loadRoomForUser(
+      roomCode,
+      email
+    );
+    if (error) {
+      return res.status(status).json({ error });
+    }
+
+    const target = await loadExportTarget({ taskId, milestoneId });
+    if (!target || target.workspaceId !== workspace.id) {
+      return res.status(404).json({
+        error: `${taskId ? "Task" : "Milestone"} not found in this workspace`,
+      });
+    }
+
+    const board = await loadBoardKey(roomCode, boardId);
+    if (board.error) {
+      return res.status(board.status).json({ error: board.error });
+    }
+
+    const snapshot = await getBoardSnapshot(board.key);
+    if (!snapshot) {
+      return res.status(404).json({ error: "Room not found" });
+    }
+
+    const exportFormat = format.toUpperCase();
+    const boardExport = await prisma.whiteboardExport.create({
+      data: {
+        roomName: roomCode,
+        format: exportFormat,
+        fileName: exportFileName(
+          board.board ? `${roomCode}-${board.board.name}` : roomCode,
+          exportFormat
+        ),
+        content: renderBoard(snapshot.actions, exportFormat),
+        createdById: user.id,
+        taskId: taskId || null,
+        milestoneId: milestoneId || null,
+      },
+      select: exportSummarySelect,
+    });
+
+    if (taskId) {
+      try {
+        await prisma.activity.create({
+          data: {
+            type: "UPDATED",
+            content: `Whiteboard "${boardExport.fileName}" was attached to task "${target.task.title}"`,
+            userId: user.id,
+            taskId,
+          },
+        });
+      } catch (activityError) {
+        console.error("Failed to log activity:", activityError);
+      }
+    }
+
+    res.status(201).json(boardExport);
+  } catch (error) {
+    console.error("Attach whiteboard export error:", error);
+    res.status(500).json({ error: "Failed to attach whiteboard" });
+  }
+};
+
+// GET /api/whiteboards/exports?taskId=|milestoneId= - Boards attached to a
+// task or milestone, newest first
+export const getWhiteboardExports = async (req, res) => {
+  try {
+    const { taskId, milestoneId } = req.query;
+    const { emailAddresses } = req.auth;
+    const email = emailAddresses?.[0]?.emailAddress;
+
+    if (!taskId === !milestoneId) {
+      return res
+        .status(400)
+        .json({ error: "Provide either a task ID or a milestone ID" });
+    }
+
+    const user = await prisma.user.findFirst({ where: { email } });
+    if (!user) {
+      return res.status(404).json({ error: "User not found" });
+    }
+
+    const target = await loadExportTarget({ taskId, milestoneId });
+    if (!target) {
+      return res
+        .status(404)
+        .json({ error: `${taskId ? "Task" : "Milestone"} not found` });
+    }
+    if (!(await isWorkspaceMember(target.workspaceId, user.id))) {
+      return res
+        .status(403)
+        .json({ error: "User is not a member of this workspace" });
+    }
+
+    const exports = await prisma.whiteboardExport.findMany({
+      where: taskId ? { taskId } : { milestoneId },
+      select: exportSummarySelect,
+      orderBy: { createdAt: "desc" },
+    });
+
+    res.status(200).json(exports);
+  } catch (error) {
+    console.error("Get whiteboard exports error:", error);
+    res.status(500).json({ error: "Failed to fetch whiteboard exports" });
+  }
+};
+
+// GET /api/whiteboards/exports/:exportId - Download an attached board
+export const downloadWhiteboardExport = async (req, res) => {
+  try {
+    const { exportId } = req.params;
+    const { emailAddresses } = req.auth;
+    const email = emailAddresses?.[0]?.emailAddress;
+
+    const user = await prisma.user.findFirst({ where: { email } });
+    if (!user) {
+      return res.status(404).json({ error: "User not found" });
+    }
+
+    const boardExport = await prisma.whiteboardExport.findUnique({
+      where: { id: exportId },
+    });
+    if (!boardExport) {
+      return res.status(404).json({ error: "Export not found" });
+    }
+
+    const target = await loadExportTarget(boardExport);
+    if (!target || !(await isWorkspaceMember(target.workspaceId, user.id))) {
+      return res
+        .status(403)
+        .json({ error: "User is not a member of this workspace" });
+    }
+
+    sendExportFile(res, boardExport);
+  } catch (error) {
+    console.error("Download whiteboard export error:", error);
+    res.status(500).json({ error: "Failed to download whiteboard export" });
+  }
+};
+
+// GET /api/whiteboards/:roomCode/boards - The room's named boards, oldest
+// first. The main board is always there and is not listed.
+export const getBoards = async (req, res) => {
+  try {
+    const { roomCode } = req.params;
+    const { emailAddresses } = req.auth;
+    const email = emailAddresses?.[0]?.emailAddress;
+
+    const { error, status } = await loadRoomForUser(roomCode, email);
+    if (error) {
+      return res.status(status).json({ error });
+    }
+
+    const boards = await prisma.whiteboard.findMany({
+      where: { roomName: roomCode },
+      select: boardSelect,
+      orderBy: { createdAt: "asc" },
+    });
+
+    res.status(200).json(boards);
+  } catch (error) {
+    console.error("Get whiteboards error:", error);
+    res.status(500).json({ error: "Failed to fetch whiteboards" });
+  }
+};
+
+// POST /api/whiteboards/:roomCode/boards - Create a named board. Body: { name }
+export const createBoard = async (req, res) => {
+  try {
+    const { roomCode } = req.params;
+    const { emailAddresses } = req.auth;
+    const email = emailAddresses?.[0]?.emailAddress;
+
+    const { error: nameError, name } = parseBoardName(req.body.name);
+    if (nameError) {
+      return res.status(400).json({ error: nameError });
+    }
+
+    const { error, status, user } = await loadRoomForUser(roomCode, email);
+    if (error) {
+      return res.status(status).json({ error });
+    }
+
+    const room = await prisma.room.findUnique({
+      where: { name: roomCode },
+      select: { id: true },
+    });
+    if (!room) {
+      return res.status(404).json({ error: "Room not found" });
+    }
+
+    const existing = await prisma.whiteboard.findUnique({
+      where: { roomName_name: { roomName: roomCode, name } },
+      select: { id: true },
+    });
+    if (existing) {
+      return res
+        .status(409)
+        .json({ error: "A board with this name already exists" });
+    }
+
+    const board = await prisma.whiteboard.create({
+      data: { name, roomName: roomCode, createdById: user.id },
+      select: boardSelect,
+    });
+
+    res.status(201).json(board);
+  } catch (error) {
+    console.error("Create whiteboard error:", error);
+    res.status(500).json({ error: "Failed to create whiteboard" });
+  }
+};
+
+// PATCH /api/whiteboards/:roomCode/boards/:boardId - Rename a board.
+// Body: { name }
+export const renameBoard = async (req, res) => {
+  try {
+    const { roomCode, boardId } = req.params;
+    const { emailAddresses } = req.auth;
+    const email = emailAddresses?.[0]?.emailAddress;
+
+    const { error: nameError, name } = parseBoardName(req.body.name);
+    if (nameError) {
+      return res.status(400).json({ error: nameError });
+    }
+
+    const { error, status } = await loadRoomForUser(roomCode, email);
+    if (error) {
+      return res.status(status).json({ error });
+    }
+
+    const target = await loadBoardKey(roomCode, boardId);
+    if (target.error) {
+      return res.status(target.status).json({ error: target.error });
+    }
+
+    const existing = await prisma.whiteboard.findUnique({
+      where: { roomName_name: { roomName: roomCode, name } },
+      select: { id: true },
+    });
+    if (existing && existing.id !== boardId) {
+      return res
+        .status(409)
+        .json({ error: "A board with this name already exists" });
+    }
+
+    const board = await prisma.whiteboard.update({
+      where: { id: boardId },
+      data: { name },
+      select: boardSelect,
+    });
+
+    res.status(200).json(board);
+  } catch (error) {
+    console.error("Rename whiteboard error:", error);
+    res.status(500).json({ error: "Failed to rename whiteboard" });
+  }
+};
+
+// DELETE /api/whiteboards/:roomCode/boards/:boardId - Delete a named board
+// and its snapshots. Anyone still viewing it is told to leave.
+export const deleteBoard = async (req, res) => {
+  try {
+    const { roomCode, boardId } = req.params;
+    const { emailAddresses } = req.auth;
+    const email = emailAddresses?.[0]?.emailAddress;
+
+    const { error, status } = await loadRoomForUser(roomCode, email);
+    if (error) {
+      return res.status(status).json({ error });
+    }
+
+    const target = await loadBoardKey(roomCode, boardId);
+    if (target.error) {
+      return res.status(target.status).json({ error: target.error });
+    }
+
+    await prisma.whiteboard.delete({ where: { id: boardId } });
+    discardBoard(target.key);
+    req.app
+      .get("io")
+      ?.to(boardChannel(target.key))
+      .emit("whiteboard-deleted", { boardId });
+
+    res.status(200).json({ message: "Board deleted" });
+  } catch (error) {
+    console.error("Delete whiteboard error:", error);
+    res.status(500).json({ error: "Failed to delete whiteboard" });
+  }
+};
+
+// GET /api/whiteboards/:roomCode/snapshots?boardId= - Snapshots of a board,
+// newest first
+export const getSnapshots = async (req, res) => {
+  try {
+    const { roomCode } = req.params;
+    const { boardId } = req.query;
+    const { emailAddresses } = req.auth;
+    const email = emailAddresses?.[0]?.emailAddress;
+
+    const { error, status } = await loadRoomForUser(roomCode, email);
+    if (error) {
+      return res.status(status).json({ error });
+    }
+
+    const snapshots = await prisma.whiteboardSnapshot.findMany({
+      where: { roomName: roomCode, boardId: boardId || null },
+      select: snapshotSelect,
+      orderBy: { createdAt: "desc" },
+    });
+
+    res.status(200).json(snapshots);
+  } catch (error) {
+    console.error("Get whiteboard snapshots error:", error);
+    res.status(500).json({ error: "Failed to fetch snapshots" });
+  }
+};
+
+// POST /api/whiteboards/:roomCode/snapshots - Save the board as it is now
+// under a name. Body: { name, boardId? }
+export const createSnapshot = async (req, res) => {
+  try {
+    const { roomCode } = req.params;
+    const { boardId } = req.body;
+    const { emailAddresses } = req.auth;
+    const email = emailAddresses?.[0]?.emailAddress;
+
+    const { error: nameError, name } = parseBoardName(req.body.name);
+    if (nameError) {
+      return res.status(400).json({ error: nameError });
+    }
+
+    const { error, status, user } = await loadRoomForUser(roomCode, email);
+    if (error) {
+      return res.status(status).json({ error });
+    }
+
+    const board = await loadBoardKey(roomCode, boardId);
+    if (board.error) {
+      return res.status(board.status).json({ error: board.error });
+    }
+
+    const current = await getBoardSnapshot(board.key);
+    if (!current) {
+      return res.status(404).json({ error: "Room not found" });
+    }
+
+    const snapshot = await prisma.whiteboardSnapshot.create({
+      data: {
+        name,
+        roomName: roomCode,
+        boardId: boardId || null,
+        actions: current.actions,
+        createdById: user.id,
+      },
+      select: snapshotSelect,
+    });
+
+    res.status(201).json(snapshot);
+  } catch (error) {
+    console.error("Create whiteboard snapshot error:", error);
+    res.status(500).json({ error: "Failed to create snapshot" });
+  }
+};
+
+// GET /api/whiteboards/:roomCode/snapshots/:snapshotId/diff - What changed
+// on the board between the snapshot and now
+export const diffSnapshot = async (req, res) => {
+  try {
+    const { roomCode, snapshotId } = req.params;
+    const { emailAddresses } = req.auth;
+    const email = emailAddresses?.[0]?.emailAddress;
+
+    const { error, status } = await loadRoomForUser(roomCode, email);
+    if (error) {
+      return res.status(status).json({ error });
+    }
+
+    const snapshot = await loadSnapshotForRoom(roomCode, snapshotId);
+    if (!snapshot) {
+      return res.status(404).json({ error: "Snapshot not found" });
+    }
+
+    const current = await getBoardSnapshot(
+      boardKey(roomCode, snapshot.boardId)
+    );
+    if (!current) {
+      return res.status(404).json({ error: "Board not found" });
+    }
+
+    res.status(200).json({
+      snapshotId: snapshot.id,
+      ...diffBoards(snapshot.actions, current.actions),
+    });
+  } catch (error) {
+    console.error("Diff whiteboard snapshot error:", error);
+    res.status(500).json({ error: "Failed to compare snapshot" });
+  }
+};
+
+// POST /api/whiteboards/:roomCode/snapshots/:snapshotId/restore - Put the
+// board back the way it was in the snapshot. The current state is saved as
+// a snapshot first so the restore itself can be reverted.
+export const restoreSnapshot = async (req, res) => {
+  try {
+    const { roomCode, snapshotId } = req.params;
+    const { emailAddresses } = req.auth;
+    const email = emailAddresses?.[0]?.emailAddress;
+
+    const { error, status, user } = await loadRoomForUser(roomCode, email);
+    if (error) {
+      return res.status(status).json({ error });
+    }
+
+    const snapshot = await loadSnapshotForRoom(roomCode, snapshotId);
+    if (!snapshot) {
+      return res.status(404).json({ error: "Snapshot not found" });
+    }
+
+    const key = boardKey(roomCode, snapshot.boardId);
+    const current = await getBoardSnapshot(key);
+    if (!current) {
+      return res.status(404).json({ error: "Board not found" });
+    }
+
+    const backup = await prisma.whiteboardSnapshot.create({
+      data: {
+        name: `Before restoring "${snapshot.name}"`.slice(
+          0,
+          MAX_BOARD_NAME_LENGTH
+        ),
+        roomName: roomCode,
+        boardId: snapshot.boardId,
+        actions: current.actions,
+        createdById: user.id,
+      },
+      select: snapshotSelect,
+    });
+
+    const actions = Array.isArray(snapshot.actions) ? snapshot.actions : [];
+    const items = await replaceBoard(key, actions);
+    req.app
+      .get("io")
+      ?.to(boardChannel(key))
+      .emit("whiteboard-update", { boardId: snapshot.boardId, items });
+
+    res.status(200).json({ message: "Snapshot restored", backup });
+  } catch (error) {
+    console.error("Restore whiteboard snapshot error:", error);
+    res.status(500).json({ error: "Failed to restore snapshot" });
+  }
+};
@@ -0,0 +1,36 @@
+import { clerkClient, verifyToken } from "@clerk/express";
+import prisma from "../db.js";
+
+/**
+ * Socket.IO counterpart of authMiddleware. Clients send the same Clerk
+ * session token in the handshake's `auth.token`; the connection is refused
+ * unless it verifies and belongs to a known user, who is then kept on
+ * socket.data.user. Events never say who sent them.
+ */
+const socketAuthMiddleware = async (socket, next) => {
+  const token = socket.handshake.auth?.token;
+  if (!token) {
+    return next(new Error("Unauthenticated"));
+  }
+
+  try {
+    const { sub } = await verifyToken(token, {
+      secretKey: process.env.CLERK_SECRET_KEY,
+    });
+    const clerkUser = await clerkClient.users.getUser(sub);
+    const email = clerkUser.emailAddresses?.[0]?.emailAddress;
+
+    const user = email && (await prisma.user.findFirst({ where: { email } }));
+    if (!user) {
+      return next(new Error("User not found"));
+    }
+
+    socket.data.user = user;
+    next();
+  } catch (error) {
+    console.error("Socket authentication error:", error);
+    next(new Error("Unauthenticated"));
+  }
+};
+
+export default socketAuthMiddleware;
@@ -0,0 +1,21 @@
+import express from "express";
+import { formatFileSize } from "../utils/attachments.js";
+
+/**
+ * Read a raw file upload into req.body as a Buffer, whatever its
+ * Content-Type. The file name travels in the ?name= query parameter.
+ * Bodies over `limit` are refused with a JSON 413 like other API errors.
+ */
+export const rawUpload = (limit) => {
+  const parse = express.raw({ type: () => true, limit });
+
+  return (req, res, next) =>
+    parse(req, res, (err) => {
+      if (err?.type === "entity.too.large") {
+        return res
+          .status(413)
+          .json({ error: `Files can be at most ${formatFileSize(limit)}` });
+      }
+      next(err);
+    });
+};
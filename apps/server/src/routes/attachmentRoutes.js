@@ -0,0 +1,59 @@
+import express from "express";
+import {
+  uploadTaskAttachment,
+  getTaskAttachments,
+  uploadChatAttachment,
+  downloadAttachment,
+  getAttachmentThumbnail,
+  uploadAttachmentThumbnail,
+  deleteAttachment,
+} from "../controllers/attachmentController.js";
+import authMiddleware from "../middleware/authMiddleware.js";
+import { rawUpload } from "../middleware/uploadMiddleware.js";
+import {
+  MAX_ATTACHMENT_SIZE,
+  MAX_THUMBNAIL_SIZE,
+} from "../utils/attachments.js";
+
+const router = express.Router();
+
+// Uploads send the file itself as the body, with its MIME type as the
+// Content-Type and its name as ?name=
+
+// POST /api/attachments/tasks/{taskId}?name= - Attach a file to a task
+router.post(
+  "/tasks/:taskId",
+  authMiddleware,
+  rawUpload(MAX_ATTACHMENT_SIZE),
+  uploadTaskAttachment
+);
+
+// GET /api/attachments/tasks/{taskId} - List a task's files
+router.get("/tasks/:taskId", authMiddleware, getTaskAttachments);
+
+// POST /api/attachments/chat/{workspaceName}?name= - Upload a file to send in chat
+router.post(
+  "/chat/:workspaceName",
+  authMiddleware,
+  rawUpload(MAX_ATTACHMENT_SIZE),
+  uploadChatAttachment
+);
+
+// GET /api/attachments/{attachmentId} - Download a file
+router.get("/:attachmentId", authMiddleware, downloadAttachment);
+
+// GET /api/attachments/{attachmentId}/thumbnail - An image's preview
+router.get("/:attachmentId/thumbnail", authMiddleware, getAttachmentThumbnail);
+
+// PUT /api/attachments/{attachmentId}/thumbnail - Store an image's preview
+router.put(
+  "/:attachmentId/thumbnail",
+  authMiddleware,
+  rawUpload(MAX_THUMBNAIL_SIZE),
+  uploadAttachmentThumbnail
+);
+
+// DELETE /api/attachments/{attachmentId} - Remove a file
+router.delete("/:attachmentId", authMiddleware, deleteAttachment);
+
+export default router;
@@ -0,0 +1,28 @@
+import express from "express";
+import {
+  getChannels,
+  createChannel,
+  openDirectChannel,
+  addChannelMembers,
+  leaveChannel,
+} from "../controllers/chatController.js";
+import authMiddleware from "../middleware/authMiddleware.js";
+
+const router = express.Router();
+
+// POST /api/chat/channels/{channelId}/members - Invite people to a channel
+router.post("/channels/:channelId/members", authMiddleware, addChannelMembers);
+
+// DELETE /api/chat/channels/{channelId}/members/me - Leave a channel
+router.delete("/channels/:channelId/members/me", authMiddleware, leaveChannel);
+
+// GET /api/chat/{workspaceName}/channels - List the user's channels and DMs
+router.get("/:workspaceName/channels", authMiddleware, getChannels);
+
+// POST /api/chat/{workspaceName}/channels - Create an invite-only channel
+router.post("/:workspaceName/channels", authMiddleware, createChannel);
+
+// POST /api/chat/{workspaceName}/direct - Open a direct conversation
+router.post("/:workspaceName/direct", authMiddleware, openDirectChannel);
+
+export default router;
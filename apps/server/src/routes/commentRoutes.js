@@ -0,0 +1,20 @@
+import express from "express";
+import {
+  getTaskComments,
+  createComment,
+  updateComment,
+  deleteComment,
+  getCommentHistory,
+} from "../controllers/commentController.js";
+import authMiddleware from "../middleware/authMiddleware.js";
+
+// Mounted under /api/tasks/:taskId/comments
+const router = express.Router({ mergeParams: true });
+
+router.get("/", authMiddleware, getTaskComments);
+router.post("/", authMiddleware, createComment);
+router.put("/:commentId", authMiddleware, updateComment);
+router.delete("/:commentId", authMiddleware, deleteComment);
+router.get("/:commentId/history", authMiddleware, getCommentHistory);
+
+export default router;
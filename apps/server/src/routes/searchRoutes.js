@@ -0,0 +1,10 @@
+import express from "express";
+import { search } from "../controllers/searchController.js";
+import authMiddleware from "../middleware/authMiddleware.js";
+
+const router = express.Router();
+
+// GET /api/search?q={text}&workspaceName={name}&types={task,sprint,...} - Ranked global search
+router.get("/", authMiddleware, search);
+
+export default router;
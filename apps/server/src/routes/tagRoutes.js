@@ -0,0 +1,24 @@
+import express from "express";
+import {
+  getWorkspaceTags,
+  createTag,
+  updateTag,
+  deleteTag,
+} from "../controllers/tagController.js";
+import authMiddleware from "../middleware/authMiddleware.js";
+
+const router = express.Router();
+
+// GET /api/tags/workspace/{workspaceName} - List the workspace tag catalog
+router.get("/workspace/:workspaceName", authMiddleware, getWorkspaceTags);
+
+// POST /api/tags/workspace/{workspaceName} - Create a tag
+router.post("/workspace/:workspaceName", authMiddleware, createTag);
+
+// PUT /api/tags/{tagId} - Rename or recolor a tag (admin/manager only)
+router.put("/:tagId", authMiddleware, updateTag);
+
+// DELETE /api/tags/{tagId} - Delete a tag (admin/manager only)
+router.delete("/:tagId", authMiddleware, deleteTag);
+
+export default router;
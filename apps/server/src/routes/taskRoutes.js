@@ -1,5 +1,7 @@
 import express from 'express'
-import { createTask, getProjectTasks, deleteTask, getTasksByWorkspaceName, updateTask } from '../controllers/taskController.js';
+import { createTask, getProjectTasks, deleteTask, getTasksByWorkspaceName, updateTask, createSubtask, getTaskTree, getTaskByKey } from '../controllers/taskController.js';
+import { attachTaskTags, detachTaskTag } from '../controllers/tagController.js';
+import { getTaskLinks, createTaskLink, deleteTaskLink } from '../controllers/taskLinkController.js';
 import authMiddleware from '../middleware/authMiddleware.js';
 
 const router = express.Router();
@@ -15,5 +17,13 @@ router.get('/task/:projectId', authMiddleware, getProjectTasks);
 router.put('/update/:taskId', authMiddleware, updateTask); 
 router.delete('/delete/:taskId', authMiddleware, deleteTask);
 router.get('/workspace/:workspaceName', authMiddleware, getTasksByWorkspaceName);
+router.get('/by-key/:key', authMiddleware, getTaskByKey);
+router.post('/:taskId/subtasks', authMiddleware, createSubtask);
+router.get('/:taskId/tree', authMiddleware, getTaskTree);
+router.post('/:taskId/tags', authMiddleware, attachTaskTags);
+router.delete('/:taskId/tags/:tagId', authMiddleware, detachTaskTag);
+router.get('/:taskId/links', authMiddleware, getTaskLinks);
+router.post('/:taskId/links', authMiddleware, createTaskLink);
+router.delete('/:taskId/links/:linkId', authMiddleware, deleteTaskLink);
 
 export default router;
\ No newline at end of file
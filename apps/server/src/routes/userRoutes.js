@@ -1,13 +1,17 @@
 import express from 'express';
-import { createUser, updateUser, deleteUser, getUser, checkUserExists, updateUserByEmail } from '../controllers/userController.js';
+import { createUser, updateUser, deleteUser, getUser, checkUserExists, getMe, updateMe } from '../controllers/userController.js';
+import authMiddleware from '../middleware/authMiddleware.js';
 
 const router = express.Router();
 
-router.post('/', createUser);        
-router.get('/check', checkUserExists);  // Moved this before the /:id route
-router.put('/email/:email', updateUserByEmail);  // Add this new route
-router.get('/:id', getUser);         
-router.put('/:id', updateUser);      // Add the missing update route
-router.delete('/:id', deleteUser);
+// Every route needs a signed-in user; changes to an account are limited to
+// its owner or an ADMIN of one of their workspaces
+router.post('/', authMiddleware, createUser);
+router.get('/check', authMiddleware, checkUserExists);  // Moved this before the /:id route
+router.get('/me', authMiddleware, getMe);
+router.put('/me', authMiddleware, updateMe);
+router.get('/:id', authMiddleware, getUser);
+router.put('/:id', authMiddleware, updateUser);
+router.delete('/:id', authMiddleware, deleteUser);
 
-export default router;
\ No newline at end of file
+export default router;
@@ -0,0 +1,73 @@
+import express from "express";
+import {
+  getWhiteboardSnapshot,
+  createTasksFromNotes,
+  exportWhiteboard,
+  attachWhiteboardExport,
+  getWhiteboardExports,
+  downloadWhiteboardExport,
+  getBoards,
+  createBoard,
+  renameBoard,
+  deleteBoard,
+  getSnapshots,
+  createSnapshot,
+  diffSnapshot,
+  restoreSnapshot,
+} from "../controllers/whiteboardController.js";
+import authMiddleware from "../middleware/authMiddleware.js";
+
+const router = express.Router();
+
+// Registered before "/:roomCode" so "exports" is not taken for a room code
+// GET /api/whiteboards/exports?taskId= or ?milestoneId= - List attached boards
+router.get("/exports", authMiddleware, getWhiteboardExports);
+
+// GET /api/whiteboards/exports/{exportId} - Download an attached board
+router.get("/exports/:exportId", authMiddleware, downloadWhiteboardExport);
+
+// GET /api/whiteboards/{roomCode} - Fetch a snapshot of the room's board
+router.get("/:roomCode", authMiddleware, getWhiteboardSnapshot);
+
+// POST /api/whiteboards/{roomCode}/tasks - Create tasks from sticky notes
+router.post("/:roomCode/tasks", authMiddleware, createTasksFromNotes);
+
+// GET /api/whiteboards/{roomCode}/export?format=svg|pdf - Download the board
+router.get("/:roomCode/export", authMiddleware, exportWhiteboard);
+
+// POST /api/whiteboards/{roomCode}/exports - Attach the board to a task or milestone
+router.post("/:roomCode/exports", authMiddleware, attachWhiteboardExport);
+
+// GET /api/whiteboards/{roomCode}/boards - List the room's named boards
+router.get("/:roomCode/boards", authMiddleware, getBoards);
+
+// POST /api/whiteboards/{roomCode}/boards - Create a named board
+router.post("/:roomCode/boards", authMiddleware, createBoard);
+
+// PATCH /api/whiteboards/{roomCode}/boards/{boardId} - Rename a board
+router.patch("/:roomCode/boards/:boardId", authMiddleware, renameBoard);
+
+// DELETE /api/whiteboards/{roomCode}/boards/{boardId} - Delete a board
+router.delete("/:roomCode/boards/:boardId", authMiddleware, deleteBoard);
+
+// GET /api/whiteboards/{roomCode}/snapshots?boardId= - List a board's snapshots
+router.get("/:roomCode/snapshots", authMiddleware, getSnapshots);
+
+// POST /api/whiteboards/{roomCode}/snapshots - Snapshot a board
+router.post("/:roomCode/snapshots", authMiddleware, createSnapshot);
+
+// GET /api/whiteboards/{roomCode}/snapshots/{snapshotId}/diff - Compare with now
+router.get(
+  "/:roomCode/snapshots/:snapshotId/diff",
+  authMiddleware,
+  diffSnapshot
+);
+
+// POST /api/whiteboards/{roomCode}/snapshots/{snapshotId}/restore - Restore it
+router.post(
+  "/:roomCode/snapshots/:snapshotId/restore",
+  authMiddleware,
+  restoreSnapshot
+);
+
+export default router;
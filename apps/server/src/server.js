@@ -11,10 +11,17 @@ import userRoutes from "./routes/userRoutes.js";
 import workspaceRoutes from "./routes/workspaceRoutes.js";
 import projectRoutes from "./routes/projectRoutes.js";
 import taskRoutes from "./routes/taskRoutes.js";
+import commentRoutes from "./routes/commentRoutes.js";
 import sprintRoutes from "./routes/sprintRoutes.js";
 import roadmapRoutes from "./routes/roadmapRoutes.js";
 import notificationRoutes from "./routes/notificationRoutes.js";
+import tagRoutes from "./routes/tagRoutes.js";
+import searchRoutes from "./routes/searchRoutes.js";
+import whiteboardRoutes from "./routes/whiteboardRoutes.js";
+import chatRoutes from "./routes/chatRoutes.js";
+import attachmentRoutes from "./routes/attachmentRoutes.js";
 import { roomSockets } from "./sockets/roomSockets.js";
+import socketAuthMiddleware from "./middleware/socketAuthMiddleware.js";
 import { Server } from "socket.io";
 import http from "http";
 import { ExpressPeerServer } from "peer";
@@ -74,6 +81,10 @@ const io = new Server(server, {
 });
 
 console.log("Socket.IO server initialized");
+
+// Every socket connects as a signed-in user
+io.use(socketAuthMiddleware);
+
 io.on("connection", (socket) => {
   console.log(
     "Socket.IO connection:",
@@ -90,13 +101,22 @@ server.on("upgrade", (request, socket, head) => {
 
 roomSockets(io);
 
+// Lets controllers notify live viewers, e.g. when a board is restored
+app.set("io", io);
+
 app.use("/api/users", userRoutes);
 app.use("/api/workspaces", workspaceRoutes);
 app.use("/api/projects", projectRoutes);
+app.use("/api/tasks/:taskId/comments", commentRoutes);
 app.use("/api/tasks", taskRoutes);
 app.use("/api/sprints", sprintRoutes);
 app.use("/api/roadmap", roadmapRoutes);
 app.use("/api/notifications", notificationRoutes);
+app.use("/api/tags", tagRoutes);
+app.use("/api/search", searchRoutes);
+app.use("/api/whiteboards", whiteboardRoutes);
+app.use("/api/chat", chatRoutes);
+app.use("/api/attachments", attachmentRoutes);
 
 const peerServer = ExpressPeerServer(server, { path: "/", debug: true });
 app.use("/peerjs", peerServer);
@@ -0,0 +1,161 @@
+import prisma from "../db.js";
+import { createTask, updateTask } from "../controllers/taskController.js";
+import { CHAT_COMMAND_HELP, formatTaskCard } from "../utils/chatCommands.js";
+import { resolveMentions } from "../utils/mentions.js";
+import { parseTaskKey } from "../utils/taskKeys.js";
+
+/**
+ * Call a REST handler on behalf of a chat user and resolve with its
+ * response, so commands get the same validation, permission checks,
+ * activity and notifications as the task API.
+ * @returns {Promise<{ status: number, body: object }>}
+ */
+const callController = (handler, { email, io }, { params = {}, body = {} }) =>
+  new Promise((resolve, reject) => {
+    const req = {
+      params,
+      body,
+      query: {},
+      auth: { emailAddresses: [{ emailAddress: email }] },
+      // Handlers reach the socket server with req.app.get("io")
+      app: { get: (name) => (name === "io" ? io : undefined) },
+    };
+    const res = {
+      statusCode: 200,
+      status(code) {
+        this.statusCode = code;
+        return this;
+      },
+      json(payload) {
+        resolve({ status: this.statusCode, body: payload });
+        return this;
+      },
+    };
+    handler(req, res).catch(reject);
+  });
+
+// The project a new task goes in: the one named with #KEY, or the
+// workspace's only project
+const findCommandProject = async (roomCode, projectKey) => {
+  const projects = await prisma.project.findMany({
+    where: { workspace: { name: roomCode } },
+    select: { id: true, key: true },
+    orderBy: { createdAt: "asc" },
+  });
+
+  if (projectKey) {
+    const project = projects.find((p) => p.key === projectKey);
+    return project
+      ? { project }
+      : { error: `There is no project #${projectKey} in this workspace` };
+  }
+  if (projects.length === 0) {
+    return { error: "This workspace has no projects yet" };
+  }
+  if (projects.length > 1) {
+    return {
+      error: `Add the project to create it in, e.g. #${projects[0].key}`,
+    };
+  }
+  return { project: projects[0] };
+};
+
+const runTaskCommand = async (command, { roomCode, user, io }) => {
+  const { error, project } = await findCommandProject(
+    roomCode,
+    command.projectKey
+  );
+  if (error) return { notice: error };
+
+  let assignee = null;
+  if (command.assignee) {
+    const members = await prisma.workspaceMember.findMany({
+      where: { workspace: { name: roomCode } },
+      include: { user: { select: { id: true, name: true, email: true } } },
+    });
+    [assignee = null] = resolveMentions([command.assignee], members);
+    if (!assignee) {
+      return {
+        notice: `No one in this workspace matches @${command.assignee}`,
+      };
+    }
+  }
+
+  const { status, body } = await callController(
+    createTask,
+    { email: user.email, io },
+    {
+      body: {
+        title: command.title,
+        projectId: project.id,
+        priority: command.priority ?? undefined,
+        assigneeId: assignee?.id,
+      },
+    }
+  );
+  if (status !== 201) return { notice: body.error };
+
+  return {
+    text: `Created ${body.task.key}: ${body.task.title}`,
+    card: formatTaskCard("created", body.task, assignee),
+  };
+};
+
+const runStatusCommand = async (command, { roomCode, user, io }) => {
+  const { projectKey, number } = parseTaskKey(command.key);
+  const task = await prisma.task.findFirst({
+    where: {
+      number,
+      project: { key: projectKey, workspace: { name: roomCode } },
+    },
+    include: { assignee: { select: { name: true, email: true } } },
+  });
+  if (!task) {
+    return { notice: `There is no task ${command.key} in this workspace` };
+  }
+
+  const { status, body } = await callController(
+    updateTask,
+    { email: user.email, io },
+    {
+      params: { taskId: task.id },
+      body: { status: command.status },
+    }
+  );
+  if (status !== 200) {
+    const blockers = (body.blockers || []).map((blocker) => blocker.key);
+    return {
+      notice: blockers.length
+        ? `${body.error}: ${blockers.join(", ")}`
+        : body.error,
+    };
+  }
+
+  return {
+    text: `Moved ${command.key} to ${command.status}`,
+    card: formatTaskCard("status", body.updatedTask, task.assignee),
+  };
+};
+
+/**
+ * Run a command from parseChatCommand for the sender of a chat message.
+ * Resolves to the confirmation to post in the chat, or to a notice that
+ * only the sender sees (help, usage and errors).
+ * @returns {Promise<{ text: string, card: object } | { notice: string }>}
+ */
+export const runChatCommand = async (command, context) => {
+  if (command.error) return { notice: command.error };
+
+  switch (command.name) {
+    case "task":
+      return runTaskCommand(command, context);
+    case "status":
+      return runStatusCommand(command, context);
+    default:
+      return {
+        notice: command.unknown
+          ? `Unknown command /${command.unknown}\n\n${CHAT_COMMAND_HELP}`
+          : CHAT_COMMAND_HELP,
+      };
+  }
+};
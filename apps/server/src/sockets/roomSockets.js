@@ -1,11 +1,114 @@
 import prisma from "../db.js";
+import {
+  getBoard,
+  applyBoardUpdate,
+  scheduleSave,
+  releaseBoard,
+  boardKey,
+  boardChannel,
+} from "../utils/whiteboardStore.js";
+import { diffUpdate, stateVector } from "../utils/boardDoc.js";
+import {
+  buildChatPageQuery,
+  buildThreadQuery,
+  canDeleteMessage,
+  canEditMessage,
+  chatMessageInclude,
+  formatChatMessage,
+  isValidReaction,
+  toChatPage,
+} from "../utils/chatHistory.js";
+import {
+  chatRoomName,
+  formatReadPosition,
+  isNewerReadPosition,
+} from "../utils/chatChannels.js";
+import { isWorkspaceMember, resolveChat } from "../utils/chatAccess.js";
+import { parseChatCommand } from "../utils/chatCommands.js";
+import { MAX_ATTACHMENTS_PER_MESSAGE } from "../utils/attachments.js";
+import {
+  extractReferences,
+  resolveReferences,
+} from "../utils/chatReferences.js";
+import { runChatCommand } from "./chatCommands.js";
+import {
+  presenceColor,
+  listRoomUsers,
+  shouldRelayCursor,
+  presenceChannel,
+  summarizePresence,
+  PRESENCE_STATUSES,
+} from "../utils/presence.js";
 
 export const roomSockets = (io) => {
-  const whiteboardHistory = new Map();
+  // Room code -> socket id -> { userId, name, color }
   const connectedUsers = new Map();
+  // Workspace name -> socket id -> { email, status }, one per open dashboard
+  const workspacePresence = new Map();
 
+  // A chat message in the given chat, or null if it is not there
+  const loadChatMessage = async (roomCode, chat, messageId) => {
+    const message = await prisma.chatMessage.findUnique({
+      where: { id: String(messageId) },
+    });
+    return message &&
+      message.roomName === roomCode &&
+      (message.channelId ?? null) === chat.channelId
+      ? message
+      : null;
+  };
+
+  // Send the current state of an edited, deleted or reacted-to message to
+  // everyone in its chat
+  const broadcastMessageUpdate = async (chat, messageId) => {
+    const message = await prisma.chatMessage.findUnique({
+      where: { id: messageId },
+      include: chatMessageInclude,
+    });
+    io.to(chat.room).emit("message-updated", formatChatMessage(message));
+  };
+
+  // Where everyone has read up to in a chat, for "seen by" markers
+  const sendReadPositions = async (socket, chatKey) => {
+    const positions = await prisma.chatReadPosition.findMany({
+      where: { chatKey },
+      include: { user: { select: { name: true, email: true } } },
+    });
+    socket.emit("read-positions", positions.map(formatReadPosition));
+  };
+
+  const broadcastWorkspacePresence = (roomCode) => {
+    io.to(presenceChannel(roomCode)).emit("presence-update", {
+      roomCode,
+      users: summarizePresence(workspacePresence.get(roomCode)),
+    });
+  };
+
+  const rejectChat = (socket) =>
+    socket.emit("chat-error", {
+      error: "You are not a member of this chat",
+    });
+
+  const rejectRoom = (socket, roomCode) =>
+    socket.emit("room-error", {
+      roomCode,
+      error: "You are not a member of this workspace",
+    });
+
+  // Tell everyone in a room who is currently there
+  const broadcastPresence = (roomCode) => {
+    io.to(roomCode).emit(
+      "whiteboard-presence",
+      listRoomUsers(connectedUsers.get(roomCode))
+    );
+  };
+
+  // Sockets are authenticated on connect (see socketAuthMiddleware), so the
+  // user comes from socket.data rather than from anything the client sends
   io.on("connection", (socket) => {
-    const { roomCode, userId } = socket.handshake.query;
+    const { user } = socket.data;
+    const userId = user.email;
+    const { roomCode } = socket.handshake.query;
     console.log(
       "User connected:",
       socket.id,
@@ -15,32 +118,50 @@ export const roomSockets = (io) => {
       userId
     );
 
-    // Handle reconnection
+    // Handle reconnection. The handshake's room is only joined once the
+    // user's membership is confirmed.
     if (roomCode) {
-      socket.join(roomCode);
-      if (!connectedUsers.has(roomCode)) {
-        connectedUsers.set(roomCode, new Set());
-      }
-      connectedUsers.get(roomCode).add(socket.id);
+      isWorkspaceMember(user, roomCode)
+        .then((isMember) => {
+          if (!socket.connected) return;
+          if (!isMember) {
+            rejectRoom(socket, roomCode);
+            return;
+          }
+          socket.join(roomCode);
+          if (!connectedUsers.has(roomCode)) {
+            connectedUsers.set(roomCode, new Map());
+          }
+          connectedUsers.get(roomCode).set(socket.id, {
+            userId,
+            name: user.name || userId,
+            color: presenceColor(userId),
+          });
+          broadcastPresence(roomCode);
+        })
+        .catch((error) => console.error("Error joining room:", error));
     }
 
     socket.on("join-room", async (roomName, peerId) => {
       console.log("Join-room received:", roomName, peerId);
+      try {
+        if (!(await isWorkspaceMember(user, roomName))) {
+          rejectRoom(socket, roomName);
+          return;
+        }
+      } catch (error) {
+        console.error("Error checking room membership:", error);
+        return;
+      }
       socket.join(roomName);
       socket.to(roomName).emit("user-connected", peerId);
 
+      // Only the latest page; older ones are fetched as the user scrolls up
       try {
-        const messages = await prisma.chatMessage.findMany({
-          where: { roomName: roomName },
-          orderBy: { createdAt: "asc" },
-          include: { user: { select: { name: true } } },
-        });
-        const formattedMessages = messages.map((msg) => ({
-          sender: msg.user.name,
-          text: msg.message,
-          timestamp: msg.createdAt,
-        }));
-        socket.emit("previous-messages", formattedMessages);
+        const { limit, ...args } = buildChatPageQuery(roomName);
+        const rows = await prisma.chatMessage.findMany(args);
+        socket.emit("previous-messages", toChatPage(rows, limit));
+        await sendReadPositions(socket, chatRoomName(roomName, null));
       } catch (error) {
         console.error("Error fetching messages:", error);
       }
@@ -51,192 +172,470 @@ export const roomSockets = (io) => {
       });
     });
 
-    // Chat message handling
-    socket.on("send-message", async ({ roomCode, message, email }) => {
-      console.log("Chat message received:", message, "for room:", roomCode);
+    // A private channel or direct conversation. Its messages go to its own
+    // room, which only members can join.
+    socket.on("join-channel", async ({ roomCode, channelId }) => {
       try {
-        const user = await prisma.user.findFirst({
-          where: { email: email },
+        const chat = await resolveChat(user, roomCode, channelId);
+        if (!chat?.channelId) {
+          rejectChat(socket);
+          return;
+        }
+        socket.join(chat.room);
+
+        const { limit, ...args } = buildChatPageQuery(roomCode, {
+          channelId: chat.channelId,
         });
+        const rows = await prisma.chatMessage.findMany(args);
+        socket.emit("previous-messages", toChatPage(rows, limit));
+        await sendReadPositions(socket, chat.room);
+      } catch (error) {
+        console.error("Error joining channel:", error);
+      }
+    });
+
+    // Move the sender's read position up to a message. Every device and
+    // everyone in the chat hears about it, for unread counts and "seen by".
+    socket.on("mark-read", async ({ roomCode, channelId, messageId }) => {
+      try {
+        const chat = await resolveChat(user, roomCode, channelId);
+        const message =
+          chat && (await loadChatMessage(roomCode, chat, messageId));
+        if (!message) return;
 
-        if (!user) {
-          throw new Error(`User with email ${email} not found`);
+        const key = {
+          userId_chatKey: { userId: chat.user.id, chatKey: chat.room },
+        };
+        const current = await prisma.chatReadPosition.findUnique({
+          where: key,
+        });
+        if (!isNewerReadPosition(current, message)) return;
+
+        const position = await prisma.chatReadPosition.upsert({
+          where: key,
+          create: {
+            userId: chat.user.id,
+            chatKey: chat.room,
+            messageId: message.id,
+            readAt: message.createdAt,
+          },
+          update: { messageId: message.id, readAt: message.createdAt },
+        });
+        io.to(chat.room).emit("read-receipt", {
+          channelId: chat.channelId,
+          ...formatReadPosition({ ...position, user: chat.user }),
+        });
+      } catch (error) {
+        console.error("Error marking chat read:", error);
+      }
+    });
+
+    // "X is typing" hints, relayed to the rest of a chat the sender has
+    // joined. Clients stop showing a hint if it is not repeated.
+    socket.on("typing", ({ roomCode, channelId, isTyping }) => {
+      const room = chatRoomName(roomCode, channelId);
+      if (!socket.rooms.has(room)) return;
+
+      socket.to(room).emit("typing", {
+        channelId: channelId || null,
+        email: user.email,
+        name: user.name || user.email,
+        isTyping: Boolean(isTyping),
+      });
+    });
+
+    // Online or away, for everyone with the workspace open. Sent on
+    // connect and whenever the dashboard is hidden, idle or active again.
+    socket.on("presence", async ({ roomCode, status }) => {
+      if (!roomCode || !PRESENCE_STATUSES.includes(status)) return;
+      try {
+        if (!(await isWorkspaceMember(user, roomCode))) {
+          rejectRoom(socket, roomCode);
+          return;
+        }
+      } catch (error) {
+        console.error("Error checking presence membership:", error);
+        return;
+      }
+
+      const previousRoom = socket.data.presenceRoom;
+      if (previousRoom && previousRoom !== roomCode) {
+        socket.leave(presenceChannel(previousRoom));
+        workspacePresence.get(previousRoom)?.delete(socket.id);
+        broadcastWorkspacePresence(previousRoom);
+      }
+
+      socket.join(presenceChannel(roomCode));
+      if (!workspacePresence.has(roomCode)) {
+        workspacePresence.set(roomCode, new Map());
+      }
+      workspacePresence
+        .get(roomCode)
+        .set(socket.id, { email: user.email, status });
+      socket.data.presenceRoom = roomCode;
+      broadcastWorkspacePresence(roomCode);
+    });
+
+    // The page of messages before `before`, the oldest message id the
+    // client has
+    socket.on(
+      "load-older-messages",
+      async ({ roomCode, channelId, before, limit }) => {
+        try {
+          const chat = await resolveChat(user, roomCode, channelId);
+          if (!chat) {
+            rejectChat(socket);
+            return;
+          }
+          const { limit: take, ...args } = buildChatPageQuery(roomCode, {
+            before,
+            limit,
+            channelId: chat.channelId,
+          });
+          const rows = await prisma.chatMessage.findMany(args);
+          socket.emit("older-messages", { before, ...toChatPage(rows, take) });
+        } catch (error) {
+          console.error("Error fetching older messages:", error);
+          socket.emit("older-messages", {
+            before,
+            messages: [],
+            nextCursor: null,
+          });
         }
+      }
+    );
+
+    // Replies to a message, oldest first
+    socket.on("load-thread", async ({ roomCode, channelId, messageId }) => {
+      try {
+        const chat = await resolveChat(user, roomCode, channelId);
+        if (!chat) return;
+        const parent = await loadChatMessage(roomCode, chat, messageId);
+        if (!parent) return;
+        const replies = await prisma.chatMessage.findMany(
+          buildThreadQuery(parent.id)
+        );
+        socket.emit("thread-messages", {
+          parentId: parent.id,
+          messages: replies.map(formatChatMessage),
+        });
+      } catch (error) {
+        console.error("Error fetching thread:", error);
+      }
+    });
+
+    // Chat message handling. A message.parentId makes it a reply in that
+    // message's thread; threads are one level deep. Messages for a channel
+    // are only accepted from its members. Slash commands run first and post
+    // their confirmation card instead; help and errors go to the sender.
+    socket.on("send-message", async ({ roomCode, channelId, message }) => {
+      console.log("Chat message received:", message, "for room:", roomCode);
+      try {
+        const chat = await resolveChat(user, roomCode, channelId);
+        if (!chat) {
+          rejectChat(socket);
+          return;
+        }
+
+        const parentId = message.parentId || null;
+        if (parentId) {
+          const parent = await loadChatMessage(roomCode, chat, parentId);
+          if (!parent || parent.parentId || parent.deletedAt) {
+            socket.emit("chat-error", {
+              error: "Cannot reply to that message",
+            });
+            return;
+          }
+        }
+
+        // Files uploaded for this message are still private to the sender
+        const attachmentIds = Array.isArray(message.attachmentIds)
+          ? message.attachmentIds.slice(0, MAX_ATTACHMENTS_PER_MESSAGE)
+          : [];
+        const attachments = attachmentIds.length
+          ? await prisma.attachment.findMany({
+              where: {
+                id: { in: attachmentIds.map(String) },
+                uploaderId: user.id,
+                taskId: null,
+                messageId: null,
+                workspace: { name: roomCode },
+              },
+              select: { id: true },
+            })
+          : [];
+
+        let text = typeof message.text === "string" ? message.text : "";
+        if (!text.trim() && !attachments.length) {
+          socket.emit("chat-error", { error: "Message cannot be empty" });
+          return;
+        }
+
+        let card = null;
+        const command = attachments.length ? null : parseChatCommand(text);
+        if (command) {
+          const result = await runChatCommand(command, {
+            roomCode,
+            user,
+            io,
+          });
+          if (result.notice) {
+            socket.emit("chat-notice", {
+              channelId: chat.channelId,
+              text: result.notice,
+            });
+            return;
+          }
+          ({ text, card } = result);
+        }
+
+        // Issue keys and links unfurl into live cards
+        const references = await resolveReferences(
+          extractReferences(text),
+          roomCode
+        );
 
         const newMessage = await prisma.chatMessage.create({
           data: {
             roomName: roomCode,
             userId: user.id,
-            message: message.text,
+            message: text,
+            parentId,
+            channelId: chat.channelId,
+            card,
+            references: { create: references },
+            attachments: { connect: attachments },
           },
+          include: chatMessageInclude,
         });
 
-        const messageData = {
-          sender: user.name,
-          text: message.text,
-          timestamp: newMessage.createdAt,
-        };
-        io.to(roomCode).emit("receive-message", messageData);
+        const messageData = formatChatMessage(newMessage);
+        io.to(chat.room).emit("receive-message", messageData);
       } catch (error) {
         console.error("Error saving message:", error);
       }
     });
 
-    // Whiteboard handling with improved history management
-    socket.on("join-whiteboard", (roomCode) => {
-      console.log(`User ${socket.id} joined whiteboard for room: ${roomCode}`);
-      socket.join(roomCode);
+    // Only the author can edit; the message is marked as edited
+    socket.on(
+      "edit-message",
+      async ({ roomCode, channelId, messageId, text }) => {
+        try {
+          const chat = await resolveChat(user, roomCode, channelId);
+          const message =
+            chat && (await loadChatMessage(roomCode, chat, messageId));
+          if (!message || !canEditMessage(message, chat.user)) {
+            socket.emit("chat-error", {
+              error: "You cannot edit that message",
+            });
+            return;
+          }
+          if (typeof text !== "string" || !text.trim()) {
+            socket.emit("chat-error", { error: "Message cannot be empty" });
+            return;
+          }
 
-      // Initialize room history if needed
-      if (!whiteboardHistory.has(roomCode)) {
-        whiteboardHistory.set(roomCode, []);
+          const references = await resolveReferences(
+            extractReferences(text),
+            roomCode
+          );
+          await prisma.chatMessage.update({
+            where: { id: message.id },
+            data: {
+              message: text,
+              editedAt: new Date(),
+              references: { deleteMany: {}, create: references },
+            },
+          });
+          await broadcastMessageUpdate(chat, message.id);
+        } catch (error) {
+          console.error("Error editing message:", error);
+        }
       }
+    );
 
-      // Send existing history
-      const history = whiteboardHistory.get(roomCode) || [];
-      socket.emit("whiteboard-history", history);
-    });
+    // The author or a workspace ADMIN can delete. The message stays as a
+    // placeholder so its thread and the conversation still make sense.
+    socket.on("delete-message", async ({ roomCode, channelId, messageId }) => {
+      try {
+        const chat = await resolveChat(user, roomCode, channelId);
+        const message =
+          chat && (await loadChatMessage(roomCode, chat, messageId));
+        if (!message) {
+          socket.emit("chat-error", { error: "Message not found" });
+          return;
+        }
 
-    socket.on("get-whiteboard-history", (roomCode) => {
-      const history = whiteboardHistory.get(roomCode) || [];
-      socket.emit("whiteboard-history", history);
-    });
+        // Chat rooms are named after their workspace
+        const membership = await prisma.workspaceMember.findFirst({
+          where: { userId: user.id, workspace: { name: roomCode } },
+        });
+        if (!canDeleteMessage(message, user, membership)) {
+          socket.emit("chat-error", {
+            error: "You cannot delete that message",
+          });
+          return;
+        }
 
-    socket.on("whiteboard-action", ({ roomCode, action }) => {
-      if (!whiteboardHistory.has(roomCode)) {
-        whiteboardHistory.set(roomCode, []);
+        await prisma.chatMessage.update({
+          where: { id: message.id },
+          data: { deletedAt: new Date() },
+        });
+        await broadcastMessageUpdate(chat, message.id);
+      } catch (error) {
+        console.error("Error deleting message:", error);
       }
+    });
 
-      const history = whiteboardHistory.get(roomCode);
-      if (history) {
-        history.push(action);
+    // Add the sender's reaction, or take it back if it is already there
+    socket.on(
+      "toggle-reaction",
+      async ({ roomCode, channelId, messageId, emoji }) => {
+        try {
+          const chat = await resolveChat(user, roomCode, channelId);
+          const message =
+            chat && (await loadChatMessage(roomCode, chat, messageId));
+          if (!message || message.deletedAt || !isValidReaction(emoji)) {
+            return;
+          }
 
-        // Limit history size to prevent memory issues
-        if (history.length > 10000) {
-          history.splice(0, 1000);
+          const reactorId = chat.user.id;
+          const key = {
+            messageId_userId_emoji: {
+              messageId: message.id,
+              userId: reactorId,
+              emoji,
+            },
+          };
+          const existing = await prisma.chatReaction.findUnique({ where: key });
+          if (existing) {
+            await prisma.chatReaction.delete({ where: key });
+          } else {
+            await prisma.chatReaction.create({
+              data: { messageId: message.id, userId: reactorId, emoji },
+            });
+          }
+          await broadcastMessageUpdate(chat, message.id);
+        } catch (error) {
+          console.error("Error toggling reaction:", error);
         }
-
-        // Broadcast to all users in room
-        io.to(roomCode).emit("whiteboard-action", action);
       }
-    });
+    );
 
-    socket.on("whiteboard-batch", ({ roomCode, actions }) => {
-      if (!whiteboardHistory.has(roomCode)) {
-        whiteboardHistory.set(roomCode, []);
+    // Save and free a board once nobody is viewing it any more
+    const releaseIfEmpty = (key) => {
+      const channel = io.sockets.adapter.rooms.get(boardChannel(key));
+      if (!channel || channel.size === 0) {
+        releaseBoard(key)
+          .then(() => console.log(`Saved and released whiteboard: ${key}`))
+          .catch((error) =>
+            console.error(`Error releasing whiteboard ${key}:`, error)
+          );
       }
-
-      const history = whiteboardHistory.get(roomCode);
-      if (history) {
-        // Add timestamp to each action if not present
-        const timestamp = Date.now();
-        const processedActions = actions.map((action) => ({
-          ...action,
-          timestamp: action.timestamp || timestamp,
-        }));
-
-        // Optimize storage while preserving drawing quality
-        const optimizedActions = processedActions.map((action) => {
-          if (action.points && action.points.length > 30) {
-            // Keep more points for better quality (30 instead of 20)
-            // Use adaptive sampling based on curve complexity
-            const points = action.points;
-            let result = [points[0]]; // Always keep first point
-
-            // Simplified Douglas-Peucker algorithm for point reduction
-            // while preserving curve characteristics
-            const simplifyPoints = (start, end, epsilon) => {
-              let maxDist = 0;
-              let maxIndex = 0;
-
-              // Find point with maximum distance from line
-              const startPoint = points[start];
-              const endPoint = points[end];
-
-              if (end - start <= 1) return;
-
-              for (let i = start + 1; i < end; i++) {
-                const point = points[i];
-
-                // Calculate distance from point to line
-                const dx = endPoint.x - startPoint.x;
-                const dy = endPoint.y - startPoint.y;
-                const length = Math.sqrt(dx * dx + dy * dy);
-
-                let dist;
-                if (length > 0) {
-                  dist = Math.abs(
-                    (dy * point.x - dx * point.y + endPoint.x * startPoint.y - endPoint.y * startPoint.x) /
-                      length
-                  );
-                } else {
-                  dist = Math.sqrt(
-                    Math.pow(point.x - startPoint.x, 2) + Math.pow(point.y - startPoint.y, 2)
-                  );
-                }
-
-                if (dist > maxDist) {
-                  maxDist = dist;
-                  maxIndex = i;
-                }
-              }
-
-              // If max distance is greater than epsilon, recursively simplify
-              if (maxDist > epsilon) {
-                simplifyPoints(start, maxIndex, epsilon);
-                result.push(points[maxIndex]);
-                simplifyPoints(maxIndex, end, epsilon);
-              }
-            };
-
-            // Apply simplification with appropriate epsilon (tolerance)
-            // based on drawing complexity
-            const epsilon = 1.0; // Adjust for quality/size trade-off
-            simplifyPoints(0, points.length - 1, epsilon);
-            result.push(points[points.length - 1]); // Always keep last point
-
-            // Ensure we preserve pressure values for line width consistency
-            result = result.map((point) => ({
-              x: point.x,
-              y: point.y,
-              pressure: point.pressure,
-            }));
-
-            return { ...action, points: result };
+    };
+
+    // Whiteboard handling. Each socket views one board at a time: the room's
+    // main board, or a named board when boardId is given. Board traffic goes
+    // to that board's own channel so viewers of other boards never see it.
+    //
+    // Boards are replicated documents (see utils/boardDoc.js). Joining is a
+    // sync: the client sends what it has seen, gets back what it is missing
+    // plus the server's state vector, and answers with anything it made
+    // while offline.
+    socket.on("join-whiteboard", async (roomCode, boardId, vector) => {
+      try {
+        if (!(await isWorkspaceMember(user, roomCode))) {
+          rejectRoom(socket, roomCode);
+          return;
+        }
+        // A named board must belong to this room, as in the REST routes
+        if (boardId) {
+          const board = await prisma.whiteboard.findUnique({
+            where: { id: String(boardId) },
+            select: { roomName: true },
+          });
+          if (!board || board.roomName !== roomCode) {
+            socket.emit("room-error", { roomCode, error: "Board not found" });
+            return;
           }
-          return action;
-        });
+        }
+      } catch (error) {
+        console.error("Error checking whiteboard membership:", error);
+        return;
+      }
 
-        history.push(...optimizedActions);
+      const key = boardKey(roomCode, boardId);
+      console.log(`User ${socket.id} joined whiteboard ${key}`);
 
-        // Keep history size manageable
-        if (history.length > 10000) {
-          const keepLast = 5000;
-          history.splice(0, history.length - keepLast);
-          console.log(
-            `Trimmed history for room ${roomCode} to ${keepLast} actions`
-          );
-        }
+      const previousKey = socket.data.boardKey;
+      if (previousKey && previousKey !== key) {
+        socket.leave(boardChannel(previousKey));
+        releaseIfEmpty(previousKey);
+      }
+      socket.join(roomCode);
+      socket.join(boardChannel(key));
+      socket.data.boardKey = key;
 
-        // Broadcast batch to room members with original quality
-        io.to(roomCode).emit("whiteboard-batch", processedActions);
+      try {
+        const doc = await getBoard(key);
+        socket.emit("whiteboard-sync", {
+          boardId: boardId || null,
+          items: diffUpdate(doc, vector),
+          vector: stateVector(doc),
+        });
+        socket.emit(
+          "whiteboard-presence",
+          listRoomUsers(connectedUsers.get(roomCode))
+        );
+      } catch (error) {
+        console.error("Error loading whiteboard:", error);
       }
     });
 
-    socket.on("whiteboard-clear", (roomCode) => {
-      const history = whiteboardHistory.get(roomCode) || [];
-      whiteboardHistory.set(roomCode, []);
-      io.to(roomCode).emit("whiteboard-history", []);
-    });
+    // Every change, from strokes to undo, arrives as document items. The
+    // sender has already applied them; merge and pass on whatever was new.
+    // Only sockets that joined the board may change it.
+    socket.on("whiteboard-update", async ({ roomCode, boardId, items }) => {
+      const key = boardKey(roomCode, boardId);
+      if (!socket.rooms.has(boardChannel(key))) return;
+      try {
+        const added = await applyBoardUpdate(key, items, userId);
+        if (added.length === 0) return;
 
-    socket.on("whiteboard-undo", ({ roomCode }) => {
-      const history = whiteboardHistory.get(roomCode) || [];
-      if (history.length > 0) {
-        history.pop();
-        io.to(roomCode).emit("whiteboard-history", history);
+        socket.to(boardChannel(key)).emit("whiteboard-update", {
+          boardId: boardId || null,
+          items: added,
+        });
+        scheduleSave(key);
+      } catch (error) {
+        console.error("Error applying whiteboard update:", error);
       }
     });
 
+    // Live cursors, relayed to everyone else with the sender's name and
+    // color. A null position means the cursor left the board.
+    let lastCursorAt = 0;
+    socket.on("whiteboard-cursor", ({ roomCode, boardId, x, y }) => {
+      const hidden = x === null || y === null;
+      if (!hidden && (typeof x !== "number" || typeof y !== "number")) return;
+
+      const now = Date.now();
+      if (!hidden && !shouldRelayCursor(lastCursorAt, now)) return;
+      lastCursorAt = now;
+
+      const channel = boardChannel(boardKey(roomCode, boardId));
+      if (!socket.rooms.has(channel)) return;
+
+      const roomUser = connectedUsers.get(roomCode)?.get(socket.id);
+      socket.to(channel).emit("whiteboard-cursor", {
+        userId,
+        name: roomUser?.name ?? (user.name || userId),
+        color: roomUser?.color ?? presenceColor(userId),
+        x: hidden ? null : x,
+        y: hidden ? null : y,
+      });
+    });
+
     // Enhanced cleanup on disconnect
     socket.on("disconnect", () => {
       console.log("User disconnected:", socket.id);
@@ -250,13 +649,21 @@ export const roomSockets = (io) => {
             console.log(`Room ${roomCode} is now empty`);
           }
         }
+        broadcastPresence(roomCode);
+      }
 
-        // Check if room is completely empty
-        const room = io.sockets.adapter.rooms.get(roomCode);
-        if (!room || room.size === 0) {
-          whiteboardHistory.delete(roomCode);
-          console.log(`Cleaned up whiteboard history for room: ${roomCode}`);
+      const presenceRoom = socket.data.presenceRoom;
+      if (presenceRoom && workspacePresence.has(presenceRoom)) {
+        workspacePresence.get(presenceRoom).delete(socket.id);
+        if (workspacePresence.get(presenceRoom).size === 0) {
+          workspacePresence.delete(presenceRoom);
         }
+        broadcastWorkspacePresence(presenceRoom);
+      }
+
+      // Once nobody views this socket's board, save it and free the memory
+      if (socket.data.boardKey) {
+        releaseIfEmpty(socket.data.boardKey);
       }
     });
 
@@ -275,4 +682,4 @@ export const roomSockets = (io) => {
       }
     });
   });
-};
\ No newline at end of file
+};
@@ -0,0 +1,76 @@
+import { randomUUID } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+
+/**
+ * Attachment bytes live behind a storage adapter, so a cloud bucket can
+ * replace the local disk without touching the controllers. An adapter is
+ * an object with:
+ *
+ *   put(key, buffer, mimeType) -> Promise<void>
+ *   read(key)                  -> Promise<Buffer>
+ *   remove(key)                -> Promise<void>, ignoring missing keys
+ *
+ * ATTACHMENT_STORAGE picks the adapter ("local" by default); others are
+ * added with registerStorageAdapter.
+ */
+
+/**
+ * Files under `root`, one per key. Keys are generated by the server, but
+ * are still kept from escaping the root.
+ */
+export const createLocalStorage = (root) => {
+  const base = path.resolve(root);
+  const pathFor = (key) => {
+    const file = path.resolve(base, key);
+    if (!file.startsWith(base + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return file;
+  };
+
+  return {
+    async put(key, buffer) {
+      const file = pathFor(key);
+      await fs.mkdir(path.dirname(file), { recursive: true });
+      await fs.writeFile(file, buffer);
+    },
+    async read(key) {
+      return fs.readFile(pathFor(key));
+    },
+    async remove(key) {
+      await fs.rm(pathFor(key), { force: true });
+    },
+  };
+};
+
+const adapters = new Map([
+  [
+    "local",
+    () =>
+      createLocalStorage(process.env.ATTACHMENT_DIR || path.resolve("uploads")),
+  ],
+]);
+
+export const registerStorageAdapter = (name, createAdapter) => {
+  adapters.set(name, createAdapter);
+};
+
+let storage = null;
+
+// The configured adapter, created on first use
+export const getAttachmentStorage = () => {
+  if (!storage) {
+    const name = process.env.ATTACHMENT_STORAGE || "local";
+    const createAdapter = adapters.get(name);
+    if (!createAdapter) {
+      throw new Error(`Unknown attachment storage "${name}"`);
+    }
+    storage = createAdapter();
+  }
+  return storage;
+};
+
+// A fresh key, grouped by kind ("files" or "thumbnails") and month
+export const newStorageKey = (kind, now = new Date()) =>
+  `${kind}/${now.toISOString().slice(0, 7)}/${randomUUID()}`;
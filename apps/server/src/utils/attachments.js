@@ -0,0 +1,146 @@
+// Files attached to tasks and chat messages. Uploads are checked against an
+// allow-list of types, and for binary formats the first bytes must match the
+// declared type so a renamed executable cannot pass as a PDF.
+
+export const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024; // 10 MB
+export const MAX_THUMBNAIL_SIZE = 256 * 1024; // 256 KB
+export const MAX_ATTACHMENTS_PER_MESSAGE = 10;
+
+const MAX_FILE_NAME_LENGTH = 200;
+
+// MIME type -> leading bytes the file must start with (null: not checked)
+const ZIP_SIGNATURE = [0x50, 0x4b, 0x03, 0x04];
+const FILE_SIGNATURES = {
+  "image/png": [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a],
+  "image/jpeg": [0xff, 0xd8, 0xff],
+  "image/gif": [0x47, 0x49, 0x46, 0x38],
+  "image/webp": [0x52, 0x49, 0x46, 0x46],
+  "application/pdf": [0x25, 0x50, 0x44, 0x46],
+  "application/zip": ZIP_SIGNATURE,
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document":
+    ZIP_SIGNATURE,
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet":
+    ZIP_SIGNATURE,
+  "application/vnd.openxmlformats-officedocument.presentationml.presentation":
+    ZIP_SIGNATURE,
+  "text/plain": null,
+  "text/csv": null,
+  "text/markdown": null,
+};
+
+export const ALLOWED_ATTACHMENT_TYPES = Object.keys(FILE_SIGNATURES);
+
+// Images the browser previews; SVG is left out as it can carry scripts
+export const IMAGE_TYPES = [
+  "image/png",
+  "image/jpeg",
+  "image/gif",
+  "image/webp",
+];
+
+// Thumbnails are made by the uploader's browser in one of these formats
+export const THUMBNAIL_TYPES = ["image/png", "image/jpeg", "image/webp"];
+
+// "Text/Plain; charset=utf-8" -> "text/plain"
+export const normalizeMimeType = (value) =>
+  String(value || "")
+    .split(";")[0]
+    .trim()
+    .toLowerCase();
+
+const startsWith = (buffer, signature) =>
+  signature.every((byte, index) => buffer[index] === byte);
+
+export const matchesFileSignature = (buffer, mimeType) => {
+  const signature = FILE_SIGNATURES[mimeType];
+  if (!signature) return true;
+  if (!startsWith(buffer, signature)) return false;
+  // WebP is a RIFF container with "WEBP" at byte 8
+  return (
+    mimeType !== "image/webp" ||
+    buffer.subarray(8, 12).toString("ascii") === "WEBP"
+  );
+};
+
+/**
+ * Check an uploaded body against the size limit, the allowed types and
+ * the file's leading bytes.
+ * @returns {{ mimeType: string } | { error: string, status: number }}
+ */
+export const validateUpload = (
+  body,
+  contentType,
+  {
+    maxSize = MAX_ATTACHMENT_SIZE,
+    allowedTypes = ALLOWED_ATTACHMENT_TYPES,
+  } = {}
+) => {
+  if (!Buffer.isBuffer(body) || body.length === 0) {
+    return { error: "The file is empty", status: 400 };
+  }
+  if (body.length > maxSize) {
+    return {
+      error: `Files can be at most ${formatFileSize(maxSize)}`,
+      status: 413,
+    };
+  }
+
+  const mimeType = normalizeMimeType(contentType);
+  if (!allowedTypes.includes(mimeType)) {
+    return {
+      error: `Files of type ${mimeType || "unknown"} cannot be attached`,
+      status: 415,
+    };
+  }
+  if (!matchesFileSignature(body, mimeType)) {
+    return {
+      error: "The file's contents do not match its type",
+      status: 400,
+    };
+  }
+  return { mimeType };
+};
+
+// Keep just the name: no folders, control characters or quotes
+export const sanitizeFileName = (value) => {
+  const name = String(value || "")
+    .split(/[\\/]/)
+    .pop()
+    .replace(/[\u0000-\u001f\u007f"]/g, "")
+    .trim()
+    .slice(0, MAX_FILE_NAME_LENGTH);
+  return name && name !== "." && name !== ".." ? name : "file";
+};
+
+// e.g. 1536 -> "1.5 KB"
+export const formatFileSize = (bytes) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round((bytes / 1024) * 10) / 10} KB`;
+  return `${Math.round((bytes / (1024 * 1024)) * 10) / 10} MB`;
+};
+
+/**
+ * Content-Disposition for a download. Images open in the browser; other
+ * files are always downloaded. The UTF-8 name is given alongside an ASCII
+ * fallback for older clients.
+ */
+export const contentDisposition = (fileName, mimeType) => {
+  const type = IMAGE_TYPES.includes(mimeType) ? "inline" : "attachment";
+  const fallback = fileName.replace(/[^\x20-\x7e]/g, "_");
+  return `${type}; filename="${fallback}"; filename*=UTF-8''${encodeURIComponent(fileName)}`;
+};
+
+export const formatAttachment = (attachment) => ({
+  id: attachment.id,
+  fileName: attachment.fileName,
+  mimeType: attachment.mimeType,
+  size: attachment.size,
+  isImage: IMAGE_TYPES.includes(attachment.mimeType),
+  hasThumbnail: Boolean(attachment.thumbnailKey),
+  taskId: attachment.taskId ?? null,
+  messageId: attachment.messageId ?? null,
+  createdAt: attachment.createdAt,
+  uploader: attachment.uploader
+    ? { name: attachment.uploader.name, email: attachment.uploader.email }
+    : null,
+});
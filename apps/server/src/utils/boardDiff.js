@@ -0,0 +1,68 @@
+import { compactActions } from "./whiteboardStore.js";
+
+const LABEL_LENGTH = 40;
+
+// Short human-readable name for an object in a diff
+const objectLabel = (object) => {
+  const text = String(object.text || "")
+    .trim()
+    .split("\n")[0];
+  if (!text) return object.kind;
+  return text.length > LABEL_LENGTH
+    ? `${text.slice(0, LABEL_LENGTH - 1)}…`
+    : text;
+};
+
+// What is visible on a board: its objects by id and its strokes by key
+const summarizeBoard = (actions) => {
+  const objects = new Map();
+  const strokes = new Set();
+  compactActions(actions).forEach((action) => {
+    if (action?.type === "object-add") {
+      objects.set(action.object.id, action.object);
+    } else if (action?.type === "draw") {
+      // Older strokes have no actionId; fall back to where they end
+      strokes.add(action.actionId ?? `${action.x},${action.y},${action.color}`);
+    }
+  });
+  return { objects, strokes };
+};
+
+const describe = (object) => ({
+  id: object.id,
+  kind: object.kind,
+  label: objectLabel(object),
+});
+
+/**
+ * What changed going from one version of a board to another: objects
+ * added, removed or edited, and how many strokes appeared or vanished.
+ */
+export const diffBoards = (before, after) => {
+  const from = summarizeBoard(before);
+  const to = summarizeBoard(after);
+
+  const added = [];
+  const changed = [];
+  to.objects.forEach((object, id) => {
+    const previous = from.objects.get(id);
+    if (!previous) {
+      added.push(describe(object));
+    } else if (JSON.stringify(previous) !== JSON.stringify(object)) {
+      changed.push(describe(object));
+    }
+  });
+  const removed = [...from.objects.values()]
+    .filter((object) => !to.objects.has(object.id))
+    .map(describe);
+
+  const strokesAdded = [...to.strokes].filter((key) => !from.strokes.has(key));
+  const strokesRemoved = [...from.strokes].filter(
+    (key) => !to.strokes.has(key)
+  );
+
+  return {
+    objects: { added, removed, changed },
+    strokes: { added: strokesAdded.length, removed: strokesRemoved.length },
+  };
+};
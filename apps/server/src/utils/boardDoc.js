@@ -0,0 +1,175 @@
+import { randomUUID } from "crypto";
+
+/**
+ * A whiteboard as a replicated document that every copy can edit on its own
+ * and merge in any order with the same result.
+ *
+ * The document is a set of immutable items. Each item carries one board
+ * action (a stroke segment, an object change, a clear) or a list of items it
+ * deletes, and is named by the client that made it plus a Lamport clock.
+ * Items are ordered by (clock, client), so concurrent and offline edits land
+ * in the same place everywhere, and merging is a plain set union.
+ *
+ * The client keeps a mirror of this module in src/utils/boardDoc.ts.
+ */
+
+export const itemId = (item) => `${item.client}:${item.clock}`;
+
+const compareItems = (a, b) =>
+  a.clock - b.clock || (a.client < b.client ? -1 : a.client > b.client ? 1 : 0);
+
+export const createBoardDoc = (clientId = `server-${randomUUID()}`) => ({
+  clientId,
+  // Highest clock seen from anyone; local items are stamped one above it
+  clock: 0,
+  // Every item by id, and the same items in board order
+  items: new Map(),
+  order: [],
+  // Highest clock seen from each client, survives compaction
+  clients: new Map(),
+});
+
+// Clocks must stay exact integers: past 2^53, clock + 1 === clock and new
+// items would reuse an existing id
+export const isValidItem = (item) =>
+  typeof item?.client === "string" &&
+  item.client.length > 0 &&
+  Number.isSafeInteger(item.clock) &&
+  item.clock > 0 &&
+  (Array.isArray(item.deletes)
+    ? item.deletes.every((id) => typeof id === "string")
+    : typeof item.action?.type === "string");
+
+// Place an item in board order; returns whether it went at the very end
+const insertItem = (doc, item) => {
+  const id = itemId(item);
+  doc.items.set(id, item);
+  doc.clock = Math.max(doc.clock, item.clock);
+  doc.clients.set(
+    item.client,
+    Math.max(doc.clients.get(item.client) ?? 0, item.clock)
+  );
+
+  let index = doc.order.length;
+  while (index > 0 && compareItems(doc.order[index - 1], item) > 0) index--;
+  doc.order.splice(index, 0, item);
+  return index === doc.order.length - 1;
+};
+
+/**
+ * Merge items from another copy. Items already present are skipped, so the
+ * same update can safely arrive more than once.
+ * @returns {{ added: object[], appended: boolean }} the new items, and
+ * whether they only added actions after everything already on the board
+ */
+export const applyUpdate = (doc, items) => {
+  const added = [];
+  let appended = true;
+  [...(Array.isArray(items) ? items : [])]
+    .filter(isValidItem)
+    .sort(compareItems)
+    .forEach((item) => {
+      if (doc.items.has(itemId(item))) return;
+      const atEnd = insertItem(doc, item);
+      if (!atEnd || item.deletes) appended = false;
+      added.push(item);
+    });
+  return { added, appended };
+};
+
+// Record a local action as a new item
+export const insertAction = (doc, action) => {
+  const item = { client: doc.clientId, clock: doc.clock + 1, action };
+  insertItem(doc, item);
+  return item;
+};
+
+// Record the deletion of some items, e.g. to undo a stroke
+export const deleteItems = (doc, ids) => {
+  const item = { client: doc.clientId, clock: doc.clock + 1, deletes: ids };
+  insertItem(doc, item);
+  return item;
+};
+
+const deletedIds = (doc) => {
+  const deleted = new Set();
+  doc.order.forEach((item) => item.deletes?.forEach((id) => deleted.add(id)));
+  return deleted;
+};
+
+// The board as an action list in board order, without deleted actions
+export const toActions = (doc) => {
+  const deleted = deletedIds(doc);
+  return doc.order
+    .filter((item) => item.action && !deleted.has(itemId(item)))
+    .map((item) => item.action);
+};
+
+// Ids of the visible items that make up one stroke or object change
+export const itemsForAction = (doc, actionId) => {
+  const deleted = deletedIds(doc);
+  return doc.order
+    .filter(
+      (item) => item.action?.actionId === actionId && !deleted.has(itemId(item))
+    )
+    .map(itemId);
+};
+
+// What this copy has seen: the highest clock from each client
+export const stateVector = (doc) => Object.fromEntries(doc.clients);
+
+// Items another copy is missing, given its state vector
+export const diffUpdate = (doc, vector = {}) =>
+  doc.order.filter((item) => item.clock > (vector?.[item.client] ?? 0));
+
+/**
+ * Drop items that can never show again: deleted actions, and everything
+ * before the last clear. Deletion markers are kept so a copy that still
+ * has the deleted item hears about it.
+ */
+export const compactDoc = (doc) => {
+  const deleted = deletedIds(doc);
+  let lastClear = -1;
+  doc.order.forEach((item, index) => {
+    if (item.action?.type === "clear" && !deleted.has(itemId(item))) {
+      lastClear = index;
+    }
+  });
+
+  doc.order = doc.order.filter(
+    (item, index) =>
+      index >= lastClear && !(item.action && deleted.has(itemId(item)))
+  );
+  doc.items = new Map(doc.order.map((item) => [itemId(item), item]));
+  return doc;
+};
+
+export const encodeDoc = (doc) => ({
+  clients: stateVector(doc),
+  items: doc.order,
+});
+
+export const decodeDoc = (data, clientId) => {
+  const doc = createBoardDoc(clientId);
+  applyUpdate(doc, data?.items);
+  Object.entries(data?.clients ?? {}).forEach(([client, clock]) => {
+    doc.clients.set(client, Math.max(doc.clients.get(client) ?? 0, clock));
+    doc.clock = Math.max(doc.clock, clock);
+  });
+  return doc;
+};
+
+// Boards saved before documents existed are plain action lists. Convert
+// them the same way everywhere so every copy agrees on the item ids.
+export const docFromActions = (actions, clientId) => {
+  const doc = createBoardDoc(clientId);
+  applyUpdate(
+    doc,
+    actions.map((action, index) => ({
+      client: "legacy",
+      clock: index + 1,
+      action,
+    }))
+  );
+  return doc;
+};
@@ -0,0 +1,444 @@
+import { compactActions } from "./whiteboardStore.js";
+
+// Renders a stored whiteboard (its action list) to SVG or PDF. Both formats
+// are produced from one display list of paths, boxes, ellipses and text so
+// they always show the same picture.
+
+export const BOARD_BACKGROUND = "#121212";
+export const EXPORT_PADDING = 20;
+export const EXPORT_FORMATS = ["svg", "pdf"];
+
+const EMPTY_BOUNDS = { minX: 0, minY: 0, maxX: 800, maxY: 600 };
+const STICKY_TEXT_COLOR = "#1F2937";
+const FONT_SIZE = 16;
+const LINE_HEIGHT = FONT_SIZE + 4;
+
+// Rough average glyph width, used to wrap note text without font metrics
+const CHAR_WIDTH = FONT_SIZE * 0.55;
+
+const wrapText = (text, maxWidth) => {
+  const maxChars = Math.max(Math.floor(maxWidth / CHAR_WIDTH), 1);
+  const lines = [];
+  String(text || "")
+    .split("\n")
+    .forEach((paragraph) => {
+      let line = "";
+      paragraph.split(" ").forEach((word) => {
+        const candidate = line ? `${line} ${word}` : word;
+        if (candidate.length > maxChars && line) {
+          lines.push(line);
+          line = word;
+        } else {
+          line = candidate;
+        }
+      });
+      lines.push(line);
+    });
+  return lines;
+};
+
+// Same curve the canvas draws: quadratic segments through point midpoints
+const strokeSegments = (points) => {
+  const segments = [{ op: "M", x: points[0].x, y: points[0].y }];
+  for (let i = 1; i < points.length - 2; i++) {
+    const p1 = points[i];
+    const p2 = points[i + 1];
+    segments.push({
+      op: "Q",
+      cx: p1.x,
+      cy: p1.y,
+      x: (p1.x + p2.x) / 2,
+      y: (p1.y + p2.y) / 2,
+    });
+  }
+  if (points.length > 2) {
+    const secondLast = points[points.length - 2];
+    const last = points[points.length - 1];
+    segments.push({
+      op: "Q",
+      cx: secondLast.x,
+      cy: secondLast.y,
+      x: last.x,
+      y: last.y,
+    });
+  } else if (points.length === 2) {
+    segments.push({ op: "L", x: points[1].x, y: points[1].y });
+  }
+  return segments;
+};
+
+const objectItems = (object) => {
+  const {
+    kind,
+    x,
+    y,
+    width,
+    height,
+    color = "#D3D3D3",
+    strokeWidth = 2,
+  } = object;
+  const box = {
+    x: Math.min(x, x + width),
+    y: Math.min(y, y + height),
+    width: Math.abs(width),
+    height: Math.abs(height),
+  };
+  const items = [];
+
+  if (kind === "rect") {
+    items.push({ type: "rect", ...box, stroke: color, lineWidth: strokeWidth });
+  } else if (kind === "ellipse") {
+    items.push({
+      type: "ellipse",
+      cx: box.x + box.width / 2,
+      cy: box.y + box.height / 2,
+      rx: box.width / 2,
+      ry: box.height / 2,
+      stroke: color,
+      lineWidth: strokeWidth,
+    });
+  } else if (kind === "line" || kind === "arrow") {
+    const endX = x + width;
+    const endY = y + height;
+    items.push({
+      type: "path",
+      segments: [
+        { op: "M", x, y },
+        { op: "L", x: endX, y: endY },
+      ],
+      stroke: color,
+      lineWidth: strokeWidth,
+    });
+    if (kind === "arrow") {
+      const angle = Math.atan2(height, width);
+      const size = 8 + strokeWidth * 2;
+      items.push({
+        type: "path",
+        segments: [
+          {
+            op: "M",
+            x: endX - size * Math.cos(angle - Math.PI / 6),
+            y: endY - size * Math.sin(angle - Math.PI / 6),
+          },
+          { op: "L", x: endX, y: endY },
+          {
+            op: "L",
+            x: endX - size * Math.cos(angle + Math.PI / 6),
+            y: endY - size * Math.sin(angle + Math.PI / 6),
+          },
+        ],
+        stroke: color,
+        lineWidth: strokeWidth,
+      });
+    }
+  } else if (kind === "sticky") {
+    items.push({ type: "rect", ...box, fill: color });
+  }
+
+  if ((kind === "text" || kind === "sticky") && object.text) {
+    const padding = kind === "sticky" ? 10 : 2;
+    const maxLines = Math.max(
+      Math.floor((box.height - padding) / LINE_HEIGHT),
+      1
+    );
+    items.push({
+      type: "text",
+      x: box.x + padding,
+      y: box.y + padding,
+      lines: wrapText(object.text, box.width - padding * 2).slice(0, maxLines),
+      color: kind === "sticky" ? STICKY_TEXT_COLOR : color,
+      size: FONT_SIZE,
+    });
+  }
+
+  if (object.taskKey) {
+    items.push({
+      type: "text",
+      x: box.x + box.width - object.taskKey.length * 7 - 8,
+      y: box.y - 6,
+      lines: [object.taskKey],
+      color: "#059669",
+      size: 11,
+    });
+  }
+
+  return items;
+};
+
+const includePoint = (bounds, x, y, margin = 0) => ({
+  minX: Math.min(bounds.minX, x - margin),
+  minY: Math.min(bounds.minY, y - margin),
+  maxX: Math.max(bounds.maxX, x + margin),
+  maxY: Math.max(bounds.maxY, y + margin),
+});
+
+/**
+ * Turn a board's actions into drawable items plus the area they cover.
+ * Strokes come first and objects on top, as on the live canvas.
+ */
+export const buildDisplayList = (actions) => {
+  const visible = compactActions(Array.isArray(actions) ? actions : []);
+  const items = [];
+  const lastPoints = new Map();
+
+  visible.forEach((action) => {
+    if (action?.type === "start") {
+      lastPoints.set(action.actionId ?? "legacy", {
+        x: action.x ?? 0,
+        y: action.y ?? 0,
+      });
+    } else if (action?.type === "draw") {
+      const strokeKey = action.actionId ?? "legacy";
+      const baseWidth = action.brushSize || 5;
+      const points = action.points?.length
+        ? action.points
+        : [lastPoints.get(strokeKey) ?? action, action];
+      lastPoints.set(strokeKey, { x: action.x ?? 0, y: action.y ?? 0 });
+      if (points.length < 2) return;
+
+      items.push({
+        type: "path",
+        segments: strokeSegments(points),
+        // The canvas erases to transparent; on an export that is the background
+        stroke:
+          action.tool === "eraser"
+            ? BOARD_BACKGROUND
+            : action.color || "#000000",
+        lineWidth: baseWidth * (points[1].pressure || action.pressure || 1),
+      });
+    }
+  });
+
+  visible
+    .filter((action) => action?.type === "object-add")
+    .forEach((action) => items.push(...objectItems(action.object)));
+
+  let bounds = null;
+  items.forEach((item) => {
+    const margin = (item.lineWidth || 0) / 2;
+    const extend = (x, y) => {
+      bounds = includePoint(
+        bounds ?? { minX: x, minY: y, maxX: x, maxY: y },
+        x,
+        y,
+        margin
+      );
+    };
+    if (item.type === "path") {
+      item.segments.forEach((segment) => {
+        extend(segment.x, segment.y);
+        if (segment.op === "Q") extend(segment.cx, segment.cy);
+      });
+    } else if (item.type === "rect") {
+      extend(item.x, item.y);
+      extend(item.x + item.width, item.y + item.height);
+    } else if (item.type === "ellipse") {
+      extend(item.cx - item.rx, item.cy - item.ry);
+      extend(item.cx + item.rx, item.cy + item.ry);
+    } else if (item.type === "text") {
+      const longest = Math.max(...item.lines.map((line) => line.length), 0);
+      extend(item.x, item.y);
+      extend(
+        item.x + longest * CHAR_WIDTH,
+        item.y + item.lines.length * LINE_HEIGHT
+      );
+    }
+  });
+
+  const content = bounds ?? EMPTY_BOUNDS;
+  return {
+    items,
+    bounds: {
+      minX: content.minX - EXPORT_PADDING,
+      minY: content.minY - EXPORT_PADDING,
+      maxX: content.maxX + EXPORT_PADDING,
+      maxY: content.maxY + EXPORT_PADDING,
+    },
+  };
+};
+
+const round = (value) => Math.round(value * 100) / 100;
+
+const escapeXml = (text) =>
+  String(text)
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+const svgPathData = (segments) =>
+  segments
+    .map((segment) =>
+      segment.op === "Q"
+        ? `Q${round(segment.cx)} ${round(segment.cy)} ${round(segment.x)} ${round(segment.y)}`
+        : `${segment.op}${round(segment.x)} ${round(segment.y)}`
+    )
+    .join(" ");
+
+/** Render a board's actions as a standalone SVG document */
+export const renderBoardSvg = (actions) => {
+  const { items, bounds } = buildDisplayList(actions);
+  const width = round(bounds.maxX - bounds.minX);
+  const height = round(bounds.maxY - bounds.minY);
+
+  const body = items.map((item) => {
+    const stroke = item.stroke
+      ? ` stroke="${escapeXml(item.stroke)}" stroke-width="${round(item.lineWidth)}"`
+      : "";
+    const fill = ` fill="${item.fill ? escapeXml(item.fill) : "none"}"`;
+
+    switch (item.type) {
+      case "path":
+        return `<path d="${svgPathData(item.segments)}"${fill}${stroke} stroke-linecap="round" stroke-linejoin="round"/>`;
+      case "rect":
+        return `<rect x="${round(item.x)}" y="${round(item.y)}" width="${round(item.width)}" height="${round(item.height)}"${fill}${stroke}/>`;
+      case "ellipse":
+        return `<ellipse cx="${round(item.cx)}" cy="${round(item.cy)}" rx="${round(item.rx)}" ry="${round(item.ry)}"${fill}${stroke}/>`;
+      case "text":
+        return `<text font-family="sans-serif" font-size="${item.size}" fill="${escapeXml(item.color)}">${item.lines
+          .map(
+            (line, index) =>
+              `<tspan x="${round(item.x)}" y="${round(item.y + item.size + index * LINE_HEIGHT)}">${escapeXml(line)}</tspan>`
+          )
+          .join("")}</text>`;
+      default:
+        return "";
+    }
+  });
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="${round(bounds.minX)} ${round(bounds.minY)} ${width} ${height}">`,
+    `<rect x="${round(bounds.minX)}" y="${round(bounds.minY)}" width="${width}" height="${height}" fill="${BOARD_BACKGROUND}"/>`,
+    ...body,
+    "</svg>",
+  ].join("\n");
+};
+
+const pdfColor = (hex) => {
+  const match = String(hex || "").match(/^#?([0-9a-f]{6})$/i);
+  const value = match ? parseInt(match[1], 16) : 0;
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255]
+    .map((channel) => round(channel / 255))
+    .join(" ");
+};
+
+// PDF strings only take Latin-1 here; escape the delimiters and drop the rest
+const pdfText = (text) =>
+  String(text)
+    .replace(/[^\x20-\x7e\xa0-\xff]/g, "?")
+    .replace(/([\\()])/g, "\\$1");
+
+// Circle approximation constant for drawing ellipses with cubic curves
+const KAPPA = 0.5522848;
+
+const pdfPathOps = (segments) => {
+  const ops = [];
+  let current = { x: 0, y: 0 };
+  segments.forEach((segment) => {
+    if (segment.op === "Q") {
+      // PDF has no quadratic curves; raise the degree to a cubic
+      const c1x = current.x + (2 / 3) * (segment.cx - current.x);
+      const c1y = current.y + (2 / 3) * (segment.cy - current.y);
+      const c2x = segment.x + (2 / 3) * (segment.cx - segment.x);
+      const c2y = segment.y + (2 / 3) * (segment.cy - segment.y);
+      ops.push(
+        `${round(c1x)} ${round(c1y)} ${round(c2x)} ${round(c2y)} ${round(segment.x)} ${round(segment.y)} c`
+      );
+    } else {
+      ops.push(
+        `${round(segment.x)} ${round(segment.y)} ${segment.op === "M" ? "m" : "l"}`
+      );
+    }
+    current = segment;
+  });
+  return ops;
+};
+
+const pdfEllipseOps = ({ cx, cy, rx, ry }) => {
+  const ox = rx * KAPPA;
+  const oy = ry * KAPPA;
+  return [
+    `${round(cx + rx)} ${round(cy)} m`,
+    `${round(cx + rx)} ${round(cy + oy)} ${round(cx + ox)} ${round(cy + ry)} ${round(cx)} ${round(cy + ry)} c`,
+    `${round(cx - ox)} ${round(cy + ry)} ${round(cx - rx)} ${round(cy + oy)} ${round(cx - rx)} ${round(cy)} c`,
+    `${round(cx - rx)} ${round(cy - oy)} ${round(cx - ox)} ${round(cy - ry)} ${round(cx)} ${round(cy - ry)} c`,
+    `${round(cx + ox)} ${round(cy - ry)} ${round(cx + rx)} ${round(cy - oy)} ${round(cx + rx)} ${round(cy)} c`,
+  ];
+};
+
+/**
+ * Render a board's actions as a single-page vector PDF. The page is sized
+ * to the board's content, in points, one point per board unit.
+ * @returns {Buffer}
+ */
+export const renderBoardPdf = (actions) => {
+  const { items, bounds } = buildDisplayList(actions);
+  const width = round(bounds.maxX - bounds.minX);
+  const height = round(bounds.maxY - bounds.minY);
+
+  // Flip the y axis so board coordinates can be used as they are
+  const ops = [
+    `${pdfColor(BOARD_BACKGROUND)} rg`,
+    `0 0 ${width} ${height} re f`,
+    `1 0 0 -1 ${round(-bounds.minX)} ${round(bounds.maxY)} cm`,
+    "1 J 1 j",
+  ];
+
+  items.forEach((item) => {
+    if (item.type === "text") {
+      item.lines.forEach((line, index) => {
+        ops.push(
+          "BT",
+          `/F1 ${item.size} Tf`,
+          `${pdfColor(item.color)} rg`,
+          // Un-flip the glyphs, which would otherwise render upside down
+          `1 0 0 -1 ${round(item.x)} ${round(item.y + item.size + index * LINE_HEIGHT)} Tm`,
+          `(${pdfText(line)}) Tj`,
+          "ET"
+        );
+      });
+      return;
+    }
+
+    if (item.stroke) {
+      ops.push(`${pdfColor(item.stroke)} RG`, `${round(item.lineWidth)} w`);
+    }
+    if (item.fill) ops.push(`${pdfColor(item.fill)} rg`);
+
+    if (item.type === "path") {
+      ops.push(...pdfPathOps(item.segments));
+    } else if (item.type === "rect") {
+      ops.push(
+        `${round(item.x)} ${round(item.y)} ${round(item.width)} ${round(item.height)} re`
+      );
+    } else if (item.type === "ellipse") {
+      ops.push(...pdfEllipseOps(item));
+    }
+    ops.push(item.fill ? "f" : "S");
+  });
+
+  const content = ops.join("\n");
+  const objects = [
+    "<< /Type /Catalog /Pages 2 0 R >>",
+    "<< /Type /Pages /Kids [3 0 R] /Count 1 >>",
+    `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${width} ${height}] /Resources << /Font << /F1 5 0 R >> >> /Contents 4 0 R >>`,
+    `<< /Length ${Buffer.byteLength(content, "latin1")} >>\nstream\n${content}\nendstream`,
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>",
+  ];
+
+  let pdf = "%PDF-1.4\n";
+  const offsets = objects.map((object, index) => {
+    const offset = Buffer.byteLength(pdf, "latin1");
+    pdf += `${index + 1} 0 obj\n${object}\nendobj\n`;
+    return offset;
+  });
+
+  const xrefOffset = Buffer.byteLength(pdf, "latin1");
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets
+    .map((offset) => `${String(offset).padStart(10, "0")} 00000 n \n`)
+    .join("");
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(pdf, "latin1");
+};
@@ -0,0 +1,39 @@
+import prisma from "../db.js";
+import { chatRoomName } from "./chatChannels.js";
+
+// Rooms, chats and boards are named after their workspace
+export const isWorkspaceMember = async (user, roomCode) =>
+  !!roomCode &&
+  !!(await prisma.workspaceMember.findFirst({
+    where: { userId: user.id, workspace: { name: String(roomCode) } },
+    select: { id: true },
+  }));
+
+/**
+ * Where a chat event from the socket's user belongs: the workspace-wide
+ * chat of a workspace they are in, or a private channel or direct
+ * conversation they are a member of. Channel memberships outlive removal
+ * from the workspace, so both are checked. Resolves to null otherwise.
+ * @returns {Promise<{ user: object, channelId: string | null, room: string } | null>}
+ */
+export const resolveChat = async (user, roomCode, channelId) => {
+  if (!(await isWorkspaceMember(user, roomCode))) return null;
+  if (!channelId) {
+    return { user, channelId: null, room: roomCode };
+  }
+
+  const membership = await prisma.chatChannelMember.findUnique({
+    where: {
+      channelId_userId: { channelId: String(channelId), userId: user.id },
+    },
+    include: { channel: { include: { workspace: true } } },
+  });
+  if (!membership || membership.channel.workspace.name !== roomCode) {
+    return null;
+  }
+  return {
+    user,
+    channelId: membership.channelId,
+    room: chatRoomName(roomCode, membership.channelId),
+  };
+};
@@ -0,0 +1,86 @@
+// Private channels and direct conversations live inside a workspace's chat
+// room. Each has its own socket.io room so its messages only reach the
+// people in it.
+
+export const MAX_CHANNEL_NAME_LENGTH = 80;
+
+// The socket.io room a chat's messages are sent to: the workspace room for
+// the workspace-wide chat, or the channel's own room
+export const chatRoomName = (roomCode, channelId) =>
+  channelId ? `chat-channel:${channelId}` : roomCode;
+
+// Channel names are lowercase and hyphenated, e.g. "Design Review" becomes
+// "design-review". Returns null when nothing usable is left.
+export const parseChannelName = (name) => {
+  if (typeof name !== "string") return null;
+  const slug = name
+    .trim()
+    .toLowerCase()
+    .replace(/^#/, "")
+    .replace(/[^\p{L}\p{N}_-]+/gu, "-")
+    .replace(/-{2,}/g, "-")
+    .replace(/^-|-$/g, "");
+  if (!slug || slug.length > MAX_CHANNEL_NAME_LENGTH) return null;
+  return slug;
+};
+
+// The same key whichever of the two people starts the conversation
+export const directKey = (workspaceId, userIds) =>
+  [workspaceId, ...[...userIds].sort()].join(":");
+
+/**
+ * Prisma count arguments for someone's unread messages in a chat: top-level
+ * messages from other people sent after `since`, their read position (or
+ * when they joined, if they have never read it).
+ */
+export const buildUnreadQuery = ({ roomName, channelId, userId, since }) => ({
+  where: {
+    roomName,
+    channelId: channelId || null,
+    parentId: null,
+    deletedAt: null,
+    userId: { not: userId },
+    createdAt: { gt: since },
+  },
+});
+
+// Read positions only move forward, so reading an older message on another
+// device does not mark newer ones unread again
+export const isNewerReadPosition = (position, message) =>
+  !position || new Date(message.createdAt) > new Date(position.readAt);
+
+export const formatReadPosition = (position) => ({
+  email: position.user.email,
+  name: position.user.name,
+  messageId: position.messageId,
+  readAt: position.readAt,
+});
+
+export const channelInclude = {
+  members: {
+    include: { user: { select: { id: true, name: true, email: true } } },
+    orderBy: { joinedAt: "asc" },
+  },
+};
+
+// A channel as the sidebar shows it. Direct conversations are named after
+// the other person.
+export const formatChannel = (channel, userId, unreadCount = 0) => {
+  const members = channel.members.map(({ user }) => ({
+    id: user.id,
+    name: user.name,
+    email: user.email,
+  }));
+  const other = members.find((member) => member.id !== userId);
+
+  return {
+    id: channel.id,
+    kind: channel.kind,
+    name:
+      channel.kind === "DIRECT"
+        ? other?.name || other?.email || "Direct message"
+        : channel.name,
+    members,
+    unreadCount,
+  };
+};
@@ -0,0 +1,113 @@
+import { formatTaskSummary } from "./chatReferences.js";
+import { parseTaskKey } from "./taskKeys.js";
+
+export const TASK_PRIORITIES = ["HIGH", "MEDIUM", "LOW"];
+
+// What people type after /status, mapped to task statuses
+const STATUS_ALIASES = {
+  todo: "TODO",
+  "to-do": "TODO",
+  open: "TODO",
+  "in-progress": "IN_PROGRESS",
+  in_progress: "IN_PROGRESS",
+  inprogress: "IN_PROGRESS",
+  doing: "IN_PROGRESS",
+  done: "DONE",
+  closed: "DONE",
+  archived: "ARCHIVED",
+};
+
+export const CHAT_COMMAND_HELP = [
+  "Available commands:",
+  '/task "Title" [@person] [high|medium|low] [#PROJECT] - create a task',
+  "/status KEY todo|in-progress|done|archived - move a task, e.g. /status PIX-42 done",
+  "/help - show this list",
+].join("\n");
+
+// Words, with "quoted phrases" (straight or curly quotes) kept together
+const tokenize = (text) =>
+  [...text.matchAll(/["“”]([^"“”]*)["“”]|(\S+)/g)].map((match) =>
+    match[1] !== undefined
+      ? { text: match[1], quoted: true }
+      : { text: match[2], quoted: false }
+  );
+
+// /task "Fix login" @alice high #PIX. Unquoted words that are not an
+// option become the title, so /task Fix login works too.
+const parseTaskCommand = (tokens) => {
+  const title = [];
+  let assignee = null;
+  let priority = null;
+  let projectKey = null;
+
+  for (const { text, quoted } of tokens) {
+    if (!quoted && text.startsWith("@") && text.length > 1) {
+      if (assignee) return { error: "A task can only have one assignee" };
+      assignee = text
+        .slice(1)
+        .replace(/[.,]+$/, "")
+        .toLowerCase();
+    } else if (!quoted && text.startsWith("#") && text.length > 1) {
+      projectKey = text.slice(1).toUpperCase();
+    } else if (!quoted && TASK_PRIORITIES.includes(text.toUpperCase())) {
+      priority = text.toUpperCase();
+    } else {
+      title.push(text);
+    }
+  }
+
+  const joined = title.join(" ").replace(/\s+/g, " ").trim();
+  if (!joined) {
+    return {
+      error: 'Give the task a title, e.g. /task "Fix login" @alice high',
+    };
+  }
+  return { name: "task", title: joined, assignee, priority, projectKey };
+};
+
+// /status PIX-42 done (or "in progress")
+const parseStatusCommand = (tokens) => {
+  const [key, ...rest] = tokens.map((token) => token.text);
+  const parsedKey = parseTaskKey(key);
+  if (!parsedKey) {
+    return { error: "Which task? e.g. /status PIX-42 done" };
+  }
+
+  const status = STATUS_ALIASES[rest.join("-").toLowerCase()];
+  if (!status) {
+    return {
+      error: "Unknown status; use todo, in-progress, done or archived",
+    };
+  }
+  return {
+    name: "status",
+    key: `${parsedKey.projectKey}-${parsedKey.number}`,
+    status,
+  };
+};
+
+/**
+ * Parse a chat message that starts with a slash command.
+ * @returns {null | { error: string } | { name: "help", unknown: string | null }
+ *   | { name: "task", title, assignee, priority, projectKey }
+ *   | { name: "status", key, status }} null when the text is not a command
+ */
+export const parseChatCommand = (text) => {
+  const match = String(text || "")
+    .trim()
+    .match(/^\/([a-z]+)(?:\s+([\s\S]*))?$/i);
+  if (!match) return null;
+
+  const name = match[1].toLowerCase();
+  const tokens = tokenize(match[2] || "");
+  if (name === "task") return parseTaskCommand(tokens);
+  if (name === "status") return parseStatusCommand(tokens);
+  return { name: "help", unknown: name === "help" ? null : name };
+};
+
+// The task summary shown in a chat confirmation card
+export const formatTaskCard = (action, task, assignee) => ({
+  type: "task",
+  action,
+  task: formatTaskSummary({ ...task, assignee }),
+});
@@ -0,0 +1,122 @@
+// Chat history is sent newest page first: the latest messages on join, then
+// older pages on request, each resuming after the oldest message shown.
+
+import { formatAttachment } from "./attachments.js";
+import { chatReferenceInclude, formatReferences } from "./chatReferences.js";
+
+export const CHAT_PAGE_SIZE = 50;
+export const MAX_CHAT_PAGE_SIZE = 100;
+
+// Replies shown when a thread is opened
+export const MAX_THREAD_SIZE = 200;
+
+// Reactions are a single emoji, possibly with modifiers and joiners
+const MAX_REACTION_LENGTH = 16;
+
+export const chatMessageInclude = {
+  user: { select: { name: true, email: true } },
+  reactions: {
+    select: { emoji: true, user: { select: { name: true, email: true } } },
+    orderBy: { createdAt: "asc" },
+  },
+  _count: { select: { replies: true } },
+  references: { include: chatReferenceInclude, orderBy: { createdAt: "asc" } },
+  attachments: {
+    include: { uploader: { select: { name: true, email: true } } },
+    orderBy: { createdAt: "asc" },
+  },
+};
+
+/**
+ * Prisma findMany arguments for one page of a room's messages, newest
+ * first, starting just before the `before` message id when given. Replies
+ * live in their threads, not in the main history. Without a channelId this
+ * is the workspace-wide chat, which leaves out private channel messages.
+ */
+export const buildChatPageQuery = (
+  roomName,
+  { before, limit, channelId } = {}
+) => {
+  const take = Math.min(
+    Math.max(parseInt(limit, 10) || CHAT_PAGE_SIZE, 1),
+    MAX_CHAT_PAGE_SIZE
+  );
+
+  return {
+    where: { roomName, channelId: channelId || null, parentId: null },
+    // The id tie-breaker keeps the order stable between pages
+    orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+    // One extra row tells us whether an older page exists
+    take: take + 1,
+    ...(before ? { cursor: { id: String(before) }, skip: 1 } : {}),
+    include: chatMessageInclude,
+    limit: take,
+  };
+};
+
+// Prisma findMany arguments for the replies to a message, oldest first
+export const buildThreadQuery = (parentId) => ({
+  where: { parentId },
+  orderBy: [{ createdAt: "asc" }, { id: "asc" }],
+  take: MAX_THREAD_SIZE,
+  include: chatMessageInclude,
+});
+
+// One entry per emoji, in the order each was first used
+export const summarizeReactions = (reactions = []) => {
+  const byEmoji = new Map();
+  reactions.forEach(({ emoji, user }) => {
+    if (!byEmoji.has(emoji)) byEmoji.set(emoji, { emoji, users: [] });
+    byEmoji.get(emoji).users.push({ name: user.name, email: user.email });
+  });
+  return [...byEmoji.values()];
+};
+
+// Deleted messages keep their place in the conversation but lose their
+// text, reactions and files
+export const formatChatMessage = (msg) => ({
+  id: msg.id,
+  sender: msg.user.name,
+  senderEmail: msg.user.email ?? null,
+  text: msg.deletedAt ? "" : msg.message,
+  timestamp: msg.createdAt,
+  parentId: msg.parentId ?? null,
+  channelId: msg.channelId ?? null,
+  replyCount: msg._count?.replies ?? 0,
+  editedAt: msg.editedAt ?? null,
+  deleted: Boolean(msg.deletedAt),
+  reactions: msg.deletedAt ? [] : summarizeReactions(msg.reactions),
+  card: msg.deletedAt ? null : (msg.card ?? null),
+  references: msg.deletedAt ? [] : formatReferences(msg.references),
+  attachments: msg.deletedAt
+    ? []
+    : (msg.attachments ?? []).map(formatAttachment),
+});
+
+export const isValidReaction = (emoji) =>
+  typeof emoji === "string" &&
+  emoji.trim().length > 0 &&
+  emoji.length <= MAX_REACTION_LENGTH &&
+  !/[\s\w]/.test(emoji);
+
+// Only the author can edit a message
+export const canEditMessage = (message, user) =>
+  !message.deletedAt && message.userId === user.id;
+
+// The author or a workspace ADMIN can delete a message
+export const canDeleteMessage = (message, user, membership) =>
+  !message.deletedAt &&
+  (message.userId === user.id || membership?.role === "ADMIN");
+
+/**
+ * Trim the extra row, put the page back in reading order and derive the
+ * cursor for the next older page.
+ */
+export const toChatPage = (rows, limit) => {
+  const hasMore = rows.length > limit;
+  const page = hasMore ? rows.slice(0, limit) : rows;
+  return {
+    messages: page.map(formatChatMessage).reverse(),
+    nextCursor: hasMore ? page[page.length - 1].id : null,
+  };
+};
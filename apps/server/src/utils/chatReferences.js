@@ -0,0 +1,199 @@
+import prisma from "../db.js";
+import { chatRoomName } from "./chatChannels.js";
+import { TASK_KEY_PATTERN, parseTaskKey, withTaskKey } from "./taskKeys.js";
+
+// Most tasks, sprints and milestones unfurled under one message
+export const MAX_REFERENCES_PER_MESSAGE = 5;
+
+// Links into the app name what they point at with ?task=, ?sprint= or
+// ?milestone=; a task link may use the issue key or the task id
+const LINK_PATTERN = /https?:\/\/\S+|www\.\S+/g;
+const LINK_PARAM_PATTERN = /[?&](task|sprint|milestone)=([\w-]+)/g;
+
+const referenceOwnerSelect = { select: { name: true, email: true } };
+
+// Included with each reference so cards can be drawn without more queries
+export const chatReferenceInclude = {
+  task: {
+    include: {
+      assignee: referenceOwnerSelect,
+      project: { select: { key: true } },
+    },
+  },
+  sprint: { include: { owner: referenceOwnerSelect } },
+  milestone: { include: { owner: referenceOwnerSelect } },
+};
+
+/**
+ * Find the issue keys and task, sprint and milestone links in a chat
+ * message, ignoring code. Links win over keys for the same task.
+ * @returns {Array<{ type: "task"|"sprint"|"milestone", key?: string, id?: string }>}
+ *   unique references in the order they appear, at most MAX_REFERENCES_PER_MESSAGE
+ */
+export const extractReferences = (text) => {
+  if (!text) return [];
+
+  const withoutCode = String(text)
+    .replace(/```[\s\S]*?```/g, " ")
+    .replace(/`[^`]*`/g, " ");
+
+  const references = [];
+  const seen = new Set();
+  const add = (reference) => {
+    const id = `${reference.type}:${reference.key ?? reference.id}`;
+    if (seen.has(id)) return;
+    seen.add(id);
+    references.push(reference);
+  };
+
+  for (const [link] of withoutCode.matchAll(LINK_PATTERN)) {
+    for (const [, type, value] of link.matchAll(LINK_PARAM_PATTERN)) {
+      const parsed = type === "task" && parseTaskKey(value);
+      add(
+        parsed
+          ? { type, key: `${parsed.projectKey}-${parsed.number}` }
+          : { type, id: value }
+      );
+    }
+  }
+
+  // Keys inside links were handled above
+  const outsideLinks = withoutCode.replace(LINK_PATTERN, " ");
+  for (const [key] of outsideLinks.matchAll(TASK_KEY_PATTERN)) {
+    add({ type: "task", key });
+  }
+
+  return references.slice(0, MAX_REFERENCES_PER_MESSAGE);
+};
+
+/**
+ * Look up extracted references among the workspace's tasks, sprints and
+ * milestones. Anything from another workspace, or that does not exist, is
+ * left out.
+ * @returns {Promise<Array<{ taskId?: string, sprintId?: string, milestoneId?: string }>>}
+ */
+export const resolveReferences = async (references, workspaceName) => {
+  const inWorkspace = { workspace: { name: workspaceName } };
+
+  const resolved = await Promise.all(
+    references.map(async (reference) => {
+      if (reference.type === "task") {
+        const parsed = reference.key && parseTaskKey(reference.key);
+        const task = await prisma.task.findFirst({
+          where: parsed
+            ? {
+                number: parsed.number,
+                project: { key: parsed.projectKey, ...inWorkspace },
+              }
+            : { id: reference.id, project: inWorkspace },
+          select: { id: true },
+        });
+        return task && { taskId: task.id };
+      }
+
+      const model = reference.type === "sprint" ? "sprint" : "milestone";
+      const entity = await prisma[model].findFirst({
+        where: { id: reference.id, project: inWorkspace },
+        select: { id: true },
+      });
+      return entity && { [`${model}Id`]: entity.id };
+    })
+  );
+
+  // A key and a link can name the same task
+  const unique = new Map();
+  resolved.filter(Boolean).forEach((reference) => {
+    unique.set(Object.entries(reference)[0].join(":"), reference);
+  });
+  return [...unique.values()];
+};
+
+const formatOwner = (user) =>
+  user ? { name: user.name, email: user.email } : null;
+
+// The task fields shown on chat cards
+export const formatTaskSummary = (task) => ({
+  id: task.id,
+  key: task.key ?? null,
+  title: task.title,
+  status: task.status,
+  priority: task.priority,
+  projectId: task.projectId,
+  assignee: formatOwner(task.assignee),
+});
+
+/**
+ * The live card for a task, sprint or milestone, loaded with
+ * chatReferenceInclude. Task cards show the assignee; sprint and milestone
+ * cards their owner.
+ */
+export const formatReferenceCard = (type, entity) => {
+  if (type === "task") {
+    return { type, ...formatTaskSummary(withTaskKey(entity)) };
+  }
+  return {
+    type,
+    id: entity.id,
+    title: type === "sprint" ? entity.name : entity.title,
+    status: entity.status,
+    progress: entity.progress,
+    startDate: entity.startDate ?? null,
+    endDate: entity.endDate ?? null,
+    owner: formatOwner(entity.owner),
+  };
+};
+
+// Cards for a message's stored references, skipping any whose entity is gone
+export const formatReferences = (references = []) =>
+  references.flatMap((reference) => {
+    const type = ["task", "sprint", "milestone"].find(
+      (name) => reference[name]
+    );
+    return type ? [formatReferenceCard(type, reference[type])] : [];
+  });
+
+// The chat rooms with messages that mention a task, sprint or milestone
+export const findReferenceRooms = async (type, id) => {
+  const mentions = await prisma.chatMessageReference.findMany({
+    where: { [`${type}Id`]: id },
+    select: { message: { select: { roomName: true, channelId: true } } },
+  });
+  return [
+    ...new Set(
+      mentions.map(({ message }) =>
+        chatRoomName(message.roomName, message.channelId)
+      )
+    ),
+  ];
+};
+
+/**
+ * Push the current card for a task, sprint or milestone to every chat
+ * that mentioned it, so unfurled cards update in place. `io` is optional
+ * so callers without a socket server can skip it.
+ */
+export const broadcastReferenceUpdate = async (io, type, id) => {
+  if (!io) return;
+
+  const rooms = await findReferenceRooms(type, id);
+  if (rooms.length === 0) return;
+
+  const entity = await prisma[type].findUnique({
+    where: { id },
+    include: chatReferenceInclude[type].include,
+  });
+  if (!entity) return;
+
+  const card = formatReferenceCard(type, entity);
+  rooms.forEach((room) => io.to(room).emit("reference-updated", card));
+};
+
+/**
+ * Tell the chats that mentioned a deleted task, sprint or milestone to drop
+ * its cards. The mentions are deleted with the entity, so look up `rooms`
+ * with findReferenceRooms beforehand.
+ */
+export const broadcastReferenceRemoval = (io, rooms, type, id) => {
+  if (!io) return;
+  rooms.forEach((room) => io.to(room).emit("reference-removed", { type, id }));
+};
@@ -0,0 +1,49 @@
+// Matches "@handle" where the handle is a name without spaces, an email
+// local part or a full email address. The lookbehind skips the "@" inside
+// plain email addresses such as "jane@example.com".
+const MENTION_PATTERN = /(?<![\w.@])@([\w.+-]+(?:@[\w-]+(?:\.[\w-]+)+)?)/g;
+
+const normalize = (value) => (value || "").replace(/\s+/g, "").toLowerCase();
+
+/**
+ * Pull the unique "@handles" out of a markdown body, ignoring fenced and
+ * inline code so code samples do not notify anyone.
+ */
+export const extractMentionHandles = (body) => {
+  if (!body) return [];
+
+  const withoutCode = body
+    .replace(/```[\s\S]*?```/g, " ")
+    .replace(/`[^`]*`/g, " ");
+
+  const handles = new Set();
+  for (const match of withoutCode.matchAll(MENTION_PATTERN)) {
+    handles.add(match[1].replace(/[.-]+$/, "").toLowerCase());
+  }
+  return [...handles];
+};
+
+/**
+ * Resolve handles against workspace members (`{ user: { id, name, email } }`).
+ * A handle matches a member's full email, email local part or name with the
+ * whitespace removed, case-insensitively.
+ *
+ * @returns {Array<Object>} the matched users, without duplicates
+ */
+export const resolveMentions = (handles, members) => {
+  const matched = new Map();
+
+  for (const handle of handles) {
+    for (const { user } of members) {
+      if (!user || matched.has(user.id)) continue;
+
+      const email = (user.email || "").toLowerCase();
+      const candidates = [email, email.split("@")[0], normalize(user.name)];
+      if (candidates.some((candidate) => candidate && candidate === handle)) {
+        matched.set(user.id, user);
+      }
+    }
+  }
+
+  return [...matched.values()];
+};
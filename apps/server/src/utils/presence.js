@@ -0,0 +1,61 @@
+// Minimum gap between relayed cursor updates from one connection
+export const CURSOR_THROTTLE_MS = 40;
+
+// Cursor and avatar colors, picked per user so everyone sees the same one
+export const PRESENCE_COLORS = [
+  "#F87171",
+  "#FB923C",
+  "#FACC15",
+  "#4ADE80",
+  "#2DD4BF",
+  "#60A5FA",
+  "#A78BFA",
+  "#F472B6",
+];
+
+export const presenceColor = (userId) => {
+  let hash = 0;
+  for (const char of String(userId || "")) {
+    hash = (hash * 31 + char.charCodeAt(0)) | 0;
+  }
+  return PRESENCE_COLORS[Math.abs(hash) % PRESENCE_COLORS.length];
+};
+
+/**
+ * People in a room, one entry per user however many connections (video,
+ * whiteboard, other tabs) they have open
+ * @param {Map<string, { userId: string, name: string, color: string }>} roomUsers by socket id
+ */
+export const listRoomUsers = (roomUsers) => {
+  const byUser = new Map();
+  roomUsers?.forEach((user) => {
+    if (user.userId && !byUser.has(user.userId)) byUser.set(user.userId, user);
+  });
+  return [...byUser.values()];
+};
+
+/**
+ * Whether a cursor update arriving now should be relayed, given when the
+ * last one from the same connection was
+ */
+export const shouldRelayCursor = (lastRelayedAt, now = Date.now()) =>
+  !lastRelayedAt || now - lastRelayedAt >= CURSOR_THROTTLE_MS;
+
+// Workspace presence: "away" when the dashboard is hidden or idle
+export const PRESENCE_STATUSES = ["online", "away"];
+
+// The socket.io room that receives a workspace's presence updates
+export const presenceChannel = (roomCode) => `presence:${roomCode}`;
+
+/**
+ * One status per person across all their open dashboards: online if any
+ * of them is, otherwise away
+ * @param {Map<string, { email: string, status: string }>} connections by socket id
+ */
+export const summarizePresence = (connections) => {
+  const byEmail = new Map();
+  connections?.forEach(({ email, status }) => {
+    if (email && byEmail.get(email) !== "online") byEmail.set(email, status);
+  });
+  return [...byEmail].map(([email, status]) => ({ email, status }));
+};
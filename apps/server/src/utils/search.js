@@ -0,0 +1,50 @@
+// Entity types the global search covers, in the order ties are listed
+export const SEARCH_TYPES = ["task", "project", "sprint", "milestone", "message"];
+
+export const DEFAULT_SEARCH_LIMIT = 20;
+export const MAX_SEARCH_LIMIT = 50;
+
+/**
+ * Turn free text into a prefix-matching `to_tsquery` string, so "fix log"
+ * becomes "fix:* & log:*". Only letters and digits survive, which keeps
+ * tsquery syntax characters out of user input.
+ * @returns {string|null} null when nothing searchable is left
+ */
+export const buildTsQuery = (text) => {
+  const terms = String(text || "")
+    .toLowerCase()
+    .match(/[\p{L}\p{N}]+/gu);
+  if (!terms) return null;
+  return terms
+    .slice(0, 8)
+    .map((term) => `${term}:*`)
+    .join(" & ");
+};
+
+/**
+ * Parse `?types=task,sprint` into known search types; defaults to all.
+ * @returns {string[]|null} null when an unknown type was requested
+ */
+export const parseSearchTypes = (typesParam) => {
+  const types = String(typesParam || "")
+    .split(",")
+    .map((type) => type.trim().toLowerCase())
+    .filter(Boolean);
+  if (types.length === 0) return SEARCH_TYPES;
+  return types.every((type) => SEARCH_TYPES.includes(type)) ? types : null;
+};
+
+/**
+ * Merge per-type result lists into one list ranked by relevance, breaking
+ * ties by type order and then by recency.
+ */
+export const mergeSearchResults = (groups, limit) =>
+  groups
+    .flat()
+    .sort(
+      (a, b) =>
+        b.rank - a.rank ||
+        SEARCH_TYPES.indexOf(a.type) - SEARCH_TYPES.indexOf(b.type) ||
+        new Date(b.createdAt) - new Date(a.createdAt)
+    )
+    .slice(0, limit);
@@ -0,0 +1,180 @@
+import prisma from "../db.js";
+
+// Which task types may sit directly under a parent of the given type.
+// EPIC > STORY > TASK/BUG, and a TASK may be split into further subtasks.
+export const ALLOWED_CHILD_TYPES = {
+  EPIC: ["STORY"],
+  STORY: ["TASK", "BUG"],
+  TASK: ["TASK", "BUG"],
+  BUG: [],
+};
+
+/**
+ * Check that `parentId` is a valid parent for a task of type `childType`.
+ * `taskId` is the task being re-parented (omit it for new tasks) and is
+ * used to refuse parents that would create a cycle.
+ *
+ * @returns {Promise<{ error: string|null, status?: number, parent?: Object }>}
+ */
+export const validateParentAssignment = async ({
+  taskId,
+  parentId,
+  childType,
+  projectId,
+}) => {
+  const parent = await prisma.task.findUnique({
+    where: { id: parentId },
+    select: { id: true, type: true, projectId: true, parentId: true },
+  });
+
+  if (!parent) {
+    return { error: "Parent task not found", status: 404 };
+  }
+
+  if (parent.projectId !== projectId) {
+    return {
+      error: "Parent task must belong to the same project",
+      status: 400,
+    };
+  }
+
+  const allowed = ALLOWED_CHILD_TYPES[parent.type] || [];
+  if (!allowed.includes(childType)) {
+    return {
+      error: `A ${childType} cannot be nested under a ${parent.type}`,
+      status: 400,
+    };
+  }
+
+  if (taskId) {
+    // Walk up from the proposed parent; reaching the task itself means a cycle
+    const visited = new Set();
+    let current = parent;
+    while (current) {
+      if (current.id === taskId) {
+        return {
+          error: "A task cannot be nested under itself or its own subtasks",
+          status: 400,
+        };
+      }
+      if (!current.parentId || visited.has(current.id)) break;
+      visited.add(current.id);
+      current = await prisma.task.findUnique({
+        where: { id: current.parentId },
+        select: { id: true, parentId: true },
+      });
+    }
+  }
+
+  return { error: null, parent };
+};
+
+/**
+ * Attach roll-up figures to a flat list of tasks that carry `parentId`.
+ * A leaf counts as 100% when DONE; a parent's progress is the share of its
+ * leaf descendants that are done and its story points are the sum of its
+ * children's (falling back to its own estimate while it has no children).
+ * ARCHIVED tasks are left out of the roll-up.
+ *
+ * When `tasks` is only a page of results, pass the page plus its descendants
+ * (with at least id, parentId, status and storyPoints) as `related` so
+ * roll-ups still count children outside the page.
+ */
+export const withRollups = (tasks, related = tasks) => {
+  const childrenByParent = new Map();
+  for (const task of related) {
+    if (!task.parentId) continue;
+    if (!childrenByParent.has(task.parentId)) {
+      childrenByParent.set(task.parentId, []);
+    }
+    childrenByParent.get(task.parentId).push(task);
+  }
+
+  const cache = new Map();
+  const compute = (task, seen = new Set()) => {
+    if (cache.has(task.id)) return cache.get(task.id);
+    seen.add(task.id);
+
+    const children = (childrenByParent.get(task.id) || []).filter(
+      (child) => child.status !== "ARCHIVED" && !seen.has(child.id)
+    );
+
+    let rollup;
+    if (children.length === 0) {
+      rollup = {
+        storyPoints: task.storyPoints || 0,
+        leafCount: 1,
+        doneCount: task.status === "DONE" ? 1 : 0,
+        childCount: 0,
+      };
+    } else {
+      rollup = children.reduce(
+        (acc, child) => {
+          const childRollup = compute(child, seen);
+          acc.storyPoints += childRollup.storyPoints;
+          acc.leafCount += childRollup.leafCount;
+          acc.doneCount += childRollup.doneCount;
+          return acc;
+        },
+        { storyPoints: 0, leafCount: 0, doneCount: 0, childCount: children.length }
+      );
+    }
+
+    cache.set(task.id, rollup);
+    return rollup;
+  };
+
+  return tasks.map((task) => {
+    const { storyPoints, leafCount, doneCount, childCount } = compute(task);
+    return {
+      ...task,
+      rollup: {
+        storyPoints,
+        childCount,
+        progress: leafCount ? Math.round((doneCount / leafCount) * 100) : 0,
+      },
+    };
+  });
+};
+
+/**
+ * Nest a flat, rolled-up list of tasks under `rootId`.
+ */
+export const buildTaskTree = (tasks, rootId) => {
+  const byId = new Map(tasks.map((task) => [task.id, { ...task, children: [] }]));
+  for (const node of byId.values()) {
+    if (node.parentId && byId.has(node.parentId) && node.id !== rootId) {
+      byId.get(node.parentId).children.push(node);
+    }
+  }
+  return byId.get(rootId) || null;
+};
+
+/**
+ * Load every task below `rootIds`, breadth first, with the fields withRollups
+ * needs. Lets a page of tasks be rolled up without reading its whole scope.
+ */
+export const getDescendants = async (rootIds) => {
+  const descendants = [];
+  let frontier = [...rootIds];
+  const seen = new Set(frontier);
+
+  while (frontier.length > 0) {
+    const children = await prisma.task.findMany({
+      where: { parentId: { in: frontier } },
+      select: { id: true, parentId: true, status: true, storyPoints: true },
+    });
+    const fresh = children.filter((child) => !seen.has(child.id));
+    fresh.forEach((child) => seen.add(child.id));
+    descendants.push(...fresh);
+    frontier = fresh.map((child) => child.id);
+  }
+
+  return descendants;
+};
+
+/**
+ * Collect the ids of every task below `rootId`, breadth first.
+ */
+export const getDescendantIds = async (rootId) =>
+  (await getDescendants([rootId])).map((task) => task.id);
@@ -0,0 +1,89 @@
+import prisma from "../db.js";
+
+// Issue keys look like "PIX-123": the project key, a dash, the task number
+export const TASK_KEY_PATTERN = /\b([A-Z][A-Z0-9]{0,9})-(\d+)\b/g;
+
+export const formatTaskKey = (projectKey, number) =>
+  projectKey && number != null ? `${projectKey}-${number}` : null;
+
+/**
+ * Split "PIX-123" (case-insensitive) into its project key and number.
+ * @returns {{ projectKey: string, number: number } | null}
+ */
+export const parseTaskKey = (key) => {
+  const match = String(key || "")
+    .trim()
+    .toUpperCase()
+    .match(/^([A-Z][A-Z0-9]{0,9})-(\d+)$/);
+  if (!match) return null;
+  return { projectKey: match[1], number: parseInt(match[2], 10) };
+};
+
+/**
+ * Add `key` to a task payload. Pass `projectKey` when the task was fetched
+ * without its project; otherwise `task.project.key` is used.
+ */
+export const withTaskKey = (task, projectKey) => ({
+  ...task,
+  key: formatTaskKey(projectKey ?? task.project?.key, task.number),
+});
+
+/**
+ * Derive a project key from its name ("Pixel Bay" -> "PIX") that is not
+ * already taken in the workspace, appending a digit when it is.
+ */
+export const generateProjectKey = async (name, workspaceId) => {
+  const base =
+    String(name || "")
+      .toUpperCase()
+      .replace(/[^A-Z0-9]/g, "")
+      .replace(/^[0-9]+/, "")
+      .slice(0, 3) || "PRJ";
+
+  const taken = await prisma.project.findMany({
+    where: { workspaceId, key: { startsWith: base } },
+    select: { key: true },
+  });
+  const takenKeys = new Set(taken.map((project) => project.key));
+
+  if (!takenKeys.has(base)) return base;
+  let suffix = 2;
+  while (takenKeys.has(`${base}${suffix}`)) suffix++;
+  return `${base}${suffix}`;
+};
+
+/**
+ * Create a project with a generated key. Two projects created at once can
+ * pick the same key; the unique index rejects the second, which then retries
+ * with the key that is now taken in view.
+ */
+export const createKeyedProject = async (data, attempts = 5) => {
+  for (let attempt = 1; ; attempt++) {
+    const key = await generateProjectKey(data.name, data.workspaceId);
+    try {
+      return await prisma.project.create({ data: { ...data, key } });
+    } catch (error) {
+      if (error.code !== "P2002" || attempt >= attempts) throw error;
+    }
+  }
+};
+
+/**
+ * Create a task with the next number from its project's counter. The
+ * counter increment and the insert run in one transaction so concurrent
+ * creations never share a number.
+ */
+export const createNumberedTask = async (data, include) =>
+  prisma.$transaction(async (tx) => {
+    const projectId = data.projectId ?? data.project?.connect?.id;
+    const { taskCounter } = await tx.project.update({
+      where: { id: projectId },
+      data: { taskCounter: { increment: 1 } },
+      select: { taskCounter: true },
+    });
+
+    return tx.task.create({
+      data: { ...data, number: taskCounter },
+      include,
+    });
+  });
@@ -0,0 +1,92 @@
+import prisma from "../db.js";
+
+// Link types accepted by the API. BLOCKED_BY is stored as the inverse
+// BLOCKS link so the blocking graph only has to be walked one way.
+export const TASK_LINK_TYPES = ["BLOCKS", "BLOCKED_BY", "DUPLICATES", "RELATES_TO"];
+
+// Statuses that no longer hold up the tasks they block
+const CLOSED_STATUSES = ["DONE", "ARCHIVED"];
+
+/**
+ * Turn a link requested from `taskId` to `otherTaskId` into the stored
+ * { type, sourceId, targetId } shape.
+ * @returns {{ type: string, sourceId: string, targetId: string } | null}
+ */
+export const normalizeTaskLink = (type, taskId, otherTaskId) => {
+  const value = String(type || "").toUpperCase().replace(/[\s-]/g, "_");
+  if (!TASK_LINK_TYPES.includes(value)) return null;
+
+  if (value === "BLOCKED_BY") {
+    return { type: "BLOCKS", sourceId: otherTaskId, targetId: taskId };
+  }
+  return { type: value, sourceId: taskId, targetId: otherTaskId };
+};
+
+/**
+ * Would adding "sourceId BLOCKS targetId" close a loop? True when
+ * `sourceId` is already reachable from `targetId` over BLOCKS links.
+ */
+export const createsBlockingCycle = async (sourceId, targetId) => {
+  if (sourceId === targetId) return true;
+
+  const visited = new Set([targetId]);
+  let frontier = [targetId];
+  while (frontier.length > 0) {
+    const links = await prisma.taskLink.findMany({
+      where: { type: "BLOCKS", sourceId: { in: frontier } },
+      select: { targetId: true },
+    });
+
+    frontier = [];
+    for (const { targetId: next } of links) {
+      if (next === sourceId) return true;
+      if (!visited.has(next)) {
+        visited.add(next);
+        frontier.push(next);
+      }
+    }
+  }
+  return false;
+};
+
+/** Tasks that block `taskId` and are not yet done or archived */
+export const getOpenBlockers = async (taskId) => {
+  const links = await prisma.taskLink.findMany({
+    where: {
+      type: "BLOCKS",
+      targetId: taskId,
+      source: { status: { notIn: CLOSED_STATUSES } },
+    },
+    include: {
+      source: {
+        select: {
+          id: true,
+          title: true,
+          status: true,
+          number: true,
+          project: { select: { key: true } },
+        },
+      },
+    },
+  });
+  return links.map((link) => link.source);
+};
+
+// Prisma include for list endpoints so cards can show a blocked indicator
+export const blockerInclude = {
+  incomingLinks: {
+    where: { type: "BLOCKS" },
+    select: { source: { select: { id: true, status: true } } },
+  },
+};
+
+/**
+ * Replace the raw `incomingLinks` of a task fetched with `blockerInclude`
+ * by `blockedBy`, the ids of its open blockers.
+ */
+export const withBlockedState = ({ incomingLinks = [], ...task }) => ({
+  ...task,
+  blockedBy: incomingLinks
+    .filter((link) => !CLOSED_STATUSES.includes(link.source.status))
+    .map((link) => link.source.id),
+});
@@ -0,0 +1,151 @@
+// Query-string handling shared by the task list endpoints:
+// ?status=TODO,IN_PROGRESS&priority=HIGH&type=BUG&assigneeId=me|none|<id>
+// &creatorId=<id>&sprintId=none|<id>&dueFrom=2025-01-01&dueTo=2025-02-01
+// &q=login&tags=bug,frontend&sort=dueDate&order=asc&limit=50&cursor=<taskId>
+
+export const TASK_SORT_FIELDS = [
+  "createdAt",
+  "updatedAt",
+  "dueDate",
+  "priority",
+  "status",
+  "title",
+  "number",
+];
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 200;
+
+const ENUM_VALUES = {
+  status: ["TODO", "IN_PROGRESS", "DONE", "ARCHIVED"],
+  priority: ["HIGH", "MEDIUM", "LOW"],
+  type: ["TASK", "BUG", "STORY", "EPIC"],
+};
+
+// "a, b,,c" -> ["a", "b", "c"]
+const splitList = (value) =>
+  String(value || "")
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+
+// Filter on a nullable id column where "none" matches unset values and
+// "me" resolves to the requesting user
+const idFilter = (field, value, userId) => {
+  const ids = splitList(value).map((id) => (id === "me" ? userId : id));
+  if (ids.length === 0) return {};
+
+  const realIds = ids.filter((id) => id !== "none");
+  if (realIds.length === ids.length) return { [field]: { in: realIds } };
+  return { OR: [{ [field]: null }, { [field]: { in: realIds } }] };
+};
+
+const parseDate = (value) => {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+};
+
+/**
+ * Parse `?tags=bug,frontend` (tag names or ids) into a Prisma task filter
+ * that matches tasks carrying any of the listed tags
+ */
+export const buildTagFilter = (tagsParam) => {
+  const values = splitList(tagsParam);
+  if (values.length === 0) return {};
+
+  return {
+    tags: {
+      some: {
+        tag: { OR: [{ id: { in: values } }, { name: { in: values } }] },
+      },
+    },
+  };
+};
+
+/**
+ * Turn list query parameters into Prisma `findMany` arguments.
+ * `scope` is the endpoint's own filter (a project or workspace) and is
+ * always applied. Returns `{ error }` for malformed parameters.
+ *
+ * @returns {{ error?: string, where?: Object, orderBy?: Object[], take?: number,
+ *   cursor?: Object, skip?: number, limit?: number }}
+ */
+export const buildTaskListQuery = (query, scope, userId) => {
+  const and = [scope, buildTagFilter(query.tags)];
+
+  for (const field of Object.keys(ENUM_VALUES)) {
+    const values = splitList(query[field]).map((value) => value.toUpperCase());
+    if (values.length === 0) continue;
+    const invalid = values.find((value) => !ENUM_VALUES[field].includes(value));
+    if (invalid) {
+      return { error: `Invalid ${field} "${invalid}"` };
+    }
+    and.push({ [field]: { in: values } });
+  }
+
+  for (const field of ["assigneeId", "creatorId", "sprintId"]) {
+    and.push(idFilter(field, query[field], userId));
+  }
+
+  const dueFrom = parseDate(query.dueFrom);
+  const dueTo = parseDate(query.dueTo);
+  if (dueFrom === null || dueTo === null) {
+    return { error: "dueFrom and dueTo must be valid dates" };
+  }
+  if (dueFrom || dueTo) {
+    and.push({ dueDate: { gte: dueFrom, lte: dueTo } });
+  }
+
+  const search = String(query.q || "").trim();
+  if (search) {
+    and.push({
+      OR: [
+        { title: { contains: search, mode: "insensitive" } },
+        { description: { contains: search, mode: "insensitive" } },
+      ],
+    });
+  }
+
+  const sort = query.sort || "createdAt";
+  if (!TASK_SORT_FIELDS.includes(sort)) {
+    return { error: `Cannot sort by "${sort}"` };
+  }
+  const order = String(query.order || "asc").toLowerCase();
+  if (!["asc", "desc"].includes(order)) {
+    return { error: 'order must be "asc" or "desc"' };
+  }
+
+  const limit = Math.min(
+    Math.max(parseInt(query.limit, 10) || DEFAULT_PAGE_SIZE, 1),
+    MAX_PAGE_SIZE
+  );
+
+  return {
+    where: { AND: and.filter((clause) => Object.keys(clause).length > 0) },
+    // The id tie-breaker keeps the order stable between pages
+    orderBy: [
+      sort === "dueDate"
+        ? { dueDate: { sort: order, nulls: "last" } }
+        : { [sort]: order },
+      { id: "asc" },
+    ],
+    // One extra row tells us whether another page follows
+    take: limit + 1,
+    ...(query.cursor ? { cursor: { id: String(query.cursor) }, skip: 1 } : {}),
+    limit,
+  };
+};
+
+/**
+ * Trim the extra row fetched by `buildTaskListQuery` and derive the cursor
+ * for the next page.
+ */
+export const toTaskPage = (rows, limit) => {
+  const hasMore = rows.length > limit;
+  const tasks = hasMore ? rows.slice(0, limit) : rows;
+  return {
+    tasks,
+    nextCursor: hasMore ? tasks[tasks.length - 1].id : null,
+  };
+};
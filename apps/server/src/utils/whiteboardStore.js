@@ -0,0 +1,323 @@
+import prisma from "../db.js";
+import {
+  applyUpdate,
+  compactDoc,
+  decodeDoc,
+  docFromActions,
+  encodeDoc,
+  insertAction,
+  isValidItem,
+  itemId,
+  toActions,
+} from "./boardDoc.js";
+
+// Wait this long after the last change before writing a board to the database
+export const SAVE_DEBOUNCE_MS = 2000;
+
+// Hard cap on actions in a rendered snapshot; the oldest strokes are
+// dropped beyond it
+export const MAX_BOARD_ACTIONS = 10000;
+
+// How far past the board's clock a client's items may go. Offline edits
+// stay well within this; it keeps anyone from running the clock up to where
+// it can no longer count.
+export const MAX_CLOCK_AHEAD = 1000000;
+
+// Version 1 stored a plain action list; version 2 stores the compacted
+// board document (see boardDoc.js)
+const BOARD_FORMAT_VERSION = 2;
+
+// A room's main board is keyed by its room code and stored on the Room.
+// Named boards are keyed "board:<id>" and stored in the Whiteboard table.
+// Every function below that takes a roomCode accepts either kind of key.
+const NAMED_BOARD_PREFIX = "board:";
+
+export const boardKey = (roomCode, boardId) =>
+  boardId ? `${NAMED_BOARD_PREFIX}${boardId}` : roomCode;
+
+// Socket.IO room for a board's live traffic, separate from the chat and
+// video room named after the room code
+export const boardChannel = (key) => `whiteboard:${key}`;
+
+const namedBoardId = (key) =>
+  key.startsWith(NAMED_BOARD_PREFIX)
+    ? key.slice(NAMED_BOARD_PREFIX.length)
+    : null;
+
+// Live board documents by key, plus in-flight loads and pending saves
+const boards = new Map();
+const loading = new Map();
+const saveTimers = new Map();
+// Live board document -> client id -> the author who sends as that client
+const clientAuthors = new WeakMap();
+
+// Object-level operations on shapes, text boxes and sticky notes
+export const OBJECT_ACTION_TYPES = [
+  "object-add",
+  "object-update",
+  "object-delete",
+];
+
+export const isObjectAction = (action) =>
+  OBJECT_ACTION_TYPES.includes(action?.type) &&
+  (action.type === "object-add"
+    ? typeof action.object?.id === "string"
+    : typeof action.id === "string");
+
+/**
+ * Fold each object's updates into its "object-add", keeping the object at
+ * its original stacking position, and drop objects that were deleted.
+ */
+const foldObjectActions = (actions) => {
+  const latest = new Map();
+  actions.forEach((action) => {
+    if (!isObjectAction(action)) return;
+    if (action.type === "object-add") {
+      latest.set(action.object.id, { ...action.object });
+    } else if (action.type === "object-update") {
+      const current = latest.get(action.id);
+      if (current) latest.set(action.id, { ...current, ...action.changes });
+    } else {
+      latest.set(action.id, null);
+    }
+  });
+
+  const emitted = new Set();
+  return actions.flatMap((action) => {
+    if (!OBJECT_ACTION_TYPES.includes(action?.type)) return [action];
+    if (action.type !== "object-add" || !isObjectAction(action)) return [];
+
+    const { id } = action.object;
+    const object = latest.get(id);
+    if (!object || emitted.has(id)) return [];
+    emitted.add(id);
+    return [{ ...action, object }];
+  });
+};
+
+/**
+ * Drop everything a later "clear" wiped out, fold object edits into their
+ * objects and cap the length, so the stored board is the smallest action
+ * list that redraws the same picture.
+ */
+export const compactActions = (actions) => {
+  let lastClear = -1;
+  actions.forEach((action, index) => {
+    if (action?.type === "clear") lastClear = index;
+  });
+
+  const visible = foldObjectActions(actions.slice(lastClear + 1));
+  return visible.length > MAX_BOARD_ACTIONS
+    ? visible.slice(visible.length - MAX_BOARD_ACTIONS)
+    : visible;
+};
+
+// Accept version 1 and bare action arrays as well as stored documents
+const readStoredActions = (whiteboardData) => {
+  if (Array.isArray(whiteboardData)) return whiteboardData;
+  if (Array.isArray(whiteboardData?.actions)) return whiteboardData.actions;
+  return [];
+};
+
+const readStoredDoc = (whiteboardData) =>
+  whiteboardData?.version === BOARD_FORMAT_VERSION
+    ? decodeDoc(whiteboardData)
+    : docFromActions(readStoredActions(whiteboardData));
+
+// Stored board data for a key, or null when its room or board is gone
+const loadStoredBoard = async (key) => {
+  const boardId = namedBoardId(key);
+  if (boardId) {
+    const board = await prisma.whiteboard.findUnique({
+      where: { id: boardId },
+      select: { data: true },
+    });
+    return board && { data: board.data };
+  }
+
+  const room = await prisma.room.findUnique({
+    where: { name: key },
+    select: { whiteboardData: true },
+  });
+  return room && { data: room.whiteboardData };
+};
+
+/**
+ * Get the live document for a board, loading it from the database the
+ * first time the board is used in this process.
+ */
+export const getBoard = async (roomCode) => {
+  if (boards.has(roomCode)) return boards.get(roomCode);
+  if (!loading.has(roomCode)) {
+    loading.set(
+      roomCode,
+      loadStoredBoard(roomCode)
+        .then((stored) => {
+          boards.set(roomCode, readStoredDoc(stored?.data));
+        })
+        .catch((error) => {
+          console.error(`Failed to load whiteboard for ${roomCode}:`, error);
+          boards.set(roomCode, docFromActions([]));
+        })
+        .finally(() => loading.delete(roomCode))
+    );
+  }
+  await loading.get(roomCode);
+  return boards.get(roomCode);
+};
+
+// Who each client id on a board belongs to, from its stamped actions the
+// first time the board is updated after loading
+const authorsFor = (doc) => {
+  if (!clientAuthors.has(doc)) {
+    const authors = new Map();
+    doc.order.forEach((item) => {
+      const authorId = item.action?.authorId;
+      if (authorId && !authors.has(item.client)) {
+        authors.set(item.client, authorId);
+      }
+    });
+    clientAuthors.set(doc, authors);
+  }
+  return clientAuthors.get(doc);
+};
+
+/**
+ * Merge items sent by a client into the live board. Actions are stamped
+ * with the sender so nobody can draw in someone else's name, and deletions
+ * only reach the sender's own items so undo cannot erase anyone else's.
+ * A client id belongs to the first author who sends with it, so items under
+ * someone else's id cannot take the ids their real items will need.
+ * @returns {Promise<object[]>} the items that were new, to relay to others
+ */
+export const applyBoardUpdate = async (roomCode, items, authorId) => {
+  const doc = await getBoard(roomCode);
+  const authors = authorsFor(doc);
+  const maxClock = doc.clock + MAX_CLOCK_AHEAD;
+  const stamped = (Array.isArray(items) ? items : [])
+    .filter(
+      (item) =>
+        isValidItem(item) &&
+        item.clock <= maxClock &&
+        item.client !== doc.clientId &&
+        (authors.get(item.client) ?? authorId) === authorId &&
+        (!OBJECT_ACTION_TYPES.includes(item.action?.type) ||
+          isObjectAction(item.action))
+    )
+    .map((item) =>
+      item.action ? { ...item, action: { ...item.action, authorId } } : item
+    );
+  stamped.forEach((item) => authors.set(item.client, authorId));
+
+  // Deletions may target items sent alongside them, e.g. offline undo
+  const known = new Map(doc.items);
+  stamped.forEach((item) => known.set(itemId(item), item));
+  const ownItemsOnly = stamped.flatMap((item) => {
+    if (!Array.isArray(item.deletes)) return [item];
+    const deletes = item.deletes.filter(
+      (id) => known.get(id)?.action?.authorId === authorId
+    );
+    return deletes.length > 0 ? [{ ...item, deletes }] : [];
+  });
+
+  return applyUpdate(doc, ownItemsOnly).added;
+};
+
+// Write the compacted document to the board's record right away
+export const saveBoard = async (roomCode) => {
+  clearTimeout(saveTimers.get(roomCode));
+  saveTimers.delete(roomCode);
+
+  const doc = boards.get(roomCode);
+  if (!doc) return;
+
+  const data = {
+    version: BOARD_FORMAT_VERSION,
+    ...encodeDoc(compactDoc(doc)),
+    updatedAt: new Date().toISOString(),
+  };
+  const boardId = namedBoardId(roomCode);
+
+  try {
+    const { count } = boardId
+      ? await prisma.whiteboard.updateMany({
+          where: { id: boardId },
+          data: { data },
+        })
+      : await prisma.room.updateMany({
+          where: { name: roomCode },
+          data: { whiteboardData: data },
+        });
+    if (count === 0) {
+      console.warn(`No board for ${roomCode}; whiteboard not persisted`);
+    }
+  } catch (error) {
+    console.error(`Failed to save whiteboard for ${roomCode}:`, error);
+  }
+};
+
+// Save the board once changes have settled for SAVE_DEBOUNCE_MS
+export const scheduleSave = (roomCode) => {
+  clearTimeout(saveTimers.get(roomCode));
+  saveTimers.set(
+    roomCode,
+    setTimeout(() => saveBoard(roomCode), SAVE_DEBOUNCE_MS)
+  );
+};
+
+// Persist and forget a board once the last user has left its room
+export const releaseBoard = async (roomCode) => {
+  if (!boards.has(roomCode)) return;
+  await saveBoard(roomCode);
+  // Someone may have rejoined and drawn while the save was running
+  if (!saveTimers.has(roomCode)) {
+    boards.delete(roomCode);
+  }
+};
+
+/**
+ * Replace a board's contents, e.g. with a restored snapshot, and save it
+ * right away. This is a clear followed by the new actions, so it merges
+ * with concurrent edits like any other change.
+ * @returns {Promise<object[]>} the new items, to send to the board's viewers
+ */
+export const replaceBoard = async (roomCode, actions) => {
+  const wasLive = boards.has(roomCode);
+  const doc = await getBoard(roomCode);
+  const items = [
+    insertAction(doc, { type: "clear", timestamp: Date.now() }),
+    ...actions.map((action) => insertAction(doc, action)),
+  ];
+  await saveBoard(roomCode);
+  if (!wasLive) boards.delete(roomCode);
+  return items;
+};
+
+// Forget a deleted board without saving it
+export const discardBoard = (roomCode) => {
+  clearTimeout(saveTimers.get(roomCode));
+  saveTimers.delete(roomCode);
+  boards.delete(roomCode);
+};
+
+/**
+ * Current board for the REST snapshot endpoint: the live copy when this
+ * process has the room open, otherwise what was last saved.
+ */
+export const getBoardSnapshot = async (roomCode) => {
+  if (boards.has(roomCode)) {
+    return {
+      actions: compactActions(toActions(boards.get(roomCode))),
+      live: true,
+    };
+  }
+
+  const stored = await loadStoredBoard(roomCode);
+  if (!stored) return null;
+
+  return {
+    actions: compactActions(toActions(readStoredDoc(stored.data))),
+    updatedAt: stored.data?.updatedAt ?? null,
+    live: false,
+  };
+};
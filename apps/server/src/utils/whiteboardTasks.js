@@ -0,0 +1,57 @@
+// Most notes converted into tasks in one request
+export const MAX_NOTES_PER_CONVERSION = 50;
+
+// Task titles longer than this are cut; the full note goes to the description
+export const MAX_NOTE_TITLE_LENGTH = 200;
+
+/**
+ * Turn a sticky note or text box into task fields. The first line becomes
+ * the title; multi-line or overlong notes keep their full text as the
+ * description so nothing written on the board is lost.
+ * @returns {{ title: string, description: string|null } | null} null for empty notes
+ */
+export const noteToTaskFields = (text) => {
+  const lines = String(text || "")
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean);
+  if (lines.length === 0) return null;
+
+  const firstLine = lines[0].replace(/\s+/g, " ");
+  const title =
+    firstLine.length > MAX_NOTE_TITLE_LENGTH
+      ? `${firstLine.slice(0, MAX_NOTE_TITLE_LENGTH - 1)}…`
+      : firstLine;
+  const description =
+    lines.length > 1 || title !== firstLine ? lines.join("\n") : null;
+
+  return { title, description };
+};
+
+/**
+ * Validate the `notes` list of a conversion request.
+ * @returns {{ notes: {objectId: string, title: string, description: string|null}[] } | { error: string }}
+ */
+export const parseNotesForTasks = (notes) => {
+  if (!Array.isArray(notes) || notes.length === 0) {
+    return { error: "Select at least one note to convert" };
+  }
+  if (notes.length > MAX_NOTES_PER_CONVERSION) {
+    return {
+      error: `At most ${MAX_NOTES_PER_CONVERSION} notes can be converted at once`,
+    };
+  }
+
+  const parsed = [];
+  for (const note of notes) {
+    if (typeof note?.objectId !== "string" || !note.objectId) {
+      return { error: "Each note needs an objectId" };
+    }
+    const fields = noteToTaskFields(note.text);
+    if (!fields) {
+      return { error: "Notes without text cannot become tasks" };
+    }
+    parsed.push({ objectId: note.objectId, ...fields });
+  }
+  return { notes: parsed };
+};